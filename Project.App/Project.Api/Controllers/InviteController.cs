@@ -0,0 +1,107 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Services.Interface;
+
+namespace Project.Api.Controllers;
+
+[ApiController]
+[Route("api/invite")]
+[Authorize] // Require authentication for all invite endpoints
+public class InviteController(
+    IRoomInviteService inviteService,
+    IUserService userService,
+    ILogger<InviteController> logger
+) : ControllerBase
+{
+    private readonly IRoomInviteService _inviteService = inviteService;
+    private readonly IUserService _userService = userService;
+    private readonly ILogger<InviteController> _logger = logger;
+
+    // GET: api/invite/{code}
+    [HttpGet("{code}")]
+    public async Task<ActionResult<RoomInviteDTO>> ResolveInvite(string code)
+    {
+        var invite = await _inviteService.ResolveInviteAsync(code);
+        return Ok(invite);
+    }
+
+    // POST: api/invite/{code}/join
+    [HttpPost("{code}/join")]
+    public async Task<ActionResult<RoomDTO>> JoinWithInvite(string code)
+    {
+        var me = await GetCurrentUserAsync();
+        if (me is null)
+            return Unauthorized();
+
+        var room = await _inviteService.JoinWithInviteAsync(code, me.Id);
+        return Ok(room);
+    }
+
+    // --- Host Endpoints ---
+
+    // GET: api/invite/room/{roomId}
+    [HttpGet("room/{roomId}")]
+    public async Task<ActionResult<IEnumerable<RoomInviteDTO>>> GetRoomInvites(Guid roomId)
+    {
+        var me = await GetCurrentUserAsync();
+        if (me is null)
+            return Unauthorized();
+
+        var invites = await _inviteService.GetInvitesAsync(roomId, me.Id);
+        return Ok(invites);
+    }
+
+    // POST: api/invite/room/{roomId}
+    [HttpPost("room/{roomId}")]
+    public async Task<ActionResult<RoomInviteDTO>> CreateInvite(
+        Guid roomId,
+        [FromBody] CreateRoomInviteDTO dto
+    )
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var me = await GetCurrentUserAsync();
+        if (me is null)
+            return Unauthorized();
+
+        var invite = await _inviteService.CreateInviteAsync(roomId, me.Id, dto);
+        return CreatedAtAction(nameof(ResolveInvite), new { code = invite.Code }, invite);
+    }
+
+    // POST: api/invite/{code}/rotate
+    [HttpPost("{code}/rotate")]
+    public async Task<ActionResult<RoomInviteDTO>> RotateInvite(string code)
+    {
+        var me = await GetCurrentUserAsync();
+        if (me is null)
+            return Unauthorized();
+
+        var invite = await _inviteService.RotateInviteAsync(code, me.Id);
+        return Ok(invite);
+    }
+
+    // DELETE: api/invite/{code}
+    [HttpDelete("{code}")]
+    public async Task<ActionResult> RevokeInvite(string code)
+    {
+        var me = await GetCurrentUserAsync();
+        if (me is null)
+            return Unauthorized();
+
+        await _inviteService.RevokeInviteAsync(code, me.Id);
+        return NoContent();
+    }
+
+    // identity comes from the auth cookie
+    private async Task<User?> GetCurrentUserAsync()
+    {
+        var email = User.FindFirst(System.Security.Claims.ClaimTypes.Email)?.Value;
+        if (string.IsNullOrWhiteSpace(email))
+            return null;
+
+        return await _userService.GetUserByEmailAsync(email);
+    }
+}
@@ -0,0 +1,24 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Project.Api.DTOs;
+using Project.Api.Services.Interface;
+
+namespace Project.Api.Controllers;
+
+[ApiController]
+[Route("api/leaderboard")]
+[Authorize]
+public class LeaderboardController(ILeaderboardService leaderboardService) : ControllerBase
+{
+    private readonly ILeaderboardService _leaderboardService = leaderboardService;
+
+    // GET: api/leaderboard?metric=NetWinnings&window=Weekly&page=1&pageSize=20
+    [HttpGet]
+    public async Task<ActionResult<PagedResultDTO<LeaderboardEntryDTO>>> GetLeaderboard(
+        [FromQuery] LeaderboardQuery query
+    )
+    {
+        var leaderboard = await _leaderboardService.GetLeaderboardAsync(query);
+        return Ok(leaderboard);
+    }
+}
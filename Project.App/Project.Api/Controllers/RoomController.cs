@@ -2,8 +2,10 @@ using System.Text.Json;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Project.Api.DTOs;
+using Project.Api.Models;
 using Project.Api.Models.Games;
 using Project.Api.Repositories.Interface;
+using Project.Api.Services;
 using Project.Api.Services.Interface;
 using Project.Api.Utilities;
 using Project.Api.Utilities.Enums;
@@ -46,6 +48,34 @@ public class RoomController(
         return Ok(rooms);
     }
 
+    // GET: api/room/browse?gameMode=&minBetFrom=&minBetTo=&hasFreeSeats=&sortBy=&descending=&page=&pageSize=
+    // Public rooms for the room browser, kept up to date by the lobby's event stream
+    [HttpGet("browse")]
+    public async Task<ActionResult<PagedResultDTO<RoomSummaryDTO>>> BrowseRooms(
+        [FromQuery] RoomSearchQuery query,
+        [FromServices] ILobbyService lobbyService
+    )
+    {
+        var rooms = await lobbyService.SearchRoomsAsync(query);
+        return Ok(rooms);
+    }
+
+    // GET: api/room/mine
+    // Active rooms the logged-in user hosts or has a seat in
+    [HttpGet("mine")]
+    public async Task<ActionResult<IEnumerable<RoomSummaryDTO>>> GetMyRooms(
+        [FromServices] ILobbyService lobbyService,
+        [FromServices] IUserService userService
+    )
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        var rooms = await lobbyService.GetRoomsForUserAsync(me.Id);
+        return Ok(rooms);
+    }
+
     // GET: api/room/{id}
     [HttpGet("{id}")]
     public async Task<ActionResult<RoomDTO>> GetRoomById(Guid id)
@@ -165,17 +195,25 @@ public class RoomController(
     }
 
     // POST: api/room/{roomId}/player/{playerId}/action
+    // Send an Idempotency-Key header to make retrying safe, repeats with the same key are only applied once.
     [HttpPost("{roomId}/player/{playerId}/action")]
     public async Task<ActionResult> PerformPlayerAction(
         Guid roomId,
         Guid playerId,
-        [FromBody] PlayerActionRequest request
+        [FromBody] PlayerActionRequest request,
+        [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey = null
     )
     {
         if (!ModelState.IsValid)
             return BadRequest(ModelState);
 
-        await _roomService.PerformPlayerActionAsync(roomId, playerId, request.Action, request.Data);
+        await _roomService.PerformPlayerActionAsync(
+            roomId,
+            playerId,
+            request.Action,
+            request.Data,
+            idempotencyKey
+        );
         return Ok(new { message = "Action performed successfully" });
     }
 
@@ -227,26 +265,211 @@ public class RoomController(
             status = p.Status.ToString(),
             balance = p.Balance,
             balanceDelta = p.BalanceDelta,
+            botPolicy = p.BotPolicy?.ToString(), // null for people
         });
         return Ok(playerDtos);
     }
 
+    // GET: api/room/{roomId}/spectators
+    // Users watching the room without a seat, players who left included
+    [AllowAnonymous]
+    [HttpGet("{roomId}/spectators")]
+    public async Task<ActionResult<IEnumerable<RoomViewerDTO>>> GetRoomSpectators(
+        Guid roomId,
+        [FromServices] IRoomPlayerRepository roomPlayerRepository
+    )
+    {
+        HashSet<Guid> seated =
+        [
+            .. (await roomPlayerRepository.GetByRoomIdAsync(roomId))
+                .Where(p => p.Status != Status.Left)
+                .Select(p => p.UserId),
+        ];
+        return Ok(_roomSSEService.GetViewers(roomId).Where(v => !seated.Contains(v.UserId)));
+    }
+
+    // --- Round History ---
+
+    // GET: api/room/{roomId}/rounds?page=&pageSize=
+    // The room's finished rounds, the latest first
+    [HttpGet("{roomId}/rounds")]
+    public async Task<ActionResult<PagedResultDTO<RoundSummaryDTO>>> GetRounds(
+        Guid roomId,
+        [FromServices] IRoundHistoryService roundHistoryService,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 20
+    )
+    {
+        var rounds = await roundHistoryService.GetRoundsAsync(roomId, page, pageSize);
+        return Ok(rounds);
+    }
+
+    // GET: api/room/{roomId}/rounds/{roundId}
+    // A finished round with its events, to replay it
+    [HttpGet("{roomId}/rounds/{roundId}")]
+    public async Task<ActionResult<RoundRecordDTO>> GetRound(
+        Guid roomId,
+        Guid roundId,
+        [FromServices] IRoundHistoryService roundHistoryService
+    )
+    {
+        var round = await roundHistoryService.GetRoundAsync(roomId, roundId);
+        return Ok(round);
+    }
+
+    // --- Host Controls ---
+
+    // POST: api/room/{roomId}/host/kick
+    [HttpPost("{roomId}/host/kick")]
+    public async Task<ActionResult> KickPlayer(
+        Guid roomId,
+        [FromBody] KickPlayerDTO dto,
+        [FromServices] IUserService userService
+    )
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        await _roomService.KickPlayerAsync(roomId, me.Id, dto.UserId, dto.Ban);
+        return NoContent();
+    }
+
+    // POST: api/room/{roomId}/host/bots
+    // Seats a bot, bots are removed by kicking them
+    [HttpPost("{roomId}/host/bots")]
+    public async Task<ActionResult> AddBot(
+        Guid roomId,
+        [FromBody] AddBotDTO dto,
+        [FromServices] IUserService userService
+    )
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        await _roomService.AddBotAsync(roomId, me.Id, dto.Policy);
+        return NoContent();
+    }
+
+    // POST: api/room/{roomId}/host/transfer
+    [HttpPost("{roomId}/host/transfer")]
+    public async Task<ActionResult> TransferHost(
+        Guid roomId,
+        [FromBody] TransferHostDTO dto,
+        [FromServices] IUserService userService
+    )
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        await _roomService.TransferHostAsync(roomId, me.Id, dto.UserId);
+        return NoContent();
+    }
+
+    // POST: api/room/{roomId}/host/pause
+    [HttpPost("{roomId}/host/pause")]
+    public async Task<ActionResult> PauseGame(Guid roomId, [FromServices] IUserService userService)
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        await _roomService.PauseGameAsync(roomId, me.Id);
+        return NoContent();
+    }
+
+    // POST: api/room/{roomId}/host/resume
+    [HttpPost("{roomId}/host/resume")]
+    public async Task<ActionResult> ResumeGame(Guid roomId, [FromServices] IUserService userService)
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        await _roomService.ResumeGameAsync(roomId, me.Id);
+        return NoContent();
+    }
+
+    // PUT: api/room/{roomId}/host/config
+    // Games that have started apply the new settings from the next round
+    [HttpPut("{roomId}/host/config")]
+    public async Task<ActionResult> UpdateBlackjackConfig(
+        Guid roomId,
+        [FromBody] UpdateBlackjackConfigDTO dto,
+        [FromServices] IUserService userService
+    )
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        await _roomService.UpdateBlackjackConfigAsync(roomId, me.Id, dto);
+        return NoContent();
+    }
+
+    // identity comes from the auth cookie
+    private async Task<User?> GetCurrentUserAsync(IUserService userService)
+    {
+        string? email = User.FindFirst(System.Security.Claims.ClaimTypes.Email)?.Value;
+        return email is null ? null : await userService.GetUserByEmailAsync(email);
+    }
+
     #region SSE
 
     private readonly IRoomSSEService _roomSSEService = roomSSEService;
 
     /// <summary>
     /// Long‑lived SSE endpoint for clients to subscribe to room events.
+    /// Clients resuming a stream can pass the id of the last event they saw, either through the
+    /// standard Last-Event-ID header or the lastEventId query parameter.
     /// </summary>
     /// <param name="roomId"></param>
+    /// <param name="lastEventId"></param>
+    /// <param name="userService">Identifies logged-in viewers, anonymous ones are not announced</param>
     /// <returns></returns>
     [AllowAnonymous]
     [HttpGet("{roomId}/events")]
-    public async Task GetRoomEvents(Guid roomId)
+    public async Task GetRoomEvents(
+        Guid roomId,
+        [FromQuery] long? lastEventId = null,
+        [FromServices] IUserService? userService = null
+    )
     {
+        // the lobby's channel, see GetLobbyEvents
+        if (roomId == LobbyService.LobbyChannelId)
+            throw new NotFoundException($"Room with ID {roomId} not found.");
+
         if (HttpContext.Request.Headers.Accept.Contains("text/event-stream"))
         {
-            await _roomSSEService.AddConnectionAsync(roomId, HttpContext.Response);
+            // browsers send the header on their own when retrying, prefer it if present
+            if (
+                long.TryParse(
+                    HttpContext.Request.Headers["Last-Event-ID"].FirstOrDefault(),
+                    out long headerEventId
+                )
+            )
+            {
+                lastEventId = headerEventId;
+            }
+
+            RoomViewerDTO? viewer = null;
+            string? email = User.FindFirst(System.Security.Claims.ClaimTypes.Email)?.Value;
+            if (email is not null && userService is not null)
+            {
+                User? user = await userService.GetUserByEmailAsync(email);
+                viewer = user is null
+                    ? null
+                    : new RoomViewerDTO { UserId = user.Id, UserName = user.Name };
+            }
+
+            await _roomSSEService.AddConnectionAsync(
+                roomId,
+                HttpContext.Response,
+                lastEventId,
+                viewer
+            );
         }
         else
         {
@@ -257,26 +480,102 @@ public class RoomController(
     }
 
     /// <summary>
-    /// Test endpoint to broadcast an event to all clients in a room.
-    /// Authenticated per user, but allows anonymous users to send messages.
+    /// Long‑lived SSE endpoint for the room browser, announcing rooms as they are created, change or close.
+    /// Resuming works the same as for room events.
     /// </summary>
     [AllowAnonymous]
-    [HttpPost("{roomId}/chat")]
-    public async Task<IActionResult> BroadcastMessage(Guid roomId, [FromBody] MessageDTO message)
+    [HttpGet("lobby/events")]
+    public async Task GetLobbyEvents(
+        [FromServices] ILobbyService lobbyService,
+        [FromQuery] long? lastEventId = null
+    )
     {
-        if (message == null || string.IsNullOrWhiteSpace(message.Content))
+        if (!HttpContext.Request.Headers.Accept.Contains("text/event-stream"))
         {
-            throw new BadRequestException("Message content cannot be empty.");
+            throw new BadRequestException(
+                "This endpoint requires the header 'Accept: text/event-stream'."
+            );
         }
 
-        ChatEventData data = new()
+        if (
+            long.TryParse(
+                HttpContext.Request.Headers["Last-Event-ID"].FirstOrDefault(),
+                out long headerEventId
+            )
+        )
         {
-            Sender = User.Identity?.Name ?? "Anonymous",
-            Content = message.Content,
-        };
+            lastEventId = headerEventId;
+        }
+
+        await lobbyService.AddConnectionAsync(HttpContext.Response, lastEventId);
+    }
 
-        await _roomSSEService.BroadcastEventAsync(roomId, RoomEventType.Chat, data);
-        return Ok();
+    #endregion
+
+    #region Chat
+
+    // GET: api/room/{roomId}/chat
+    // The latest messages and who is muted, for catching up after joining or reconnecting
+    [HttpGet("{roomId}/chat")]
+    public async Task<ActionResult<ChatHistoryDTO>> GetChatHistory(
+        Guid roomId,
+        [FromServices] IChatService chatService
+    )
+    {
+        var history = await chatService.GetHistoryAsync(roomId);
+        return Ok(history);
+    }
+
+    // POST: api/room/{roomId}/chat
+    // Rate limited per user, see ChatRateLimitService
+    [HttpPost("{roomId}/chat")]
+    public async Task<ActionResult<ChatEventData>> SendChatMessage(
+        Guid roomId,
+        [FromBody] MessageDTO message,
+        [FromServices] IChatService chatService,
+        [FromServices] IUserService userService
+    )
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        var sent = await chatService.SendMessageAsync(roomId, me.Id, message?.Content ?? "");
+        return Ok(sent);
+    }
+
+    // DELETE: api/room/{roomId}/chat/{messageId}
+    [HttpDelete("{roomId}/chat/{messageId}")]
+    public async Task<ActionResult> DeleteChatMessage(
+        Guid roomId,
+        Guid messageId,
+        [FromServices] IChatService chatService,
+        [FromServices] IUserService userService
+    )
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        await chatService.DeleteMessageAsync(roomId, me.Id, messageId);
+        return NoContent();
+    }
+
+    // POST: api/room/{roomId}/host/mute
+    [HttpPost("{roomId}/host/mute")]
+    public async Task<ActionResult> MuteUser(
+        Guid roomId,
+        [FromBody] MuteUserDTO dto,
+        [FromServices] IChatService chatService,
+        [FromServices] IUserService userService
+    )
+    {
+        User? me = await GetCurrentUserAsync(userService);
+        if (me is null)
+            return Unauthorized();
+
+        await chatService.SetMutedAsync(roomId, me.Id, dto.UserId, dto.Muted);
+        return NoContent();
     }
 
     #endregion
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using Project.Api.DTOs;
 using Project.Api.Models;
 using Project.Api.Repositories.Interface;
 using Project.Api.Services.Interface;
@@ -35,6 +36,18 @@ namespace Project.Api.Controllers
             return Ok(user);
         }
 
+        // GET: api/user/{id}/stats
+        // Results over every recorded round the user played
+        [HttpGet("{id}/stats")]
+        public async Task<ActionResult<PlayerStatsDTO>> GetUserStats(
+            Guid id,
+            [FromServices] IPlayerStatsService playerStatsService
+        )
+        {
+            var stats = await playerStatsService.GetStatsAsync(id);
+            return Ok(stats);
+        }
+
         // POST: api/user
         [HttpPost]
         public async Task<ActionResult<User>> CreateUser([FromBody] User user)
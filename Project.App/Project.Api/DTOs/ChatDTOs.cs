@@ -0,0 +1,16 @@
+using Project.Api.Models.Games;
+
+namespace Project.Api.DTOs;
+
+/// <summary>
+/// A room's recent chat, for people joining after it was sent.
+/// </summary>
+public class ChatHistoryDTO
+{
+    /// <summary>
+    /// The latest messages, oldest first, the same as they were broadcast.
+    /// </summary>
+    public List<ChatEventData> Messages { get; set; } = [];
+
+    public List<Guid> MutedUserIds { get; set; } = [];
+}
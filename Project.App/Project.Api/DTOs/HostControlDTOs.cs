@@ -0,0 +1,44 @@
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.DTOs;
+
+public class KickPlayerDTO
+{
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// Keeps the player from taking a seat in the room again.
+    /// </summary>
+    public bool Ban { get; set; }
+}
+
+public class AddBotDTO
+{
+    public BotPolicy Policy { get; set; } = BotPolicy.BasicStrategy;
+}
+
+public class MuteUserDTO
+{
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// False to unmute the user.
+    /// </summary>
+    public bool Muted { get; set; } = true;
+}
+
+public class TransferHostDTO
+{
+    public Guid UserId { get; set; }
+}
+
+/// <summary>
+/// The settings a host can change during a game, applied from the next round.
+/// </summary>
+public class UpdateBlackjackConfigDTO
+{
+    public long MinBet { get; set; }
+    public TimeSpan BettingTimeLimit { get; set; }
+    public TimeSpan TurnTimeLimit { get; set; }
+    public bool AllowBalanceReset { get; set; }
+}
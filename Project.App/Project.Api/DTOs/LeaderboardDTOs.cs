@@ -0,0 +1,31 @@
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.DTOs;
+
+/// <summary>
+/// Which leaderboard to show. Daily and weekly leaderboards count the rounds of the last 24 hours and 7 days,
+/// and a win streak reached in that time counts in full, with the wins before it.
+/// </summary>
+public class LeaderboardQuery
+{
+    public LeaderboardMetric Metric { get; set; } = LeaderboardMetric.NetWinnings;
+    public LeaderboardWindow Window { get; set; } = LeaderboardWindow.AllTime;
+    public int Page { get; set; } = 1;
+    public int PageSize { get; set; } = 20;
+}
+
+public class LeaderboardEntryDTO
+{
+    /// <summary>
+    /// Players with the same value share a rank, the next rank is skipped (1, 2, 2, 4).
+    /// </summary>
+    public int Rank { get; set; }
+    public Guid UserId { get; set; }
+    public string UserName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Chips for net winnings and the biggest win, hands in a row for the win streak.
+    /// </summary>
+    public long Value { get; set; }
+    public int HandsPlayed { get; set; }
+}
@@ -0,0 +1,59 @@
+namespace Project.Api.DTOs;
+
+/// <summary>
+/// A player's results over every recorded round they played, see <see cref="RoundRecordDTO"/>.
+/// Rates are fractions of the hands played, 0 if there are none.
+/// </summary>
+public class PlayerStatsDTO
+{
+    public Guid UserId { get; set; }
+    public int RoundsPlayed { get; set; }
+
+    /// <summary>
+    /// Each hand counts, so a split adds a hand.
+    /// </summary>
+    public int HandsPlayed { get; set; }
+    public int Wins { get; set; }
+    public int Losses { get; set; } // surrendered hands included
+    public int Pushes { get; set; }
+    public int Blackjacks { get; set; }
+    public int Busts { get; set; }
+    public int Doubles { get; set; }
+    public int Splits { get; set; }
+    public int Surrenders { get; set; }
+
+    public double WinRate => Rate(Wins);
+    public double LossRate => Rate(Losses);
+    public double PushRate => Rate(Pushes);
+    public double BlackjackRate => Rate(Blackjacks);
+    public double BustRate => Rate(Busts);
+
+    public long TotalBet { get; set; }
+
+    /// <summary>
+    /// What the player won less what they lost, over all rounds.
+    /// </summary>
+    public long NetWinnings { get; set; }
+
+    /// <summary>
+    /// The most won in a single round, 0 if the player never came out ahead.
+    /// </summary>
+    public long BiggestWin { get; set; }
+
+    /// <summary>
+    /// The running net winnings after each round, oldest first.
+    /// </summary>
+    public List<BankrollPointDTO> Bankroll { get; set; } = [];
+
+    private double Rate(int count) => HandsPlayed == 0 ? 0 : (double)count / HandsPlayed;
+}
+
+public class BankrollPointDTO
+{
+    public Guid RoundId { get; set; }
+    public Guid RoomId { get; set; }
+    public int RoundNumber { get; set; }
+    public DateTimeOffset FinishedAt { get; set; }
+    public long Net { get; set; } // won or lost this round
+    public long Total { get; set; } // net winnings up to and including this round
+}
@@ -11,7 +11,6 @@ public class RoomDTO
     public string? Description { get; set; }
     public int MaxPlayers { get; set; }
     public int MinPlayers { get; set; }
-    public string DeckId { get; set; } = string.Empty;
     public DateTimeOffset CreatedAt { get; set; }
     public bool IsActive { get; set; }
 }
@@ -0,0 +1,24 @@
+namespace Project.Api.DTOs;
+
+public class RoomInviteDTO
+{
+    public string Code { get; set; } = string.Empty;
+    public Guid RoomId { get; set; }
+    public DateTimeOffset CreatedAt { get; set; }
+    public DateTimeOffset? ExpiresAt { get; set; }
+    public int? MaxUses { get; set; }
+    public int Uses { get; set; }
+}
+
+public class CreateRoomInviteDTO
+{
+    /// <summary>
+    /// How long the code works for, null for no expiry.
+    /// </summary>
+    public int? ExpiresInMinutes { get; set; }
+
+    /// <summary>
+    /// How many people can join with the code, null for no limit.
+    /// </summary>
+    public int? MaxUses { get; set; }
+}
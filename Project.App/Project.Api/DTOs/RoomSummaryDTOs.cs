@@ -0,0 +1,51 @@
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.DTOs;
+
+/// <summary>
+/// A room as listed in the lobby, without its game state.
+/// </summary>
+public class RoomSummaryDTO
+{
+    public Guid Id { get; set; }
+    public Guid HostId { get; set; }
+    public string HostName { get; set; } = string.Empty;
+    public bool IsPublic { get; set; }
+    public string GameMode { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public long MinBet { get; set; }
+    public int MaxPlayers { get; set; }
+    public int MinPlayers { get; set; }
+
+    /// <summary>
+    /// Players with a seat, players who left are not counted.
+    /// </summary>
+    public int PlayerCount { get; set; }
+    public int FreeSeats => Math.Max(0, MaxPlayers - PlayerCount);
+    public bool IsStarted { get; set; }
+    public bool IsActive { get; set; }
+    public DateTimeOffset CreatedAt { get; set; }
+}
+
+/// <summary>
+/// Filters, sorting and paging for browsing rooms, all optional.
+/// </summary>
+public class RoomSearchQuery
+{
+    public string? GameMode { get; set; }
+    public long? MinBetFrom { get; set; }
+    public long? MinBetTo { get; set; }
+    public bool HasFreeSeats { get; set; }
+    public RoomSortBy SortBy { get; set; } = RoomSortBy.CreatedAt;
+    public bool Descending { get; set; } = true;
+    public int Page { get; set; } = 1;
+    public int PageSize { get; set; } = 20;
+}
+
+public class PagedResultDTO<T>
+{
+    public IReadOnlyList<T> Items { get; set; } = [];
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+    public int TotalCount { get; set; }
+}
@@ -0,0 +1,10 @@
+namespace Project.Api.DTOs;
+
+/// <summary>
+/// A user watching a room through its event stream, whether or not they have a seat.
+/// </summary>
+public record RoomViewerDTO
+{
+    public Guid UserId { get; init; }
+    public string UserName { get; init; } = string.Empty;
+}
@@ -0,0 +1,54 @@
+using System.Text.Json;
+
+namespace Project.Api.DTOs;
+
+/// <summary>
+/// A finished round as listed in a room's history, without its events.
+/// </summary>
+public class RoundSummaryDTO
+{
+    public Guid Id { get; set; }
+    public Guid RoomId { get; set; }
+    public int RoundNumber { get; set; }
+    public DateTimeOffset FinishedAt { get; set; }
+    public List<CardDTO> DealerHand { get; set; } = [];
+    public int DealerScore { get; set; }
+    public List<RoundHandDTO> Hands { get; set; } = [];
+}
+
+/// <summary>
+/// A finished round with everything needed to replay it.
+/// </summary>
+public class RoundRecordDTO : RoundSummaryDTO
+{
+    public List<RoundEventDTO> Events { get; set; } = [];
+}
+
+/// <summary>
+/// One of a player's hands at the end of a round.
+/// </summary>
+public class RoundHandDTO
+{
+    public Guid PlayerId { get; set; } // user id, like in the room's events
+    public string PlayerName { get; set; } = string.Empty;
+    public int HandIndex { get; set; }
+    public long Bet { get; set; }
+    public List<CardDTO> Cards { get; set; } = [];
+    public int Score { get; set; }
+
+    /// <summary>
+    /// What the hand paid back at the end of the round, including the returned bet. 0 if it lost.
+    /// </summary>
+    public long Payout { get; set; }
+}
+
+/// <summary>
+/// A room event as it was broadcast, see <see cref="Models.Games.IRoomEventData"/>.
+/// </summary>
+public class RoundEventDTO
+{
+    public long Id { get; set; }
+    public string Event { get; set; } = string.Empty; // snake_case, like the event stream
+    public JsonElement Data { get; set; }
+    public DateTimeOffset Timestamp { get; set; }
+}
@@ -12,6 +12,11 @@ public partial class AppDbContext : DbContext
     public DbSet<Room> Rooms { get; set; }
     public DbSet<RoomPlayer> RoomPlayers { get; set; }
     public DbSet<Hand> Hands { get; set; }
+    public DbSet<RoomInvite> RoomInvites { get; set; }
+    public DbSet<RoundRecord> RoundRecords { get; set; }
+    public DbSet<HandOutcome> HandOutcomes { get; set; }
+    public DbSet<ChatMessage> ChatMessages { get; set; }
+    public DbSet<ChatMute> ChatMutes { get; set; }
 
     /// <summary>
     /// Provides the configuration for TradeHubContext models.
@@ -0,0 +1,51 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Project.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRoundRecords : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "RoundRecords",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    RoomId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    RoundNumber = table.Column<int>(type: "int", nullable: false),
+                    FinishedAt = table.Column<DateTimeOffset>(type: "datetimeoffset", nullable: false),
+                    DealerHand = table.Column<string>(type: "nvarchar(max)", nullable: false),
+                    DealerScore = table.Column<int>(type: "int", nullable: false),
+                    Hands = table.Column<string>(type: "nvarchar(max)", nullable: false),
+                    Events = table.Column<string>(type: "nvarchar(max)", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_RoundRecords", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_RoundRecords_Rooms_RoomId",
+                        column: x => x.RoomId,
+                        principalTable: "Rooms",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RoundRecords_RoomId_RoundNumber",
+                table: "RoundRecords",
+                columns: new[] { "RoomId", "RoundNumber" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "RoundRecords");
+        }
+    }
+}
@@ -0,0 +1,123 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Project.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddHandOutcomes : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "HandOutcomes",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    RoundRecordId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    UserId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    FinishedAt = table.Column<DateTimeOffset>(type: "datetimeoffset", nullable: false),
+                    HandIndex = table.Column<int>(type: "int", nullable: false),
+                    Net = table.Column<long>(type: "bigint", nullable: false),
+                    IsWin = table.Column<bool>(type: "bit", nullable: false),
+                    IsLoss = table.Column<bool>(type: "bit", nullable: false),
+                    WinStreak = table.Column<int>(type: "int", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_HandOutcomes", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_HandOutcomes_RoundRecords_RoundRecordId",
+                        column: x => x.RoundRecordId,
+                        principalTable: "RoundRecords",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_HandOutcomes_Users_UserId",
+                        column: x => x.UserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_HandOutcomes_FinishedAt",
+                table: "HandOutcomes",
+                column: "FinishedAt");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_HandOutcomes_RoundRecordId",
+                table: "HandOutcomes",
+                column: "RoundRecordId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_HandOutcomes_UserId_FinishedAt",
+                table: "HandOutcomes",
+                columns: new[] { "UserId", "FinishedAt" });
+
+            // the rounds recorded so far, worked out like RoundRecordRepository.CreateAsync does:
+            // surrendered hands only get their refund, bots are left out, and a win streak
+            // counts the wins since the player's last loss
+            migrationBuilder.Sql(
+                """
+                WITH Results AS (
+                    SELECT
+                        r.Id AS RoundRecordId,
+                        h.PlayerId AS UserId,
+                        r.FinishedAt,
+                        h.HandIndex,
+                        ISNULL(s.Refund, h.Payout) - h.Bet AS Net,
+                        CASE WHEN s.Refund IS NULL AND h.Payout > h.Bet THEN 1 ELSE 0 END AS IsWin,
+                        CASE WHEN s.Refund IS NOT NULL OR h.Payout < h.Bet THEN 1 ELSE 0 END AS IsLoss
+                    FROM RoundRecords r
+                    CROSS APPLY OPENJSON(r.Hands) WITH (
+                        PlayerId uniqueidentifier '$.PlayerId',
+                        HandIndex int '$.HandIndex',
+                        Bet bigint '$.Bet',
+                        Payout bigint '$.Payout'
+                    ) h
+                    OUTER APPLY (
+                        SELECT SUM(ISNULL(TRY_CAST(JSON_VALUE(e.Data, '$.amount') AS bigint), 0)) AS Refund
+                        FROM OPENJSON(r.Events) WITH (
+                            Event nvarchar(64) '$.Event',
+                            Data nvarchar(max) '$.Data' AS JSON
+                        ) e
+                        WHERE e.Event = 'player_action'
+                            AND JSON_VALUE(e.Data, '$.action') = 'surrender'
+                            AND ISNULL(JSON_VALUE(e.Data, '$.success'), 'true') <> 'false'
+                            AND TRY_CAST(JSON_VALUE(e.Data, '$.playerId') AS uniqueidentifier) = h.PlayerId
+                            AND ISNULL(TRY_CAST(JSON_VALUE(e.Data, '$.handIndex') AS int), 0) = h.HandIndex
+                    ) s
+                    WHERE EXISTS (SELECT 1 FROM Users u WHERE u.Id = h.PlayerId)
+                        AND NOT EXISTS (
+                            SELECT 1 FROM RoomPlayers rp
+                            WHERE rp.RoomId = r.RoomId AND rp.UserId = h.PlayerId AND rp.BotPolicy IS NOT NULL
+                        )
+                ),
+                Streaks AS (
+                    SELECT *,
+                        SUM(IsLoss) OVER (
+                            PARTITION BY UserId ORDER BY FinishedAt, HandIndex ROWS UNBOUNDED PRECEDING
+                        ) AS Losses
+                    FROM Results
+                )
+                INSERT INTO HandOutcomes (Id, RoundRecordId, UserId, FinishedAt, HandIndex, Net, IsWin, IsLoss, WinStreak)
+                SELECT NEWID(), RoundRecordId, UserId, FinishedAt, HandIndex, Net, IsWin, IsLoss,
+                    SUM(IsWin) OVER (
+                        PARTITION BY UserId, Losses ORDER BY FinishedAt, HandIndex ROWS UNBOUNDED PRECEDING
+                    )
+                FROM Streaks;
+                """
+            );
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "HandOutcomes");
+        }
+    }
+}
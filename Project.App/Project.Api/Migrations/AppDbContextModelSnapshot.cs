@@ -22,6 +22,61 @@ namespace Project.Api.Migrations
 
             SqlServerModelBuilderExtensions.UseIdentityColumns(modelBuilder);
 
+            modelBuilder.Entity("Project.Api.Models.ChatMessage", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("Content")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("nvarchar(500)");
+
+                    b.Property<Guid>("RoomId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("SenderName")
+                        .IsRequired()
+                        .HasMaxLength(256)
+                        .HasColumnType("nvarchar(256)");
+
+                    b.Property<DateTimeOffset>("SentAt")
+                        .HasColumnType("datetimeoffset");
+
+                    b.Property<Guid>("UserId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RoomId", "SentAt");
+
+                    b.ToTable("ChatMessages");
+                });
+
+            modelBuilder.Entity("Project.Api.Models.ChatMute", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTimeOffset>("MutedAt")
+                        .HasColumnType("datetimeoffset");
+
+                    b.Property<Guid>("RoomId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<Guid>("UserId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RoomId", "UserId")
+                        .IsUnique();
+
+                    b.ToTable("ChatMutes");
+                });
+
             modelBuilder.Entity("Project.Api.Models.Hand", b =>
                 {
                     b.Property<Guid>("Id")
@@ -47,6 +102,47 @@ namespace Project.Api.Migrations
                     b.ToTable("Hands");
                 });
 
+            modelBuilder.Entity("Project.Api.Models.HandOutcome", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTimeOffset>("FinishedAt")
+                        .HasColumnType("datetimeoffset");
+
+                    b.Property<int>("HandIndex")
+                        .HasColumnType("int");
+
+                    b.Property<bool>("IsLoss")
+                        .HasColumnType("bit");
+
+                    b.Property<bool>("IsWin")
+                        .HasColumnType("bit");
+
+                    b.Property<long>("Net")
+                        .HasColumnType("bigint");
+
+                    b.Property<Guid>("RoundRecordId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<Guid>("UserId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<int>("WinStreak")
+                        .HasColumnType("int");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("FinishedAt");
+
+                    b.HasIndex("RoundRecordId");
+
+                    b.HasIndex("UserId", "FinishedAt");
+
+                    b.ToTable("HandOutcomes");
+                });
+
             modelBuilder.Entity("Project.Api.Models.Room", b =>
                 {
                     b.Property<Guid>("Id")
@@ -117,6 +213,46 @@ namespace Project.Api.Migrations
                     b.ToTable("Rooms");
                 });
 
+            modelBuilder.Entity("Project.Api.Models.RoomInvite", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("Code")
+                        .IsRequired()
+                        .HasMaxLength(16)
+                        .HasColumnType("nvarchar(16)");
+
+                    b.Property<DateTimeOffset>("CreatedAt")
+                        .HasColumnType("datetimeoffset");
+
+                    b.Property<DateTimeOffset?>("ExpiresAt")
+                        .HasColumnType("datetimeoffset");
+
+                    b.Property<int?>("MaxUses")
+                        .HasColumnType("int");
+
+                    b.Property<DateTimeOffset?>("RevokedAt")
+                        .HasColumnType("datetimeoffset");
+
+                    b.Property<Guid>("RoomId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<int>("Uses")
+                        .IsConcurrencyToken()
+                        .HasColumnType("int");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("Code")
+                        .IsUnique();
+
+                    b.HasIndex("RoomId");
+
+                    b.ToTable("RoomInvites");
+                });
+
             modelBuilder.Entity("Project.Api.Models.RoomPlayer", b =>
                 {
                     b.Property<Guid>("Id")
@@ -129,6 +265,12 @@ namespace Project.Api.Migrations
                     b.Property<long>("BalanceDelta")
                         .HasColumnType("bigint");
 
+                    b.Property<DateTimeOffset?>("BannedAt")
+                        .HasColumnType("datetimeoffset");
+
+                    b.Property<int?>("BotPolicy")
+                        .HasColumnType("int");
+
                     b.Property<int>("Role")
                         .HasColumnType("int");
 
@@ -152,6 +294,43 @@ namespace Project.Api.Migrations
                     b.ToTable("RoomPlayers");
                 });
 
+            modelBuilder.Entity("Project.Api.Models.RoundRecord", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("DealerHand")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<int>("DealerScore")
+                        .HasColumnType("int");
+
+                    b.Property<string>("Events")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<DateTimeOffset>("FinishedAt")
+                        .HasColumnType("datetimeoffset");
+
+                    b.Property<string>("Hands")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<Guid>("RoomId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<int>("RoundNumber")
+                        .HasColumnType("int");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RoomId", "RoundNumber");
+
+                    b.ToTable("RoundRecords");
+                });
+
             modelBuilder.Entity("Project.Api.Models.User", b =>
                 {
                     b.Property<Guid>("Id")
@@ -183,6 +362,28 @@ namespace Project.Api.Migrations
                     b.ToTable("Users");
                 });
 
+            modelBuilder.Entity("Project.Api.Models.ChatMessage", b =>
+                {
+                    b.HasOne("Project.Api.Models.Room", "Room")
+                        .WithMany()
+                        .HasForeignKey("RoomId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Room");
+                });
+
+            modelBuilder.Entity("Project.Api.Models.ChatMute", b =>
+                {
+                    b.HasOne("Project.Api.Models.Room", "Room")
+                        .WithMany()
+                        .HasForeignKey("RoomId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Room");
+                });
+
             modelBuilder.Entity("Project.Api.Models.Hand", b =>
                 {
                     b.HasOne("Project.Api.Models.RoomPlayer", "RoomPlayer")
@@ -194,6 +395,25 @@ namespace Project.Api.Migrations
                     b.Navigation("RoomPlayer");
                 });
 
+            modelBuilder.Entity("Project.Api.Models.HandOutcome", b =>
+                {
+                    b.HasOne("Project.Api.Models.RoundRecord", "Round")
+                        .WithMany("HandOutcomes")
+                        .HasForeignKey("RoundRecordId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.HasOne("Project.Api.Models.User", "User")
+                        .WithMany()
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Restrict)
+                        .IsRequired();
+
+                    b.Navigation("Round");
+
+                    b.Navigation("User");
+                });
+
             modelBuilder.Entity("Project.Api.Models.Room", b =>
                 {
                     b.HasOne("Project.Api.Models.User", "Host")
@@ -205,6 +425,17 @@ namespace Project.Api.Migrations
                     b.Navigation("Host");
                 });
 
+            modelBuilder.Entity("Project.Api.Models.RoomInvite", b =>
+                {
+                    b.HasOne("Project.Api.Models.Room", "Room")
+                        .WithMany("Invites")
+                        .HasForeignKey("RoomId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Room");
+                });
+
             modelBuilder.Entity("Project.Api.Models.RoomPlayer", b =>
                 {
                     b.HasOne("Project.Api.Models.Room", "Room")
@@ -224,9 +455,24 @@ namespace Project.Api.Migrations
                     b.Navigation("User");
                 });
 
+            modelBuilder.Entity("Project.Api.Models.RoundRecord", b =>
+                {
+                    b.HasOne("Project.Api.Models.Room", "Room")
+                        .WithMany("Rounds")
+                        .HasForeignKey("RoomId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Room");
+                });
+
             modelBuilder.Entity("Project.Api.Models.Room", b =>
                 {
+                    b.Navigation("Invites");
+
                     b.Navigation("RoomPlayers");
+
+                    b.Navigation("Rounds");
                 });
 
             modelBuilder.Entity("Project.Api.Models.RoomPlayer", b =>
@@ -234,6 +480,11 @@ namespace Project.Api.Migrations
                     b.Navigation("Hands");
                 });
 
+            modelBuilder.Entity("Project.Api.Models.RoundRecord", b =>
+                {
+                    b.Navigation("HandOutcomes");
+                });
+
             modelBuilder.Entity("Project.Api.Models.User", b =>
                 {
                     b.Navigation("RoomPlayers");
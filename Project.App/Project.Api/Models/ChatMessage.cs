@@ -0,0 +1,45 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Project.Api.Models;
+
+/// <summary>
+/// A message sent to a room's chat, kept so people joining later can read back.
+/// </summary>
+public class ChatMessage
+{
+    [Key]
+    [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+    public Guid Id { get; set; }
+
+    public Guid RoomId { get; set; }
+
+    /// <summary>
+    /// The sender, not a foreign key so messages outlive the sender's account.
+    /// </summary>
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// The sender's name when the message was sent.
+    /// </summary>
+    [MaxLength(256)]
+    public required string SenderName { get; set; }
+
+    [MaxLength(500)]
+    public required string Content { get; set; }
+
+    public DateTimeOffset SentAt { get; set; }
+
+    [ForeignKey("RoomId")]
+    public virtual Room? Room { get; set; }
+}
+
+public class ChatMessageConfiguration : IEntityTypeConfiguration<ChatMessage>
+{
+    public void Configure(EntityTypeBuilder<ChatMessage> builder)
+    {
+        builder.HasIndex(m => new { m.RoomId, m.SentAt });
+    }
+}
@@ -0,0 +1,33 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Project.Api.Models;
+
+/// <summary>
+/// A user the host has muted in a room's chat, until the host unmutes them.
+/// </summary>
+public class ChatMute
+{
+    [Key]
+    [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+    public Guid Id { get; set; }
+
+    public Guid RoomId { get; set; }
+
+    public Guid UserId { get; set; }
+
+    public DateTimeOffset MutedAt { get; set; }
+
+    [ForeignKey("RoomId")]
+    public virtual Room? Room { get; set; }
+}
+
+public class ChatMuteConfiguration : IEntityTypeConfiguration<ChatMute>
+{
+    public void Configure(EntityTypeBuilder<ChatMute> builder)
+    {
+        builder.HasIndex(m => new { m.RoomId, m.UserId }).IsUnique();
+    }
+}
@@ -1,3 +1,5 @@
+using Project.Api.Utilities.Enums;
+
 namespace Project.Api.Models.Games;
 
 /// <summary>
@@ -10,4 +12,22 @@ public record BlackjackConfig : GameConfig
     public TimeSpan BettingTimeLimit { get; set; } = TimeSpan.FromSeconds(60);
     public override TimeSpan TurnTimeLimit { get; set; } = TimeSpan.FromSeconds(30);
     public bool AllowBalanceReset { get; set; } = true;
+
+    // null for no limit
+    public long? MaxBet { get; set; }
+
+    // house rules
+
+    public int DeckCount { get; set; } = 6;
+
+    // how much of the shoe is dealt before it is reshuffled, between rounds
+    public double ReshufflePenetration { get; set; } = 0.75;
+    public bool DealerHitsSoft17 { get; set; } = false;
+    public BlackjackPayout BlackjackPayout { get; set; } = BlackjackPayout.ThreeToTwo;
+    public bool LateSurrender { get; set; } = true;
+
+    // how many times a player can split in one round, 0 to not allow splitting
+    public int MaxSplits { get; set; } = 3;
+    public bool ResplitAces { get; set; } = false;
+    public bool DoubleAfterSplit { get; set; } = true;
 }
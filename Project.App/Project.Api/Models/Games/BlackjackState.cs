@@ -6,6 +6,18 @@ public record BlackjackState : GameState<BlackjackStage>
 {
     public string DealerHand { get; set; } = "";
     public Dictionary<Guid, long> Bets { get; set; } = [];
+
+    // cards dealt from the shoe since it was last shuffled, see BlackjackConfig.ReshufflePenetration
+    public int CardsDealt { get; set; }
+
+    // hands surrendered this round, their half bet was refunded and they are not paid out
+    public List<Guid> SurrenderedHands { get; set; } = [];
+
+    // set while the host has paused the stage timers, players cannot act until they resume
+    public DateTimeOffset? PausedAt { get; set; }
+
+    // config changes made during a game, applied in the next setup stage so a round keeps its rules
+    public BlackjackConfig? PendingConfig { get; set; }
 }
 
 [JsonDerivedType(typeof(BlackjackInitStage), typeDiscriminator: "init")]
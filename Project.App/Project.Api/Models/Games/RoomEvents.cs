@@ -12,17 +12,40 @@ public interface IRoomEventData { }
 /// </summary>
 public class ChatEventData : IRoomEventData
 {
+    public Guid Id { get; set; }
+    public Guid SenderId { get; set; }
     public string Sender { get; set; } = string.Empty;
     public string Content { get; set; } = string.Empty;
     public DateTimeOffset Timestamp { get; set; } = DateTimeOffset.UtcNow;
 }
 
+/// <summary>
+/// Specific DTO for the host deleting a chat message
+/// </summary>
+public record ChatMessageDeletedEventData : IRoomEventData
+{
+    public Guid MessageId { get; set; }
+}
+
+/// <summary>
+/// Specific DTO for the host muting or unmuting a user in the chat. Muted users cannot send messages.
+/// </summary>
+public record ChatUserMutedEventData : IRoomEventData
+{
+    public Guid UserId { get; set; }
+    public string UserName { get; set; } = string.Empty;
+    public bool Muted { get; set; }
+}
+
 /// <summary>
 /// Specific DTO for a game state update event
 /// </summary>
 public record GameStateUpdateEventData : IRoomEventData
 {
     public required BlackjackStage CurrentStage { get; set; }
+
+    // lets clients correct for clock skew when showing deadlines
+    public DateTimeOffset ServerTime { get; set; } = DateTimeOffset.UtcNow;
 }
 
 /// <summary>
@@ -40,6 +63,12 @@ public record PlayerActionEventData : IRoomEventData
     public List<CardDTO>? Cards { get; set; }
     public Guid? TargetPlayerId { get; set; }
     public bool? Success { get; set; } = true;
+
+    /// <summary>
+    /// The idempotency key of the request that caused the action, so the player who sent it can match it up.
+    /// Null for actions the server took on its own.
+    /// </summary>
+    public string? IdempotencyKey { get; set; }
 }
 
 /// <summary>
@@ -61,7 +90,26 @@ public record PlayerLeaveEventData : IRoomEventData
 }
 
 /// <summary>
-/// Specific DTO for a host change event (if the current host leaves)
+/// Specific DTO for a viewer join event, sent when a user opens the room's event stream.
+/// Players are viewers too, anyone watching without a seat is a spectator.
+/// </summary>
+public record ViewerJoinEventData : IRoomEventData
+{
+    public Guid UserId { get; set; }
+    public string UserName { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Specific DTO for a viewer leave event, sent when a user's last connection to the event stream closes
+/// </summary>
+public record ViewerLeaveEventData : IRoomEventData
+{
+    public Guid UserId { get; set; }
+    public string UserName { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Specific DTO for a host change event (if the current host leaves), identifying the new host
 /// </summary>
 public record HostChangeEventData : IRoomEventData
 {
@@ -69,6 +117,41 @@ public record HostChangeEventData : IRoomEventData
     public string PlayerName { get; set; } = string.Empty;
 }
 
+/// <summary>
+/// Specific DTO for a player kicked from the room by the host. Banned players cannot take a seat again.
+/// </summary>
+public record PlayerKickedEventData : IRoomEventData
+{
+    public Guid PlayerId { get; set; }
+    public string PlayerName { get; set; } = string.Empty;
+    public bool Banned { get; set; }
+}
+
+/// <summary>
+/// Specific DTO for the host pausing the stage timers
+/// </summary>
+public record GamePausedEventData : IRoomEventData
+{
+    public DateTimeOffset PausedAt { get; set; }
+}
+
+/// <summary>
+/// Specific DTO for the host resuming the stage timers, the stage's deadline is moved back by the pause
+/// </summary>
+public record GameResumedEventData : IRoomEventData
+{
+    public DateTimeOffset? Deadline { get; set; }
+}
+
+/// <summary>
+/// Specific DTO for a change to the game config. Changes made during a game are pending until the next round.
+/// </summary>
+public record ConfigChangeEventData : IRoomEventData
+{
+    public required BlackjackConfig Config { get; set; }
+    public bool Pending { get; set; }
+}
+
 /// <summary>
 /// Specific DTO for revealing the dealer's cards
 /// </summary>
@@ -88,3 +171,28 @@ public record PlayerRevealEventData : IRoomEventData
     public List<CardDTO> PlayerHand { get; set; } = [];
     public int PlayerScore { get; set; }
 }
+
+/// <summary>
+/// Specific DTO telling a reconnecting client that the events it missed can no longer be replayed,
+/// so it has to refetch the room instead
+/// </summary>
+public record ResyncEventData : IRoomEventData
+{
+    public long LastEventId { get; set; }
+}
+
+/// <summary>
+/// Specific DTO for a lobby event, sent when a public room is created or changes, including its occupancy
+/// </summary>
+public record LobbyRoomEventData : IRoomEventData
+{
+    public required RoomSummaryDTO Room { get; set; }
+}
+
+/// <summary>
+/// Specific DTO for a lobby event, sent when a room closes or is no longer listed, e.g. when it becomes private
+/// </summary>
+public record RoomClosedEventData : IRoomEventData
+{
+    public Guid RoomId { get; set; }
+}
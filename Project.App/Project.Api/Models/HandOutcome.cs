@@ -0,0 +1,68 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Project.Api.Models;
+
+/// <summary>
+/// How one of a person's hands in a recorded round ended, for the leaderboards to add up in the database
+/// instead of reading the JSON of every round. Bots are not ranked, so their hands are left out.
+/// </summary>
+public class HandOutcome
+{
+    [Key]
+    [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+    public Guid Id { get; set; }
+
+    public Guid RoundRecordId { get; set; }
+
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// When the round finished, copied from it.
+    /// </summary>
+    public DateTimeOffset FinishedAt { get; set; }
+
+    public int HandIndex { get; set; }
+
+    /// <summary>
+    /// What the hand won, or lost if negative, see <see cref="Utilities.Extensions.HandResult.Net"/>.
+    /// </summary>
+    public long Net { get; set; }
+
+    public bool IsWin { get; set; }
+
+    public bool IsLoss { get; set; }
+
+    /// <summary>
+    /// How many hands in a row the player had won with this one.
+    /// A push neither extends nor ends a win streak.
+    /// </summary>
+    public int WinStreak { get; set; }
+
+    [ForeignKey("RoundRecordId")]
+    public virtual RoundRecord? Round { get; set; }
+
+    [ForeignKey("UserId")]
+    public virtual User? User { get; set; }
+}
+
+public class HandOutcomeConfiguration : IEntityTypeConfiguration<HandOutcome>
+{
+    public void Configure(EntityTypeBuilder<HandOutcome> builder)
+    {
+        builder
+            .HasOne(o => o.Round)
+            .WithMany(r => r.HandOutcomes)
+            .HasForeignKey(o => o.RoundRecordId)
+            .OnDelete(DeleteBehavior.Cascade);
+        builder
+            .HasOne(o => o.User)
+            .WithMany()
+            .HasForeignKey(o => o.UserId)
+            .OnDelete(DeleteBehavior.Restrict);
+        builder.HasIndex(o => o.FinishedAt);
+        builder.HasIndex(o => new { o.UserId, o.FinishedAt });
+    }
+}
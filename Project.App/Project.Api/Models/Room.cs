@@ -48,6 +48,10 @@ public class Room
 
     public virtual ICollection<RoomPlayer> RoomPlayers { get; set; } = [];
 
+    public virtual ICollection<RoomInvite> Invites { get; set; } = [];
+
+    public virtual ICollection<RoundRecord> Rounds { get; set; } = [];
+
     public byte[] RowVersion { get; set; } = []; // concurrency
 }
 
@@ -0,0 +1,56 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Project.Api.Models;
+
+/// <summary>
+/// A short code that lets people join a room without knowing its id, e.g. a private room.
+/// </summary>
+public class RoomInvite
+{
+    [Key]
+    [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+    public Guid Id { get; set; }
+
+    public Guid RoomId { get; set; }
+
+    [MaxLength(16)]
+    public required string Code { get; set; }
+
+    public DateTimeOffset CreatedAt { get; set; }
+
+    /// <summary>
+    /// When the code stops working, null if it never expires.
+    /// </summary>
+    public DateTimeOffset? ExpiresAt { get; set; }
+
+    /// <summary>
+    /// How many people can join with the code, null for no limit.
+    /// </summary>
+    public int? MaxUses { get; set; }
+
+    public int Uses { get; set; }
+
+    public DateTimeOffset? RevokedAt { get; set; }
+
+    [ForeignKey("RoomId")]
+    public virtual Room? Room { get; set; }
+
+    public bool IsUsable(DateTimeOffset now) =>
+        RevokedAt is null
+        && (ExpiresAt is null || ExpiresAt > now)
+        && (MaxUses is null || Uses < MaxUses);
+}
+
+public class RoomInviteConfiguration : IEntityTypeConfiguration<RoomInvite>
+{
+    public void Configure(EntityTypeBuilder<RoomInvite> builder)
+    {
+        builder.HasIndex(i => i.Code).IsUnique();
+
+        // two people racing for the last use must not both get in
+        builder.Property(i => i.Uses).IsConcurrencyToken();
+    }
+}
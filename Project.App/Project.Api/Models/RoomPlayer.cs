@@ -32,4 +32,10 @@ public class RoomPlayer
     public long Balance { get; set; }
 
     public long BalanceDelta { get; set; } = 0;
+
+    // set when the host bans the player, who can no longer take a seat in the room
+    public DateTimeOffset? BannedAt { get; set; }
+
+    // set for bots the host added, the server plays their seat with this policy
+    public BotPolicy? BotPolicy { get; set; }
 }
@@ -0,0 +1,56 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Project.Api.Models;
+
+/// <summary>
+/// A finished round, kept so players can look back at (and replay) what happened.
+/// The hands and events are stored as JSON, see <see cref="DTOs.RoundHandDTO"/> and <see cref="DTOs.RoundEventDTO"/>.
+/// </summary>
+public class RoundRecord
+{
+    [Key]
+    [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+    public Guid Id { get; set; }
+
+    public Guid RoomId { get; set; }
+
+    public int RoundNumber { get; set; }
+
+    public DateTimeOffset FinishedAt { get; set; }
+
+    /// <summary>
+    /// The dealer's final cards.
+    /// </summary>
+    public string DealerHand { get; set; } = "[]";
+
+    public int DealerScore { get; set; }
+
+    /// <summary>
+    /// Every player's hands, with their bets and what they paid out.
+    /// </summary>
+    public string Hands { get; set; } = "[]";
+
+    /// <summary>
+    /// The game events broadcast during the round, in order, from the betting stage to the final hands.
+    /// </summary>
+    public string Events { get; set; } = "[]";
+
+    [ForeignKey("RoomId")]
+    public virtual Room? Room { get; set; }
+
+    public virtual ICollection<HandOutcome> HandOutcomes { get; set; } = [];
+}
+
+public class RoundRecordConfiguration : IEntityTypeConfiguration<RoundRecord>
+{
+    public void Configure(EntityTypeBuilder<RoundRecord> builder)
+    {
+        builder.HasIndex(r => new { r.RoomId, r.RoundNumber });
+        builder.Property(r => r.DealerHand).HasColumnType("nvarchar(max)");
+        builder.Property(r => r.Hands).HasColumnType("nvarchar(max)");
+        builder.Property(r => r.Events).HasColumnType("nvarchar(max)");
+    }
+}
@@ -43,7 +43,7 @@ public class Program
         // use extension methods to configure services
         if (!builder.Environment.IsEnvironment("Testing"))
             builder.Services.AddDatabase(builder.Configuration); // do not add database in testing
-        builder.Services.AddApplicationServices();
+        builder.Services.AddApplicationServices(builder.Configuration);
         builder.Services.AddCorsPolicy();
         builder.Services.AddAuth(builder.Configuration, builder.Environment);
 
@@ -131,6 +131,8 @@ public static class ProgramExtensions
                         )
                         .AllowAnyHeader()
                         .AllowAnyMethod()
+                        // Date lets the client estimate clock skew, Retry-After when it may chat again
+                        .WithExposedHeaders("Date", "Retry-After")
                         .AllowCredentials();
                 }
             );
@@ -149,20 +151,42 @@ public static class ProgramExtensions
         return services;
     }
 
-    public static IServiceCollection AddApplicationServices(this IServiceCollection services)
+    public static IServiceCollection AddApplicationServices(
+        this IServiceCollection services,
+        IConfiguration configuration
+    )
     {
         // scoped services
         services.AddScoped<IGameService<IGameState, GameConfig>, BlackjackService>();
         services.AddScoped<IHandService, HandService>();
         services.AddScoped<IRoomService, RoomService>();
+        services.AddScoped<IRoomInviteService, RoomInviteService>();
+        services.AddScoped<ILobbyService, LobbyService>();
+        services.AddScoped<IRoundHistoryService, RoundHistoryService>();
+        services.AddScoped<IPlayerStatsService, PlayerStatsService>();
+        services.AddScoped<ILeaderboardService, LeaderboardService>();
         services.AddScoped<IUserService, UserService>();
+        services.AddScoped<IChatService, ChatService>();
 
-        services.AddHttpClient<IDeckApiService, DeckApiService>();
+        // cards are dealt in-process unless the deck of cards API is asked for
+        if (configuration["DeckApiSettings:Provider"] == "DeckOfCardsApi")
+            services.AddHttpClient<IDeckApiService, DeckApiService>();
+        else
+            services.AddSingleton<IDeckApiService, LocalDeckService>();
         services.AddSingleton<IRoomSSEService, RoomSSEService>();
+        services.AddSingleton<IIdempotencyService, IdempotencyService>();
+        services.AddSingleton<IRoomLockService, RoomLockService>();
+        services.AddSingleton<IChatRateLimitService, ChatRateLimitService>();
+
+        // plays the bots' moves, between requests
+        services.AddHostedService<BotPlayerService>();
 
+        services.AddScoped<IChatRepository, ChatRepository>();
         services.AddScoped<IHandRepository, HandRepository>();
+        services.AddScoped<IRoomInviteRepository, RoomInviteRepository>();
         services.AddScoped<IRoomPlayerRepository, RoomPlayerRepository>();
         services.AddScoped<IRoomRepository, RoomRepository>();
+        services.AddScoped<IRoundRecordRepository, RoundRecordRepository>();
         services.AddScoped<IUserRepository, UserRepository>();
 
         services.AddAutoMapper(typeof(Program));
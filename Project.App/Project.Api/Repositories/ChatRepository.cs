@@ -0,0 +1,82 @@
+using Microsoft.EntityFrameworkCore;
+using Project.Api.Data;
+using Project.Api.Models;
+using Project.Api.Repositories.Interface;
+
+namespace Project.Api.Repositories;
+
+public class ChatRepository(AppDbContext context) : IChatRepository
+{
+    private readonly AppDbContext _context = context;
+
+    public async Task<IEnumerable<ChatMessage>> GetRecentMessagesAsync(Guid roomId, int count)
+    {
+        var latest = await _context
+            .ChatMessages.Where(m => m.RoomId == roomId)
+            .OrderByDescending(m => m.SentAt)
+            .Take(count)
+            .ToListAsync();
+
+        latest.Reverse();
+        return latest;
+    }
+
+    public async Task<ChatMessage?> GetMessageByIdAsync(Guid id)
+    {
+        return await _context.ChatMessages.FindAsync(id);
+    }
+
+    public async Task<ChatMessage> CreateMessageAsync(ChatMessage message)
+    {
+        _context.ChatMessages.Add(message);
+        await _context.SaveChangesAsync();
+        return message;
+    }
+
+    public async Task DeleteMessageAsync(ChatMessage message)
+    {
+        _context.ChatMessages.Remove(message);
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task<IEnumerable<Guid>> GetMutedUserIdsAsync(Guid roomId)
+    {
+        return await _context
+            .ChatMutes.Where(m => m.RoomId == roomId)
+            .Select(m => m.UserId)
+            .ToListAsync();
+    }
+
+    public async Task<bool> IsMutedAsync(Guid roomId, Guid userId)
+    {
+        return await _context.ChatMutes.AnyAsync(m => m.RoomId == roomId && m.UserId == userId);
+    }
+
+    public async Task<bool> SetMutedAsync(Guid roomId, Guid userId, bool muted)
+    {
+        ChatMute? mute = await _context.ChatMutes.FirstOrDefaultAsync(m =>
+            m.RoomId == roomId && m.UserId == userId
+        );
+        if (muted == (mute is not null))
+            return false;
+
+        if (mute is not null)
+        {
+            _context.ChatMutes.Remove(mute);
+        }
+        else
+        {
+            _context.ChatMutes.Add(
+                new ChatMute
+                {
+                    RoomId = roomId,
+                    UserId = userId,
+                    MutedAt = DateTimeOffset.UtcNow,
+                }
+            );
+        }
+
+        await _context.SaveChangesAsync();
+        return true;
+    }
+}
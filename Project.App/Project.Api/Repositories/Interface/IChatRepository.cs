@@ -0,0 +1,22 @@
+using Project.Api.Models;
+
+namespace Project.Api.Repositories.Interface;
+
+public interface IChatRepository
+{
+    /// <summary>
+    /// Gets a room's latest messages, oldest first.
+    /// </summary>
+    Task<IEnumerable<ChatMessage>> GetRecentMessagesAsync(Guid roomId, int count);
+    Task<ChatMessage?> GetMessageByIdAsync(Guid id);
+    Task<ChatMessage> CreateMessageAsync(ChatMessage message);
+    Task DeleteMessageAsync(ChatMessage message);
+
+    Task<IEnumerable<Guid>> GetMutedUserIdsAsync(Guid roomId);
+    Task<bool> IsMutedAsync(Guid roomId, Guid userId);
+
+    /// <summary>
+    /// Mutes or unmutes a user in a room. Returns false if they already were.
+    /// </summary>
+    Task<bool> SetMutedAsync(Guid roomId, Guid userId, bool muted);
+}
@@ -0,0 +1,12 @@
+using Project.Api.Models;
+
+namespace Project.Api.Repositories.Interface;
+
+public interface IRoomInviteRepository
+{
+    Task<RoomInvite?> GetByCodeAsync(string code);
+    Task<IEnumerable<RoomInvite>> GetByRoomIdAsync(Guid roomId);
+    Task<bool> CodeExistsAsync(string code);
+    Task<RoomInvite> CreateAsync(RoomInvite invite);
+    Task<RoomInvite> UpdateAsync(RoomInvite invite);
+}
@@ -15,11 +15,16 @@ namespace Project.Api.Repositories.Interface
         Task<RoomPlayer> UpdateAsync(RoomPlayer roomPlayer);
         Task<bool> DeleteAsync(Guid id);
         Task<bool> ExistsAsync(Guid id);
+
+        // whether the user has a seat in the room, i.e. has not left it
         Task<bool> IsPlayerInRoomAsync(Guid roomId, Guid userId);
         Task<int> GetPlayerCountInRoomAsync(Guid roomId);
         Task<RoomPlayer?> GetRoomHostAsync(Guid roomId);
         Task UpdatePlayerStatusAsync(Guid id, Status status);
         Task UpdatePlayerBalanceAsync(Guid id, long balance);
         Task UpdatePlayersInRoomAsync(Guid roomId, Action<RoomPlayer> updateAction);
+
+        // active games that have started and have a bot with a seat
+        Task<IEnumerable<Guid>> GetRoomIdsWithBotsAsync();
     }
 }
@@ -1,4 +1,5 @@
 using Project.Api.Models;
+using Project.Api.Utilities.Enums;
 
 namespace Project.Api.Repositories.Interface;
 
@@ -8,7 +9,27 @@ public interface IRoomRepository
     Task<IEnumerable<Room>> GetAllAsync();
     Task<IEnumerable<Room>> GetActiveRoomsAsync();
     Task<IEnumerable<Room>> GetPublicRoomsAsync();
+
+    /// <summary>
+    /// Searches the public rooms that are open, of the game mode if there is one and only
+    /// those with free seats if asked, sorted by <paramref name="sortBy"/> and then newest first.
+    /// The min bet lives in the game config, so sorting by it is left to the caller.
+    /// </summary>
+    Task<List<Room>> SearchPublicRoomsAsync(
+        string? gameMode,
+        bool hasFreeSeats,
+        RoomSortBy sortBy,
+        bool descending,
+        int skip = 0,
+        int? take = null
+    );
+
+    /// <summary>
+    /// Counts the rooms <see cref="SearchPublicRoomsAsync"/> finds.
+    /// </summary>
+    Task<int> CountPublicRoomsAsync(string? gameMode, bool hasFreeSeats);
     Task<Room?> GetByHostIdAsync(Guid hostId);
+    Task<IEnumerable<Room>> GetActiveRoomsForUserAsync(Guid userId);
     Task<Room> CreateAsync(Room room);
     Task<Room?> UpdateAsync(Room room);
     Task<bool> DeleteAsync(Guid id);
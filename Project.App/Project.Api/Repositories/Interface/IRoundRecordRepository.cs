@@ -0,0 +1,61 @@
+using Project.Api.Models;
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.Repositories.Interface;
+
+/// <summary>
+/// A player's place on a leaderboard, see <see cref="IRoundRecordRepository.GetStandingsAsync"/>.
+/// </summary>
+public class LeaderboardStanding
+{
+    public Guid UserId { get; set; }
+    public string UserName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Chips for net winnings and the biggest win, hands in a row for the win streak.
+    /// </summary>
+    public long Value { get; set; }
+    public int HandsPlayed { get; set; }
+}
+
+public interface IRoundRecordRepository
+{
+    Task<RoundRecord?> GetByIdAsync(Guid id);
+
+    /// <summary>
+    /// Gets a page of a room's rounds, the latest first.
+    /// </summary>
+    Task<IEnumerable<RoundRecord>> GetByRoomIdAsync(Guid roomId, int skip, int take);
+    Task<int> CountByRoomIdAsync(Guid roomId);
+
+    /// <summary>
+    /// Gets the rounds of every room the user has had a seat in, the oldest first.
+    /// Whether they played a round is in its hands.
+    /// </summary>
+    Task<IEnumerable<RoundRecord>> GetByPlayerAsync(Guid userId);
+
+    /// <summary>
+    /// Ranks the people who played since the given time, or ever if there is none, by the metric:
+    /// best first, then by name. Only those who won are ranked by the biggest win and win streak.
+    /// </summary>
+    Task<List<LeaderboardStanding>> GetStandingsAsync(
+        LeaderboardMetric metric,
+        DateTimeOffset? since,
+        int skip,
+        int take
+    );
+
+    /// <summary>
+    /// Counts the people ranked by <see cref="GetStandingsAsync"/>, or only those ranked above a value.
+    /// </summary>
+    Task<int> CountStandingsAsync(
+        LeaderboardMetric metric,
+        DateTimeOffset? since,
+        long? above = null
+    );
+
+    /// <summary>
+    /// Records a round, and how each person's hands in it ended, see <see cref="HandOutcome"/>.
+    /// </summary>
+    Task<RoundRecord> CreateAsync(RoundRecord round);
+}
@@ -0,0 +1,57 @@
+using Microsoft.EntityFrameworkCore;
+using Project.Api.Data;
+using Project.Api.Models;
+using Project.Api.Repositories.Interface;
+using Project.Api.Utilities;
+
+namespace Project.Api.Repositories;
+
+public class RoomInviteRepository(AppDbContext context) : IRoomInviteRepository
+{
+    private readonly AppDbContext _context = context;
+
+    public async Task<RoomInvite?> GetByCodeAsync(string code)
+    {
+        return await _context
+            .RoomInvites.Include(i => i.Room)
+            .FirstOrDefaultAsync(i => i.Code == code);
+    }
+
+    public async Task<IEnumerable<RoomInvite>> GetByRoomIdAsync(Guid roomId)
+    {
+        return await _context
+            .RoomInvites.Where(i => i.RoomId == roomId)
+            .OrderBy(i => i.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task<bool> CodeExistsAsync(string code)
+    {
+        return await _context.RoomInvites.AnyAsync(i => i.Code == code);
+    }
+
+    public async Task<RoomInvite> CreateAsync(RoomInvite invite)
+    {
+        _context.RoomInvites.Add(invite);
+        await _context.SaveChangesAsync();
+        return invite;
+    }
+
+    public async Task<RoomInvite> UpdateAsync(RoomInvite invite)
+    {
+        _context.Entry(invite).State = EntityState.Modified;
+
+        try
+        {
+            await _context.SaveChangesAsync();
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            throw new ConflictException(
+                "The invite was used by someone else at the same time. Please try again."
+            );
+        }
+
+        return invite;
+    }
+}
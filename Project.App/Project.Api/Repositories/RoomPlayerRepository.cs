@@ -99,8 +99,9 @@ public class RoomPlayerRepository(AppDbContext context) : IRoomPlayerRepository
 
     public async Task<bool> IsPlayerInRoomAsync(Guid roomId, Guid userId)
     {
+        // players who left or were kicked keep their row, but not their seat
         return await _context.RoomPlayers.AnyAsync(rp =>
-            rp.RoomId == roomId && rp.UserId == userId
+            rp.RoomId == roomId && rp.UserId == userId && rp.Status != Status.Left
         );
     }
 
@@ -118,6 +119,20 @@ public class RoomPlayerRepository(AppDbContext context) : IRoomPlayerRepository
             .FirstOrDefaultAsync(rp => rp.RoomId == roomId && rp.Role == Role.Admin);
     }
 
+    public async Task<IEnumerable<Guid>> GetRoomIdsWithBotsAsync()
+    {
+        return await _context
+            .RoomPlayers.Where(rp =>
+                rp.BotPolicy != null
+                && rp.Status != Status.Left
+                && rp.Room!.IsActive
+                && rp.Room.StartedAt != null
+            )
+            .Select(rp => rp.RoomId)
+            .Distinct()
+            .ToListAsync();
+    }
+
     public async Task UpdatePlayerStatusAsync(Guid id, Status status)
     {
         RoomPlayer roomPlayer =
@@ -1,8 +1,10 @@
+using System.Linq.Expressions;
 using Microsoft.EntityFrameworkCore;
 using Project.Api.Data;
 using Project.Api.Models;
 using Project.Api.Repositories.Interface;
 using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
 
 namespace Project.Api.Repositories;
 
@@ -41,6 +43,72 @@ public class RoomRepository(AppDbContext context) : IRoomRepository
             .ToListAsync();
     }
 
+    public async Task<List<Room>> SearchPublicRoomsAsync(
+        string? gameMode,
+        bool hasFreeSeats,
+        RoomSortBy sortBy,
+        bool descending,
+        int skip = 0,
+        int? take = null
+    )
+    {
+        IQueryable<Room> rooms = QueryPublicRooms(gameMode, hasFreeSeats);
+        IOrderedQueryable<Room> sorted = sortBy switch
+        {
+            RoomSortBy.Players => Sort(
+                rooms,
+                r => r.RoomPlayers.Count(p => p.Status != Status.Left),
+                descending
+            ),
+            RoomSortBy.FreeSeats => Sort(
+                rooms,
+                r =>
+                    r.RoomPlayers.Count(p => p.Status != Status.Left) >= r.MaxPlayers
+                        ? 0
+                        : r.MaxPlayers - r.RoomPlayers.Count(p => p.Status != Status.Left),
+                descending
+            ),
+            RoomSortBy.CreatedAt => Sort(rooms, r => r.CreatedAt, descending),
+            _ => rooms.OrderByDescending(r => r.CreatedAt), // sorted by the caller
+        };
+
+        // newest first among equals, so pages stay stable while rooms come and go
+        IQueryable<Room> page = sorted
+            .ThenByDescending(r => r.CreatedAt)
+            .ThenBy(r => r.Id)
+            .Skip(skip);
+        if (take is int count)
+            page = page.Take(count);
+
+        return await page.Include(r => r.Host).Include(r => r.RoomPlayers).ToListAsync();
+    }
+
+    public async Task<int> CountPublicRoomsAsync(string? gameMode, bool hasFreeSeats)
+    {
+        return await QueryPublicRooms(gameMode, hasFreeSeats).CountAsync();
+    }
+
+    private IQueryable<Room> QueryPublicRooms(string? gameMode, bool hasFreeSeats)
+    {
+        IQueryable<Room> rooms = _context.Rooms.Where(r => r.IsPublic && r.IsActive);
+
+        if (!string.IsNullOrWhiteSpace(gameMode))
+            rooms = rooms.Where(r => r.GameMode.ToLower() == gameMode.ToLower());
+
+        if (hasFreeSeats)
+            rooms = rooms.Where(r =>
+                r.RoomPlayers.Count(p => p.Status != Status.Left) < r.MaxPlayers
+            );
+
+        return rooms;
+    }
+
+    private static IOrderedQueryable<Room> Sort<TKey>(
+        IQueryable<Room> rooms,
+        Expression<Func<Room, TKey>> key,
+        bool descending
+    ) => descending ? rooms.OrderByDescending(key) : rooms.OrderBy(key);
+
     public async Task<Room?> GetByHostIdAsync(Guid hostId)
     {
         return await _context
@@ -49,6 +117,24 @@ public class RoomRepository(AppDbContext context) : IRoomRepository
             .FirstOrDefaultAsync(r => r.HostId == hostId);
     }
 
+    /// <summary>
+    /// Gets the active rooms the user hosts or has a seat in.
+    /// </summary>
+    public async Task<IEnumerable<Room>> GetActiveRoomsForUserAsync(Guid userId)
+    {
+        return await _context
+            .Rooms.Include(r => r.Host)
+            .Include(r => r.RoomPlayers)
+            .Where(r =>
+                r.IsActive
+                && (
+                    r.HostId == userId
+                    || r.RoomPlayers.Any(rp => rp.UserId == userId && rp.Status != Status.Left)
+                )
+            )
+            .ToListAsync();
+    }
+
     public async Task<Room> CreateAsync(Room room)
     {
         _context.Rooms.Add(room);
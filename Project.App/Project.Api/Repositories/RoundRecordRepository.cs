@@ -0,0 +1,182 @@
+using Microsoft.EntityFrameworkCore;
+using Project.Api.Data;
+using Project.Api.Models;
+using Project.Api.Repositories.Interface;
+using Project.Api.Utilities.Enums;
+using Project.Api.Utilities.Extensions;
+
+namespace Project.Api.Repositories;
+
+public class RoundRecordRepository(AppDbContext context) : IRoundRecordRepository
+{
+    private readonly AppDbContext _context = context;
+
+    public async Task<RoundRecord?> GetByIdAsync(Guid id)
+    {
+        return await _context.RoundRecords.FirstOrDefaultAsync(r => r.Id == id);
+    }
+
+    public async Task<IEnumerable<RoundRecord>> GetByRoomIdAsync(Guid roomId, int skip, int take)
+    {
+        return await _context
+            .RoundRecords.Where(r => r.RoomId == roomId)
+            .OrderByDescending(r => r.RoundNumber)
+            .ThenByDescending(r => r.FinishedAt)
+            .Skip(skip)
+            .Take(take)
+            .ToListAsync();
+    }
+
+    public async Task<int> CountByRoomIdAsync(Guid roomId)
+    {
+        return await _context.RoundRecords.CountAsync(r => r.RoomId == roomId);
+    }
+
+    public async Task<IEnumerable<RoundRecord>> GetByPlayerAsync(Guid userId)
+    {
+        return await _context
+            .RoundRecords.Where(r =>
+                _context.RoomPlayers.Any(rp => rp.RoomId == r.RoomId && rp.UserId == userId)
+            )
+            .OrderBy(r => r.FinishedAt)
+            .ToListAsync();
+    }
+
+    public async Task<List<LeaderboardStanding>> GetStandingsAsync(
+        LeaderboardMetric metric,
+        DateTimeOffset? since,
+        int skip,
+        int take
+    )
+    {
+        return await QueryStandings(metric, since)
+            .OrderByDescending(s => s.Value)
+            .ThenBy(s => s.UserName)
+            .ThenBy(s => s.UserId)
+            .Skip(skip)
+            .Take(take)
+            .ToListAsync();
+    }
+
+    public async Task<int> CountStandingsAsync(
+        LeaderboardMetric metric,
+        DateTimeOffset? since,
+        long? above = null
+    )
+    {
+        return await QueryStandings(metric, since)
+            .Where(s => above == null || s.Value > above)
+            .CountAsync();
+    }
+
+    private IQueryable<LeaderboardStanding> QueryStandings(
+        LeaderboardMetric metric,
+        DateTimeOffset? since
+    )
+    {
+        var outcomesByUser = _context
+            .HandOutcomes.Where(o => since == null || o.FinishedAt >= since)
+            .GroupBy(o => o.UserId);
+
+        IQueryable<LeaderboardStanding> standings = metric switch
+        {
+            LeaderboardMetric.BiggestWin => outcomesByUser.Select(g => new LeaderboardStanding
+            {
+                UserId = g.Key,
+                Value = g.Max(o => o.Net),
+                HandsPlayed = g.Count(),
+            }),
+            LeaderboardMetric.WinStreak => outcomesByUser.Select(g => new LeaderboardStanding
+            {
+                UserId = g.Key,
+                Value = g.Max(o => o.WinStreak),
+                HandsPlayed = g.Count(),
+            }),
+            _ => outcomesByUser.Select(g => new LeaderboardStanding
+            {
+                UserId = g.Key,
+                Value = g.Sum(o => o.Net),
+                HandsPlayed = g.Count(),
+            }),
+        };
+
+        // players who never won are left off the biggest win and win streak leaderboards
+        if (metric != LeaderboardMetric.NetWinnings)
+            standings = standings.Where(s => s.Value > 0);
+
+        return standings.Join(
+            _context.Users,
+            s => s.UserId,
+            u => u.Id,
+            (s, u) => new LeaderboardStanding
+            {
+                UserId = s.UserId,
+                UserName = u.Name,
+                Value = s.Value,
+                HandsPlayed = s.HandsPlayed,
+            }
+        );
+    }
+
+    public async Task<RoundRecord> CreateAsync(RoundRecord round)
+    {
+        foreach (HandOutcome outcome in await GetHandOutcomesAsync(round))
+        {
+            round.HandOutcomes.Add(outcome);
+        }
+
+        _context.RoundRecords.Add(round);
+        await _context.SaveChangesAsync();
+        return round;
+    }
+
+    /// <summary>
+    /// Works out how each person's hands in a round ended, continuing their win streaks.
+    /// </summary>
+    private async Task<List<HandOutcome>> GetHandOutcomesAsync(RoundRecord round)
+    {
+        List<Guid> botIds = await _context
+            .RoomPlayers.Where(rp => rp.RoomId == round.RoomId && rp.BotPolicy != null)
+            .Select(rp => rp.UserId)
+            .ToListAsync();
+
+        List<HandOutcome> outcomes = [];
+        Dictionary<Guid, int> winStreaks = [];
+        foreach (HandResult result in round.GetHandResults().OrderBy(r => r.Hand.HandIndex))
+        {
+            Guid userId = result.Hand.PlayerId;
+            if (botIds.Contains(userId))
+                continue;
+
+            if (!winStreaks.TryGetValue(userId, out int winStreak))
+            {
+                winStreak = await _context
+                    .HandOutcomes.Where(o => o.UserId == userId)
+                    .OrderByDescending(o => o.FinishedAt)
+                    .ThenByDescending(o => o.HandIndex)
+                    .Select(o => o.WinStreak)
+                    .FirstOrDefaultAsync();
+            }
+            // a push neither extends nor ends a win streak
+            if (result.IsWin)
+                winStreak++;
+            else if (result.IsLoss)
+                winStreak = 0;
+            winStreaks[userId] = winStreak;
+
+            outcomes.Add(
+                new HandOutcome
+                {
+                    UserId = userId,
+                    FinishedAt = round.FinishedAt,
+                    HandIndex = result.Hand.HandIndex,
+                    Net = result.Net,
+                    IsWin = result.IsWin,
+                    IsLoss = result.IsLoss,
+                    WinStreak = winStreak,
+                }
+            );
+        }
+        return outcomes;
+    }
+}
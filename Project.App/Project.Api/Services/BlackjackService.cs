@@ -77,6 +77,7 @@ public class BlackjackService(
     IDeckApiService deckApiService,
     IRoomSSEService roomSSEService,
     IUserRepository userRepository,
+    IRoundRecordRepository roundRecordRepository,
     ILogger<BlackjackService> logger
 ) : IGameService<IGameState, GameConfig>
 {
@@ -86,10 +87,31 @@ public class BlackjackService(
     private readonly IDeckApiService _deckApiService = deckApiService;
     private readonly IRoomSSEService _roomSSEService = roomSSEService;
     private readonly IUserRepository _userRepository = userRepository;
+    private readonly IRoundRecordRepository _roundRecordRepository = roundRecordRepository;
     private readonly ILogger<BlackjackService> _logger = logger; // TODO: add more logging
 
     public string GameMode => GameModes.Blackjack;
 
+    private const int CardsPerDeck = 52;
+
+    // the shoe is reshuffled early if fewer cards are left, enough for a full table to play a round
+    private const int MinCardsForRound = 30;
+
+    // bots wait this long before moving, or half the time limit if that is shorter
+    private static readonly TimeSpan BotThinkTime = TimeSpan.FromSeconds(1);
+
+    // what bots bet at tables without a minimum bet
+    private const long DefaultBotBet = 10;
+
+    /// <summary>
+    /// Stored configs are written by the server in PascalCase, but rooms that have not started
+    /// yet keep the config the client created them with, in camelCase.
+    /// </summary>
+    public static readonly JsonSerializerOptions ConfigJsonOptions = new()
+    {
+        PropertyNameCaseInsensitive = true,
+    };
+
     public async Task<GameConfig> GetConfigAsync(Guid gameId)
     {
         string configString = await _roomRepository.GetGameConfigAsync(gameId);
@@ -97,7 +119,8 @@ public class BlackjackService(
         if (string.IsNullOrWhiteSpace(configString))
             return new BlackjackConfig();
 
-        return JsonSerializer.Deserialize<BlackjackConfig>(configString) ?? new BlackjackConfig();
+        return JsonSerializer.Deserialize<BlackjackConfig>(configString, ConfigJsonOptions)
+            ?? new BlackjackConfig();
     }
 
     public async Task SetConfigAsync(Guid gameId, GameConfig inputConfig)
@@ -154,8 +177,8 @@ public class BlackjackService(
             }
         );
 
-        // create new deck
-        string deckId = await _deckApiService.CreateDeck();
+        // create new shoe
+        string deckId = await _deckApiService.CreateDeck(config.DeckCount);
 
         // update room
         Room room =
@@ -180,12 +203,23 @@ public class BlackjackService(
         if (await GetConfigAsync(roomId) is not BlackjackConfig config)
             throw new InternalServerException("Failed to get game config.");
 
-        // validate max player count
-        int playerCount = await _roomPlayerRepository.GetPlayerCountInRoomAsync(roomId);
-        if (playerCount >= config.MaxPlayers)
+        RoomPlayer? existingPlayer = await _roomPlayerRepository.GetByRoomIdAndUserIdAsync(
+            roomId,
+            playerId
+        );
+
+        if (existingPlayer?.BannedAt is not null)
+            throw new ForbiddenException("You have been banned from this room.");
+
+        // validate max player count, players who left (or are watching) have given up their seat
+        int seatedCount = (await _roomPlayerRepository.GetByRoomIdAsync(roomId)).Count(p =>
+            p.Status != Status.Left
+        );
+        bool hasSeat = existingPlayer is not null && existingPlayer.Status != Status.Left;
+        if (!hasSeat && seatedCount >= config.MaxPlayers)
         {
             throw new BadRequestException(
-                $"Room {roomId} is full ({playerCount}/{config.MaxPlayers})."
+                $"Room {roomId} is full ({seatedCount}/{config.MaxPlayers})."
             );
         }
 
@@ -195,10 +229,7 @@ public class BlackjackService(
             ?? throw new NotFoundException($"User {playerId} not found.");
 
         // check if player is already in room
-        if (
-            await _roomPlayerRepository.GetByRoomIdAndUserIdAsync(roomId, playerId)
-            is RoomPlayer existingPlayer
-        )
+        if (existingPlayer is not null)
         {
             // if player is inactive or left, mark as away
             if (existingPlayer.Status is Status.Inactive or Status.Left)
@@ -266,47 +297,402 @@ public class BlackjackService(
         // if player was host, find a new host
         if (room.HostId == playerId)
         {
-            // get list of players that are active or away
+            // get list of players that are active or away, bots cannot host
             List<RoomPlayer> availablePlayers =
             [
                 .. (await _roomPlayerRepository.GetByRoomIdAsync(gameId)).Where(p =>
-                    p.Status == Status.Active || p.Status == Status.Away
+                    (p.Status == Status.Active || p.Status == Status.Away) && p.BotPolicy is null
                 ),
             ];
 
             if (availablePlayers.Count == 0)
             {
-                // no active players, mark room as inactive
+                // no active players, mark room as inactive (which also stops its bots)
                 room.IsActive = false;
                 await _roomRepository.UpdateAsync(room);
             }
             else
             {
                 // otherwise, make the first active player the new host
-                room.HostId = availablePlayers[0].UserId;
+                RoomPlayer newHost = availablePlayers[0];
+                room.HostId = newHost.UserId;
                 await _roomRepository.UpdateAsync(room);
 
                 // broadcast new host
                 await _roomSSEService.BroadcastEventAsync(
                     gameId,
                     RoomEventType.HostChange,
-                    new HostChangeEventData() { PlayerId = playerId, PlayerName = player.Name }
+                    new HostChangeEventData()
+                    {
+                        PlayerId = newHost.UserId,
+                        PlayerName = newHost.User?.Name ?? string.Empty,
+                    }
                 );
             }
         }
     }
 
+    public async Task KickPlayerAsync(Guid gameId, Guid playerId, bool ban = false)
+    {
+        RoomPlayer roomPlayer =
+            await _roomPlayerRepository.GetByRoomIdAndUserIdAsync(gameId, playerId)
+            ?? throw new NotFoundException($"Player {playerId} not found in room {gameId}.");
+
+        // players who left can still be banned, to keep them from coming back
+        if (roomPlayer.Status == Status.Left && !ban)
+            throw new BadRequestException($"Player {playerId} has already left room {gameId}.");
+
+        roomPlayer.Status = Status.Left;
+        if (ban)
+            roomPlayer.BannedAt ??= DateTimeOffset.UtcNow;
+        await _roomPlayerRepository.UpdateAsync(roomPlayer);
+
+        User player =
+            await _userRepository.GetByIdAsync(playerId)
+            ?? throw new NotFoundException($"User {playerId} not found.");
+
+        await _roomSSEService.BroadcastEventAsync(
+            gameId,
+            RoomEventType.PlayerKicked,
+            new PlayerKickedEventData()
+            {
+                PlayerId = playerId,
+                PlayerName = player.Name,
+                Banned = ban,
+            }
+        );
+    }
+
+    public async Task AddBotAsync(Guid gameId, BotPolicy policy)
+    {
+        if (await GetConfigAsync(gameId) is not BlackjackConfig config)
+            throw new InternalServerException("Failed to get game config.");
+
+        List<RoomPlayer> players = [.. await _roomPlayerRepository.GetByRoomIdAsync(gameId)];
+        int seatedCount = players.Count(p => p.Status != Status.Left);
+        if (seatedCount >= config.MaxPlayers)
+        {
+            throw new BadRequestException(
+                $"Room {gameId} is full ({seatedCount}/{config.MaxPlayers})."
+            );
+        }
+
+        // every bot gets its own user, which can't log in, for the name shown at the table
+        int number = players.Count(p => p.BotPolicy is not null) + 1;
+        User bot = new()
+        {
+            Name = policy switch
+            {
+                BotPolicy.AlwaysStand => $"Stand Bot {number}",
+                BotPolicy.MimicDealer => $"Dealer Bot {number}",
+                _ => $"Strategy Bot {number}",
+            },
+            Email = $"bot-{Guid.NewGuid():N}@bots.invalid",
+        };
+        await _userRepository.AddAsync(bot);
+
+        // bots sit down like players who just joined
+        await _roomPlayerRepository.CreateAsync(
+            new RoomPlayer
+            {
+                RoomId = gameId,
+                UserId = bot.Id,
+                Balance = config.StartingBalance,
+                Status = Status.Away,
+                BotPolicy = policy,
+            }
+        );
+
+        await _roomSSEService.BroadcastEventAsync(
+            gameId,
+            RoomEventType.PlayerJoin,
+            new PlayerJoinEventData() { PlayerId = bot.Id, PlayerName = bot.Name }
+        );
+    }
+
+    public async Task PlayBotsAsync(Guid gameId)
+    {
+        if (await GetGameStateAsync(gameId) is not BlackjackState state)
+            throw new InternalServerException("Failed to get game state.");
+
+        if (state.PausedAt is not null)
+            return;
+
+        if (await GetConfigAsync(gameId) is not BlackjackConfig config)
+            throw new InternalServerException("Failed to get game config.");
+
+        List<RoomPlayer> bots =
+        [
+            .. (await _roomPlayerRepository.GetByRoomIdAsync(gameId)).Where(p =>
+                p.BotPolicy is not null && p.Status != Status.Left
+            ),
+        ];
+
+        switch (state.CurrentStage)
+        {
+            case BlackjackBettingStage bettingStage:
+                if (!IsBotDue(bettingStage.Deadline, config.BettingTimeLimit))
+                    return;
+
+                long bet = config.MinBet > 0 ? config.MinBet : DefaultBotBet;
+                if (config.MaxBet is long maxBet)
+                    bet = Math.Min(bet, maxBet);
+
+                foreach (RoomPlayer bot in bots.Where(b => !bettingStage.Bets.ContainsKey(b.Id)))
+                {
+                    // a bot out of chips gives up its seat instead of holding up the table
+                    if (bot.Balance < bet)
+                    {
+                        await PlayerLeaveAsync(gameId, bot.UserId);
+                        continue;
+                    }
+
+                    await PerformActionAsync(
+                        gameId,
+                        bot.UserId,
+                        "bet",
+                        JsonSerializer.SerializeToElement(new BetAction(bet))
+                    );
+
+                    // the last bet starts the round
+                    var updated = await GetGameStateAsync(gameId) as BlackjackState;
+                    if (updated?.CurrentStage is not BlackjackBettingStage)
+                        break;
+                }
+                break;
+
+            case BlackjackPlayerActionStage actionStage:
+                if (!IsBotDue(actionStage.Deadline, config.TurnTimeLimit))
+                    return;
+
+                Hand hand = await _handRepository.GetHandByRoomOrderAsync(
+                    gameId,
+                    actionStage.PlayerIndex,
+                    actionStage.HandIndex
+                );
+                if (bots.FirstOrDefault(b => b.Id == hand.RoomPlayerId) is not RoomPlayer turnBot)
+                    return;
+
+                string action = await ChooseBotActionAsync(
+                    gameId,
+                    turnBot,
+                    hand,
+                    actionStage,
+                    config
+                );
+                BlackjackActionDTO data = action switch
+                {
+                    "split" => new SplitAction(hand.Bet),
+                    "double" => new DoubleAction(),
+                    "surrender" => new SurrenderAction(),
+                    "hit" => new HitAction(),
+                    _ => new StandAction(),
+                };
+
+                // the same way players act, so everyone sees the same player_action events
+                await PerformActionAsync(
+                    gameId,
+                    turnBot.UserId,
+                    action,
+                    JsonSerializer.SerializeToElement(data, data.GetType())
+                );
+                break;
+        }
+    }
+
+    /// <summary>
+    /// Whether bots should move in a stage, after thinking for a moment like a person would, but
+    /// always well within its time limit.
+    /// </summary>
+    private static bool IsBotDue(DateTimeOffset deadline, TimeSpan timeLimit)
+    {
+        TimeSpan thinkTime = timeLimit / 2 < BotThinkTime ? timeLimit / 2 : BotThinkTime;
+        return DateTimeOffset.UtcNow >= deadline - timeLimit + thinkTime;
+    }
+
+    /// <summary>
+    /// Picks the move for the hand a bot is playing, allowing only the moves the table's rules allow.
+    /// </summary>
+    private async Task<string> ChooseBotActionAsync(
+        Guid roomId,
+        RoomPlayer bot,
+        Hand hand,
+        BlackjackPlayerActionStage stage,
+        BlackjackConfig config
+    )
+    {
+        Room room =
+            await _roomRepository.GetByIdAsync(roomId)
+            ?? throw new NotFoundException($"Room {roomId} not found.");
+        string deckId =
+            room.DeckId ?? throw new InternalServerException($"Room {roomId} has no deck ID.");
+
+        // the bot's cards went with a lost deck, there is nothing to play, see GetShoeAsync
+        if (!await _deckApiService.DeckExists(deckId))
+            return "stand";
+
+        List<CardDTO> cards = await _deckApiService.ListHand(deckId, $"hand-{hand.Id}");
+        CardDTO dealerUpcard = (await _deckApiService.ListHand(deckId, "dealer"))[0];
+
+        // the same checks the actions make
+        int splits = Math.Max((await GetPlayerHandsAsync(roomId, bot)).Count - 1, 0);
+        bool firstAction = cards.Count == 2;
+        bool isPair = firstAction && cards[0].Value == cards[1].Value;
+        BotMoveOptions options = new(
+            CanDouble: firstAction
+                && bot.Balance >= hand.Bet
+                && (config.DoubleAfterSplit || splits == 0),
+            CanSplit: isPair
+                && bot.Balance >= hand.Bet
+                && splits < config.MaxSplits
+                && (splits == 0 || cards[0].Value != "ACE" || config.ResplitAces),
+            CanSurrender: firstAction
+                && config.LateSurrender
+                && stage.HandIndex == 0
+                && splits == 0
+        );
+
+        return BlackjackBotStrategy.ChooseAction(
+            bot.BotPolicy ?? BotPolicy.BasicStrategy,
+            cards,
+            dealerUpcard,
+            config,
+            options
+        );
+    }
+
+    public async Task TransferHostAsync(Guid gameId, Guid newHostId)
+    {
+        RoomPlayer newHost =
+            await _roomPlayerRepository.GetByRoomIdAndUserIdAsync(gameId, newHostId)
+            ?? throw new NotFoundException($"Player {newHostId} not found in room {gameId}.");
+
+        if (newHost.Status == Status.Left)
+            throw new BadRequestException("Only players with a seat can become the host.");
+
+        if (newHost.BotPolicy is not null)
+            throw new BadRequestException("Bots cannot become the host.");
+
+        Room room =
+            await _roomRepository.GetByIdAsync(gameId)
+            ?? throw new NotFoundException($"Room {gameId} not found.");
+
+        User user =
+            await _userRepository.GetByIdAsync(newHostId)
+            ?? throw new NotFoundException($"User {newHostId} not found.");
+
+        room.HostId = newHostId;
+        await _roomRepository.UpdateAsync(room);
+
+        await _roomSSEService.BroadcastEventAsync(
+            gameId,
+            RoomEventType.HostChange,
+            new HostChangeEventData() { PlayerId = newHostId, PlayerName = user.Name }
+        );
+    }
+
+    public async Task PauseAsync(Guid gameId)
+    {
+        if (await GetGameStateAsync(gameId) is not BlackjackState state)
+            throw new InternalServerException("Failed to get game state.");
+
+        if (state.PausedAt is not null)
+            throw new BadRequestException("The game is already paused.");
+
+        if (state.CurrentStage is not (BlackjackBettingStage or BlackjackPlayerActionStage))
+            throw new BadRequestException("Only the betting stage and player turns can be paused.");
+
+        state.PausedAt = DateTimeOffset.UtcNow;
+        await state.SaveStateAndBroadcastAsync(gameId, _roomRepository);
+
+        await _roomSSEService.BroadcastEventAsync(
+            gameId,
+            RoomEventType.GamePaused,
+            new GamePausedEventData() { PausedAt = state.PausedAt.Value }
+        );
+    }
+
+    public async Task ResumeAsync(Guid gameId)
+    {
+        if (await GetGameStateAsync(gameId) is not BlackjackState state)
+            throw new InternalServerException("Failed to get game state.");
+
+        if (state.PausedAt is not DateTimeOffset pausedAt)
+            throw new BadRequestException("The game is not paused.");
+
+        // push the deadline back by the length of the pause, so the stage keeps the time it had left
+        TimeSpan pausedFor = DateTimeOffset.UtcNow - pausedAt;
+        DateTimeOffset? deadline = null;
+        switch (state.CurrentStage)
+        {
+            case BlackjackBettingStage bettingStage:
+                deadline = bettingStage.Deadline + pausedFor;
+                state.CurrentStage = bettingStage with { Deadline = deadline.Value };
+                break;
+            case BlackjackPlayerActionStage actionStage:
+                deadline = actionStage.Deadline + pausedFor;
+                state.CurrentStage = actionStage with { Deadline = deadline.Value };
+                break;
+        }
+
+        state.PausedAt = null;
+        await state.SaveStateAndBroadcastAsync(gameId, _roomRepository, _roomSSEService);
+
+        await _roomSSEService.BroadcastEventAsync(
+            gameId,
+            RoomEventType.GameResumed,
+            new GameResumedEventData() { Deadline = deadline }
+        );
+    }
+
+    public async Task UpdateConfigAsync(Guid gameId, GameConfig inputConfig)
+    {
+        if (inputConfig is not BlackjackConfig config)
+            throw new ArgumentException("Config must be of type BlackjackConfig.");
+
+        GameConfigValidator.ValidateBlackjackConfig(config);
+
+        Room room =
+            await _roomRepository.GetByIdAsync(gameId)
+            ?? throw new NotFoundException($"Room {gameId} not found.");
+
+        // changing the rules mid-round would apply them to bets that were already made
+        bool pending = room.StartedAt is not null;
+        if (pending)
+        {
+            if (await GetGameStateAsync(gameId) is not BlackjackState state)
+                throw new InternalServerException("Failed to get game state.");
+
+            state.PendingConfig = config;
+            await state.SaveStateAndBroadcastAsync(gameId, _roomRepository);
+        }
+        else
+        {
+            await SetConfigAsync(gameId, config);
+        }
+
+        await _roomSSEService.BroadcastEventAsync(
+            gameId,
+            RoomEventType.ConfigChange,
+            new ConfigChangeEventData() { Config = config, Pending = pending }
+        );
+    }
+
     public async Task PerformActionAsync(
         Guid roomId,
         Guid playerId,
         string action,
-        JsonElement data
+        JsonElement data,
+        string? idempotencyKey = null
     )
     {
         // ensure action is valid for this stage
         if (await GetGameStateAsync(roomId) is not BlackjackState state)
             throw new InternalServerException("Failed to get game state.");
 
+        if (state.PausedAt is not null)
+            throw new BadRequestException("The game is paused.");
+
         if (!IsActionValid(action, state.CurrentStage))
         {
             throw new BadRequestException(
@@ -319,6 +705,10 @@ public class BlackjackService(
             await _roomPlayerRepository.GetByRoomIdAndUserIdAsync(roomId, playerId)
             ?? throw new BadRequestException($"Player {playerId} not found.");
 
+        // betting would otherwise give a kicked or banned player their seat back
+        if (player.Status == Status.Left || player.BannedAt is not null)
+            throw new BadRequestException($"Player {playerId} is no longer in room {roomId}.");
+
         BlackjackActionDTO actionDTO = data.ToBlackjackAction(action);
 
         // get config
@@ -329,7 +719,14 @@ public class BlackjackService(
         switch (actionDTO)
         {
             case BetAction betAction:
-                await ProcessBetAsync(state, roomId, player, betAction.Amount);
+                await ProcessBetAsync(
+                    state,
+                    roomId,
+                    player,
+                    betAction.Amount,
+                    config,
+                    idempotencyKey
+                );
 
                 BlackjackBettingStage bettingStage = (BlackjackBettingStage)state.CurrentStage;
 
@@ -360,7 +757,7 @@ public class BlackjackService(
                 // otherwise, do nothing
                 break;
             case HitAction:
-                (state, bool busted) = await DoHitAsync(state, roomId, player);
+                (state, bool busted) = await DoHitAsync(state, roomId, player, idempotencyKey);
 
                 if (busted)
                 {
@@ -395,21 +792,29 @@ public class BlackjackService(
                     roomId,
                     player.UserId,
                     hand.HandNumber,
-                    "stand"
+                    "stand",
+                    idempotencyKey: idempotencyKey
                 );
 
                 // next player or next stage
                 await NextHandOrFinishRoundAsync(state, roomId);
                 break;
             case DoubleAction:
-                await DoDoubleAsync(state, roomId, player);
+                await DoDoubleAsync(state, roomId, player, config, idempotencyKey);
 
                 // next player or next stage
                 await NextHandOrFinishRoundAsync(state, roomId);
                 // throw new NotImplementedException(); // This line should be removed if DoDoubleAsync is fully implemented
                 break;
             case SplitAction splitAction:
-                await DoSplitAsync(state, roomId, player, splitAction.Amount);
+                await DoSplitAsync(
+                    state,
+                    roomId,
+                    player,
+                    splitAction.Amount,
+                    config,
+                    idempotencyKey
+                );
 
                 // stay on the same player's turn, but reset the deadline
                 ((BlackjackPlayerActionStage)state.CurrentStage).ResetDeadline(
@@ -418,7 +823,7 @@ public class BlackjackService(
                 await state.SaveStateAndBroadcastAsync(roomId, _roomRepository, _roomSSEService);
                 break;
             case SurrenderAction:
-                await DoSurrenderAsync(state, roomId, player);
+                await DoSurrenderAsync(state, roomId, player, config, idempotencyKey);
 
                 // next player or next stage
                 await NextHandOrFinishRoundAsync(state, roomId);
@@ -450,8 +855,10 @@ public class BlackjackService(
                                 playerId,
                                 ((BlackjackPlayerActionStage)state.CurrentStage).HandIndex,
                                 "hurry_up",
-                                success: false
+                                success: false,
+                                idempotencyKey: idempotencyKey
                             );
+                            // the player still has time, their turn goes on
                         }
                         else
                         {
@@ -480,12 +887,13 @@ public class BlackjackService(
                                 actionStage.HandIndex,
                                 "hurry_up",
                                 success: true,
-                                targetPlayerId: inactivePlayer.UserId
+                                targetPlayerId: inactivePlayer.UserId,
+                                idempotencyKey: idempotencyKey
                             );
-                        }
 
-                        // act as if the player stood
-                        await NextHandOrFinishRoundAsync(state, roomId, config);
+                            // act as if the player stood
+                            await NextHandOrFinishRoundAsync(state, roomId, config);
+                        }
                         break;
                     default:
                         throw new BadRequestException("Nothing to hurry in the current stage.");
@@ -499,14 +907,23 @@ public class BlackjackService(
     /// <summary>
     /// Process a player's bet during the betting stage.
     /// </summary>
-    /// <exception cref="BadRequestException">Thrown if the player does not have enough chips to bet.</exception>
+    /// <exception cref="BadRequestException">Thrown if the player does not have enough chips to bet, or the bet is outside the table's limits.</exception>
     private async Task ProcessBetAsync(
         BlackjackState state,
         Guid roomId,
         RoomPlayer player,
-        long bet
+        long bet,
+        BlackjackConfig config,
+        string? idempotencyKey
     )
     {
+        // check table limits
+        if (bet < config.MinBet)
+            throw new BadRequestException($"The minimum bet at this table is {config.MinBet}.");
+
+        if (config.MaxBet is long maxBet && bet > maxBet)
+            throw new BadRequestException($"The maximum bet at this table is {maxBet}.");
+
         // check if player has enough chips
         if (player.Balance < bet)
         {
@@ -530,7 +947,8 @@ public class BlackjackService(
             player.UserId,
             0,
             "bet",
-            amount: bet
+            amount: bet,
+            idempotencyKey: idempotencyKey
         );
 
         await state.SaveStateAndBroadcastAsync(roomId, _roomRepository, _roomSSEService);
@@ -588,7 +1006,7 @@ public class BlackjackService(
         Room room =
             await _roomRepository.GetByIdAsync(roomId)
             ?? throw new NotFoundException($"Room {roomId} not found.");
-        string deckId = await room.GetOrCreateDeckId(_deckApiService, _roomRepository, _logger);
+        string deckId = await GetShoeAsync(state, room, config);
 
         // deal initial cards (2 to each player, 2 to dealer, one at a time)
         List<Hand> hands = await _handRepository.GetHandsByRoomIdAsync(roomId);
@@ -673,12 +1091,10 @@ public class BlackjackService(
         Room room =
             await _roomRepository.GetByIdAsync(roomId)
             ?? throw new NotFoundException($"Room {roomId} not found.");
+        if (await GetConfigAsync(roomId) is not BlackjackConfig config)
+            throw new InternalServerException("Failed to get game config.");
 
-        return (
-            stage,
-            hand,
-            room.DeckId ?? throw new InternalServerException($"Room {roomId} has no deck ID.")
-        );
+        return (stage, hand, await GetShoeAsync(state, room, config));
     }
 
     /// <summary>
@@ -688,7 +1104,8 @@ public class BlackjackService(
     private async Task<(BlackjackState, bool)> DoHitAsync(
         BlackjackState state,
         Guid roomId,
-        RoomPlayer player
+        RoomPlayer player,
+        string? idempotencyKey
     )
     {
         (_, Hand hand, string deckId) = await InitializePlayerActionAsync(state, roomId, player);
@@ -703,7 +1120,8 @@ public class BlackjackService(
             player.UserId,
             hand.HandNumber,
             "hit",
-            cards: drawnCards
+            cards: drawnCards,
+            idempotencyKey: idempotencyKey
         );
 
         // broadcast updated player hand
@@ -722,20 +1140,31 @@ public class BlackjackService(
     /// Process a player's "double" action during their turn, doubling their bet and drawing one card.
     /// </summary>
     /// <remarks>Should end the player's turn.</remarks>
-    private async Task DoDoubleAsync(BlackjackState state, Guid roomId, RoomPlayer player)
+    private async Task DoDoubleAsync(
+        BlackjackState state,
+        Guid roomId,
+        RoomPlayer player,
+        BlackjackConfig config,
+        string? idempotencyKey
+    )
     {
-        (BlackjackPlayerActionStage stage, Hand hand, string deckId) =
-            await InitializePlayerActionAsync(state, roomId, player);
+        (_, Hand hand, string deckId) = await InitializePlayerActionAsync(state, roomId, player);
 
-        // can only be done on the player's first turn!
-        // check if player only has two cards in hand and is on their first hand
+        // can only be done as the first action on a hand!
+        // check if player only has two cards in hand
         List<CardDTO> handCards = await _deckApiService.ListHand(deckId, $"hand-{hand.Id}");
 
-        if (stage.HandIndex != 0 || handCards.Count > 2)
+        if (handCards.Count != 2)
         {
             throw new BadRequestException("Double can only be done on the player's first turn.");
         }
 
+        // hands made by splitting can only be doubled if the table allows it
+        if (!config.DoubleAfterSplit && await HasSplitAsync(roomId, player))
+        {
+            throw new BadRequestException("Doubling after a split is not allowed at this table.");
+        }
+
         // check if player has enough chips to double their bet
         if (player.Balance < hand.Bet)
         {
@@ -760,7 +1189,8 @@ public class BlackjackService(
             hand.HandNumber,
             "double",
             cards: drawnCard,
-            amount: hand.Bet
+            amount: hand.Bet,
+            idempotencyKey: idempotencyKey
         );
 
         // broadcast updated player hand
@@ -780,11 +1210,12 @@ public class BlackjackService(
         BlackjackState state,
         Guid roomId,
         RoomPlayer player,
-        long amount
+        long amount,
+        BlackjackConfig config,
+        string? idempotencyKey
     )
     {
-        (BlackjackPlayerActionStage stage, Hand hand, string deckId) =
-            await InitializePlayerActionAsync(state, roomId, player);
+        (_, Hand hand, string deckId) = await InitializePlayerActionAsync(state, roomId, player);
 
         // check if player has enough chips to do the new bet
         if (player.Balance < amount)
@@ -794,11 +1225,11 @@ public class BlackjackService(
             );
         }
 
-        // can only be done on the player's first turn!
-        // check if player only has two cards in hand and is on their first hand
+        // can only be done as the first action on a hand!
+        // check if player only has two cards in hand
         List<CardDTO> handCards = await _deckApiService.ListHand(deckId, $"hand-{hand.Id}");
 
-        if (stage.HandIndex != 0 || handCards.Count != 2)
+        if (handCards.Count != 2)
         {
             throw new BadRequestException("Split can only be done on the player's first turn.");
         }
@@ -809,20 +1240,39 @@ public class BlackjackService(
             throw new BadRequestException("Can only split if both cards have the same value.");
         }
 
-        // create new hand with second card
+        // check the table's split rules
+        List<Hand> playerHands = await GetPlayerHandsAsync(roomId, player);
+        int splits = Math.Max(playerHands.Count - 1, 0);
+        if (splits >= config.MaxSplits)
+        {
+            throw new BadRequestException(
+                config.MaxSplits == 0
+                    ? "Splitting is not allowed at this table."
+                    : $"You can only split {config.MaxSplits} time(s) per round."
+            );
+        }
+
+        if (splits > 0 && handCards[0].Value == "ACE" && !config.ResplitAces)
+        {
+            throw new BadRequestException("Aces cannot be split again at this table.");
+        }
+
+        // create new hand with second card, played after the player's other hands
+        int newHandNumber =
+            playerHands.Count > 0 ? playerHands.Max(h => h.HandNumber) + 1 : hand.HandNumber + 1;
         await _handRepository.CreateHandAsync(
             new()
             {
                 RoomPlayerId = hand.RoomPlayerId,
                 Order = hand.Order,
-                HandNumber = hand.HandNumber + 1,
+                HandNumber = newHandNumber,
                 Bet = amount,
             }
         );
         Hand newHand = await _handRepository.GetHandByRoomOrderAsync(
             roomId,
             hand.Order,
-            hand.HandNumber + 1
+            newHandNumber
         );
 
         // move second card to new hand
@@ -843,7 +1293,8 @@ public class BlackjackService(
             player.UserId,
             hand.HandNumber,
             "split",
-            amount: amount
+            amount: amount,
+            idempotencyKey: idempotencyKey
         ); // can't really broadcast both hands in one event
 
         // broadcast both updated player hands
@@ -869,8 +1320,19 @@ public class BlackjackService(
     /// <summary>
     /// Process a player's "surrender" action during their turn, forfeiting half their bet and ending their turn.
     /// </summary>
-    private async Task DoSurrenderAsync(BlackjackState state, Guid roomId, RoomPlayer player)
+    private async Task DoSurrenderAsync(
+        BlackjackState state,
+        Guid roomId,
+        RoomPlayer player,
+        BlackjackConfig config,
+        string? idempotencyKey
+    )
     {
+        if (!config.LateSurrender)
+        {
+            throw new BadRequestException("Surrender is not allowed at this table.");
+        }
+
         (BlackjackPlayerActionStage stage, Hand hand, string deckId) =
             await InitializePlayerActionAsync(state, roomId, player);
 
@@ -883,9 +1345,10 @@ public class BlackjackService(
             throw new BadRequestException("Surrender is only allowed on your first action.");
         }
 
-        // refund half of player's bet
+        // refund half of player's bet, the hand sits out the payout at the end of the round
         long refund = hand.Bet / 2;
         await _roomPlayerRepository.UpdatePlayerBalanceAsync(player.Id, refund);
+        state.SurrenderedHands.Add(hand.Id);
 
         // broadcast player action (surrender)
         await _roomSSEService.BroadcastPlayerActionAsync(
@@ -893,10 +1356,24 @@ public class BlackjackService(
             player.UserId,
             hand.HandNumber,
             "surrender",
-            amount: refund
+            amount: refund,
+            idempotencyKey: idempotencyKey
         );
     }
 
+    /// <summary>
+    /// Gets the hands the player is playing this round, more than one if they split.
+    /// </summary>
+    private async Task<List<Hand>> GetPlayerHandsAsync(Guid roomId, RoomPlayer player) =>
+        [
+            .. (await _handRepository.GetHandsByRoomIdAsync(roomId)).Where(h =>
+                h.RoomPlayerId == player.Id
+            ),
+        ];
+
+    private async Task<bool> HasSplitAsync(Guid roomId, RoomPlayer player) =>
+        (await GetPlayerHandsAsync(roomId, player)).Count > 1;
+
     /// <summary>
     /// Move to the next player/hand turn, or if no players/hands are left, move to next stage (dealer turn).
     /// </summary>
@@ -996,12 +1473,10 @@ public class BlackjackService(
             await _roomRepository.GetByIdAsync(roomId)
             ?? throw new NotFoundException($"Room {roomId} not found.");
 
-        List<CardDTO> dealerHand = await _deckApiService.ListHand(
-            room.DeckId ?? throw new InternalServerException($"Room {roomId} has no deck ID."),
-            "dealer"
-        );
+        string deckId = await GetShoeAsync(state, room, config);
+        List<CardDTO> dealerHand = await _deckApiService.ListHand(deckId, "dealer");
 
-        // hit until dealer has at least 17
+        // hit until dealer has at least 17, or a hard 17 if the dealer hits soft 17s
         int dealerValue = dealerHand.CalculateHandValue();
         _logger.LogInformation(
             "Room {roomId} - Dealer hand: {dealerHand} ({dealerValue})",
@@ -1009,17 +1484,13 @@ public class BlackjackService(
             string.Join(", ", dealerHand.Select(c => c.Code)),
             dealerValue
         );
-        while (dealerValue < 17)
+        while (
+            dealerValue < 17
+            || (config.DealerHitsSoft17 && dealerValue == 17 && dealerHand.IsSoftHand())
+        )
         {
-            await _deckApiService.DrawCards(
-                room.DeckId ?? throw new InternalServerException($"Room {roomId} has no deck ID."),
-                "dealer",
-                1
-            );
-            dealerHand = await _deckApiService.ListHand(
-                room.DeckId ?? throw new InternalServerException($"Room {roomId} has no deck ID."),
-                "dealer"
-            );
+            await _deckApiService.DrawCards(deckId, "dealer", 1);
+            dealerHand = await _deckApiService.ListHand(deckId, "dealer");
             dealerValue = dealerHand.CalculateHandValue();
             _logger.LogInformation(
                 "Room {roomId} - Dealer hit: {dealerHand} ({dealerValue})",
@@ -1032,6 +1503,12 @@ public class BlackjackService(
         // broadcast final dealer hand (do not hide any cards)
         await dealerHand.BroadcastAsync(_roomSSEService, roomId);
 
+        // the piles used this round, to clear the table afterwards
+        List<(string Pile, List<CardDTO> Cards)> usedPiles = [("dealer", dealerHand)];
+
+        // the hands as they ended, for the round's record
+        List<RoundHandDTO> roundHands = [];
+
         // calculate winnings for each player hand
         List<Hand> hands =
         [
@@ -1041,26 +1518,33 @@ public class BlackjackService(
         ]; // ensure hands are processed in order
         foreach (Hand hand in hands)
         {
-            List<CardDTO> playerHand = await _deckApiService.ListHand(
-                room.DeckId ?? throw new InternalServerException($"Room {roomId} has no deck ID."),
-                $"hand-{hand.Id}"
-            );
+            List<CardDTO> playerHand = await _deckApiService.ListHand(deckId, $"hand-{hand.Id}");
 
-            switch (playerHand.CompareHand(dealerHand))
+            long payout = 0;
+            int comparison = state.SurrenderedHands.Contains(hand.Id)
+                ? -1 // already settled when the player surrendered
+                : playerHand.CompareHand(dealerHand);
+            switch (comparison)
             {
                 case > 0:
-                    // player wins
-                    long winnings = hand.Bet * 2;
+                    // player wins, a blackjack pays extra (but not on hands made by splitting)
+                    bool isNatural =
+                        playerHand.IsBlackjack()
+                        && hands.Count(h => h.RoomPlayerId == hand.RoomPlayerId) == 1;
+                    payout = isNatural
+                        ? hand.Bet + GetBlackjackWinnings(hand.Bet, config.BlackjackPayout)
+                        : hand.Bet * 2;
                     await _roomPlayerRepository.UpdatePlayerBalanceAsync(
                         hand.RoomPlayerId,
-                        winnings
+                        payout
                     );
                     break;
                 case 0:
                     // push
+                    payout = hand.Bet;
                     await _roomPlayerRepository.UpdatePlayerBalanceAsync(
                         hand.RoomPlayerId,
-                        hand.Bet
+                        payout
                     );
                     break;
                 case < 0:
@@ -1068,6 +1552,8 @@ public class BlackjackService(
                     break;
             }
 
+            usedPiles.Add(($"hand-{hand.Id}", playerHand));
+
             // broadcast final player hand
             RoomPlayer roomPlayer =
                 await _roomPlayerRepository.GetByIdAsync(hand.RoomPlayerId)
@@ -1078,21 +1564,48 @@ public class BlackjackService(
                 roomPlayer.UserId,
                 hand.HandNumber
             );
+
+            roundHands.Add(
+                new RoundHandDTO
+                {
+                    PlayerId = roomPlayer.UserId,
+                    PlayerName = roomPlayer.User?.Name ?? string.Empty,
+                    HandIndex = hand.HandNumber,
+                    Bet = hand.Bet,
+                    Cards = playerHand,
+                    Score = playerHand.CalculateHandValue(),
+                    Payout = payout,
+                }
+            );
         }
 
+        // keep a record of the round, with everything broadcast since the last one to replay it
+        await _roundRecordRepository.CreateAsync(
+            new RoundRecord
+            {
+                RoomId = roomId,
+                RoundNumber = room.Round,
+                FinishedAt = DateTimeOffset.UtcNow,
+                DealerHand = JsonSerializer.Serialize(dealerHand),
+                DealerScore = dealerValue,
+                Hands = JsonSerializer.Serialize(roundHands),
+                Events = JsonSerializer.Serialize(_roomSSEService.TakeGameEvents(roomId)),
+            }
+        );
+
         // reset player hands
         foreach (Hand hand in hands)
         {
             await _handRepository.DeleteHandAsync(hand.Id);
         }
+        state.SurrenderedHands.Clear();
 
-        // return all cards to deck and shuffle
-        string deckId = await room.GetOrCreateDeckId(_deckApiService, _roomRepository, _logger);
-        bool success = await _deckApiService.ReturnAllCardsToDeck(deckId);
-        if (!success)
-        {
-            _logger.LogError("Failed to return cards to deck for room {RoomId}, skipping.", roomId);
-        }
+        // set up the next round, with any config changes made during this one
+        int deckCount = config.DeckCount;
+        config = await SetupRoundAsync(state, roomId, config);
+
+        // clear the table, and reshuffle if the shoe has been dealt far enough
+        await PrepareShoeAsync(state, room, config, deckCount != config.DeckCount, usedPiles);
 
         // initialize next betting stage
         state.CurrentStage = new BlackjackBettingStage(
@@ -1105,4 +1618,117 @@ public class BlackjackService(
         room.Round += 1;
         await _roomRepository.UpdateAsync(room);
     }
+
+    /// <summary>
+    /// What a winning blackjack pays on top of the returned bet.
+    /// </summary>
+    private static long GetBlackjackWinnings(long bet, BlackjackPayout payout) =>
+        payout switch
+        {
+            BlackjackPayout.SixToFive => bet * 6 / 5,
+            _ => bet * 3 / 2,
+        };
+
+    /// <summary>
+    /// Clears the last round's cards off the table. They stay out of the shoe until it is reshuffled,
+    /// which happens once it has been dealt past the configured penetration.
+    /// </summary>
+    private async Task PrepareShoeAsync(
+        BlackjackState state,
+        Room room,
+        BlackjackConfig config,
+        bool deckCountChanged,
+        List<(string Pile, List<CardDTO> Cards)> usedPiles
+    )
+    {
+        // a different number of decks needs a new shoe
+        if (deckCountChanged)
+        {
+            room.DeckId = await _deckApiService.CreateDeck(config.DeckCount);
+            state.CardsDealt = 0;
+            return;
+        }
+
+        string? previousDeckId = room.DeckId;
+        string deckId = await GetShoeAsync(state, room, config);
+        if (deckId != previousDeckId)
+            return; // the new shoe is full, the used cards were never dealt from it
+
+        state.CardsDealt += usedPiles.Sum(pile => pile.Cards.Count);
+
+        int shoeSize = config.DeckCount * CardsPerDeck;
+        if (
+            state.CardsDealt >= shoeSize * config.ReshufflePenetration
+            || shoeSize - state.CardsDealt < MinCardsForRound
+        )
+        {
+            bool success = await _deckApiService.ReturnAllCardsToDeck(deckId);
+            if (!success)
+            {
+                _logger.LogError(
+                    "Failed to return cards to deck for room {RoomId}, skipping.",
+                    room.Id
+                );
+                return;
+            }
+
+            state.CardsDealt = 0;
+            return;
+        }
+
+        // otherwise discard them
+        foreach ((string pile, List<CardDTO> cards) in usedPiles.Where(p => p.Cards.Count > 0))
+        {
+            await _deckApiService.RemoveFromHand(
+                deckId,
+                pile,
+                string.Join(",", cards.Select(c => c.Code))
+            );
+        }
+    }
+
+    /// <summary>
+    /// Gets the room's shoe, see <see cref="RoomExtensions.GetOrCreateDeckId"/>. Nothing has been
+    /// dealt from a new one yet.
+    /// </summary>
+    private async Task<string> GetShoeAsync(BlackjackState state, Room room, BlackjackConfig config)
+    {
+        string? previousDeckId = room.DeckId;
+        string deckId = await room.GetOrCreateDeckId(
+            _deckApiService,
+            _roomRepository,
+            config.DeckCount,
+            _logger
+        );
+        if (deckId != previousDeckId)
+            state.CardsDealt = 0;
+
+        return deckId;
+    }
+
+    /// <summary>
+    /// Moves to the setup stage before a new round, applying config changes made since the last one.
+    /// </summary>
+    /// <returns>The config for the new round.</returns>
+    private async Task<BlackjackConfig> SetupRoundAsync(
+        BlackjackState state,
+        Guid roomId,
+        BlackjackConfig config
+    )
+    {
+        state.CurrentStage = new BlackjackSetupStage();
+        if (state.PendingConfig is not BlackjackConfig pendingConfig)
+            return config;
+
+        await SetConfigAsync(roomId, pendingConfig);
+        state.PendingConfig = null;
+        await state.SaveStateAndBroadcastAsync(roomId, _roomRepository);
+
+        await _roomSSEService.BroadcastEventAsync(
+            roomId,
+            RoomEventType.ConfigChange,
+            new ConfigChangeEventData() { Config = pendingConfig, Pending = false }
+        );
+        return pendingConfig;
+    }
 }
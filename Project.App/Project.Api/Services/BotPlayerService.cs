@@ -0,0 +1,62 @@
+using Project.Api.Repositories.Interface;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+
+namespace Project.Api.Services;
+
+/// <summary>
+/// Background service that plays for the bots, since nothing else happens between requests.
+/// Every <see cref="TickInterval"/> it lets each game with bots make the moves they are due to make.
+/// </summary>
+public class BotPlayerService(IServiceScopeFactory scopeFactory, ILogger<BotPlayerService> logger)
+    : BackgroundService
+{
+    private static readonly TimeSpan TickInterval = TimeSpan.FromMilliseconds(500);
+
+    private readonly IServiceScopeFactory _scopeFactory = scopeFactory;
+    private readonly ILogger<BotPlayerService> _logger = logger;
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("Bot Player Service started");
+
+        using PeriodicTimer timer = new(TickInterval);
+        while (await timer.WaitForNextTickAsync(stoppingToken))
+        {
+            try
+            {
+                await PlayBotsAsync();
+            }
+            catch (Exception ex)
+            {
+                // e.g. the database being unavailable, try again next tick
+                _logger.LogError(ex, "Failed to look up the games with bots");
+            }
+        }
+    }
+
+    private async Task PlayBotsAsync()
+    {
+        using IServiceScope scope = _scopeFactory.CreateScope();
+        var roomPlayerRepository =
+            scope.ServiceProvider.GetRequiredService<IRoomPlayerRepository>();
+        var roomService = scope.ServiceProvider.GetRequiredService<IRoomService>();
+
+        foreach (Guid roomId in await roomPlayerRepository.GetRoomIdsWithBotsAsync())
+        {
+            try
+            {
+                await roomService.PlayBotsAsync(roomId);
+            }
+            catch (BadRequestException ex)
+            {
+                // a player acted first, the bot tries again with the new state next tick
+                _logger.LogDebug(ex, "Bot move in room {RoomId} was rejected", roomId);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Failed to play the bots in room {RoomId}", roomId);
+            }
+        }
+    }
+}
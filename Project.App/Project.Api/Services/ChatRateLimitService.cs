@@ -0,0 +1,68 @@
+using System.Collections.Concurrent;
+using Project.Api.Services.Interface;
+
+namespace Project.Api.Services;
+
+public class ChatRateLimitService : IChatRateLimitService
+{
+    /// <summary>
+    /// How many messages a user can send within <see cref="Window"/>.
+    /// </summary>
+    public const int MaxMessages = 5;
+
+    public static readonly TimeSpan Window = TimeSpan.FromSeconds(10);
+
+    private static readonly TimeSpan SweepInterval = TimeSpan.FromMinutes(1);
+
+    // when each user's recent messages were sent, oldest first
+    private readonly ConcurrentDictionary<Guid, Queue<DateTimeOffset>> _sent = new();
+
+    private long _lastSweepTicks = DateTimeOffset.UtcNow.UtcTicks;
+
+    public bool TryAcquire(Guid userId, out TimeSpan retryAfter)
+    {
+        DateTimeOffset now = DateTimeOffset.UtcNow;
+        SweepExpired(now);
+
+        Queue<DateTimeOffset> sent = _sent.GetOrAdd(userId, _ => new());
+        lock (sent)
+        {
+            while (sent.Count > 0 && sent.Peek() + Window <= now)
+                sent.Dequeue();
+
+            if (sent.Count >= MaxMessages)
+            {
+                // until the oldest message in the window drops out of it
+                retryAfter = sent.Peek() + Window - now;
+                return false;
+            }
+
+            sent.Enqueue(now);
+            retryAfter = TimeSpan.Zero;
+            return true;
+        }
+    }
+
+    /// <summary>
+    /// Forgets users who have not sent anything within the window, at most once per <see cref="SweepInterval"/>.
+    /// </summary>
+    private void SweepExpired(DateTimeOffset now)
+    {
+        long lastSweep = Interlocked.Read(ref _lastSweepTicks);
+        if (now.UtcTicks - lastSweep < SweepInterval.Ticks)
+            return;
+        if (Interlocked.CompareExchange(ref _lastSweepTicks, now.UtcTicks, lastSweep) != lastSweep)
+            return; // another request is sweeping
+
+        foreach (var (userId, sent) in _sent)
+        {
+            lock (sent)
+            {
+                if (sent.Count == 0 || sent.Last() + Window <= now)
+                {
+                    _sent.TryRemove(KeyValuePair.Create(userId, sent));
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,173 @@
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Models.Games;
+using Project.Api.Repositories.Interface;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.Services;
+
+public class ChatService(
+    IChatRepository chatRepository,
+    IRoomRepository roomRepository,
+    IUserRepository userRepository,
+    IRoomSSEService roomSSEService,
+    IChatRateLimitService rateLimitService,
+    ILogger<ChatService> logger
+) : IChatService
+{
+    private readonly IChatRepository _chatRepository = chatRepository;
+    private readonly IRoomRepository _roomRepository = roomRepository;
+    private readonly IUserRepository _userRepository = userRepository;
+    private readonly IRoomSSEService _roomSSEService = roomSSEService;
+    private readonly IChatRateLimitService _rateLimitService = rateLimitService;
+    private readonly ILogger<ChatService> _logger = logger;
+
+    public const int MaxMessageLength = 500;
+
+    /// <summary>
+    /// How many of the latest messages people joining get to read.
+    /// </summary>
+    public const int HistoryLength = 50;
+
+    public async Task<ChatHistoryDTO> GetHistoryAsync(Guid roomId)
+    {
+        if (!await _roomRepository.ExistsAsync(roomId))
+            throw new NotFoundException($"Room with ID {roomId} not found.");
+
+        var messages = await _chatRepository.GetRecentMessagesAsync(roomId, HistoryLength);
+        return new ChatHistoryDTO
+        {
+            Messages = [.. messages.Select(MapToEventData)],
+            MutedUserIds = [.. await _chatRepository.GetMutedUserIdsAsync(roomId)],
+        };
+    }
+
+    public async Task<ChatEventData> SendMessageAsync(Guid roomId, Guid userId, string content)
+    {
+        content = content?.Trim() ?? string.Empty;
+        if (content.Length == 0)
+            throw new BadRequestException("Message content cannot be empty.");
+
+        if (content.Length > MaxMessageLength)
+        {
+            throw new BadRequestException(
+                $"Messages can be at most {MaxMessageLength} characters long."
+            );
+        }
+
+        if (!await _roomRepository.ExistsAsync(roomId))
+            throw new NotFoundException($"Room with ID {roomId} not found.");
+
+        User sender =
+            await _userRepository.GetByIdAsync(userId)
+            ?? throw new NotFoundException($"User with ID {userId} not found.");
+
+        if (await _chatRepository.IsMutedAsync(roomId, userId))
+            throw new ForbiddenException("The host has muted you in this room.");
+
+        // only messages that would have been sent count towards the limit
+        if (!_rateLimitService.TryAcquire(userId, out TimeSpan retryAfter))
+        {
+            throw new TooManyRequestsException(
+                "You are sending messages too fast. Please wait a moment.",
+                retryAfter
+            );
+        }
+
+        ChatMessage message = await _chatRepository.CreateMessageAsync(
+            new ChatMessage
+            {
+                RoomId = roomId,
+                UserId = sender.Id,
+                SenderName = sender.Name,
+                Content = content,
+                SentAt = DateTimeOffset.UtcNow,
+            }
+        );
+
+        ChatEventData data = MapToEventData(message);
+        await _roomSSEService.BroadcastEventAsync(roomId, RoomEventType.Chat, data);
+        return data;
+    }
+
+    public async Task DeleteMessageAsync(Guid roomId, Guid hostId, Guid messageId)
+    {
+        await GetRoomAsHostAsync(roomId, hostId);
+
+        ChatMessage? message = await _chatRepository.GetMessageByIdAsync(messageId);
+        if (message is null || message.RoomId != roomId)
+            throw new NotFoundException($"Message {messageId} not found in room {roomId}.");
+
+        _logger.LogInformation(
+            "Host {HostId} deleting message {MessageId} from {UserId} in room {RoomId}",
+            hostId,
+            messageId,
+            message.UserId,
+            roomId
+        );
+        await _chatRepository.DeleteMessageAsync(message);
+
+        await _roomSSEService.BroadcastEventAsync(
+            roomId,
+            RoomEventType.ChatMessageDeleted,
+            new ChatMessageDeletedEventData { MessageId = messageId }
+        );
+    }
+
+    public async Task SetMutedAsync(Guid roomId, Guid hostId, Guid userId, bool muted)
+    {
+        await GetRoomAsHostAsync(roomId, hostId);
+        if (userId == hostId)
+            throw new BadRequestException("The host cannot mute themselves.");
+
+        User user =
+            await _userRepository.GetByIdAsync(userId)
+            ?? throw new NotFoundException($"User with ID {userId} not found.");
+
+        // muting twice changes nothing, and needs no announcing
+        if (!await _chatRepository.SetMutedAsync(roomId, userId, muted))
+            return;
+
+        _logger.LogInformation(
+            "Host {HostId} {Action} {UserId} in room {RoomId}",
+            hostId,
+            muted ? "muted" : "unmuted",
+            userId,
+            roomId
+        );
+        await _roomSSEService.BroadcastEventAsync(
+            roomId,
+            RoomEventType.ChatUserMuted,
+            new ChatUserMutedEventData
+            {
+                UserId = userId,
+                UserName = user.Name,
+                Muted = muted,
+            }
+        );
+    }
+
+    private async Task<Room> GetRoomAsHostAsync(Guid roomId, Guid userId)
+    {
+        Room room =
+            await _roomRepository.GetByIdAsync(roomId)
+            ?? throw new NotFoundException($"Room with ID {roomId} not found.");
+
+        if (room.HostId != userId)
+            throw new ForbiddenException("Only the host can moderate the chat.");
+
+        return room;
+    }
+
+    private static ChatEventData MapToEventData(ChatMessage message) =>
+        new()
+        {
+            Id = message.Id,
+            SenderId = message.UserId,
+            Sender = message.SenderName,
+            Content = message.Content,
+            Timestamp = message.SentAt,
+        };
+}
@@ -1,3 +1,4 @@
+using System.Net;
 using System.Text.Json;
 using System.Text.Json.Serialization;
 using Project.Api.DTOs;
@@ -44,6 +45,23 @@ public class DeckApiService(HttpClient client, IConfiguration? configuration = n
         return createDeckResponse?.DeckId ?? throw new HttpRequestException("Deck ID not found.");
     }
 
+    /// <summary>
+    /// Whether the deck still exists, the API forgets decks that have not been used for two weeks.
+    /// </summary>
+    public async Task<bool> DeckExists(string deckId)
+    {
+        // drawing nothing only looks the deck up
+        string url = $"{_baseApiUrl}/deck/{deckId}/draw/?count=0";
+        var response = await _httpClient.GetAsync(url);
+        if (response.StatusCode == HttpStatusCode.NotFound)
+        {
+            return false;
+        }
+
+        response.EnsureSuccessStatusCode();
+        return true;
+    }
+
     /// <summary>
     /// Create an empty hand (pile) identified by handName within the specified deck.
     /// </summary>
@@ -0,0 +1,96 @@
+using System.Collections.Concurrent;
+using System.Net;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+
+namespace Project.Api.Services;
+
+public class IdempotencyService(ILogger<IdempotencyService> logger) : IIdempotencyService
+{
+    /// <summary>
+    /// How long a key is remembered after its first use. Retries are expected within seconds, not minutes.
+    /// </summary>
+    public static readonly TimeSpan KeyLifetime = TimeSpan.FromMinutes(10);
+
+    private static readonly TimeSpan SweepInterval = TimeSpan.FromMinutes(1);
+
+    private readonly ILogger<IdempotencyService> _logger = logger;
+
+    private readonly ConcurrentDictionary<(Guid RoomId, Guid PlayerId, string Key), Entry> _entries =
+        new();
+
+    private long _lastSweepTicks = DateTimeOffset.UtcNow.UtcTicks;
+
+    private sealed record Entry(Task Outcome, DateTimeOffset CreatedAt);
+
+    public async Task RunOnceAsync(Guid roomId, Guid playerId, string key, Func<Task> action)
+    {
+        DateTimeOffset now = DateTimeOffset.UtcNow;
+        SweepExpired(now);
+
+        var completion = new TaskCompletionSource(TaskCreationOptions.RunContinuationsAsynchronously);
+        Entry entry = new(completion.Task, now);
+        var entryKey = (roomId, playerId, key);
+
+        // claim the key, or find who already did
+        while (true)
+        {
+            Entry existing = _entries.GetOrAdd(entryKey, entry);
+            if (existing == entry)
+                break;
+
+            if (existing.CreatedAt + KeyLifetime > now)
+            {
+                _logger.LogInformation(
+                    "Repeated request {Key} from player {PlayerId} in room {RoomId}, returning the original outcome",
+                    key,
+                    playerId,
+                    roomId
+                );
+                await existing.Outcome;
+                return;
+            }
+
+            // expired but not swept yet, take it over
+            if (_entries.TryUpdate(entryKey, entry, existing))
+                break;
+        }
+
+        try
+        {
+            await action();
+            completion.SetResult();
+        }
+        catch (Exception ex)
+        {
+            // rejected requests stay rejected, but after anything unexpected the request may be tried again
+            if (ex is not ApiException { StatusCode: < HttpStatusCode.InternalServerError })
+            {
+                _entries.TryRemove(KeyValuePair.Create(entryKey, entry));
+            }
+            completion.SetException(ex);
+        }
+
+        await completion.Task;
+    }
+
+    /// <summary>
+    /// Forgets expired keys, at most once per <see cref="SweepInterval"/>.
+    /// </summary>
+    private void SweepExpired(DateTimeOffset now)
+    {
+        long lastSweep = Interlocked.Read(ref _lastSweepTicks);
+        if (now.UtcTicks - lastSweep < SweepInterval.Ticks)
+            return;
+        if (Interlocked.CompareExchange(ref _lastSweepTicks, now.UtcTicks, lastSweep) != lastSweep)
+            return; // another request is sweeping
+
+        foreach (var (entryKey, entry) in _entries)
+        {
+            if (entry.CreatedAt + KeyLifetime <= now)
+            {
+                _entries.TryRemove(KeyValuePair.Create(entryKey, entry));
+            }
+        }
+    }
+}
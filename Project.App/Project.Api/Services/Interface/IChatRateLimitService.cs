@@ -0,0 +1,15 @@
+namespace Project.Api.Services.Interface;
+
+/// <summary>
+/// Limits how many chat messages each user can send in a short time, across all rooms.
+/// </summary>
+public interface IChatRateLimitService
+{
+    /// <summary>
+    /// Counts a message from the user, unless they already sent as many as they may for now.
+    /// </summary>
+    /// <param name="userId">The sender</param>
+    /// <param name="retryAfter">How long until the user may send again, if the message is refused</param>
+    /// <returns>Whether the message may be sent</returns>
+    bool TryAcquire(Guid userId, out TimeSpan retryAfter);
+}
@@ -0,0 +1,23 @@
+using Project.Api.DTOs;
+using Project.Api.Models.Games;
+
+namespace Project.Api.Services.Interface;
+
+public interface IChatService
+{
+    /// <summary>
+    /// Gets a room's latest messages and who is muted, for clients that just joined or reconnected.
+    /// </summary>
+    Task<ChatHistoryDTO> GetHistoryAsync(Guid roomId);
+
+    /// <summary>
+    /// Saves a message and broadcasts it to the room.
+    /// </summary>
+    /// <throws cref="TooManyRequestsException">Thrown if the user is sending too fast</throws>
+    /// <throws cref="ForbiddenException">Thrown if the host muted the user</throws>
+    Task<ChatEventData> SendMessageAsync(Guid roomId, Guid userId, string content);
+
+    // moderation, only the room's host may use these
+    Task DeleteMessageAsync(Guid roomId, Guid hostId, Guid messageId);
+    Task SetMutedAsync(Guid roomId, Guid hostId, Guid userId, bool muted);
+}
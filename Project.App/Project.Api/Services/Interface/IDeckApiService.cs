@@ -14,6 +14,11 @@ public interface IDeckApiService
     */
     Task<string> CreateDeck(int numOfDecks = 6, bool enableJokers = false);
 
+    /// <summary>
+    /// Whether the deck still exists, decks are not kept forever.
+    /// </summary>
+    Task<bool> DeckExists(string deckId);
+
     /*
     Create an empty hand (pile) identified by handName within the specified deck.
     Returns true if successful.
@@ -1,5 +1,6 @@
 using System.Text.Json;
 using Project.Api.Models.Games;
+using Project.Api.Utilities.Enums;
 
 namespace Project.Api.Services.Interface;
 
@@ -40,6 +41,42 @@ public interface IGameService<TState, TConfig>
     /// </summary>
     Task PlayerLeaveAsync(Guid gameId, Guid playerId);
 
+    /// <summary>
+    /// Removes a player from the game on behalf of the host.
+    /// Banned players cannot join the game again.
+    /// </summary>
+    Task KickPlayerAsync(Guid gameId, Guid playerId, bool ban = false);
+
+    /// <summary>
+    /// Seats a bot player, which the server plays for with the given policy.
+    /// </summary>
+    Task AddBotAsync(Guid gameId, BotPolicy policy);
+
+    /// <summary>
+    /// Makes the moves the game's bots are due to make, called periodically by <see cref="BotPlayerService"/>.
+    /// </summary>
+    Task PlayBotsAsync(Guid gameId);
+
+    /// <summary>
+    /// Hands the host role to another player who has a seat.
+    /// </summary>
+    Task TransferHostAsync(Guid gameId, Guid newHostId);
+
+    /// <summary>
+    /// Stops the current stage's timer, players cannot act until the game is resumed.
+    /// </summary>
+    Task PauseAsync(Guid gameId);
+
+    /// <summary>
+    /// Restarts the current stage's timer with the time that was left when it was paused.
+    /// </summary>
+    Task ResumeAsync(Guid gameId);
+
+    /// <summary>
+    /// Changes the config of a game. Games that have started apply it at the start of the next round.
+    /// </summary>
+    Task UpdateConfigAsync(Guid gameId, TConfig config);
+
     /// <summary>
     /// Performs a user action on the game, if valid, then updates the game state.
     /// Each game implementation provides their own main loop logic implementation, instead of being restricted to a
@@ -47,6 +84,13 @@ public interface IGameService<TState, TConfig>
     /// </summary>
     /// <param name="action">The action to perform</param>
     /// <param name="data">A JSON object containing the action data</param>
+    /// <param name="idempotencyKey">The key of the request, echoed back in the events the action causes</param>
     /// <throws cref="ApiException">Thrown if the action is invalid</throws>
-    Task PerformActionAsync(Guid gameId, Guid playerId, string action, JsonElement data);
+    Task PerformActionAsync(
+        Guid gameId,
+        Guid playerId,
+        string action,
+        JsonElement data,
+        string? idempotencyKey = null
+    );
 }
@@ -0,0 +1,14 @@
+namespace Project.Api.Services.Interface;
+
+/// <summary>
+/// Remembers recent requests by their idempotency key, so that a request sent twice (a double click, or a retry
+/// after a timeout) is only applied once.
+/// </summary>
+public interface IIdempotencyService
+{
+    /// <summary>
+    /// Runs the action, unless it already ran (or is still running) with the same key for this player in this room.
+    /// Repeats get the outcome of the first run instead, including the exception it failed with.
+    /// </summary>
+    Task RunOnceAsync(Guid roomId, Guid playerId, string key, Func<Task> action);
+}
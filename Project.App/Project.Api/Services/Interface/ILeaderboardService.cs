@@ -0,0 +1,11 @@
+using Project.Api.DTOs;
+
+namespace Project.Api.Services.Interface;
+
+public interface ILeaderboardService
+{
+    /// <summary>
+    /// Ranks the players who played in the query's window by its metric, one page at a time.
+    /// </summary>
+    Task<PagedResultDTO<LeaderboardEntryDTO>> GetLeaderboardAsync(LeaderboardQuery query);
+}
@@ -0,0 +1,32 @@
+using Project.Api.DTOs;
+
+namespace Project.Api.Services.Interface;
+
+/// <summary>
+/// Lists rooms for the room browser, and keeps it up to date through the lobby's event stream.
+/// </summary>
+public interface ILobbyService
+{
+    /// <summary>
+    /// Finds the active public rooms matching the query, one page at a time.
+    /// </summary>
+    Task<PagedResultDTO<RoomSummaryDTO>> SearchRoomsAsync(RoomSearchQuery query);
+
+    /// <summary>
+    /// Gets the active rooms the user hosts or has a seat in, public or not.
+    /// </summary>
+    Task<IEnumerable<RoomSummaryDTO>> GetRoomsForUserAsync(Guid userId);
+
+    /// <summary>
+    /// Adds a client connection to the lobby's event stream and keeps it open,
+    /// see <see cref="IRoomSSEService.AddConnectionAsync"/>.
+    /// </summary>
+    Task AddConnectionAsync(HttpResponse response, long? lastEventId = null);
+
+    /// <summary>
+    /// Tells the lobby that a room was created or changed, e.g. someone took or gave up a seat.
+    /// Rooms that are no longer listed are announced as closed,
+    /// and the events of rooms that have closed for good are forgotten.
+    /// </summary>
+    Task BroadcastRoomChangedAsync(Guid roomId, bool created = false);
+}
@@ -0,0 +1,11 @@
+using Project.Api.DTOs;
+
+namespace Project.Api.Services.Interface;
+
+public interface IPlayerStatsService
+{
+    /// <summary>
+    /// Gets a user's statistics over all the recorded rounds they played.
+    /// </summary>
+    Task<PlayerStatsDTO> GetStatsAsync(Guid userId);
+}
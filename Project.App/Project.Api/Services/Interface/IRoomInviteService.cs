@@ -0,0 +1,16 @@
+using Project.Api.DTOs;
+
+namespace Project.Api.Services.Interface;
+
+public interface IRoomInviteService
+{
+    // host management, only the room's host may use these
+    Task<IEnumerable<RoomInviteDTO>> GetInvitesAsync(Guid roomId, Guid requesterId);
+    Task<RoomInviteDTO> CreateInviteAsync(Guid roomId, Guid requesterId, CreateRoomInviteDTO dto);
+    Task<RoomInviteDTO> RotateInviteAsync(string code, Guid requesterId);
+    Task RevokeInviteAsync(string code, Guid requesterId);
+
+    // using a code
+    Task<RoomInviteDTO> ResolveInviteAsync(string code);
+    Task<RoomDTO> JoinWithInviteAsync(string code, Guid userId);
+}
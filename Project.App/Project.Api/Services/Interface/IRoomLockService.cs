@@ -0,0 +1,14 @@
+namespace Project.Api.Services.Interface;
+
+/// <summary>
+/// Lets only one change to a room's game happen at a time. Game state is read, changed and written back
+/// as a whole, so changes made at the same moment (e.g. a player's bet and a bot's) would undo each other.
+/// </summary>
+public interface IRoomLockService
+{
+    /// <summary>
+    /// Waits until nobody else holds the room's lock, then takes it until the returned handle is disposed.
+    /// Not reentrant, taking it again before disposing the handle waits forever.
+    /// </summary>
+    Task<IDisposable> LockAsync(Guid roomId);
+}
@@ -1,3 +1,4 @@
+using Project.Api.DTOs;
 using Project.Api.Models.Games;
 using Project.Api.Utilities.Enums;
 
@@ -7,14 +8,39 @@ public interface IRoomSSEService : IDisposable
 {
     /// <summary>
     /// Adds a new client connection for a specific room and keeps it open.
+    /// If the client has seen events before, any it missed since <paramref name="lastEventId"/> are replayed,
+    /// or a resync event is sent if they are no longer available.
+    /// Connections of logged-in users are announced to the room, see <see cref="GetViewers"/>.
     /// </summary>
-    Task AddConnectionAsync(Guid roomId, HttpResponse response);
+    Task AddConnectionAsync(
+        Guid roomId,
+        HttpResponse response,
+        long? lastEventId = null,
+        RoomViewerDTO? viewer = null
+    );
+
+    /// <summary>
+    /// Gets the logged-in users connected to a room, once each.
+    /// </summary>
+    IReadOnlyList<RoomViewerDTO> GetViewers(Guid roomId);
 
     /// <summary>
     /// Broadcasts an event to all clients connected to a specific room.
+    /// Does not wait for the clients to receive it, those that fall too far behind are dropped.
     /// </summary>
     Task BroadcastEventAsync(Guid roomId, RoomEventType eventName, IRoomEventData data);
 
+    /// <summary>
+    /// Gets the game events (stage changes, player actions and hands) broadcast to a room since the last call,
+    /// oldest first, to keep a record of a round.
+    /// </summary>
+    IEnumerable<RoundEventDTO> TakeGameEvents(Guid roomId);
+
+    /// <summary>
+    /// Forgets the buffered events of a room that has closed.
+    /// </summary>
+    void CloseRoom(Guid roomId);
+
     /// <summary>
     /// Closes all SSE connections for graceful shutdown.
     /// </summary>
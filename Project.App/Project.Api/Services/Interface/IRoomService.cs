@@ -1,5 +1,6 @@
 using System.Text.Json;
 using Project.Api.DTOs;
+using Project.Api.Utilities.Enums;
 
 namespace Project.Api.Services.Interface;
 
@@ -21,9 +22,26 @@ public interface IRoomService
 
     // Game functionality
     Task<RoomDTO> StartGameAsync(Guid roomId, string? gameConfigJson = null);
-    Task PerformPlayerActionAsync(Guid roomId, Guid playerId, string action, JsonElement data);
+    Task PerformPlayerActionAsync(
+        Guid roomId,
+        Guid playerId,
+        string action,
+        JsonElement data,
+        string? idempotencyKey = null
+    );
 
     // Player management
     Task<RoomDTO> JoinRoomAsync(Guid roomId, Guid userId);
     Task<RoomDTO> LeaveRoomAsync(Guid roomId, Guid userId);
+
+    // Host controls, only the room's host may use these
+    Task KickPlayerAsync(Guid roomId, Guid hostId, Guid userId, bool ban = false);
+    Task TransferHostAsync(Guid roomId, Guid hostId, Guid newHostId);
+    Task PauseGameAsync(Guid roomId, Guid hostId);
+    Task ResumeGameAsync(Guid roomId, Guid hostId);
+    Task UpdateBlackjackConfigAsync(Guid roomId, Guid hostId, UpdateBlackjackConfigDTO dto);
+    Task AddBotAsync(Guid roomId, Guid hostId, BotPolicy policy);
+
+    // Bots, played by the server
+    Task PlayBotsAsync(Guid roomId);
 }
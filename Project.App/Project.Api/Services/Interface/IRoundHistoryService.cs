@@ -0,0 +1,16 @@
+using Project.Api.DTOs;
+
+namespace Project.Api.Services.Interface;
+
+public interface IRoundHistoryService
+{
+    /// <summary>
+    /// Gets a page of a room's finished rounds, the latest first.
+    /// </summary>
+    Task<PagedResultDTO<RoundSummaryDTO>> GetRoundsAsync(Guid roomId, int page, int pageSize);
+
+    /// <summary>
+    /// Gets a finished round of a room, with its events for replaying it.
+    /// </summary>
+    Task<RoundRecordDTO> GetRoundAsync(Guid roomId, Guid roundId);
+}
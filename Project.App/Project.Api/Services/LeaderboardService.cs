@@ -0,0 +1,78 @@
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Repositories.Interface;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.Services;
+
+/// <summary>
+/// Ranks players by their results in the recorded rounds, see <see cref="HandOutcome"/>.
+/// Hands count one by one, so the biggest win is a single hand's and a split hand can extend a streak.
+/// </summary>
+public class LeaderboardService(IRoundRecordRepository roundRecordRepository) : ILeaderboardService
+{
+    private readonly IRoundRecordRepository _roundRecordRepository = roundRecordRepository;
+
+    public const int MaxPageSize = 50;
+
+    public async Task<PagedResultDTO<LeaderboardEntryDTO>> GetLeaderboardAsync(
+        LeaderboardQuery query
+    )
+    {
+        if (query.Page < 1)
+            throw new BadRequestException("Page must be at least 1.");
+
+        if (query.PageSize is < 1 or > MaxPageSize)
+            throw new BadRequestException($"Page size must be between 1 and {MaxPageSize}.");
+
+        DateTimeOffset? since = query.Window switch
+        {
+            LeaderboardWindow.Daily => DateTimeOffset.UtcNow.AddDays(-1),
+            LeaderboardWindow.Weekly => DateTimeOffset.UtcNow.AddDays(-7),
+            _ => null,
+        };
+
+        int skip = (query.Page - 1) * query.PageSize;
+        List<LeaderboardStanding> standings = await _roundRecordRepository.GetStandingsAsync(
+            query.Metric,
+            since,
+            skip,
+            query.PageSize
+        );
+
+        List<LeaderboardEntryDTO> entries = [];
+        for (int i = 0; i < standings.Count; i++)
+        {
+            // tied players share a rank, even with the last players on the page before
+            int rank =
+                i > 0 && standings[i].Value == standings[i - 1].Value ? entries[i - 1].Rank
+                : i > 0 ? skip + i + 1
+                : await _roundRecordRepository.CountStandingsAsync(
+                    query.Metric,
+                    since,
+                    above: standings[i].Value
+                ) + 1;
+
+            entries.Add(
+                new LeaderboardEntryDTO
+                {
+                    Rank = rank,
+                    UserId = standings[i].UserId,
+                    UserName = standings[i].UserName,
+                    Value = standings[i].Value,
+                    HandsPlayed = standings[i].HandsPlayed,
+                }
+            );
+        }
+
+        return new PagedResultDTO<LeaderboardEntryDTO>
+        {
+            Items = entries,
+            Page = query.Page,
+            PageSize = query.PageSize,
+            TotalCount = await _roundRecordRepository.CountStandingsAsync(query.Metric, since),
+        };
+    }
+}
@@ -0,0 +1,192 @@
+using System.Text.Json;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Models.Games;
+using Project.Api.Repositories.Interface;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.Services;
+
+public class LobbyService(
+    IRoomRepository roomRepository,
+    IRoomSSEService roomSSEService,
+    ILogger<LobbyService> logger
+) : ILobbyService
+{
+    private readonly IRoomRepository _roomRepository = roomRepository;
+    private readonly IRoomSSEService _roomSSEService = roomSSEService;
+    private readonly ILogger<LobbyService> _logger = logger;
+
+    /// <summary>
+    /// The lobby's events go through the room event streams, on a channel no room can have.
+    /// </summary>
+    public static readonly Guid LobbyChannelId = Guid.Empty;
+
+    public const int MaxPageSize = 100;
+
+    public async Task<PagedResultDTO<RoomSummaryDTO>> SearchRoomsAsync(RoomSearchQuery query)
+    {
+        if (query.Page < 1)
+            throw new BadRequestException("Page must be at least 1.");
+
+        if (query.PageSize is < 1 or > MaxPageSize)
+            throw new BadRequestException($"Page size must be between 1 and {MaxPageSize}.");
+
+        int skip = (query.Page - 1) * query.PageSize;
+        bool byMinBet =
+            query.MinBetFrom is not null
+            || query.MinBetTo is not null
+            || query.SortBy == RoomSortBy.MinBet;
+        if (!byMinBet)
+        {
+            List<Room> page = await _roomRepository.SearchPublicRoomsAsync(
+                query.GameMode,
+                query.HasFreeSeats,
+                query.SortBy,
+                query.Descending,
+                skip,
+                query.PageSize
+            );
+            return new PagedResultDTO<RoomSummaryDTO>
+            {
+                Items = [.. page.Select(MapToSummaryDto)],
+                Page = query.Page,
+                PageSize = query.PageSize,
+                TotalCount = await _roomRepository.CountPublicRoomsAsync(
+                    query.GameMode,
+                    query.HasFreeSeats
+                ),
+            };
+        }
+
+        // the min bet lives in the game config, so filtering and sorting by it happens here
+        IEnumerable<RoomSummaryDTO> rooms = (
+            await _roomRepository.SearchPublicRoomsAsync(
+                query.GameMode,
+                query.HasFreeSeats,
+                query.SortBy,
+                query.Descending
+            )
+        ).Select(MapToSummaryDto);
+
+        if (query.MinBetFrom is long minBetFrom)
+            rooms = rooms.Where(r => r.MinBet >= minBetFrom);
+
+        if (query.MinBetTo is long minBetTo)
+            rooms = rooms.Where(r => r.MinBet <= minBetTo);
+
+        // the sort is stable, so rooms with the same min bet stay newest first
+        if (query.SortBy == RoomSortBy.MinBet)
+            rooms = query.Descending
+                ? rooms.OrderByDescending(r => r.MinBet)
+                : rooms.OrderBy(r => r.MinBet);
+
+        List<RoomSummaryDTO> matching = [.. rooms];
+        return new PagedResultDTO<RoomSummaryDTO>
+        {
+            Items = [.. matching.Skip(skip).Take(query.PageSize)],
+            Page = query.Page,
+            PageSize = query.PageSize,
+            TotalCount = matching.Count,
+        };
+    }
+
+    public async Task<IEnumerable<RoomSummaryDTO>> GetRoomsForUserAsync(Guid userId)
+    {
+        var rooms = await _roomRepository.GetActiveRoomsForUserAsync(userId);
+        return rooms.Select(MapToSummaryDto).OrderByDescending(r => r.CreatedAt);
+    }
+
+    public Task AddConnectionAsync(HttpResponse response, long? lastEventId = null) =>
+        _roomSSEService.AddConnectionAsync(LobbyChannelId, response, lastEventId);
+
+    public async Task BroadcastRoomChangedAsync(Guid roomId, bool created = false)
+    {
+        // the lobby is only a view, it must not fail what changed the room
+        try
+        {
+            Room? room = await _roomRepository.GetByIdAsync(roomId);
+            if (room is null || !room.IsActive)
+            {
+                // nothing happens in a closed room any more, so there is nothing left to catch up on
+                _roomSSEService.CloseRoom(roomId);
+            }
+
+            if (room is null || !room.IsActive || !room.IsPublic)
+            {
+                await _roomSSEService.BroadcastEventAsync(
+                    LobbyChannelId,
+                    RoomEventType.RoomClosed,
+                    new RoomClosedEventData { RoomId = roomId }
+                );
+                return;
+            }
+
+            await _roomSSEService.BroadcastEventAsync(
+                LobbyChannelId,
+                created ? RoomEventType.RoomCreated : RoomEventType.RoomUpdated,
+                new LobbyRoomEventData { Room = MapToSummaryDto(room) }
+            );
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to update the lobby for room {RoomId}", roomId);
+        }
+    }
+
+    private static RoomSummaryDTO MapToSummaryDto(Room room)
+    {
+        return new RoomSummaryDTO
+        {
+            Id = room.Id,
+            HostId = room.HostId,
+            HostName = room.Host?.Name ?? "Unknown",
+            IsPublic = room.IsPublic,
+            GameMode = room.GameMode,
+            Description = room.Description,
+            MinBet = ReadMinBet(room.GameConfig),
+            MaxPlayers = room.MaxPlayers,
+            MinPlayers = room.MinPlayers,
+            PlayerCount = room.RoomPlayers.Count(p => p.Status != Status.Left),
+            IsStarted = room.StartedAt is not null,
+            IsActive = room.IsActive,
+            CreatedAt = room.CreatedAt,
+        };
+    }
+
+    /// <summary>
+    /// Reads the min bet from a room's game config, which clients send in camelCase.
+    /// </summary>
+    private static long ReadMinBet(string gameConfig)
+    {
+        const string MinBetProperty = nameof(BlackjackConfig.MinBet);
+        if (string.IsNullOrWhiteSpace(gameConfig))
+            return 0;
+
+        try
+        {
+            using JsonDocument document = JsonDocument.Parse(gameConfig);
+            if (document.RootElement.ValueKind != JsonValueKind.Object)
+                return 0;
+
+            foreach (JsonProperty property in document.RootElement.EnumerateObject())
+            {
+                if (!property.Name.Equals(MinBetProperty, StringComparison.OrdinalIgnoreCase))
+                    continue;
+
+                return
+                    property.Value.ValueKind == JsonValueKind.Number
+                    && property.Value.TryGetInt64(out long minBet)
+                    ? minBet
+                    : 0;
+            }
+        }
+        catch (JsonException)
+        {
+            // unreadable configs are rejected when the game starts, list the room without a min bet until then
+        }
+        return 0;
+    }
+}
@@ -0,0 +1,332 @@
+using System.Collections.Concurrent;
+using System.Runtime.InteropServices;
+using Project.Api.DTOs;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+
+namespace Project.Api.Services;
+
+/// <summary>
+/// Deals cards in-process instead of through the deck of cards API, so games (and tests) run offline.
+/// Card codes and piles work the same way as the API's, see <see cref="DeckApiService"/>.
+/// Decks only live in memory, they are forgotten after a restart or once unused for <see cref="DeckLifetime"/>.
+/// </summary>
+public class LocalDeckService(IConfiguration? configuration = null) : IDeckApiService
+{
+    /// <summary>
+    /// How long a deck is kept after it was last used. Rooms are abandoned long before that.
+    /// </summary>
+    public static readonly TimeSpan DeckLifetime = TimeSpan.FromDays(1);
+
+    private static readonly TimeSpan SweepInterval = TimeSpan.FromMinutes(10);
+
+    private static readonly string[] Suits = ["SPADES", "HEARTS", "DIAMONDS", "CLUBS"];
+
+    private static readonly Dictionary<char, string> Values = new()
+    {
+        ['A'] = "ACE",
+        ['2'] = "2",
+        ['3'] = "3",
+        ['4'] = "4",
+        ['5'] = "5",
+        ['6'] = "6",
+        ['7'] = "7",
+        ['8'] = "8",
+        ['9'] = "9",
+        ['0'] = "10",
+        ['J'] = "JACK",
+        ['Q'] = "QUEEN",
+        ['K'] = "KING",
+    };
+
+    /// <summary>
+    /// Shuffles are repeatable when a seed is configured, e.g. to reproduce a game. Each deck gets its own
+    /// generator, seeded from the configured seed and the order the decks were created in.
+    /// </summary>
+    private readonly int? _seed = int.TryParse(configuration?["DeckApiSettings:Seed"], out int seed)
+        ? seed
+        : null;
+
+    private readonly ConcurrentDictionary<string, Deck> _decks = new();
+
+    private int _decksCreated;
+
+    private long _lastSweepTicks = DateTimeOffset.UtcNow.UtcTicks;
+
+    private sealed class Deck(List<CardDTO> cards, Random random)
+    {
+        public List<CardDTO> Cards { get; } = cards; // every card in the shoe
+
+        // the top of the shoe is the end of the list
+        public List<CardDTO> Remaining { get; set; } = [.. cards];
+
+        public Dictionary<string, List<CardDTO>> Piles { get; } = [];
+        public Random Random { get; } = random;
+        public DateTimeOffset LastUsed { get; set; } = DateTimeOffset.UtcNow;
+
+        public void Shuffle() => Random.Shuffle(CollectionsMarshal.AsSpan(Remaining));
+
+        public List<CardDTO> GetPile(string handName)
+        {
+            if (!Piles.TryGetValue(handName, out List<CardDTO>? pile))
+            {
+                pile = [];
+                Piles[handName] = pile;
+            }
+            return pile;
+        }
+    }
+
+    /// <summary>
+    /// Create a new shuffled deck and return the deck ID.
+    /// The deck will consist of specified number of standard decks shuffled together and two Jokers if enabled.
+    /// </summary>
+    /// <returns>The deck ID of the created deck</returns>
+    public Task<string> CreateDeck(int numOfDecks = 6, bool enableJokers = false)
+    {
+        if (numOfDecks < 1)
+        {
+            throw new ArgumentOutOfRangeException(nameof(numOfDecks), "Need at least one deck");
+        }
+
+        SweepUnused(DateTimeOffset.UtcNow);
+
+        List<CardDTO> cards = [];
+        for (int i = 0; i < numOfDecks; i++)
+        {
+            foreach (string suit in Suits)
+            {
+                cards.AddRange(Values.Keys.Select(value => CreateCard($"{value}{suit[0]}")));
+            }
+        }
+        if (enableJokers)
+        {
+            cards.Add(CreateCard("X1"));
+            cards.Add(CreateCard("X2"));
+        }
+
+        int number = Interlocked.Increment(ref _decksCreated);
+        Random random = _seed is int seed ? new(unchecked(seed + number)) : new();
+        var deck = new Deck(cards, random);
+        deck.Shuffle();
+
+        string deckId = Guid.NewGuid().ToString("N")[..12];
+        _decks[deckId] = deck;
+        return Task.FromResult(deckId);
+    }
+
+    /// <summary>
+    /// Whether the deck still exists, it does not after a restart or once unused for <see cref="DeckLifetime"/>.
+    /// </summary>
+    public Task<bool> DeckExists(string deckId) => Task.FromResult(_decks.ContainsKey(deckId));
+
+    /// <summary>
+    /// Create an empty hand (pile) identified by handName within the specified deck.
+    /// </summary>
+    /// <returns>true if successful</returns>
+    public Task<bool> CreateEmptyHand(string deckId, string handName) =>
+        WithDeck(
+            deckId,
+            deck =>
+            {
+                deck.GetPile(handName);
+                return true;
+            }
+        );
+
+    /// <summary>
+    /// Create an empty hand (pile) identified by handName within the specified deck.
+    /// </summary>
+    /// <returns>true if successful</returns>
+    public Task<bool> CreateEmptyHand(string deckId, long handId) =>
+        CreateEmptyHand(deckId, handId.ToString());
+
+    /// <summary>
+    /// Player draws specified number of cards, count, from specified deck.
+    /// </summary>
+    /// <returns>the cards drawn</returns>
+    public Task<List<CardDTO>> DrawCards(string deckId, long handId, int count = 1) =>
+        DrawCards(deckId, handId.ToString(), count);
+
+    /// <summary>
+    /// Player draws specified number of cards, count, from specified deck.
+    /// Draws fewer cards if the deck runs out, like the deck of cards API.
+    /// </summary>
+    /// <returns>the list of cards drawn</returns>
+    public Task<List<CardDTO>> DrawCards(string deckId, string handName, int count = 1)
+    {
+        // enforce non-negative count
+        if (count < 0)
+        {
+            throw new ArgumentOutOfRangeException(nameof(count), "Count must be non-negative");
+        }
+
+        return WithDeck(
+            deckId,
+            deck =>
+            {
+                int drawn = Math.Min(count, deck.Remaining.Count);
+                int top = deck.Remaining.Count - drawn;
+                List<CardDTO> cards = deck.Remaining.GetRange(top, drawn);
+                cards.Reverse();
+                deck.Remaining.RemoveRange(top, drawn);
+
+                deck.GetPile(handName).AddRange(cards.Select(Copy));
+                return cards.Select(Copy).ToList();
+            }
+        );
+    }
+
+    /// <summary>
+    /// Return all cards from all piles back to the main deck.
+    /// </summary>
+    /// <returns>true if successful</returns>
+    public Task<bool> ReturnAllCardsToDeck(string deckId, bool shuffle = true) =>
+        WithDeck(
+            deckId,
+            deck =>
+            {
+                deck.Piles.Clear();
+                deck.Remaining = [.. deck.Cards];
+                if (shuffle)
+                    deck.Shuffle();
+                return true;
+            }
+        );
+
+    /// <summary>
+    /// Adds cards to specified hand. If hand does not exist, will create a hand with the given handName.
+    /// </summary>
+    /// <returns>true if successful</returns>
+    public Task<bool> AddToHand(string deckId, string handName, string cardCodes) =>
+        WithDeck(
+            deckId,
+            deck =>
+            {
+                deck.GetPile(handName).AddRange(ParseCodes(cardCodes).Select(CreateCard));
+                return true;
+            }
+        );
+
+    /// <summary>
+    /// Removes cards from specified hand. The cards are not returned to the deck until it is reshuffled.
+    /// </summary>
+    /// <returns>true if successful</returns>
+    public Task<bool> RemoveFromHand(string deckId, string handName, string cardCodes) =>
+        WithDeck(
+            deckId,
+            deck =>
+            {
+                List<CardDTO> pile = deck.GetPile(handName);
+                foreach (string code in ParseCodes(cardCodes))
+                {
+                    int index = pile.FindIndex(card => card.Code == code);
+                    if (index < 0)
+                    {
+                        throw new BadRequestException($"Card {code} is not in hand {handName}.");
+                    }
+                    pile.RemoveAt(index);
+                }
+                return true;
+            }
+        );
+
+    /// <summary>
+    /// Lists all cards in specified hand (pile) from specified deck.
+    /// </summary>
+    /// <returns>A list of card DTOs</returns>
+    public Task<List<CardDTO>> ListHand(string deckId, string handName) =>
+        WithDeck(
+            deckId,
+            deck =>
+                deck.Piles.TryGetValue(handName, out List<CardDTO>? pile)
+                    ? pile.Select(Copy).ToList()
+                    : []
+        );
+
+    /// <summary>
+    /// Runs an operation on a deck, one at a time per deck.
+    /// </summary>
+    /// <exception cref="NotFoundException">Thrown if the deck does not exist (anymore).</exception>
+    private Task<T> WithDeck<T>(string deckId, Func<Deck, T> operation)
+    {
+        if (!_decks.TryGetValue(deckId, out Deck? deck))
+        {
+            throw new NotFoundException($"Deck {deckId} not found.");
+        }
+
+        lock (deck)
+        {
+            deck.LastUsed = DateTimeOffset.UtcNow;
+            return Task.FromResult(operation(deck));
+        }
+    }
+
+    private static IEnumerable<string> ParseCodes(string cardCodes) =>
+        cardCodes.Split(
+            ',',
+            StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries
+        );
+
+    /// <summary>
+    /// Creates a card from its code, e.g. "0H" is the ten of hearts and "X1" is a joker.
+    /// </summary>
+    private static CardDTO CreateCard(string code)
+    {
+        if (code is "X1" or "X2")
+        {
+            return new CardDTO
+            {
+                Code = code,
+                Value = "JOKER",
+                Suit = code == "X1" ? "BLACK" : "RED",
+            };
+        }
+
+        if (
+            code.Length != 2
+            || !Values.TryGetValue(code[0], out string? value)
+            || Suits.FirstOrDefault(suit => suit[0] == code[1]) is not string suitName
+        )
+        {
+            throw new BadRequestException($"Invalid card code {code}.");
+        }
+
+        return new CardDTO
+        {
+            Code = code,
+            Value = value,
+            Suit = suitName,
+        };
+    }
+
+    // hands are handed out as copies, so callers can't change the deck by changing a card (e.g. IsFaceDown)
+    private static CardDTO Copy(CardDTO card) =>
+        new()
+        {
+            Code = card.Code,
+            Image = card.Image,
+            Value = card.Value,
+            Suit = card.Suit,
+        };
+
+    /// <summary>
+    /// Forgets decks unused for <see cref="DeckLifetime"/>, at most once per <see cref="SweepInterval"/>.
+    /// </summary>
+    private void SweepUnused(DateTimeOffset now)
+    {
+        long lastSweep = Interlocked.Read(ref _lastSweepTicks);
+        if (now.UtcTicks - lastSweep < SweepInterval.Ticks)
+            return;
+        if (Interlocked.CompareExchange(ref _lastSweepTicks, now.UtcTicks, lastSweep) != lastSweep)
+            return; // another request is sweeping
+
+        foreach (var (deckId, deck) in _decks)
+        {
+            if (deck.LastUsed + DeckLifetime <= now)
+            {
+                _decks.TryRemove(KeyValuePair.Create(deckId, deck));
+            }
+        }
+    }
+}
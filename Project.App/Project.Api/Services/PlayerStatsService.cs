@@ -0,0 +1,91 @@
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Repositories.Interface;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Extensions;
+
+namespace Project.Api.Services;
+
+/// <summary>
+/// Works out players' statistics from the recorded rounds, see <see cref="RoundRecord"/>.
+/// Outcomes come from the hands, doubles, splits and surrenders from the round's player actions.
+/// </summary>
+public class PlayerStatsService(
+    IRoundRecordRepository roundRecordRepository,
+    IUserRepository userRepository
+) : IPlayerStatsService
+{
+    private readonly IRoundRecordRepository _roundRecordRepository = roundRecordRepository;
+    private readonly IUserRepository _userRepository = userRepository;
+
+    public async Task<PlayerStatsDTO> GetStatsAsync(Guid userId)
+    {
+        if (await _userRepository.GetByIdAsync(userId) is null)
+            throw new NotFoundException($"User with ID {userId} not found.");
+
+        var stats = new PlayerStatsDTO { UserId = userId };
+        foreach (RoundRecord round in await _roundRecordRepository.GetByPlayerAsync(userId))
+        {
+            AddRound(stats, round);
+        }
+        return stats;
+    }
+
+    /// <summary>
+    /// Adds a round to a player's statistics, if they played in it.
+    /// </summary>
+    private static void AddRound(PlayerStatsDTO stats, RoundRecord round)
+    {
+        List<HandResult> results =
+        [
+            .. round.GetHandResults().Where(r => r.Hand.PlayerId == stats.UserId),
+        ];
+        if (results.Count == 0)
+            return;
+
+        List<RoundAction> actions =
+        [
+            .. round.GetPlayerActions().Where(a => a.PlayerId == stats.UserId),
+        ];
+        stats.Doubles += actions.Count(a => a.Action == "double");
+        stats.Splits += actions.Count(a => a.Action == "split");
+        stats.Surrenders += actions.Count(a => a.Action == "surrender");
+
+        foreach (HandResult result in results)
+        {
+            stats.HandsPlayed++;
+            stats.TotalBet += result.Hand.Bet;
+
+            if (result.IsWin)
+                stats.Wins++;
+            else if (result.IsPush)
+                stats.Pushes++;
+            else
+                stats.Losses++;
+
+            if (result.Hand.Score > 21)
+                stats.Busts++;
+
+            // like the payouts, hands made by splitting are not blackjacks
+            if (results.Count == 1 && result.Hand.Cards.Count == 2 && result.Hand.Score == 21)
+                stats.Blackjacks++;
+        }
+
+        long net = results.Sum(r => r.Net);
+        stats.RoundsPlayed++;
+        stats.NetWinnings += net;
+        stats.BiggestWin = Math.Max(stats.BiggestWin, net);
+        stats.Bankroll.Add(
+            new BankrollPointDTO
+            {
+                RoundId = round.Id,
+                RoomId = round.RoomId,
+                RoundNumber = round.RoundNumber,
+                FinishedAt = round.FinishedAt,
+                Net = net,
+                Total = stats.NetWinnings,
+            }
+        );
+    }
+}
@@ -0,0 +1,255 @@
+using System.Security.Cryptography;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Repositories.Interface;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.Services;
+
+public class RoomInviteService(
+    IRoomInviteRepository inviteRepository,
+    IRoomRepository roomRepository,
+    IRoomPlayerRepository roomPlayerRepository,
+    IRoomService roomService,
+    ILogger<RoomInviteService> logger
+) : IRoomInviteService
+{
+    private readonly IRoomInviteRepository _inviteRepository = inviteRepository;
+    private readonly IRoomRepository _roomRepository = roomRepository;
+    private readonly IRoomPlayerRepository _roomPlayerRepository = roomPlayerRepository;
+    private readonly IRoomService _roomService = roomService;
+    private readonly ILogger<RoomInviteService> _logger = logger;
+
+    // no 0/O or 1/I, so codes can be read out loud and typed in
+    private const string CodeAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+    public const int CodeLength = 8;
+    private const int MaxCodeAttempts = 5;
+
+    public const int MaxExpiresInMinutes = 30 * 24 * 60;
+    public const int MaxUsesLimit = 1000;
+
+    public async Task<IEnumerable<RoomInviteDTO>> GetInvitesAsync(Guid roomId, Guid requesterId)
+    {
+        await GetHostedRoomAsync(roomId, requesterId);
+
+        DateTimeOffset now = DateTimeOffset.UtcNow;
+        var invites = await _inviteRepository.GetByRoomIdAsync(roomId);
+        return invites.Where(i => i.IsUsable(now)).Select(MapToDto);
+    }
+
+    public async Task<RoomInviteDTO> CreateInviteAsync(
+        Guid roomId,
+        Guid requesterId,
+        CreateRoomInviteDTO dto
+    )
+    {
+        Validate(dto);
+        await GetHostedRoomAsync(roomId, requesterId);
+
+        DateTimeOffset now = DateTimeOffset.UtcNow;
+        RoomInvite invite = await CreateWithUniqueCodeAsync(
+            roomId,
+            dto.ExpiresInMinutes is int minutes ? now.AddMinutes(minutes) : null,
+            dto.MaxUses,
+            now
+        );
+
+        _logger.LogInformation("Created invite {Code} for room {RoomId}", invite.Code, roomId);
+        return MapToDto(invite);
+    }
+
+    /// <summary>
+    /// Replaces a code with a fresh one that keeps its expiry and remaining uses,
+    /// e.g. after it was shared further than intended.
+    /// </summary>
+    public async Task<RoomInviteDTO> RotateInviteAsync(string code, Guid requesterId)
+    {
+        RoomInvite invite = await GetManagedInviteAsync(code, requesterId);
+
+        DateTimeOffset now = DateTimeOffset.UtcNow;
+        if (!invite.IsUsable(now))
+            throw new BadRequestException("This invite can no longer be used.");
+
+        invite.RevokedAt = now;
+        await _inviteRepository.UpdateAsync(invite);
+
+        RoomInvite replacement = await CreateWithUniqueCodeAsync(
+            invite.RoomId,
+            invite.ExpiresAt,
+            invite.MaxUses - invite.Uses,
+            now
+        );
+
+        _logger.LogInformation(
+            "Rotated invite {OldCode} to {NewCode} for room {RoomId}",
+            invite.Code,
+            replacement.Code,
+            invite.RoomId
+        );
+        return MapToDto(replacement);
+    }
+
+    public async Task RevokeInviteAsync(string code, Guid requesterId)
+    {
+        RoomInvite invite = await GetManagedInviteAsync(code, requesterId);
+        if (invite.RevokedAt is not null)
+            return;
+
+        invite.RevokedAt = DateTimeOffset.UtcNow;
+        await _inviteRepository.UpdateAsync(invite);
+
+        _logger.LogInformation("Revoked invite {Code} for room {RoomId}", invite.Code, invite.RoomId);
+    }
+
+    public async Task<RoomInviteDTO> ResolveInviteAsync(string code)
+    {
+        return MapToDto(await GetUsableInviteAsync(code));
+    }
+
+    /// <summary>
+    /// Joins the invite's room. Only joins that take a seat count as a use, rejoining does not.
+    /// </summary>
+    public async Task<RoomDTO> JoinWithInviteAsync(string code, Guid userId)
+    {
+        RoomInvite invite = await GetUsableInviteAsync(code);
+
+        RoomPlayer? existing = await _roomPlayerRepository.GetByRoomIdAndUserIdAsync(
+            invite.RoomId,
+            userId
+        );
+        bool hasSeat = existing is not null && existing.Status != Status.Left;
+        if (hasSeat)
+        {
+            return await _roomService.GetRoomByIdAsync(invite.RoomId)
+                ?? throw new NotFoundException("The room for this invite no longer exists.");
+        }
+
+        // claim the use first, so the last use can't be taken twice
+        invite.Uses++;
+        await _inviteRepository.UpdateAsync(invite);
+
+        try
+        {
+            RoomDTO room = await _roomService.JoinRoomAsync(invite.RoomId, userId);
+            _logger.LogInformation(
+                "User {UserId} joined room {RoomId} with invite {Code}",
+                userId,
+                invite.RoomId,
+                invite.Code
+            );
+            return room;
+        }
+        catch
+        {
+            // the join didn't happen, give the use back
+            invite.Uses--;
+            await _inviteRepository.UpdateAsync(invite);
+            throw;
+        }
+    }
+
+    // --- helpers ---
+
+    /// <summary>
+    /// Codes are shown in upper case, but people type them however they like.
+    /// </summary>
+    public static string NormalizeCode(string code) =>
+        new string(code.Where(char.IsLetterOrDigit).Select(char.ToUpperInvariant).ToArray());
+
+    private async Task<Room> GetHostedRoomAsync(Guid roomId, Guid requesterId)
+    {
+        Room room =
+            await _roomRepository.GetByIdAsync(roomId)
+            ?? throw new NotFoundException($"Room with ID {roomId} not found.");
+
+        if (room.HostId != requesterId)
+            throw new ForbiddenException("Only the host can manage invites for this room.");
+
+        return room;
+    }
+
+    private async Task<RoomInvite> GetManagedInviteAsync(string code, Guid requesterId)
+    {
+        RoomInvite invite =
+            await _inviteRepository.GetByCodeAsync(NormalizeCode(code))
+            ?? throw new NotFoundException("Invite not found.");
+
+        if (invite.Room?.HostId != requesterId)
+            throw new ForbiddenException("Only the host can manage invites for this room.");
+
+        return invite;
+    }
+
+    private async Task<RoomInvite> GetUsableInviteAsync(string code)
+    {
+        RoomInvite? invite = await _inviteRepository.GetByCodeAsync(NormalizeCode(code));
+
+        // don't tell revoked codes apart from ones that never existed
+        if (invite is null || invite.RevokedAt is not null || invite.Room is not { IsActive: true })
+            throw new NotFoundException("This invite is invalid or has been revoked.");
+
+        DateTimeOffset now = DateTimeOffset.UtcNow;
+        if (invite.ExpiresAt <= now)
+            throw new BadRequestException("This invite has expired.");
+
+        if (invite.Uses >= invite.MaxUses)
+            throw new BadRequestException("This invite has been used up.");
+
+        return invite;
+    }
+
+    private async Task<RoomInvite> CreateWithUniqueCodeAsync(
+        Guid roomId,
+        DateTimeOffset? expiresAt,
+        int? maxUses,
+        DateTimeOffset now
+    )
+    {
+        for (int attempt = 0; attempt < MaxCodeAttempts; attempt++)
+        {
+            string code = new(RandomNumberGenerator.GetItems<char>(CodeAlphabet, CodeLength));
+            if (await _inviteRepository.CodeExistsAsync(code))
+                continue;
+
+            return await _inviteRepository.CreateAsync(
+                new RoomInvite
+                {
+                    Id = Guid.CreateVersion7(),
+                    RoomId = roomId,
+                    Code = code,
+                    CreatedAt = now,
+                    ExpiresAt = expiresAt,
+                    MaxUses = maxUses,
+                }
+            );
+        }
+
+        throw new InternalServerException("Failed to generate a unique invite code.");
+    }
+
+    private static RoomInviteDTO MapToDto(RoomInvite invite)
+    {
+        return new RoomInviteDTO
+        {
+            Code = invite.Code,
+            RoomId = invite.RoomId,
+            CreatedAt = invite.CreatedAt,
+            ExpiresAt = invite.ExpiresAt,
+            MaxUses = invite.MaxUses,
+            Uses = invite.Uses,
+        };
+    }
+
+    private static void Validate(CreateRoomInviteDTO dto)
+    {
+        if (dto.ExpiresInMinutes is < 1 or > MaxExpiresInMinutes)
+            throw new BadRequestException(
+                $"Invites can expire after 1 to {MaxExpiresInMinutes} minutes."
+            );
+
+        if (dto.MaxUses is < 1 or > MaxUsesLimit)
+            throw new BadRequestException($"Invites can be used 1 to {MaxUsesLimit} times.");
+    }
+}
@@ -0,0 +1,65 @@
+using Project.Api.Services.Interface;
+
+namespace Project.Api.Services;
+
+public class RoomLockService : IRoomLockService
+{
+    // only rooms that someone holds or waits for have an entry
+    private readonly Dictionary<Guid, RoomLock> _locks = [];
+
+    private sealed class RoomLock
+    {
+        public SemaphoreSlim Semaphore { get; } = new(1, 1);
+
+        /// <summary>
+        /// How many callers hold or wait for the lock, guarded by the lock on <see cref="_locks"/>.
+        /// </summary>
+        public int Users { get; set; }
+    }
+
+    public async Task<IDisposable> LockAsync(Guid roomId)
+    {
+        RoomLock? roomLock;
+        lock (_locks)
+        {
+            if (!_locks.TryGetValue(roomId, out roomLock))
+            {
+                roomLock = new();
+                _locks.Add(roomId, roomLock);
+            }
+            roomLock.Users++;
+        }
+
+        await roomLock.Semaphore.WaitAsync();
+        return new Handle(this, roomId, roomLock);
+    }
+
+    private void Release(Guid roomId, RoomLock roomLock)
+    {
+        roomLock.Semaphore.Release();
+
+        lock (_locks)
+        {
+            roomLock.Users--;
+            if (roomLock.Users == 0)
+            {
+                // nobody is waiting, whoever comes next starts over with a new lock
+                _locks.Remove(roomId);
+                roomLock.Semaphore.Dispose();
+            }
+        }
+    }
+
+    private sealed class Handle(RoomLockService service, Guid roomId, RoomLock roomLock)
+        : IDisposable
+    {
+        private int _disposed;
+
+        public void Dispose()
+        {
+            // releasing twice would let two callers in at once
+            if (Interlocked.Exchange(ref _disposed, 1) == 0)
+                service.Release(roomId, roomLock);
+        }
+    }
+}
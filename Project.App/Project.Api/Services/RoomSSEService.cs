@@ -1,5 +1,7 @@
 using System.Collections.Concurrent;
 using System.Text.Json;
+using System.Threading.Channels;
+using Project.Api.DTOs;
 using Project.Api.Models.Games;
 using Project.Api.Services.Interface;
 using Project.Api.Utilities.Enums;
@@ -9,133 +11,299 @@ namespace Project.Api.Services;
 
 public class RoomSSEService(ILogger<RoomSSEService> logger) : IRoomSSEService
 {
+    /// <summary>
+    /// The number of most recent events kept per room, to replay to clients that reconnect.
+    /// </summary>
+    public const int ReplayBufferCapacity = 256;
+
+    /// <summary>
+    /// The number of game events kept per room until they are taken, see <see cref="TakeGameEvents"/>.
+    /// Rounds need far fewer, this only stops rooms that are never finished from growing forever.
+    /// </summary>
+    public const int GameEventCapacity = 2048;
+
+    /// <summary>
+    /// The number of events waiting to be written to a single client, beyond which it is dropped.
+    /// Leaves room for the confirmation and a full replay, a client that stops reading
+    /// can catch up from the replay buffer once it reconnects.
+    /// </summary>
+    public const int ConnectionQueueCapacity = ReplayBufferCapacity + 1;
+
+    /// <summary>
+    /// The events needed to replay a round, see <see cref="TakeGameEvents"/>.
+    /// </summary>
+    private static readonly HashSet<RoomEventType> GameEventTypes =
+    [
+        RoomEventType.GameStateUpdate,
+        RoomEventType.PlayerAction,
+        RoomEventType.DealerReveal,
+        RoomEventType.PlayerReveal,
+    ];
+
     private readonly ILogger<RoomSSEService> _logger = logger;
 
     private readonly ConcurrentDictionary<
         Guid,
-        ConcurrentDictionary<string, StreamWriter>
+        ConcurrentDictionary<string, SSEConnection>
     > _connections = new();
 
+    private readonly ConcurrentDictionary<Guid, RoomEventLog> _eventLogs = new();
+
     private readonly JsonSerializerOptions _jsonOptions = new()
     {
         PropertyNamingPolicy = JsonNamingPolicy.CamelCase, // use js convention instead of C#
     };
 
-    public async Task AddConnectionAsync(Guid roomId, HttpResponse response)
+    public async Task AddConnectionAsync(
+        Guid roomId,
+        HttpResponse response,
+        long? lastEventId = null,
+        RoomViewerDTO? viewer = null
+    )
     {
         response.Headers.Append("Content-Type", "text/event-stream");
         response.Headers.Append("Cache-Control", "no-cache");
         response.Headers.Append("Connection", "keep-alive");
 
         string connectionId = Guid.CreateVersion7().ToString(); // assign unique connection id
-        StreamWriter writer = new(response.Body);
+        SSEConnection connection = new(new StreamWriter(response.Body), viewer);
 
-        // add connection to room
-        ConcurrentDictionary<string, StreamWriter> connections = _connections.GetOrAdd(
+        ConcurrentDictionary<string, SSEConnection> connections = _connections.GetOrAdd(
             roomId,
             _ => new()
         );
-        connections.TryAdd(connectionId, writer);
+        RoomEventLog eventLog = _eventLogs.GetOrAdd(roomId, _ => new());
 
+        bool added = false;
+        bool isNewViewer = false;
         try
         {
-            // confirm connection
-            await writer.WriteLineAsync(": connected");
-            await writer.FlushAsync();
+            // add connection to room and queue what it missed in one step,
+            // so that no event can be broadcast in between and get lost or overtake the replay
+            int missedEventCount = 0;
+            bool resync = false;
+            lock (eventLog)
+            {
+                // the same user may have the room open more than once
+                isNewViewer = viewer is not null && !IsViewing(connections, viewer.UserId);
+                added = connections.TryAdd(connectionId, connection);
+
+                // confirm connection
+                connection.Enqueue(": connected\n");
+
+                if (lastEventId.HasValue)
+                {
+                    if (eventLog.TryGetEventsAfter(lastEventId.Value, out List<string> events))
+                    {
+                        missedEventCount = events.Count;
+                        events.ForEach(payload => connection.Enqueue(payload));
+                    }
+                    else
+                    {
+                        // buffer does not reach back far enough, client has to refetch it all
+                        resync = true;
+                        connection.Enqueue(
+                            FormatEvent(
+                                eventLog.LastId,
+                                RoomEventType.Resync,
+                                new ResyncEventData { LastEventId = eventLog.LastId }
+                            )
+                        );
+                    }
+                }
+            }
+
+            if (resync)
+            {
+                _logger.LogInformation(
+                    "[SSE] Cannot replay room {roomId} from event {lastEventId}, requesting resync",
+                    roomId,
+                    lastEventId
+                );
+            }
+            else if (missedEventCount > 0)
+            {
+                _logger.LogInformation(
+                    "[SSE] Replaying {count} event(s) to room {roomId} after event {lastEventId}",
+                    missedEventCount,
+                    roomId,
+                    lastEventId
+                );
+            }
 
-            // wait for client to close connection (abort request)
-            await Task.Delay(Timeout.Infinite, response.HttpContext.RequestAborted);
+            if (isNewViewer)
+            {
+                await BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.ViewerJoin,
+                    new ViewerJoinEventData { UserId = viewer!.UserId, UserName = viewer.UserName }
+                );
+            }
+
+            // write events to the client until it closes the connection (aborts the request)
+            // or falls too far behind
+            await connection.SendAsync(response.HttpContext.RequestAborted);
         }
         catch (OperationCanceledException)
         {
             // connection closed
             // expected case, do not throw
         }
+        catch (IOException)
+        {
+            // broken pipe
+        }
+        catch (ObjectDisposedException)
+        {
+            // response was disposed
+        }
         finally
         {
             // clean up connection and remove from room
-            if (connections.TryRemove(connectionId, out StreamWriter? removedWriter))
+            bool viewerLeft;
+            lock (eventLog)
             {
-                await removedWriter.DisposeAsync();
+                connections.TryRemove(connectionId, out _);
+                viewerLeft = added && viewer is not null && !IsViewing(connections, viewer.UserId);
+            }
+            await connection.DisposeAsync();
+
+            if (viewerLeft)
+            {
+                await BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.ViewerLeave,
+                    new ViewerLeaveEventData { UserId = viewer!.UserId, UserName = viewer.UserName }
+                );
             }
         }
     }
 
-    public async Task BroadcastEventAsync(Guid roomId, RoomEventType eventType, IRoomEventData data)
+    public IReadOnlyList<RoomViewerDTO> GetViewers(Guid roomId)
     {
-        // check if room exists in connections
-        if (
-            !_connections.TryGetValue(
-                roomId,
-                out ConcurrentDictionary<string, StreamWriter>? connections
-            )
-        )
+        if (!_connections.TryGetValue(roomId, out ConcurrentDictionary<string, SSEConnection>? connections))
         {
-            return;
+            return [];
         }
 
-        string serializedData = JsonSerializer.Serialize(data, data.GetType(), _jsonOptions);
-        string eventName = eventType.ToString().ToSnakeCase(); // use snake_case event type
+        return
+        [
+            .. connections
+                .Values.Select(connection => connection.Viewer)
+                .OfType<RoomViewerDTO>()
+                .DistinctBy(viewer => viewer.UserId),
+        ];
+    }
 
-        _logger.LogInformation(
-            "[SSE] Broadcasting to room {roomId}: event={eventName}, data length={serializedData.Length}",
-            roomId,
-            eventName,
-            serializedData.Length
-        );
-        _logger.LogInformation(
-            "[SSE] Data preview: {serializedData}",
-            serializedData[..Math.Min(256, serializedData.Length)]
-        );
+    private static bool IsViewing(
+        ConcurrentDictionary<string, SSEConnection> connections,
+        Guid userId
+    ) => connections.Values.Any(connection => connection.Viewer?.UserId == userId);
 
-        string eventPayload = $"event: {eventName}\ndata: {serializedData}\n\n";
+    public Task BroadcastEventAsync(Guid roomId, RoomEventType eventType, IRoomEventData data)
+    {
+        string serializedData = JsonSerializer.Serialize(data, data.GetType(), _jsonOptions);
+        string eventName = eventType.ToString().ToSnakeCase(); // use snake_case event type
 
-        List<string> closedConnections = [];
-        foreach ((string connectionId, StreamWriter writer) in connections)
+        // assign the next id and queue the event for every connection in one step,
+        // otherwise concurrent broadcasts could reach clients out of order
+        RoomEventLog eventLog = _eventLogs.GetOrAdd(roomId, _ => new());
+        long eventId;
+        int connectionCount = 0;
+        lock (eventLog)
         {
-            try
-            {
-                await writer.WriteAsync(eventPayload); // assume payload already includes terminating \n\n
-                await writer.FlushAsync();
-            }
-            catch (OperationCanceledException)
-            {
-                // operation was canceled
-                closedConnections.Add(connectionId);
-            }
-            catch (IOException)
+            // record the event, even if nobody is listening right now,
+            // so clients that are reconnecting can catch up
+            eventId = eventLog.LastId + 1;
+            string eventPayload = FormatEvent(eventId, eventName, serializedData);
+            eventLog.Append(eventId, eventPayload);
+
+            if (GameEventTypes.Contains(eventType))
             {
-                // broken pipe
-                closedConnections.Add(connectionId);
+                eventLog.AppendGameEvent(
+                    new RoundEventDTO
+                    {
+                        Id = eventId,
+                        Event = eventName,
+                        Data = JsonSerializer.SerializeToElement(
+                            data,
+                            data.GetType(),
+                            _jsonOptions
+                        ),
+                        Timestamp = DateTimeOffset.UtcNow,
+                    }
+                );
             }
-            catch (ObjectDisposedException)
+
+            // each connection writes its own queue, so a slow client holds up nobody else
+            if (
+                _connections.TryGetValue(
+                    roomId,
+                    out ConcurrentDictionary<string, SSEConnection>? connections
+                )
+            )
             {
-                // writer was disposed
-                closedConnections.Add(connectionId);
+                foreach (SSEConnection connection in connections.Values)
+                {
+                    if (!connection.Enqueue(eventPayload))
+                    {
+                        _logger.LogWarning(
+                            "[SSE] Dropping a connection to room {roomId} that fell behind",
+                            roomId
+                        );
+                    }
+                    connectionCount++;
+                }
             }
         }
 
-        // clean up any closed connections
-        foreach (string connectionId in closedConnections)
+        if (connectionCount > 0)
         {
-            if (connections.TryRemove(connectionId, out StreamWriter? removedWriter))
-            {
-                await removedWriter.DisposeAsync();
-            }
+            _logger.LogInformation(
+                "[SSE] Broadcasting to room {roomId}: id={eventId}, event={eventName}, data length={serializedData.Length}",
+                roomId,
+                eventId,
+                eventName,
+                serializedData.Length
+            );
+            _logger.LogInformation(
+                "[SSE] Data preview: {serializedData}",
+                serializedData[..Math.Min(256, serializedData.Length)]
+            );
+        }
+
+        return Task.CompletedTask;
+    }
+
+    public IEnumerable<RoundEventDTO> TakeGameEvents(Guid roomId)
+    {
+        if (!_eventLogs.TryGetValue(roomId, out RoomEventLog? eventLog))
+        {
+            return [];
+        }
+
+        lock (eventLog)
+        {
+            return eventLog.TakeGameEvents();
         }
     }
 
+    public void CloseRoom(Guid roomId)
+    {
+        _eventLogs.TryRemove(roomId, out _);
+    }
+
     public async Task CloseAllConnectionsAsync()
     {
         Console.WriteLine("[SSE] Closing all SSE connections for graceful shutdown...");
 
         foreach (var roomConnections in _connections.Values)
         {
-            foreach (var writer in roomConnections.Values)
+            foreach (var connection in roomConnections.Values)
             {
                 try
                 {
-                    await writer.DisposeAsync();
+                    await connection.DisposeAsync();
                 }
                 catch
                 {
@@ -154,4 +322,143 @@ public class RoomSSEService(ILogger<RoomSSEService> logger) : IRoomSSEService
         CloseAllConnectionsAsync().GetAwaiter().GetResult();
         GC.SuppressFinalize(this);
     }
+
+    private string FormatEvent(long eventId, RoomEventType eventType, IRoomEventData data) =>
+        FormatEvent(
+            eventId,
+            eventType.ToString().ToSnakeCase(),
+            JsonSerializer.Serialize(data, data.GetType(), _jsonOptions)
+        );
+
+    private static string FormatEvent(long eventId, string eventName, string serializedData) =>
+        $"id: {eventId}\nevent: {eventName}\ndata: {serializedData}\n\n";
+
+    /// <summary>
+    /// A single client connection. Events are queued by broadcasts and written to the client
+    /// by the request that opened the connection, in the order they were queued.
+    /// </summary>
+    private sealed class SSEConnection(StreamWriter writer, RoomViewerDTO? viewer)
+        : IAsyncDisposable
+    {
+        private readonly StreamWriter _writer = writer;
+        private readonly Channel<string> _queue = Channel.CreateBounded<string>(
+            new BoundedChannelOptions(ConnectionQueueCapacity) { SingleReader = true }
+        );
+        private readonly CancellationTokenSource _dropped = new();
+
+        /// <summary>
+        /// Who is connected, if they are logged in.
+        /// </summary>
+        public RoomViewerDTO? Viewer { get; } = viewer;
+
+        /// <summary>
+        /// Queues an event to be written to the client.
+        /// </summary>
+        /// <returns>false if the client has fallen too far behind, it is dropped then</returns>
+        public bool Enqueue(string payload)
+        {
+            if (_queue.Writer.TryWrite(payload))
+                return true;
+
+            if (_queue.Writer.TryComplete())
+            {
+                _dropped.Cancel(); // also stop a write the client is not reading
+            }
+            return false;
+        }
+
+        /// <summary>
+        /// Writes the queued events to the client until the request is aborted
+        /// or the client is dropped.
+        /// </summary>
+        public async Task SendAsync(CancellationToken requestAborted)
+        {
+            using CancellationTokenSource sending = CancellationTokenSource.CreateLinkedTokenSource(
+                requestAborted,
+                _dropped.Token
+            );
+            await foreach (string payload in _queue.Reader.ReadAllAsync(sending.Token))
+            {
+                // payload already includes terminating \n\n
+                await _writer.WriteAsync(payload.AsMemory(), sending.Token);
+                await _writer.FlushAsync(sending.Token);
+            }
+        }
+
+        public async ValueTask DisposeAsync()
+        {
+            _queue.Writer.TryComplete();
+
+            // flushing what is left would wait for a client that stopped reading
+            if (!_dropped.IsCancellationRequested)
+            {
+                await _writer.DisposeAsync();
+            }
+            _dropped.Dispose();
+        }
+    }
+
+    /// <summary>
+    /// The id counter and bounded replay buffer of a single room, and the game events of its current round.
+    /// Not thread-safe on its own, lock on the instance before use.
+    /// </summary>
+    private sealed class RoomEventLog
+    {
+        private readonly Queue<(long Id, string Payload)> _events = new();
+        private Queue<RoundEventDTO> _gameEvents = new();
+
+        public long LastId { get; private set; }
+
+        public void Append(long eventId, string payload)
+        {
+            LastId = eventId;
+            _events.Enqueue((eventId, payload));
+
+            while (_events.Count > ReplayBufferCapacity)
+            {
+                _events.Dequeue();
+            }
+        }
+
+        public void AppendGameEvent(RoundEventDTO gameEvent)
+        {
+            _gameEvents.Enqueue(gameEvent);
+
+            while (_gameEvents.Count > GameEventCapacity)
+            {
+                _gameEvents.Dequeue();
+            }
+        }
+
+        public List<RoundEventDTO> TakeGameEvents()
+        {
+            List<RoundEventDTO> gameEvents = [.. _gameEvents];
+            _gameEvents = new();
+            return gameEvents;
+        }
+
+        /// <summary>
+        /// Gets all events after the given id.
+        /// </summary>
+        /// <returns>false if some of those events are no longer buffered (or never existed)</returns>
+        public bool TryGetEventsAfter(long lastEventId, out List<string> events)
+        {
+            events = [];
+
+            // up to date
+            if (lastEventId == LastId)
+                return true;
+
+            // id from the future, likely from before a server restart
+            if (lastEventId > LastId)
+                return false;
+
+            // oldest missed event has already been dropped
+            if (_events.Count == 0 || _events.Peek().Id > lastEventId + 1)
+                return false;
+
+            events = [.. _events.Where(e => e.Id > lastEventId).Select(e => e.Payload)];
+            return true;
+        }
+    }
 }
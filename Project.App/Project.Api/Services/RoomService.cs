@@ -7,6 +7,7 @@ using Project.Api.Repositories.Interface;
 using Project.Api.Services.Interface;
 using Project.Api.Utilities;
 using Project.Api.Utilities.Constants;
+using Project.Api.Utilities.Enums;
 
 namespace Project.Api.Services;
 
@@ -15,6 +16,9 @@ public class RoomService(
     IRoomPlayerRepository roomPlayerRepository,
     AppDbContext dbContext,
     IEnumerable<IGameService<IGameState, GameConfig>> gameServices,
+    IIdempotencyService idempotencyService,
+    IRoomLockService roomLockService,
+    ILobbyService lobbyService,
     ILogger<RoomService> logger
 ) : IRoomService
 {
@@ -23,8 +27,16 @@ public class RoomService(
     private readonly AppDbContext _dbContext = dbContext;
     private readonly Dictionary<string, IGameService<IGameState, GameConfig>> _gameServices =
         gameServices.ToDictionary(s => s.GameMode.ToLowerInvariant(), s => s); // Initialize dictionary
+    private readonly IIdempotencyService _idempotencyService = idempotencyService;
+    private readonly IRoomLockService _roomLockService = roomLockService;
+    private readonly ILobbyService _lobbyService = lobbyService;
     private readonly ILogger<RoomService> _logger = logger;
 
+    /// <summary>
+    /// The longest idempotency key accepted, enough for a GUID with some room to spare.
+    /// </summary>
+    public const int MaxIdempotencyKeyLength = 64;
+
     // Helper method to get the correct game service
     private IGameService<IGameState, GameConfig> GetGameService(string gameMode)
     {
@@ -90,6 +102,10 @@ public class RoomService(
         // Get the game service for the room's game mode
         var gameService = GetGameService(room.GameMode);
 
+        // rules that can't be played are turned down now rather than when the game starts
+        if (!string.IsNullOrWhiteSpace(dto.GameConfig))
+            ValidateConfig(DeserializeConfig(room.GameMode, dto.GameConfig));
+
         await using var transaction = await _dbContext.Database.BeginTransactionAsync();
         try
         {
@@ -99,6 +115,7 @@ public class RoomService(
             await gameService.PlayerJoinAsync(createdRoom.Id, dto.HostId);
 
             await transaction.CommitAsync();
+            await _lobbyService.BroadcastRoomChangedAsync(createdRoom.Id, created: true);
 
             _logger.LogInformation("Successfully created room with ID: {RoomId}", createdRoom.Id);
             return MapToResponseDto(createdRoom);
@@ -128,12 +145,20 @@ public class RoomService(
         existingRoom.MinPlayers = dto.MinPlayers;
 
         var updatedRoom = await _roomRepository.UpdateAsync(existingRoom);
-        return updatedRoom is null ? null : MapToResponseDto(updatedRoom);
+        if (updatedRoom is null)
+            return null;
+
+        await _lobbyService.BroadcastRoomChangedAsync(updatedRoom.Id);
+        return MapToResponseDto(updatedRoom);
     }
 
     public async Task<bool> DeleteRoomAsync(Guid id)
     {
-        return await _roomRepository.DeleteAsync(id);
+        bool deleted = await _roomRepository.DeleteAsync(id);
+        if (deleted)
+            await _lobbyService.BroadcastRoomChangedAsync(id);
+
+        return deleted;
     }
 
     public async Task<bool> RoomExistsAsync(Guid id)
@@ -152,6 +177,7 @@ public class RoomService(
             throw new BadRequestException("Game state cannot be empty.");
 
         _logger.LogInformation("Updating game state for room {RoomId}", id);
+        using IDisposable roomLock = await _roomLockService.LockAsync(id);
         return await _roomRepository.UpdateGameStateAsync(id, gameState);
     }
 
@@ -167,6 +193,17 @@ public class RoomService(
             throw new BadRequestException("Game config cannot be empty.");
 
         _logger.LogInformation("Updating game config for room {RoomId}", id);
+        using IDisposable roomLock = await _roomLockService.LockAsync(id);
+
+        // a game in progress keeps its rules until the round is over
+        Room? room = await _roomRepository.GetByIdAsync(id);
+        if (room?.StartedAt is not null)
+        {
+            await GetGameService(room.GameMode)
+                .UpdateConfigAsync(id, DeserializeConfig(room.GameMode, gameConfig));
+            return true;
+        }
+
         return await _roomRepository.UpdateGameConfigAsync(id, gameConfig);
     }
 
@@ -175,6 +212,7 @@ public class RoomService(
     public async Task<RoomDTO> StartGameAsync(Guid roomId, string? gameConfigJson = null)
     {
         _logger.LogInformation("Starting game for room {RoomId}", roomId);
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
 
         // Get the room
         var room =
@@ -210,71 +248,54 @@ public class RoomService(
 
         // determine config based on game mode using a switch statement
         GameConfig config;
-        try
+        switch (room.GameMode)
         {
-            switch (room.GameMode)
-            {
-                case GameModes.Blackjack:
-                    if (!string.IsNullOrWhiteSpace(gameConfigJson))
-                    {
-                        // Deserialize to specific BlackjackConfig type
-                        config =
-                            JsonSerializer.Deserialize<BlackjackConfig>(gameConfigJson)
-                            ?? throw new BadRequestException(
-                                "Invalid Blackjack game configuration JSON."
-                            );
-                        _logger.LogInformation(
-                            "Using custom Blackjack config for room {RoomId}",
-                            roomId
-                        );
-                    }
-                    else if (!string.IsNullOrWhiteSpace(room.GameConfig))
-                    {
-                        // Use existing config for Blackjack
-                        config =
-                            JsonSerializer.Deserialize<BlackjackConfig>(room.GameConfig)
-                            ?? throw new BadRequestException(
-                                "Invalid existing Blackjack game configuration."
-                            );
-                        _logger.LogInformation(
-                            "Using existing Blackjack config for room {RoomId}",
-                            roomId
-                        );
-                    }
-                    else
-                    {
-                        // Use default Blackjack config
-                        config = new BlackjackConfig();
-                        _logger.LogInformation(
-                            "Using default Blackjack config for room {RoomId}",
-                            roomId
-                        );
-                    }
-                    break;
-                // Add cases for other game modes here if they have specific GameConfig types
-                // case GameModes.Poker:
-                //     // ... handle PokerConfig ...
-                //     break;
-                default:
-                    // Fallback for unsupported game modes or if a specific config type isn't handled
-                    // This should ideally be caught by GetGameService, but as a safeguard:
-                    throw new BadRequestException(
-                        $"Unsupported game mode for configuration: {room.GameMode}"
+            case GameModes.Blackjack:
+                if (!string.IsNullOrWhiteSpace(gameConfigJson))
+                {
+                    // Deserialize to specific BlackjackConfig type
+                    config = DeserializeConfig(room.GameMode, gameConfigJson);
+                    _logger.LogInformation(
+                        "Using custom Blackjack config for room {RoomId}",
+                        roomId
                     );
-            }
-        }
-        catch (JsonException ex)
-        {
-            _logger.LogError(
-                ex,
-                "Failed to deserialize game configuration for room {RoomId}",
-                roomId
-            );
-            throw new BadRequestException("Invalid game configuration format.");
+                }
+                else if (!string.IsNullOrWhiteSpace(room.GameConfig))
+                {
+                    // Use existing config for Blackjack, as the client created the room with
+                    config = DeserializeConfig(room.GameMode, room.GameConfig);
+                    _logger.LogInformation(
+                        "Using existing Blackjack config for room {RoomId}",
+                        roomId
+                    );
+                }
+                else
+                {
+                    // Use default Blackjack config
+                    config = new BlackjackConfig();
+                    _logger.LogInformation(
+                        "Using default Blackjack config for room {RoomId}",
+                        roomId
+                    );
+                }
+                break;
+            // Add cases for other game modes here if they have specific GameConfig types
+            // case GameModes.Poker:
+            //     // ... handle PokerConfig ...
+            //     break;
+            default:
+                // Fallback for unsupported game modes or if a specific config type isn't handled
+                // This should ideally be caught by GetGameService, but as a safeguard:
+                throw new BadRequestException(
+                    $"Unsupported game mode for configuration: {room.GameMode}"
+                );
         }
 
+        ValidateConfig(config);
+
         // start the game!
         await gameService.StartGameAsync(roomId, config); // delegate setup to the generic game service
+        await _lobbyService.BroadcastRoomChangedAsync(roomId);
 
         _logger.LogInformation("Successfully started game for room {RoomId}", roomId);
         return MapToResponseDto(
@@ -287,7 +308,8 @@ public class RoomService(
         Guid roomId,
         Guid playerId,
         string action,
-        JsonElement data
+        JsonElement data,
+        string? idempotencyKey = null
     )
     {
         _logger.LogInformation(
@@ -297,6 +319,9 @@ public class RoomService(
             roomId
         );
 
+        // one change at a time, e.g. a bot may be betting at the same moment
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
+
         // Validate room exists
         var room =
             await _roomRepository.GetByIdAsync(roomId)
@@ -325,9 +350,29 @@ public class RoomService(
             throw new BadRequestException($"Player {playerId} is not in room {roomId}.");
         }
 
+        if (idempotencyKey?.Length > MaxIdempotencyKeyLength)
+        {
+            throw new BadRequestException(
+                $"Idempotency key must be at most {MaxIdempotencyKeyLength} characters."
+            );
+        }
+
         // Delegate to the appropriate game service based on game mode
         var gameService = GetGameService(room.GameMode);
-        await gameService.PerformActionAsync(roomId, playerId, action, data);
+        if (idempotencyKey is null)
+        {
+            await gameService.PerformActionAsync(roomId, playerId, action, data);
+        }
+        else
+        {
+            // a repeated request gets the original outcome instead of acting twice
+            await _idempotencyService.RunOnceAsync(
+                roomId,
+                playerId,
+                idempotencyKey,
+                () => gameService.PerformActionAsync(roomId, playerId, action, data, idempotencyKey)
+            );
+        }
         _logger.LogInformation(
             "Successfully performed action '{Action}' for player {PlayerId} in room {RoomId}",
             action,
@@ -341,6 +386,7 @@ public class RoomService(
     public async Task<RoomDTO> JoinRoomAsync(Guid roomId, Guid userId)
     {
         _logger.LogInformation("User {UserId} attempting to join room {RoomId}", userId, roomId);
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
 
         // Validate room exists
         var room =
@@ -362,6 +408,7 @@ public class RoomService(
         // should include setting up the player, adding them to the room, etc.
         var gameService = GetGameService(room.GameMode);
         await gameService.PlayerJoinAsync(roomId, userId);
+        await _lobbyService.BroadcastRoomChangedAsync(roomId); // occupancy changed
 
         // Return the room (no need to fetch again, we have it)
         return MapToResponseDto(room);
@@ -370,6 +417,7 @@ public class RoomService(
     public async Task<RoomDTO> LeaveRoomAsync(Guid roomId, Guid userId)
     {
         _logger.LogInformation("User {UserId} attempting to leave room {RoomId}", userId, roomId);
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
 
         // Validate room exists
         var room =
@@ -380,11 +428,167 @@ public class RoomService(
         // should include removing the player from the room, selecting new host if necessary, etc.
         var gameService = GetGameService(room.GameMode);
         await gameService.PlayerLeaveAsync(roomId, userId);
+        await _lobbyService.BroadcastRoomChangedAsync(roomId); // occupancy changed, or the room closed
 
         // Return the room (we already have it)
         return MapToResponseDto(room);
     }
 
+    // --- host controls ---
+
+    public async Task KickPlayerAsync(Guid roomId, Guid hostId, Guid userId, bool ban = false)
+    {
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
+        Room room = await GetRoomAsHostAsync(roomId, hostId);
+        if (userId == hostId)
+            throw new BadRequestException("The host cannot kick themselves.");
+
+        _logger.LogInformation(
+            "Host {HostId} kicking {UserId} from room {RoomId} (ban: {Ban})",
+            hostId,
+            userId,
+            roomId,
+            ban
+        );
+        await GetGameService(room.GameMode).KickPlayerAsync(roomId, userId, ban);
+        await _lobbyService.BroadcastRoomChangedAsync(roomId); // occupancy changed
+    }
+
+    public async Task TransferHostAsync(Guid roomId, Guid hostId, Guid newHostId)
+    {
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
+        Room room = await GetRoomAsHostAsync(roomId, hostId);
+        if (newHostId == hostId)
+            throw new BadRequestException("You are already the host.");
+
+        await GetGameService(room.GameMode).TransferHostAsync(roomId, newHostId);
+        await _lobbyService.BroadcastRoomChangedAsync(roomId); // the lobby shows the host's name
+    }
+
+    public async Task PauseGameAsync(Guid roomId, Guid hostId)
+    {
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
+        Room room = await GetRoomAsHostAsync(roomId, hostId);
+        if (room.StartedAt == null)
+            throw new BadRequestException("Game has not been started yet.");
+
+        await GetGameService(room.GameMode).PauseAsync(roomId);
+    }
+
+    public async Task ResumeGameAsync(Guid roomId, Guid hostId)
+    {
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
+        Room room = await GetRoomAsHostAsync(roomId, hostId);
+        if (room.StartedAt == null)
+            throw new BadRequestException("Game has not been started yet.");
+
+        await GetGameService(room.GameMode).ResumeAsync(roomId);
+    }
+
+    public async Task UpdateBlackjackConfigAsync(
+        Guid roomId,
+        Guid hostId,
+        UpdateBlackjackConfigDTO dto
+    )
+    {
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
+        Room room = await GetRoomAsHostAsync(roomId, hostId);
+        var gameService = GetGameService(room.GameMode);
+
+        if (await gameService.GetConfigAsync(roomId) is not BlackjackConfig current)
+            throw new BadRequestException($"Room {roomId} is not a Blackjack room.");
+
+        await gameService.UpdateConfigAsync(
+            roomId,
+            current with
+            {
+                MinBet = dto.MinBet,
+                BettingTimeLimit = dto.BettingTimeLimit,
+                TurnTimeLimit = dto.TurnTimeLimit,
+                AllowBalanceReset = dto.AllowBalanceReset,
+            }
+        );
+
+        // games that have started only change their min bet in the next round
+        if (room.StartedAt == null)
+            await _lobbyService.BroadcastRoomChangedAsync(roomId);
+    }
+
+    public async Task AddBotAsync(Guid roomId, Guid hostId, BotPolicy policy)
+    {
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
+        Room room = await GetRoomAsHostAsync(roomId, hostId);
+        if (!room.IsActive)
+            throw new BadRequestException("Room is not active.");
+
+        _logger.LogInformation(
+            "Host {HostId} adding a {Policy} bot to room {RoomId}",
+            hostId,
+            policy,
+            roomId
+        );
+        await GetGameService(room.GameMode).AddBotAsync(roomId, policy);
+        await _lobbyService.BroadcastRoomChangedAsync(roomId); // occupancy changed
+    }
+
+    // --- bots ---
+
+    public async Task PlayBotsAsync(Guid roomId)
+    {
+        using IDisposable roomLock = await _roomLockService.LockAsync(roomId);
+        Room room =
+            await _roomRepository.GetByIdAsync(roomId)
+            ?? throw new NotFoundException($"Room with ID {roomId} not found.");
+
+        if (!room.IsActive || room.StartedAt == null)
+            return;
+
+        await GetGameService(room.GameMode).PlayBotsAsync(roomId);
+    }
+
+    /// <summary>
+    /// Gets a room for one of the host controls.
+    /// </summary>
+    /// <exception cref="ForbiddenException">Thrown if the user is not the room's host.</exception>
+    private async Task<Room> GetRoomAsHostAsync(Guid roomId, Guid userId)
+    {
+        Room room =
+            await _roomRepository.GetByIdAsync(roomId)
+            ?? throw new NotFoundException($"Room with ID {roomId} not found.");
+
+        if (room.HostId != userId)
+            throw new ForbiddenException("Only the host can do that.");
+
+        return room;
+    }
+
+    private static GameConfig DeserializeConfig(string gameMode, string gameConfig)
+    {
+        try
+        {
+            return gameMode switch
+            {
+                GameModes.Blackjack => JsonSerializer.Deserialize<BlackjackConfig>(
+                    gameConfig,
+                    BlackjackService.ConfigJsonOptions
+                ) ?? throw new BadRequestException("Invalid Blackjack game configuration JSON."),
+                _ => throw new BadRequestException(
+                    $"Unsupported game mode for configuration: {gameMode}"
+                ),
+            };
+        }
+        catch (JsonException)
+        {
+            throw new BadRequestException("Invalid game configuration format.");
+        }
+    }
+
+    private static void ValidateConfig(GameConfig config)
+    {
+        if (config is BlackjackConfig blackjackConfig)
+            GameConfigValidator.ValidateBlackjackConfig(blackjackConfig);
+    }
+
     // TODO: replace with automapper implementation
     private static RoomDTO MapToResponseDto(Room room)
     {
@@ -399,7 +603,6 @@ public class RoomService(
             Description = room.Description,
             MaxPlayers = room.MaxPlayers,
             MinPlayers = room.MinPlayers,
-            DeckId = room.DeckId ?? string.Empty,
             CreatedAt = room.CreatedAt,
             IsActive = room.IsActive,
         };
@@ -0,0 +1,73 @@
+using System.Text.Json;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Repositories.Interface;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+
+namespace Project.Api.Services;
+
+public class RoundHistoryService(
+    IRoundRecordRepository roundRecordRepository,
+    IRoomRepository roomRepository
+) : IRoundHistoryService
+{
+    private readonly IRoundRecordRepository _roundRecordRepository = roundRecordRepository;
+    private readonly IRoomRepository _roomRepository = roomRepository;
+
+    public const int MaxPageSize = 50;
+
+    public async Task<PagedResultDTO<RoundSummaryDTO>> GetRoundsAsync(
+        Guid roomId,
+        int page,
+        int pageSize
+    )
+    {
+        if (page < 1)
+            throw new BadRequestException("Page must be at least 1.");
+
+        if (pageSize is < 1 or > MaxPageSize)
+            throw new BadRequestException($"Page size must be between 1 and {MaxPageSize}.");
+
+        if (!await _roomRepository.ExistsAsync(roomId))
+            throw new NotFoundException($"Room with ID {roomId} not found.");
+
+        var rounds = await _roundRecordRepository.GetByRoomIdAsync(
+            roomId,
+            (page - 1) * pageSize,
+            pageSize
+        );
+
+        return new PagedResultDTO<RoundSummaryDTO>
+        {
+            Items = [.. rounds.Select(round => MapToDto(round, new RoundSummaryDTO()))],
+            Page = page,
+            PageSize = pageSize,
+            TotalCount = await _roundRecordRepository.CountByRoomIdAsync(roomId),
+        };
+    }
+
+    public async Task<RoundRecordDTO> GetRoundAsync(Guid roomId, Guid roundId)
+    {
+        RoundRecord? round = await _roundRecordRepository.GetByIdAsync(roundId);
+        if (round is null || round.RoomId != roomId)
+            throw new NotFoundException($"Round {roundId} not found in room {roomId}.");
+
+        RoundRecordDTO dto = MapToDto(round, new RoundRecordDTO());
+        dto.Events = JsonSerializer.Deserialize<List<RoundEventDTO>>(round.Events) ?? [];
+        return dto;
+    }
+
+    private static T MapToDto<T>(RoundRecord round, T dto)
+        where T : RoundSummaryDTO
+    {
+        dto.Id = round.Id;
+        dto.RoomId = round.RoomId;
+        dto.RoundNumber = round.RoundNumber;
+        dto.FinishedAt = round.FinishedAt;
+        dto.DealerHand = JsonSerializer.Deserialize<List<CardDTO>>(round.DealerHand) ?? [];
+        dto.DealerScore = round.DealerScore;
+        dto.Hands = JsonSerializer.Deserialize<List<RoundHandDTO>>(round.Hands) ?? [];
+        return dto;
+    }
+}
@@ -37,6 +37,11 @@ public class ValidationException(IReadOnlyDictionary<string, string[]> errors)
 /// </summary>
 public class BadRequestException(string message) : ApiException(message, HttpStatusCode.BadRequest);
 
+/// <summary>
+/// 403 Forbidden error
+/// </summary>
+public class ForbiddenException(string message) : ApiException(message, HttpStatusCode.Forbidden);
+
 /// <summary>
 /// 404 Not Found error
 /// </summary>
@@ -47,6 +52,15 @@ public class NotFoundException(string message) : ApiException(message, HttpStatu
 /// </summary>
 public class ConflictException(string message) : ApiException(message, HttpStatusCode.Conflict);
 
+/// <summary>
+/// 429 Too Many Requests error, the request can be sent again after <see cref="RetryAfter"/>
+/// </summary>
+public class TooManyRequestsException(string message, TimeSpan retryAfter)
+    : ApiException(message, HttpStatusCode.TooManyRequests)
+{
+    public TimeSpan RetryAfter { get; } = retryAfter;
+}
+
 /// <summary>
 /// 500 Internal Server Error
 /// </summary>
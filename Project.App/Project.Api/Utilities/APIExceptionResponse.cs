@@ -77,6 +77,17 @@ public record ApiExceptionResponse
             Detail = ex.Message,
         };
 
+    /// <summary>
+    /// Implicitly converts a TooManyRequestsException into a standardized ApiError response.
+    /// </summary>
+    public static implicit operator ApiExceptionResponse(TooManyRequestsException ex) =>
+        new()
+        {
+            Title = "Too Many Requests",
+            Status = (int)ex.StatusCode,
+            Detail = ex.Message,
+        };
+
     /// <summary>
     /// Provides a general fallback conversion for any other ApiException.
     /// </summary>
@@ -0,0 +1,189 @@
+using Project.Api.DTOs;
+using Project.Api.Models.Games;
+using Project.Api.Utilities.Enums;
+using Project.Api.Utilities.Extensions;
+
+namespace Project.Api.Utilities;
+
+/// <summary>
+/// The moves a bot may make on its hand right now, as far as the table's rules and its chips go.
+/// </summary>
+public record BotMoveOptions(bool CanDouble, bool CanSplit, bool CanSurrender);
+
+/// <summary>
+/// Picks the moves of bot players, see <see cref="BotPolicy"/>.
+/// </summary>
+public static class BlackjackBotStrategy
+{
+    /// <summary>
+    /// Picks the action for a bot's hand against the dealer's upcard.
+    /// </summary>
+    /// <returns>The name of the action, e.g. "hit"</returns>
+    public static string ChooseAction(
+        BotPolicy policy,
+        List<CardDTO> hand,
+        CardDTO dealerUpcard,
+        BlackjackConfig config,
+        BotMoveOptions options
+    )
+    {
+        // the dealer's rule, hit below 17 and on soft 17 if the table says so
+        int total = hand.CalculateHandValue(countFlipped: true);
+        bool dealerHits =
+            total < 17
+            || (total == 17 && config.DealerHitsSoft17 && hand.IsSoftHand(countFlipped: true));
+
+        return policy switch
+        {
+            BotPolicy.AlwaysStand => "stand",
+            BotPolicy.MimicDealer => dealerHits ? "hit" : "stand",
+            _ => ChooseBasicStrategyAction(hand, dealerUpcard, config, options),
+        };
+    }
+
+    /*
+    chart cells, one per dealer upcard from 2 to ace:
+      H hit, S stand, P split
+      D double or else hit, Ds double or else stand
+      Rh, Rs, Rp surrender or else hit, stand or split
+      - (pairs only) play the hand by its total
+    */
+
+    private static string[] Row(string cells) => cells.Split(' ');
+
+    private static string[] Repeat(string play) => [.. Enumerable.Repeat(play, 10)];
+
+    /// <summary>
+    /// Looks up the basic strategy chart for 4 to 8 decks where the dealer stands on soft 17,
+    /// changed to fit the table's rules. Same charts as the client's strategy advisor.
+    /// </summary>
+    private static string ChooseBasicStrategyAction(
+        List<CardDTO> hand,
+        CardDTO dealerUpcard,
+        BlackjackConfig config,
+        BotMoveOptions options
+    )
+    {
+        var (hard, soft, pairs) = BuildCharts(config);
+
+        int dealerValue = GetCardValue(dealerUpcard);
+        int column = dealerValue == 11 ? 9 : dealerValue - 2;
+
+        // only cards of the same rank are split, a king and a queen are no pair
+        if (options.CanSplit && hand.Count == 2 && hand[0].Value == hand[1].Value)
+        {
+            string pairPlay = pairs[GetCardValue(hand[0])][column];
+            if (pairPlay == "P")
+                return "split";
+            if (pairPlay == "Rp")
+                return options.CanSurrender ? "surrender" : "split";
+        }
+
+        // a single card, right after a split, is always hit
+        int total = hand.CalculateHandValue(countFlipped: true);
+        var chart = hand.IsSoftHand(countFlipped: true) ? soft : hard;
+        string play =
+            chart.TryGetValue(total, out string[]? row) ? row[column]
+            : total > 21 ? "S"
+            : "H";
+
+        return play switch
+        {
+            "D" => options.CanDouble ? "double" : "hit",
+            "Ds" => options.CanDouble ? "double" : "stand",
+            "Rh" => options.CanSurrender ? "surrender" : "hit",
+            "Rs" => options.CanSurrender ? "surrender" : "stand",
+            "S" => "stand",
+            _ => "hit",
+        };
+    }
+
+    private static (
+        Dictionary<int, string[]> Hard,
+        Dictionary<int, string[]> Soft,
+        Dictionary<int, string[]> Pairs
+    ) BuildCharts(BlackjackConfig config)
+    {
+        Dictionary<int, string[]> hard = new()
+        {
+            [9] = Row("H D D D D H H H H H"),
+            [10] = Row("D D D D D D D D H H"),
+            [11] = Row("D D D D D D D D D H"),
+            [12] = Row("H H S S S H H H H H"),
+            [13] = Row("S S S S S H H H H H"),
+            [14] = Row("S S S S S H H H H H"),
+            [15] = Row("S S S S S H H H Rh H"),
+            [16] = Row("S S S S S H H Rh Rh Rh"),
+        };
+        for (int total = 4; total <= 8; total++)
+            hard[total] = Repeat("H");
+        for (int total = 17; total <= 21; total++)
+            hard[total] = Repeat("S");
+
+        Dictionary<int, string[]> soft = new()
+        {
+            [12] = Repeat("H"), // two aces that can't be split
+            [13] = Row("H H H D D H H H H H"),
+            [14] = Row("H H H D D H H H H H"),
+            [15] = Row("H H D D D H H H H H"),
+            [16] = Row("H H D D D H H H H H"),
+            [17] = Row("H D D D D H H H H H"),
+            [18] = Row("S Ds Ds Ds Ds S S H H H"),
+            [19] = Repeat("S"),
+            [20] = Repeat("S"),
+            [21] = Repeat("S"),
+        };
+
+        // by the value of one card of the pair, aces are 11
+        Dictionary<int, string[]> pairs = new()
+        {
+            [2] = Row("P P P P P P - - - -"),
+            [3] = Row("P P P P P P - - - -"),
+            [4] = Row("- - - P P - - - - -"),
+            [5] = Repeat("-"),
+            [6] = Row("P P P P P - - - - -"),
+            [7] = Row("P P P P P P - - - -"),
+            [8] = Repeat("P"),
+            [9] = Row("P P P P P - P P - -"),
+            [10] = Repeat("-"),
+            [11] = Repeat("P"),
+        };
+
+        if (config.DealerHitsSoft17)
+        {
+            hard[11][9] = "D";
+            hard[15][9] = "Rh";
+            hard[17][9] = "Rs";
+            soft[18][0] = "Ds";
+            soft[19][4] = "Ds";
+            pairs[8][9] = "Rp";
+        }
+
+        // small pairs are split against weak upcards for the chance to double the new hands
+        if (!config.DoubleAfterSplit)
+        {
+            pairs[2] = Row("- - P P P P - - - -");
+            pairs[3] = Row("- - P P P P - - - -");
+            pairs[4] = Repeat("-");
+            pairs[6] = Row("- P P P P - - - - -");
+        }
+
+        // fewer decks leave more good cards for doubling
+        if (config.DeckCount <= 2)
+        {
+            hard[9][0] = "D";
+            hard[11][9] = "D";
+        }
+        if (config.DeckCount == 1)
+        {
+            hard[8][3] = "D";
+            hard[8][4] = "D";
+        }
+
+        return (hard, soft, pairs);
+    }
+
+    // aces are 11
+    private static int GetCardValue(CardDTO card) =>
+        new List<CardDTO> { card }.CalculateHandValue(countFlipped: true);
+}
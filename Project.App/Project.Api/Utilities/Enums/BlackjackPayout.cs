@@ -0,0 +1,11 @@
+using System.Text.Json.Serialization;
+
+namespace Project.Api.Utilities.Enums;
+
+// what a blackjack pays, stored by name so configs stay readable
+[JsonConverter(typeof(FlexibleEnumConverter<BlackjackPayout>))]
+public enum BlackjackPayout
+{
+    ThreeToTwo, // 3:2, the standard
+    SixToFive, // 6:5
+}
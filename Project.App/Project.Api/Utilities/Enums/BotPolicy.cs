@@ -0,0 +1,12 @@
+using System.Text.Json.Serialization;
+
+namespace Project.Api.Utilities.Enums;
+
+// how a bot player picks its moves, by name so hosts can pick one in requests
+[JsonConverter(typeof(FlexibleEnumConverter<BotPolicy>))]
+public enum BotPolicy
+{
+    BasicStrategy, // follows the basic strategy chart for the table's rules
+    AlwaysStand, // never takes another card
+    MimicDealer, // hits below 17, like the dealer
+}
@@ -0,0 +1,8 @@
+namespace Project.Api.Utilities.Enums;
+
+public enum LeaderboardWindow
+{
+    Daily,
+    Weekly,
+    AllTime,
+}
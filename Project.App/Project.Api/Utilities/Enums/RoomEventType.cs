@@ -10,4 +10,18 @@ public enum RoomEventType
     HostChange,
     DealerReveal,
     PlayerReveal,
+    Resync,
+    ViewerJoin,
+    ViewerLeave,
+    PlayerKicked,
+    GamePaused,
+    GameResumed,
+    ConfigChange,
+    ChatMessageDeleted,
+    ChatUserMuted,
+
+    // lobby events, see LobbyService
+    RoomCreated,
+    RoomUpdated,
+    RoomClosed,
 }
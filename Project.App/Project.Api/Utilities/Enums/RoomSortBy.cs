@@ -0,0 +1,9 @@
+namespace Project.Api.Utilities.Enums;
+
+public enum RoomSortBy
+{
+    CreatedAt,
+    MinBet,
+    Players,
+    FreeSeats,
+}
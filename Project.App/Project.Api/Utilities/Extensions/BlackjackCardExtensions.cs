@@ -54,6 +54,26 @@ public static class BlackjackCardExtensions
         return totalValue;
     }
 
+    /// <summary>
+    /// Whether the hand counts an ace as 11, e.g. a "soft 17" of an ace and a six.
+    /// </summary>
+    public static bool IsSoftHand(this List<CardDTO> hand, bool countFlipped = false)
+    {
+        List<CardDTO> counted = [.. hand.Where(card => countFlipped || !card.IsFaceDown)];
+        if (!counted.Any(card => card.Value.Equals("ACE", StringComparison.OrdinalIgnoreCase)))
+            return false;
+
+        // with a target of 0 every ace counts as 1, the hand is soft if one of them can count as 11
+        int hardValue = counted.CalculateHandValue(target: 0, countFlipped: true);
+        return hardValue + 10 <= 21;
+    }
+
+    /// <summary>
+    /// Whether the hand is a natural blackjack, 21 with its first two cards.
+    /// </summary>
+    public static bool IsBlackjack(this List<CardDTO> hand) =>
+        hand.Count == 2 && hand.CalculateHandValue(countFlipped: true) == 21;
+
     /// <summary>
     /// Compares dealer and player hands.
     /// </summary>
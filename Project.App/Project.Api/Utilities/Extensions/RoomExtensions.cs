@@ -6,30 +6,37 @@ namespace Project.Api.Utilities.Extensions;
 
 public static class RoomExtensions
 {
+    /// <summary>
+    /// Gets the room's deck, making a new one with the given number of decks if the room has none or
+    /// the deck service no longer has it, e.g. <see cref="Services.LocalDeckService"/> after a restart.
+    /// Cards dealt from a lost deck are gone with it.
+    /// </summary>
     public static async Task<string> GetOrCreateDeckId(
         this Room room,
         IDeckApiService deckApiService,
         IRoomRepository roomRepository,
+        int deckCount,
         ILogger? logger = null
     )
     {
-        if (room.DeckId == null)
-        {
-            logger?.LogError(
-                "Warning: Room {RoomId} has no deck ID. Attempting to create a new one...",
-                room.Id
-            );
+        if (!string.IsNullOrEmpty(room.DeckId) && await deckApiService.DeckExists(room.DeckId))
+            return room.DeckId;
 
-            // create new deck
-            room.DeckId = await deckApiService.CreateDeck();
-            await roomRepository.UpdateAsync(room);
+        logger?.LogWarning(
+            "Room {RoomId} has no deck, or lost deck {DeckId}. Attempting to create a new one...",
+            room.Id,
+            room.DeckId
+        );
 
-            logger?.LogInformation(
-                "Successfully created new deck {DeckId} for room {RoomId}!",
-                room.DeckId,
-                room.Id
-            );
-        }
+        // create new deck
+        room.DeckId = await deckApiService.CreateDeck(deckCount);
+        await roomRepository.UpdateAsync(room);
+
+        logger?.LogInformation(
+            "Successfully created new deck {DeckId} for room {RoomId}!",
+            room.DeckId,
+            room.Id
+        );
 
         return room.DeckId;
     }
@@ -43,7 +43,7 @@ public static class RoomSSEExtensions
                         ),
                     HandIndex = handIndex,
                     PlayerHand = handCopy,
-                    PlayerScore = hand.CalculateHandValue(),
+                    PlayerScore = handCopy.CalculateHandValue(),
                 }
             );
         }
@@ -56,7 +56,8 @@ public static class RoomSSEExtensions
                 new DealerRevealEventData
                 {
                     DealerHand = handCopy,
-                    DealerScore = hand.CalculateHandValue(),
+                    // only count what everyone can see, the score would give the hidden card away
+                    DealerScore = handCopy.CalculateHandValue(),
                 }
             );
         }
@@ -74,7 +75,8 @@ public static class RoomSSEExtensions
         long? amount = null,
         List<CardDTO>? cards = null,
         Guid? targetPlayerId = null,
-        bool? success = null
+        bool? success = null,
+        string? idempotencyKey = null
     )
     {
         await roomSSEService.BroadcastEventAsync(
@@ -89,6 +91,7 @@ public static class RoomSSEExtensions
                 Cards = cards,
                 TargetPlayerId = targetPlayerId,
                 Success = success,
+                IdempotencyKey = idempotencyKey,
             }
         );
     }
@@ -0,0 +1,111 @@
+using System.Text.Json;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Utilities.Enums;
+
+namespace Project.Api.Utilities.Extensions;
+
+/// <summary>
+/// An action a player took during a recorded round, e.g. "double" or "surrender".
+/// </summary>
+public record RoundAction(Guid PlayerId, int HandIndex, string Action, long Amount);
+
+/// <summary>
+/// How one of a player's hands ended.
+/// Surrendering refunds half the bet right away, and the hand is not paid out at the end of the round.
+/// </summary>
+public record HandResult(RoundHandDTO Hand, long Refund, bool Surrendered)
+{
+    /// <summary>
+    /// What the hand won, or lost if negative.
+    /// </summary>
+    public long Net => (Surrendered ? Refund : Hand.Payout) - Hand.Bet;
+    public bool IsWin => !Surrendered && Hand.Payout > Hand.Bet;
+    public bool IsPush => !Surrendered && Hand.Payout == Hand.Bet;
+    public bool IsLoss => !IsWin && !IsPush;
+}
+
+public static class RoundRecordExtensions
+{
+    private static readonly string PlayerActionEvent =
+        RoomEventType.PlayerAction.ToString().ToSnakeCase();
+
+    /// <summary>
+    /// Gets the results of every player's hands in a round, in the order they were recorded.
+    /// </summary>
+    public static List<HandResult> GetHandResults(this RoundRecord round)
+    {
+        List<RoundHandDTO> hands =
+            JsonSerializer.Deserialize<List<RoundHandDTO>>(round.Hands) ?? [];
+        Dictionary<(Guid, int), long> refunds = round
+            .GetPlayerActions()
+            .Where(a => a.Action == "surrender")
+            .GroupBy(a => (a.PlayerId, a.HandIndex))
+            .ToDictionary(g => g.Key, g => g.Sum(a => a.Amount));
+
+        return
+        [
+            .. hands.Select(hand =>
+            {
+                bool surrendered = refunds.TryGetValue(
+                    (hand.PlayerId, hand.HandIndex),
+                    out long refund
+                );
+                return new HandResult(hand, refund, surrendered);
+            }),
+        ];
+    }
+
+    /// <summary>
+    /// Reads the actions the players took during a round from its recorded events.
+    /// Actions the server turned down are left out.
+    /// </summary>
+    public static List<RoundAction> GetPlayerActions(this RoundRecord round)
+    {
+        List<RoundEventDTO> events =
+            JsonSerializer.Deserialize<List<RoundEventDTO>>(round.Events) ?? [];
+
+        List<RoundAction> actions = [];
+        foreach (RoundEventDTO roundEvent in events)
+        {
+            JsonElement data = roundEvent.Data;
+            if (roundEvent.Event != PlayerActionEvent || data.ValueKind != JsonValueKind.Object)
+                continue;
+
+            bool turnedDown =
+                data.TryGetProperty("success", out JsonElement success)
+                && success.ValueKind == JsonValueKind.False;
+            if (turnedDown || GetGuid(data, "playerId") is not Guid playerId)
+                continue;
+
+            actions.Add(
+                new RoundAction(
+                    playerId,
+                    (int)GetInt64(data, "handIndex"),
+                    GetString(data, "action"),
+                    GetInt64(data, "amount")
+                )
+            );
+        }
+        return actions;
+    }
+
+    private static Guid? GetGuid(JsonElement data, string name) =>
+        data.TryGetProperty(name, out JsonElement value)
+        && value.ValueKind == JsonValueKind.String
+        && value.TryGetGuid(out Guid guid)
+            ? guid
+            : null;
+
+    private static long GetInt64(JsonElement data, string name) =>
+        data.TryGetProperty(name, out JsonElement value)
+        && value.ValueKind == JsonValueKind.Number
+        && value.TryGetInt64(out long number)
+            ? number
+            : 0;
+
+    private static string GetString(JsonElement data, string name) =>
+        data.TryGetProperty(name, out JsonElement value) && value.ValueKind == JsonValueKind.String
+            ? value.GetString() ?? string.Empty
+            : string.Empty;
+}
@@ -44,5 +44,28 @@ public static class GameConfigValidator
             throw new BadRequestException(
                 $"Maximum players ({config.MaxPlayers}) cannot be less than minimum players ({config.MinPlayers})."
             );
+
+        if (config.MaxBet.HasValue && config.MaxBet.Value < Math.Max(config.MinBet, 1))
+            throw new BadRequestException(
+                $"Maximum bet ({config.MaxBet}) must be positive and at least the minimum bet ({config.MinBet})."
+            );
+
+        if (config.DeckCount is < 1 or > 8)
+            throw new BadRequestException(
+                $"Deck count must be between 1 and 8. Got: {config.DeckCount}"
+            );
+
+        if (config.ReshufflePenetration is < 0.5 or > 0.9)
+            throw new BadRequestException(
+                $"Reshuffle penetration must be between 0.5 and 0.9. Got: {config.ReshufflePenetration}"
+            );
+
+        if (!Enum.IsDefined(config.BlackjackPayout))
+            throw new BadRequestException($"Unknown blackjack payout: {config.BlackjackPayout}");
+
+        if (config.MaxSplits is < 0 or > 3)
+            throw new BadRequestException(
+                $"Maximum splits must be between 0 and 3. Got: {config.MaxSplits}"
+            );
     }
 }
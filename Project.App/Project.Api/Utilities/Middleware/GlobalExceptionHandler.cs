@@ -35,6 +35,7 @@ public class GlobalExceptionHandler(RequestDelegate next, ILogger<GlobalExceptio
             NotFoundException ex => ex,
             ConflictException ex => ex,
             BadRequestException ex => ex,
+            TooManyRequestsException ex => ex,
 
             ApiException ex => ex,
             _ => new ApiExceptionResponse
@@ -47,6 +48,12 @@ public class GlobalExceptionHandler(RequestDelegate next, ILogger<GlobalExceptio
 
         context.Response.ContentType = "application/json";
         context.Response.StatusCode = errorResponse.Status;
+        if (exception is TooManyRequestsException tooMany)
+        {
+            // whole seconds, rounded up so retrying right on time is not rejected again
+            context.Response.Headers.RetryAfter = Math.Ceiling(tooMany.RetryAfter.TotalSeconds)
+                .ToString(System.Globalization.CultureInfo.InvariantCulture);
+        }
         await context.Response.WriteAsync(JsonSerializer.Serialize(errorResponse));
     }
 }
@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BlackjackActionRequest, createActionRequest } from '@/lib/game/BlackjackActions';
+import { TurnAction, TurnInfo } from '@/lib/game/PlayerTurn';
+
+export const HURRY_UP_COOLDOWN_MS = 10000;
+
+interface ActionBarProps {
+  turn: TurnInfo;
+  onAction: (request: BlackjackActionRequest) => void;
+  /** The action waiting for the server, if any. Everything is disabled until it is answered. */
+  pendingAction?: BlackjackActionRequest['action'] | null;
+  /** The strategy advisor's pick, highlighted if set. */
+  recommended?: TurnAction | null;
+}
+
+const ACTION_BUTTONS: { action: TurnAction; label: string; className: string }[] = [
+  { action: 'hit', label: 'Hit', className: 'from-blue-400 via-blue-500 to-blue-600 border-blue-700' },
+  { action: 'stand', label: 'Stand', className: 'from-red-400 via-red-500 to-red-600 border-red-700' },
+  { action: 'double', label: 'Double', className: 'from-yellow-400 via-yellow-500 to-yellow-600 border-yellow-700' },
+  { action: 'split', label: 'Split', className: 'from-purple-400 via-purple-500 to-purple-600 border-purple-700' },
+  { action: 'surrender', label: 'Surrender', className: 'from-gray-400 via-gray-500 to-gray-600 border-gray-700' },
+];
+
+export default function ActionBar({ turn, onAction, pendingAction = null, recommended = null }: ActionBarProps) {
+  const [hurryUpCooldownUntil, setHurryUpCooldownUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  // tick every second while cooling down, to update the label and enable the button again
+  useEffect(() => {
+    if (hurryUpCooldownUntil <= now) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(1000, hurryUpCooldownUntil - now));
+    return () => clearTimeout(timer);
+  }, [hurryUpCooldownUntil, now]);
+
+  const handleAction = (action: TurnAction) => {
+    switch (action) {
+      case 'split':
+        // the new hand gets the same bet as the original one
+        onAction(createActionRequest('split', { amount: turn.bet ?? 0 }));
+        break;
+      default:
+        onAction(createActionRequest(action, {}));
+        break;
+    }
+  };
+
+  const handleHurryUp = () => {
+    const sentAt = Date.now();
+    setNow(sentAt);
+    setHurryUpCooldownUntil(sentAt + HURRY_UP_COOLDOWN_MS);
+    onAction(createActionRequest('hurry_up', {}));
+  };
+
+  const hurryUpCoolingDown = hurryUpCooldownUntil > now;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-yellow-100/80 text-center text-sm">
+        {turn.isMyTurn
+          ? 'Your turn!'
+          : turn.activePlayer
+            ? `Waiting for ${turn.activePlayer.userName ?? 'another player'}...`
+            : 'Waiting for the current player...'}
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        {ACTION_BUTTONS.map(({ action, label, className }) => (
+          <button
+            key={action}
+            onClick={() => handleAction(action)}
+            disabled={!turn.legal[action] || !!pendingAction}
+            aria-busy={pendingAction === action}
+            title={recommended === action ? 'Basic strategy' : undefined}
+            className={`py-3 bg-gradient-to-r ${className} ${
+              recommended === action ? 'ring-4 ring-green-400 ring-offset-2 ring-offset-black' : ''
+            } text-white font-bold rounded-lg border-2 shadow-md transition-all duration-200 hover:brightness-110 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:brightness-100`}
+          >
+            {pendingAction === action ? `${label}...` : label}
+          </button>
+        ))}
+      </div>
+
+      {turn.canHurryUp && (
+        <button
+          onClick={handleHurryUp}
+          disabled={hurryUpCoolingDown || !!pendingAction}
+          className="w-full py-2 bg-orange-900/40 hover:bg-orange-900/60 border border-orange-700 text-orange-300 rounded font-semibold transition disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {hurryUpCoolingDown
+            ? `Hurry Up (${Math.ceil((hurryUpCooldownUntil - now) / 1000)}s)`
+            : `Hurry Up ${turn.activePlayer?.userName ?? ''}`.trim()}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { Card } from '@/lib/sse/GameEvents.types';
+import { getCardImage } from '@/lib/game/CardImages';
+import { getPlayerHands, HandView, TableHands } from '@/lib/game/TableState';
+
+interface CardTableProps {
+  dealerHand: HandView | null;
+  hands: TableHands;
+  players: any[]; // room players, one seat each
+  currentUserId?: string;
+}
+
+export default function CardTable({ dealerHand, hands, players, currentUserId }: CardTableProps) {
+  return (
+    <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-6">
+      <h2 className="text-xl font-bold text-yellow-400 mb-4">Table</h2>
+
+      {/* Dealer */}
+      <div className="bg-green-900/40 border border-green-700 rounded-lg p-4 mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-yellow-300 font-bold">Dealer</span>
+          {dealerHand && <HandScore hand={dealerHand} />}
+        </div>
+        {dealerHand?.cards.length ? (
+          <CardRow cards={dealerHand.cards} />
+        ) : (
+          <p className="text-yellow-100/40 text-sm">No cards dealt</p>
+        )}
+      </div>
+
+      {/* Seats */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {players.map((player) => {
+          const playerHands = getPlayerHands(hands, player.userId);
+          const isYou = player.userId === currentUserId;
+
+          return (
+            <div
+              key={player.id}
+              data-testid={`seat-${player.userId}`}
+              className={`bg-black/60 rounded-lg p-3 border ${isYou ? 'border-yellow-500' : 'border-yellow-700/50'}`}
+            >
+              <p className="text-yellow-200 font-bold text-sm mb-2">
+                {player.userName}
+                {isYou && <span className="ml-2 text-xs text-yellow-400">(You)</span>}
+                {player.botPolicy && <span className="ml-2 text-xs text-cyan-300">(Bot)</span>}
+              </p>
+              {playerHands.length === 0 ? (
+                <p className="text-yellow-100/40 text-xs">No cards</p>
+              ) : (
+                <div className="space-y-2">
+                  {playerHands.map(([handIndex, hand]) => (
+                    <div key={handIndex}>
+                      <div className="flex items-center justify-between mb-1">
+                        {playerHands.length > 1 && (
+                          <span className="text-yellow-100/60 text-xs">Hand {handIndex + 1}</span>
+                        )}
+                        <HandScore hand={hand} />
+                      </div>
+                      <CardRow cards={hand.cards} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function HandScore({ hand }: { hand: HandView }) {
+  const hasHiddenCards = hand.cards.some((card) => card.isFaceDown);
+  const busted = hand.score > 21;
+
+  return (
+    <span className={`text-sm font-bold ml-auto ${busted ? 'text-red-400' : 'text-yellow-200'}`}>
+      {hand.score}
+      {hasHiddenCards && '+?'}
+      {busted && ' (Bust)'}
+    </span>
+  );
+}
+
+function CardRow({ cards }: { cards: Card[] }) {
+  return (
+    <div className="flex gap-2 flex-wrap">
+      {cards.map((card, index) => (
+        <PlayingCard key={`${card.code || 'hidden'}-${index}`} card={card} />
+      ))}
+    </div>
+  );
+}
+
+function PlayingCard({ card }: { card: Card }) {
+  if (card.isFaceDown) {
+    return (
+      <div
+        aria-label="Face-down card"
+        className="w-14 h-20 rounded-md border-2 border-yellow-700 bg-gradient-to-br from-red-800 to-red-950 shadow-md"
+      />
+    );
+  }
+
+  const image = getCardImage(card);
+  if (!image) {
+    return (
+      <div className="w-14 h-20 rounded-md shadow-md bg-white text-black text-xs font-bold flex items-center justify-center text-center">
+        {card.value} of {card.suit}
+      </div>
+    );
+  }
+
+  // the bundled svgs are already as small as they get, next/image has nothing to optimise
+  return <img src={image} alt={`${card.value} of ${card.suit}`} className="w-14 h-20 rounded-md shadow-md" />;
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { ApiClient } from '@/lib/api/ApiClient';
+import { RateLimitedError } from '@/lib/api/ApiErrors';
+import { describeRateLimit, isMentioned, MAX_CHAT_MESSAGE_LENGTH, splitMentions } from '@/lib/chat/ChatMessages';
+import { Notify } from '@/lib/notifications/Notifications';
+import { ChatEventData } from '@/lib/sse/GameEvents.types';
+
+interface ChatPanelProps {
+  roomId: string;
+  rooms: ApiClient['rooms'];
+  notify: Notify;
+  messages: ChatEventData[];
+  mutedUserIds: string[];
+  currentUserId?: string;
+  currentUserName?: string;
+  /** Everyone in the room, whose `@name` is highlighted in messages. */
+  names: string[];
+  /** Hosts can delete messages and mute the people who sent them. */
+  isHost: boolean;
+}
+
+/** Shows how many characters are left once a message gets close to the limit. */
+const LENGTH_WARNING = 50;
+
+/**
+ * The room's chat. Messages mentioning the player stand out, and the host can delete messages and mute people.
+ */
+export default function ChatPanel({
+  roomId,
+  rooms,
+  notify,
+  messages,
+  mutedUserIds,
+  currentUserId,
+  currentUserName,
+  names,
+  isHost,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const muted = !!currentUserId && mutedUserIds.includes(currentUserId);
+
+  const handleSend = async (e) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setSending(true);
+    try {
+      await rooms.sendChat(roomId, draft);
+      setDraft('');
+    } catch (error) {
+      // the draft is kept, so it can be sent again in a moment
+      if (error instanceof RateLimitedError) {
+        notify({ severity: 'warning', message: describeRateLimit(error) });
+      } else {
+        notify({ severity: 'error', title: "Couldn't send the message", message: error.message });
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const moderate = async (task: () => Promise<void>) => {
+    try {
+      await task();
+    } catch (error) {
+      notify({ severity: 'error', message: error.message });
+    }
+  };
+
+  return (
+    <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4">
+      <h2 className="text-xl font-bold text-yellow-400 mb-4">Chat</h2>
+      <div className="bg-black/60 rounded-lg p-3 h-64 overflow-y-auto mb-4">
+        {messages.length === 0 ? (
+          <p className="text-yellow-100/40 text-sm text-center">No messages yet</p>
+        ) : (
+          messages.map((msg) => {
+            const mentionsMe = msg.senderId !== currentUserId && isMentioned(msg.content, currentUserName);
+            const senderMuted = mutedUserIds.includes(msg.senderId);
+            return (
+              <div
+                key={msg.id}
+                data-testid="chat-message"
+                className={`text-yellow-100 text-sm mb-2 ${
+                  mentionsMe ? 'bg-yellow-600/20 border-l-2 border-yellow-400 pl-2 rounded' : ''
+                }`}
+              >
+                <span className="font-bold text-yellow-300">{msg.sender}</span>
+                {senderMuted && <span className="ml-1 text-xs text-red-400">(muted)</span>}
+                <span className="font-bold text-yellow-300">: </span>
+                <span>
+                  {splitMentions(msg.content, names).map((segment, idx) =>
+                    segment.mention ? (
+                      <span
+                        key={idx}
+                        className={
+                          segment.mention.toLowerCase() === currentUserName?.toLowerCase()
+                            ? 'font-bold text-yellow-300'
+                            : 'font-semibold text-cyan-300'
+                        }
+                      >
+                        {segment.text}
+                      </span>
+                    ) : (
+                      segment.text
+                    ),
+                  )}
+                </span>
+                {isHost && (
+                  <span className="ml-2 space-x-2 text-xs">
+                    <button
+                      onClick={() => moderate(() => rooms.deleteChatMessage(roomId, msg.id))}
+                      aria-label={`Delete message from ${msg.sender}`}
+                      className="text-red-400 underline hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                    {msg.senderId !== currentUserId && (
+                      <button
+                        onClick={() => moderate(() => rooms.muteUser(roomId, msg.senderId, !senderMuted))}
+                        aria-label={`${senderMuted ? 'Unmute' : 'Mute'} ${msg.sender}`}
+                        className="text-orange-300 underline hover:text-orange-200"
+                      >
+                        {senderMuted ? 'Unmute' : 'Mute'}
+                      </button>
+                    )}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+      <form onSubmit={handleSend} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          disabled={muted}
+          placeholder={muted ? 'The host muted you' : 'Type a message, @name to mention someone...'}
+          aria-label="Chat message"
+          className="flex-1 px-3 py-2 rounded bg-black/60 border border-yellow-700 text-yellow-100 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={muted || sending}
+          className="px-4 py-2 bg-yellow-600 text-black font-bold rounded-lg hover:bg-yellow-700 disabled:opacity-50"
+        >
+          Send
+        </button>
+      </form>
+      {draft.length > MAX_CHAT_MESSAGE_LENGTH - LENGTH_WARNING && (
+        <p className="mt-1 text-right text-xs text-yellow-100/60">
+          {draft.length}/{MAX_CHAT_MESSAGE_LENGTH}
+        </p>
+      )}
+    </div>
+  );
+}
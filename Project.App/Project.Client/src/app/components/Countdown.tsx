@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface CountdownProps {
+  label: string;
+  deadline: string; // ISO 8601 timestamp from the server
+  /** Current server time in ms, see `ServerClock.now`. */
+  now: () => number;
+  /** Shown instead of the remaining time once the deadline has passed. */
+  expiredLabel: string;
+  /** Remaining time (ms) below which the countdown is highlighted. */
+  warningMs?: number;
+}
+
+export function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export default function Countdown({ label, deadline, now, expiredLabel, warningMs = 10000 }: CountdownProps) {
+  const deadlineMs = Date.parse(deadline);
+  const [remaining, setRemaining] = useState(() => deadlineMs - now());
+
+  useEffect(() => {
+    const update = () => setRemaining(deadlineMs - now());
+    update();
+
+    // tick more often than once a second, so the display does not skip seconds
+    const timer = setInterval(update, 250);
+    return () => clearInterval(timer);
+  }, [deadlineMs, now]);
+
+  if (Number.isNaN(deadlineMs)) return null;
+
+  const expired = remaining <= 0;
+  const warning = !expired && remaining <= warningMs;
+
+  return (
+    <div
+      role="timer"
+      className={`rounded-lg p-2 text-center border ${
+        expired
+          ? 'bg-gray-900/40 border-gray-600 text-gray-300'
+          : warning
+            ? 'bg-red-900/40 border-red-500 text-red-300 animate-pulse'
+            : 'bg-red-900/20 border-red-700 text-red-300'
+      }`}
+    >
+      <span className="text-sm">
+        {expired ? (
+          expiredLabel
+        ) : (
+          <>
+            {label}: <span className="font-bold font-mono">{formatRemaining(remaining)}</span>
+          </>
+        )}
+      </span>
+    </div>
+  );
+}
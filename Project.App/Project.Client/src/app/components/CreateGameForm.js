@@ -1,6 +1,11 @@
 'use client';
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { api } from '@/lib/api/ApiClient';
+import { BLACKJACK_PAYOUT_LABELS, DEFAULT_BLACKJACK_CONFIG } from '@/lib/game/BlackjackConfig';
+
+const selectClassName =
+  'w-full px-3 py-2 rounded bg-black/60 border border-yellow-700 text-yellow-100 focus:outline-none focus:ring-2 focus:ring-yellow-500';
 
 export default function CreateGameForm({ userId, onRoomCreated }) {
   const router = useRouter();
@@ -8,6 +13,17 @@ export default function CreateGameForm({ userId, onRoomCreated }) {
   const [minBet, setMinBet] = useState('10');
   const [startingBalance, setStartingBalance] = useState('1000');
   const [maxPlayers, setMaxPlayers] = useState(5);
+  const [maxBet, setMaxBet] = useState('');
+  const [rules, setRules] = useState({
+    deckCount: DEFAULT_BLACKJACK_CONFIG.deckCount,
+    reshufflePenetration: DEFAULT_BLACKJACK_CONFIG.reshufflePenetration,
+    dealerHitsSoft17: DEFAULT_BLACKJACK_CONFIG.dealerHitsSoft17,
+    blackjackPayout: DEFAULT_BLACKJACK_CONFIG.blackjackPayout,
+    lateSurrender: DEFAULT_BLACKJACK_CONFIG.lateSurrender,
+    maxSplits: DEFAULT_BLACKJACK_CONFIG.maxSplits,
+    resplitAces: DEFAULT_BLACKJACK_CONFIG.resplitAces,
+    doubleAfterSplit: DEFAULT_BLACKJACK_CONFIG.doubleAfterSplit,
+  });
   const [formError, setFormError] = useState('');
   const [isCreating, setIsCreating] = useState(false);
 
@@ -38,55 +54,38 @@ export default function CreateGameForm({ userId, onRoomCreated }) {
       return;
     }
 
+    // an empty max bet means no limit
+    const maxBetValue = maxBet.trim() ? parseInt(maxBet) : null;
+    if (maxBetValue !== null && !(maxBetValue >= Math.max(minBetValue, 1))) {
+      setFormError('Maximum bet has to be at least the minimum bet.');
+      return;
+    }
+
     setFormError('');
     setIsCreating(true);
 
     try {
-      const API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
-
-      // Create initial game state for Blackjack
-      const initialGameState = JSON.stringify({
-        currentStage: {
-          $type: 'init',
-        },
-        dealerHand: [],
-      });
-
       // Create game config with BlackjackConfig structure
       const gameConfig = JSON.stringify({
         startingBalance: startingBalanceValue,
         minBet: minBetValue,
         bettingTimeLimit: '00:01:00', // 1 minute
         turnTimeLimit: '00:00:30', // 30 seconds
+        maxBet: maxBetValue,
+        ...rules,
       });
 
-      const response = await fetch(`${API_URL}/api/room`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({
-          hostId: userId,
-          description: description,
-          isPublic: true,
-          gameMode: 'Blackjack',
-          gameState: initialGameState,
-          gameConfig: gameConfig,
-          maxPlayers: maxPlayers,
-          minPlayers: 1,
-          deckId: '',
-        }),
+      // the server sets up the initial game state
+      const room = await api.rooms.create({
+        hostId: userId,
+        description: description,
+        isPublic: true,
+        gameMode: 'Blackjack',
+        gameConfig: gameConfig,
+        maxPlayers: maxPlayers,
+        minPlayers: 1,
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        console.error('Server error response:', error);
-        throw new Error(error.message || error.title || 'Failed to create room');
-      }
-
-      const room = await response.json();
-
       // Refresh the rooms list
       if (onRoomCreated) {
         onRoomCreated();
@@ -157,7 +156,22 @@ export default function CreateGameForm({ userId, onRoomCreated }) {
           required
         />
       </div>
-      <div className="mb-6">
+      <div className="mb-4">
+        <label className="block text-yellow-100 mb-1 font-semibold">Maximum Bet (optional)</label>
+        <input
+          type="number"
+          min="1"
+          step="1"
+          value={maxBet}
+          onChange={(e) => {
+            setFormError('');
+            setMaxBet(e.target.value);
+          }}
+          placeholder="No limit"
+          className="w-full px-4 py-2 rounded bg-black/60 border border-yellow-700 text-yellow-100 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+      </div>
+      <div className="mb-4">
         <label className="block text-yellow-100 mb-1 font-semibold">Max Players</label>
         <select
           value={maxPlayers}
@@ -171,6 +185,82 @@ export default function CreateGameForm({ userId, onRoomCreated }) {
           ))}
         </select>
       </div>
+      <details className="mb-6 text-yellow-100">
+        <summary className="cursor-pointer font-semibold mb-2">House Rules</summary>
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <label>
+            Decks
+            <select
+              value={rules.deckCount}
+              onChange={(e) => setRules({ ...rules, deckCount: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {[1, 2, 4, 6, 8].map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Reshuffle at
+            <select
+              value={rules.reshufflePenetration}
+              onChange={(e) => setRules({ ...rules, reshufflePenetration: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {[0.5, 0.6, 0.7, 0.75, 0.8, 0.9].map((n) => (
+                <option key={n} value={n}>
+                  {Math.round(n * 100)}% of the shoe
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Blackjack pays
+            <select
+              value={rules.blackjackPayout}
+              onChange={(e) => setRules({ ...rules, blackjackPayout: e.target.value })}
+              className={selectClassName}
+            >
+              {Object.entries(BLACKJACK_PAYOUT_LABELS).map(([payout, label]) => (
+                <option key={payout} value={payout}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Max splits
+            <select
+              value={rules.maxSplits}
+              onChange={(e) => setRules({ ...rules, maxSplits: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {[0, 1, 2, 3].map((n) => (
+                <option key={n} value={n}>
+                  {n === 0 ? 'No splitting' : n}
+                </option>
+              ))}
+            </select>
+          </label>
+          {[
+            ['dealerHitsSoft17', 'Dealer hits soft 17'],
+            ['lateSurrender', 'Late surrender'],
+            ['resplitAces', 'Re-split aces'],
+            ['doubleAfterSplit', 'Double after split'],
+          ].map(([rule, label]) => (
+            <label key={rule} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rules[rule]}
+                onChange={(e) => setRules({ ...rules, [rule]: e.target.checked })}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </details>
       <button
         type="submit"
         disabled={isCreating}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  exportLogAsJson,
+  exportLogAsText,
+  formatLogEntry,
+  GAME_LOG_CATEGORIES,
+  GameLogCategory,
+  GameLogEntry,
+} from '@/lib/game/GameLog';
+
+interface GameLogPanelProps {
+  roomId: string;
+  log: GameLogEntry[];
+  resolveName: (playerId: string) => string | undefined;
+}
+
+const CATEGORY_LABELS: Record<GameLogCategory, string> = {
+  round: 'Round',
+  bet: 'Bets',
+  play: 'Plays',
+  reveal: 'Cards',
+  payout: 'Payouts',
+  room: 'Room',
+};
+
+const CATEGORY_COLORS: Record<GameLogCategory, string> = {
+  round: 'text-blue-300',
+  bet: 'text-yellow-300',
+  play: 'text-yellow-100',
+  reveal: 'text-green-300',
+  payout: 'text-emerald-300',
+  room: 'text-purple-300',
+};
+
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function GameLogPanel({ roomId, log, resolveName }: GameLogPanelProps) {
+  const [hidden, setHidden] = useState<Set<GameLogCategory>>(new Set());
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visible = log.filter((entry) => !hidden.has(entry.category));
+
+  // keep the newest entry in view
+  useEffect(() => {
+    listRef.current?.scrollTo?.({ top: listRef.current.scrollHeight });
+  }, [visible.length]);
+
+  const toggleCategory = (category: GameLogCategory) => {
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(category)) {
+        next.delete(category);
+      } else {
+        next.add(category);
+      }
+      return next;
+    });
+  };
+
+  const filename = `game-log-${roomId.substring(0, 8)}`;
+
+  return (
+    <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-bold text-yellow-400">Game Log</h2>
+        <div className="flex gap-2 text-xs">
+          <button
+            onClick={() => download(`${filename}.json`, exportLogAsJson(log, resolveName), 'application/json')}
+            disabled={log.length === 0}
+            className="px-2 py-1 bg-yellow-900/40 hover:bg-yellow-900/60 border border-yellow-700 text-yellow-300 rounded disabled:opacity-40"
+          >
+            JSON
+          </button>
+          <button
+            onClick={() => download(`${filename}.txt`, exportLogAsText(log, resolveName), 'text/plain')}
+            disabled={log.length === 0}
+            className="px-2 py-1 bg-yellow-900/40 hover:bg-yellow-900/60 border border-yellow-700 text-yellow-300 rounded disabled:opacity-40"
+          >
+            Text
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-1 mb-3">
+        {GAME_LOG_CATEGORIES.map((category) => (
+          <button
+            key={category}
+            onClick={() => toggleCategory(category)}
+            aria-pressed={!hidden.has(category)}
+            className={`px-2 py-0.5 rounded-full text-xs border transition ${
+              hidden.has(category)
+                ? 'border-gray-700 text-gray-500'
+                : 'border-yellow-700 bg-yellow-900/30 text-yellow-200'
+            }`}
+          >
+            {CATEGORY_LABELS[category]}
+          </button>
+        ))}
+      </div>
+
+      <div ref={listRef} className="bg-black/60 rounded-lg p-3 h-64 overflow-y-auto">
+        {visible.length === 0 ? (
+          <p className="text-yellow-100/40 text-sm text-center">Nothing has happened yet</p>
+        ) : (
+          visible.map((entry) => (
+            <div key={entry.id} className="text-sm mb-1 flex gap-2">
+              <span className="text-yellow-100/40 font-mono text-xs pt-0.5">
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </span>
+              <span className={CATEGORY_COLORS[entry.category]}>{formatLogEntry(entry, resolveName)}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import { useState } from 'react';
+import { BotPolicy, RoomPlayerDTO } from '@/lib/api/Api.types';
+import { ApiClient } from '@/lib/api/ApiClient';
+import { DEFAULT_BLACKJACK_CONFIG, formatTimeSpan, parseTimeSpan } from '@/lib/game/BlackjackConfig';
+import { BlackjackConfig } from '@/lib/game/BlackjackState.types';
+import { BOT_POLICIES, getBotPolicyLabel, isBot } from '@/lib/game/BotPlayers';
+import { isSeated } from '@/lib/game/GameStore';
+import { Notify } from '@/lib/notifications/Notifications';
+
+interface HostPanelProps {
+  roomId: string;
+  rooms: ApiClient['rooms'];
+  notify: Notify;
+  /** The host's own user id, they cannot kick themselves or hand the room to themselves. */
+  hostId: string;
+  players: RoomPlayerDTO[];
+  config: Partial<BlackjackConfig> | null;
+  /** Settings changed during the game that apply from the next round. */
+  pendingConfig?: BlackjackConfig | null;
+  gameStarted: boolean;
+  paused: boolean;
+  /** Only the betting and turn timers can be paused. */
+  canPause: boolean;
+}
+
+interface ConfigForm {
+  minBet: string;
+  bettingSeconds: string;
+  turnSeconds: string;
+  allowBalanceReset: boolean;
+}
+
+function toForm(config: Partial<BlackjackConfig>): ConfigForm {
+  const settings = { ...DEFAULT_BLACKJACK_CONFIG, ...config };
+  return {
+    minBet: String(settings.minBet),
+    bettingSeconds: String(parseTimeSpan(settings.bettingTimeLimit) ?? ''),
+    turnSeconds: String(parseTimeSpan(settings.turnTimeLimit) ?? ''),
+    allowBalanceReset: settings.allowBalanceReset,
+  };
+}
+
+/**
+ * The host's controls: removing or banning players, seating bots, handing the room over, pausing the timers and
+ * changing the table settings. Settings changed during a game apply from the next round.
+ */
+export default function HostPanel({
+  roomId,
+  rooms,
+  notify,
+  hostId,
+  players,
+  config,
+  pendingConfig,
+  gameStarted,
+  paused,
+  canPause,
+}: HostPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [confirmBan, setConfirmBan] = useState<string | null>(null);
+  const [form, setForm] = useState<ConfigForm | null>(null);
+  const [botPolicy, setBotPolicy] = useState<BotPolicy>('BasicStrategy');
+
+  const others = players.filter((player) => isSeated(player) && player.userId !== hostId);
+  const maxPlayers = config?.maxPlayers;
+  const tableFull = !!maxPlayers && players.filter(isSeated).length >= maxPlayers;
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (error) {
+      notify({ severity: 'error', message: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleKick = (player: RoomPlayerDTO, ban: boolean) =>
+    run(async () => {
+      await rooms.kickPlayer(roomId, { userId: player.userId, ban });
+      setConfirmBan(null);
+    });
+
+  const handleTransfer = (player: RoomPlayerDTO) => run(() => rooms.transferHost(roomId, player.userId));
+
+  const handleAddBot = () => run(() => rooms.addBot(roomId, botPolicy));
+
+  const handlePause = () => run(() => (paused ? rooms.resume(roomId) : rooms.pause(roomId)));
+
+  const handleSave = () =>
+    run(async () => {
+      const minBet = Number(form.minBet);
+      const bettingSeconds = Number(form.bettingSeconds);
+      const turnSeconds = Number(form.turnSeconds);
+      if (!Number.isInteger(minBet) || minBet < 0) throw new Error('The minimum bet has to be a whole amount.');
+      if (!(bettingSeconds > 0) || !(turnSeconds > 0)) throw new Error('Time limits have to be at least a second.');
+
+      await rooms.updateConfig(roomId, {
+        minBet,
+        bettingTimeLimit: formatTimeSpan(bettingSeconds),
+        turnTimeLimit: formatTimeSpan(turnSeconds),
+        allowBalanceReset: form.allowBalanceReset,
+      });
+      setForm(null);
+      notify({
+        severity: 'success',
+        message: gameStarted ? 'Saved, the new settings apply from the next round.' : 'Settings saved.',
+      });
+    });
+
+  return (
+    <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-yellow-400">Host Controls</h2>
+        {gameStarted && (
+          <button
+            onClick={handlePause}
+            disabled={busy || (!paused && !canPause)}
+            title={!paused && !canPause ? 'Timers can only be paused while betting or during a turn' : undefined}
+            className="px-3 py-1 rounded bg-yellow-600 text-black font-bold hover:bg-yellow-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-yellow-300 font-bold text-sm mb-2">Players</h3>
+        {others.length === 0 ? (
+          <p className="text-yellow-100/40 text-sm">Nobody else is seated.</p>
+        ) : (
+          <ul className="space-y-2">
+            {others.map((player) => (
+              <li key={player.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-yellow-200 truncate">
+                  {player.userName}
+                  {player.botPolicy && (
+                    <span className="ml-1 text-xs text-cyan-300">(Bot, {getBotPolicyLabel(player.botPolicy)})</span>
+                  )}
+                </span>
+                {isBot(player) ? (
+                  // bots can't host and have no reason to come back, so they are only removed
+                  <button
+                    onClick={() => handleKick(player, false)}
+                    disabled={busy}
+                    className="px-2 py-1 rounded bg-orange-700 text-white text-xs font-semibold disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                ) : confirmBan === player.userId ? (
+                  <div className="flex gap-1 text-xs">
+                    <button
+                      onClick={() => handleKick(player, true)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-red-700 text-white font-semibold disabled:opacity-50"
+                    >
+                      Confirm Ban
+                    </button>
+                    <button
+                      onClick={() => setConfirmBan(null)}
+                      className="px-2 py-1 rounded bg-gray-700 text-white font-semibold"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-1 text-xs">
+                    <button
+                      onClick={() => handleTransfer(player)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-green-700 text-white font-semibold disabled:opacity-50"
+                    >
+                      Make Host
+                    </button>
+                    <button
+                      onClick={() => handleKick(player, false)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-orange-700 text-white font-semibold disabled:opacity-50"
+                    >
+                      Kick
+                    </button>
+                    <button
+                      onClick={() => setConfirmBan(player.userId)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-red-700 text-white font-semibold disabled:opacity-50"
+                    >
+                      Ban
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2 mt-3 text-sm">
+          <select
+            aria-label="Bot policy"
+            value={botPolicy}
+            onChange={(e) => setBotPolicy(e.target.value as BotPolicy)}
+            title={BOT_POLICIES.find((option) => option.value === botPolicy)?.description}
+            className="flex-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+          >
+            {BOT_POLICIES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAddBot}
+            disabled={busy || tableFull}
+            title={tableFull ? 'Every seat is taken' : undefined}
+            className="px-3 py-1 rounded bg-cyan-700 text-white font-semibold hover:bg-cyan-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Add Bot
+          </button>
+        </div>
+      </div>
+
+      <div className="border-t border-yellow-700/50 pt-3">
+        {pendingConfig && (
+          <p className="text-blue-300 text-xs mb-2">
+            New settings apply from the next round (min bet ${pendingConfig.minBet}).
+          </p>
+        )}
+        {form ? (
+          <div className="space-y-2 text-sm">
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-yellow-100/80">
+                Min bet
+                <input
+                  type="number"
+                  min={0}
+                  value={form.minBet}
+                  onChange={(e) => setForm({ ...form, minBet: e.target.value })}
+                  className="w-full mt-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+                />
+              </label>
+              <label className="text-yellow-100/80">
+                Betting (s)
+                <input
+                  type="number"
+                  min={1}
+                  value={form.bettingSeconds}
+                  onChange={(e) => setForm({ ...form, bettingSeconds: e.target.value })}
+                  className="w-full mt-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+                />
+              </label>
+              <label className="text-yellow-100/80">
+                Turn (s)
+                <input
+                  type="number"
+                  min={1}
+                  value={form.turnSeconds}
+                  onChange={(e) => setForm({ ...form, turnSeconds: e.target.value })}
+                  className="w-full mt-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-yellow-100/80">
+              <input
+                type="checkbox"
+                checked={form.allowBalanceReset}
+                onChange={(e) => setForm({ ...form, allowBalanceReset: e.target.checked })}
+              />
+              Allow balance reset
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={busy}
+                className="flex-1 py-1 bg-yellow-600 text-black font-bold rounded-lg hover:bg-yellow-700 disabled:opacity-50"
+              >
+                Save Settings
+              </button>
+              <button
+                onClick={() => setForm(null)}
+                className="px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-800"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setForm(toForm(pendingConfig ?? config ?? {}))}
+            className="w-full py-1 bg-yellow-900/40 hover:bg-yellow-900/60 border border-yellow-700 text-yellow-300 rounded-lg font-semibold"
+          >
+            Edit Settings
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { RoomInviteDTO } from '@/lib/api/Api.types';
+import { ApiClient } from '@/lib/api/ApiClient';
+import { describeInvite, formatInviteCode, INVITE_EXPIRY_OPTIONS, inviteUrl } from '@/lib/invites/Invites';
+import { Notify } from '@/lib/notifications/Notifications';
+
+interface InviteMenuProps {
+  roomId: string;
+  invites: ApiClient['invites'];
+  notify: Notify;
+}
+
+/**
+ * Lets the host share the room through invite codes, and rotate or revoke codes that were shared too widely.
+ */
+export default function InviteMenu({ roomId, invites, notify }: InviteMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [list, setList] = useState<RoomInviteDTO[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [expiresInMinutes, setExpiresInMinutes] = useState<number | null>(null);
+  const [maxUses, setMaxUses] = useState('');
+
+  const run = async <T,>(task: () => Promise<T>): Promise<T | undefined> => {
+    setBusy(true);
+    try {
+      return await task();
+    } catch (error) {
+      notify({ severity: 'error', message: error.message });
+      return undefined;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadInvites = async () => {
+    const loaded = await invites.listForRoom(roomId);
+    setList(loaded);
+    return loaded;
+  };
+
+  const copyLink = async (code: string) => {
+    const url = inviteUrl(code, window.location.origin);
+    try {
+      await navigator.clipboard.writeText(url);
+      notify({ severity: 'success', message: 'Invite link copied' });
+    } catch {
+      // e.g. no clipboard access outside secure contexts, the link can still be copied by hand
+      notify({ severity: 'info', title: 'Invite link', message: url, duration: 0 });
+    }
+  };
+
+  // shares the newest code, or makes one if the room has none
+  const handleCopyLink = () =>
+    run(async () => {
+      const current = list ?? (await loadInvites());
+      let invite = current[current.length - 1];
+      if (!invite) {
+        invite = await invites.create(roomId);
+        setList([invite]);
+      }
+      await copyLink(invite.code);
+    });
+
+  const handleToggle = () => {
+    if (!open && list === null) run(loadInvites);
+    setOpen(!open);
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const invite = await invites.create(roomId, {
+        expiresInMinutes,
+        maxUses: maxUses ? Number(maxUses) : null,
+      });
+      setList((prev) => [...(prev ?? []), invite]);
+      setMaxUses('');
+    });
+
+  const handleRotate = (code: string) =>
+    run(async () => {
+      const rotated = await invites.rotate(code);
+      setList((prev) => (prev ?? []).map((invite) => (invite.code === code ? rotated : invite)));
+      notify({
+        severity: 'success',
+        message: `The old code no longer works, the new one is ${formatInviteCode(rotated.code)}`,
+      });
+    });
+
+  const handleRevoke = (code: string) =>
+    run(async () => {
+      await invites.revoke(code);
+      setList((prev) => (prev ?? []).filter((invite) => invite.code !== code));
+    });
+
+  return (
+    <div className="relative">
+      <div className="flex">
+        <button
+          onClick={handleCopyLink}
+          disabled={busy}
+          className="px-4 py-2 bg-yellow-600 text-black font-bold rounded-l-lg hover:bg-yellow-700 border-2 border-yellow-700 disabled:opacity-50"
+        >
+          Copy Invite Link
+        </button>
+        <button
+          onClick={handleToggle}
+          aria-expanded={open}
+          aria-label="Manage invites"
+          className="px-2 py-2 bg-yellow-600 text-black font-bold rounded-r-lg hover:bg-yellow-700 border-2 border-l-0 border-yellow-700"
+        >
+          ▾
+        </button>
+      </div>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 z-20 bg-black/95 border-2 border-yellow-600 rounded-xl p-4 space-y-3 shadow-xl">
+          <h3 className="text-yellow-400 font-bold">Invite Codes</h3>
+          {list?.length === 0 && <p className="text-yellow-100/60 text-sm">No codes yet.</p>}
+          <ul className="space-y-2">
+            {list?.map((invite) => (
+              <li key={invite.code} className="bg-green-900/30 border border-green-700 rounded-lg p-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono font-bold text-yellow-200">{formatInviteCode(invite.code)}</span>
+                  <div className="flex gap-1 text-xs">
+                    <button
+                      onClick={() => run(() => copyLink(invite.code))}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-yellow-600 text-black font-semibold disabled:opacity-50"
+                    >
+                      Copy
+                    </button>
+                    <button
+                      onClick={() => handleRotate(invite.code)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-blue-700 text-white font-semibold disabled:opacity-50"
+                    >
+                      Rotate
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(invite.code)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-red-700 text-white font-semibold disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                </div>
+                <p className="text-yellow-100/60 text-xs mt-1">{describeInvite(invite)}</p>
+              </li>
+            ))}
+          </ul>
+
+          <div className="border-t border-yellow-700/50 pt-3 space-y-2">
+            <div className="flex gap-2 text-sm">
+              <label className="flex-1 text-yellow-100/80">
+                Expires
+                <select
+                  value={expiresInMinutes ?? ''}
+                  onChange={(e) => setExpiresInMinutes(e.target.value ? Number(e.target.value) : null)}
+                  className="w-full mt-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+                >
+                  {INVITE_EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.label} value={option.minutes ?? ''}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex-1 text-yellow-100/80">
+                Max uses
+                <input
+                  type="number"
+                  min={1}
+                  value={maxUses}
+                  onChange={(e) => setMaxUses(e.target.value)}
+                  placeholder="No limit"
+                  className="w-full mt-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+                />
+              </label>
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={busy}
+              className="w-full py-1 bg-yellow-600 text-black font-bold rounded-lg hover:bg-yellow-700 disabled:opacity-50"
+            >
+              New Code
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LeaderboardEntryDTO, LeaderboardQuery, PagedResultDTO } from '@/lib/api/Api.types';
+import { ApiClient } from '@/lib/api/ApiClient';
+import { isAbortError } from '@/lib/api/ApiErrors';
+import {
+  DEFAULT_LEADERBOARD_QUERY,
+  formatLeaderboardValue,
+  LEADERBOARD_METRICS,
+  LEADERBOARD_WINDOWS,
+} from '@/lib/leaderboard/Leaderboard';
+import { Notify } from '@/lib/notifications/Notifications';
+
+interface LeaderboardPanelProps {
+  leaderboard: ApiClient['leaderboard'];
+  notify: Notify;
+  currentUserId?: string | null;
+}
+
+/**
+ * The players ranked across every room, by a chosen metric over a chosen window.
+ */
+export default function LeaderboardPanel({ leaderboard, notify, currentUserId }: LeaderboardPanelProps) {
+  const [query, setQuery] = useState<Required<LeaderboardQuery>>(DEFAULT_LEADERBOARD_QUERY);
+  const [result, setResult] = useState<PagedResultDTO<LeaderboardEntryDTO> | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    leaderboard
+      .get(query, { signal: controller.signal })
+      .then(setResult)
+      .catch((error) => {
+        if (!isAbortError(error)) notify({ severity: 'error', message: error.message });
+      });
+    return () => controller.abort();
+  }, [leaderboard, notify, query]);
+
+  // a different leaderboard starts over from the first page
+  const updateQuery = (changes: Partial<LeaderboardQuery>) => setQuery((prev) => ({ ...prev, page: 1, ...changes }));
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.totalCount / result.pageSize)) : 1;
+
+  return (
+    <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-6 w-full space-y-4">
+      <div className="flex flex-wrap gap-2 justify-between">
+        <div className="flex gap-1" role="group" aria-label="Metric">
+          {LEADERBOARD_METRICS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => updateQuery({ metric: value })}
+              aria-pressed={query.metric === value}
+              className={`px-3 py-1 rounded text-sm font-semibold border border-yellow-700 ${
+                query.metric === value ? 'bg-yellow-600 text-black' : 'bg-yellow-900/40 text-yellow-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1" role="group" aria-label="Window">
+          {LEADERBOARD_WINDOWS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => updateQuery({ window: value })}
+              aria-pressed={query.window === value}
+              className={`px-3 py-1 rounded text-sm font-semibold border border-yellow-700 ${
+                query.window === value ? 'bg-yellow-600 text-black' : 'bg-yellow-900/40 text-yellow-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {result === null ? (
+        <p className="text-yellow-100/60 text-center">Loading leaderboard...</p>
+      ) : result.items.length === 0 ? (
+        <p className="text-yellow-100/60 text-center">Nobody has played a round in this time yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-yellow-100/60 text-left">
+              <th className="py-1 w-12">#</th>
+              <th className="py-1">Player</th>
+              <th className="py-1 text-right">Hands</th>
+              <th className="py-1 text-right">{LEADERBOARD_METRICS.find((m) => m.value === query.metric)?.label}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.items.map((entry) => (
+              <tr
+                key={entry.userId}
+                className={`border-t border-yellow-700/40 ${entry.userId === currentUserId ? 'bg-yellow-900/40' : ''}`}
+              >
+                <td className="py-1 text-yellow-400 font-bold">{entry.rank}</td>
+                <td className="py-1 text-yellow-200">
+                  {entry.userName}
+                  {entry.userId === currentUserId && <span className="ml-2 text-xs text-yellow-400">(You)</span>}
+                </td>
+                <td className="py-1 text-right text-yellow-100/60">{entry.handsPlayed.toLocaleString()}</td>
+                <td className="py-1 text-right text-yellow-200 font-bold">
+                  {formatLeaderboardValue(query.metric, entry.value)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {result && result.totalCount > result.pageSize && (
+        <div className="flex items-center justify-between text-yellow-100">
+          <button
+            onClick={() => setQuery((prev) => ({ ...prev, page: prev.page - 1 }))}
+            disabled={query.page <= 1}
+            className="px-3 py-1 text-sm bg-yellow-600/20 border border-yellow-600 rounded-lg disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm">
+            Page {query.page} of {pageCount}
+          </span>
+          <button
+            onClick={() => setQuery((prev) => ({ ...prev, page: prev.page + 1 }))}
+            disabled={query.page >= pageCount}
+            className="px-3 py-1 text-sm bg-yellow-600/20 border border-yellow-600 rounded-lg disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
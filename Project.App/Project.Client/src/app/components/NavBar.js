@@ -2,6 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { api } from '@/lib/api/ApiClient';
 
 export default function NavBar() {
   const pathname = usePathname();
@@ -10,24 +11,9 @@ export default function NavBar() {
     console.log('[NavBar] Logout clicked');
 
     try {
-      const apiBaseUrl = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
-      console.log('[NavBar] Calling logout endpoint:', `${apiBaseUrl}/auth/logout`);
-
-      const response = await fetch(`${apiBaseUrl}/auth/logout`, {
-        method: 'POST',
-        credentials: 'include',
-      });
-
-      console.log('[NavBar] Logout response status:', response.status);
-
-      if (response.ok) {
-        console.log('[NavBar] Logout successful, redirecting to /login');
-        window.location.href = '/login';
-      } else {
-        console.error('[NavBar] Logout failed with status:', response.status);
-        // Redirect anyway to force re-authentication
-        window.location.href = '/login';
-      }
+      await api.auth.logout();
+      console.log('[NavBar] Logout successful, redirecting to /login');
+      window.location.href = '/login';
     } catch (error) {
       console.error('[NavBar] Logout error:', error);
       // Redirect anyway to force re-authentication
@@ -41,9 +27,17 @@ export default function NavBar() {
     // { href: '/rooms', label: 'Rooms'},
   ];
   if (pathname.startsWith('/player/')) {
-    links = [{ href: '/rooms', label: 'Rooms' }];
+    links = [
+      { href: '/rooms', label: 'Rooms' },
+      { href: '/leaderboard', label: 'Leaderboard' },
+    ];
   } else if (pathname.startsWith('/rooms')) {
-    links = [{ href: '/player/1', label: 'Profile' }];
+    links = [
+      { href: '/player/1', label: 'Profile' },
+      { href: '/leaderboard', label: 'Leaderboard' },
+    ];
+  } else if (pathname.startsWith('/leaderboard')) {
+    links = [{ href: '/rooms', label: 'Rooms' }];
   } else if (pathname.startsWith('/game/')) {
     // No additional links in game view - leave button is in the game UI
     links = [];
@@ -63,7 +57,10 @@ export default function NavBar() {
           </Link>
         ))}
         {/* Show logout button only on protected pages */}
-        {(pathname.startsWith('/player/') || pathname.startsWith('/rooms') || pathname.startsWith('/game/')) && (
+        {(pathname.startsWith('/player/') ||
+          pathname.startsWith('/rooms') ||
+          pathname.startsWith('/game/') ||
+          pathname.startsWith('/leaderboard')) && (
           <button
             onClick={handleLogout}
             className="text-yellow-100 hover:text-yellow-400 font-semibold px-3 py-1 rounded transition"
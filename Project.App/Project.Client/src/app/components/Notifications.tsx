@@ -0,0 +1,143 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import {
+  addNotification,
+  dismissNotification,
+  Notification,
+  NotificationSeverity,
+  Notify,
+} from '@/lib/notifications/Notifications';
+
+interface NotificationContextValue {
+  notify: Notify;
+  dismiss: (id: number) => void;
+}
+
+const NotificationContext = createContext<NotificationContextValue | null>(null);
+
+const SEVERITY_STYLES: Record<NotificationSeverity, string> = {
+  info: 'bg-blue-950/95 border-blue-500 text-blue-100',
+  success: 'bg-green-950/95 border-green-500 text-green-100',
+  warning: 'bg-yellow-950/95 border-yellow-500 text-yellow-100',
+  error: 'bg-red-950/95 border-red-500 text-red-100',
+};
+
+const SEVERITY_ICONS: Record<NotificationSeverity, string> = {
+  info: 'ℹ',
+  success: '✓',
+  warning: '⚠',
+  error: '✕',
+};
+
+/**
+ * Shows the notifications raised through `useNotifications`, and dismisses them once their time is up.
+ */
+export function NotificationProvider({ children }: { children: React.ReactNode }) {
+  const [queue, setQueue] = useState<Notification[]>([]);
+  // the queue as of the last update, so several notifications raised at once all see each other
+  const queueRef = useRef<Notification[]>([]);
+  const nextIdRef = useRef(1);
+  const timersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const update = useCallback((next: Notification[]) => {
+    queueRef.current = next;
+    setQueue(next);
+  }, []);
+
+  const dismiss = useCallback(
+    (id: number) => {
+      clearTimeout(timersRef.current.get(id));
+      timersRef.current.delete(id);
+      update(dismissNotification(queueRef.current, id));
+    },
+    [update],
+  );
+
+  const notify = useCallback<Notify>(
+    (input) => {
+      const { queue: next, notification } = addNotification(queueRef.current, input, nextIdRef.current);
+      if (notification.id === nextIdRef.current) nextIdRef.current++;
+      update(next);
+
+      // (re)start the timer, so repeated notifications stay up
+      clearTimeout(timersRef.current.get(notification.id));
+      timersRef.current.delete(notification.id);
+      if (notification.duration > 0) {
+        timersRef.current.set(
+          notification.id,
+          setTimeout(() => dismiss(notification.id), notification.duration),
+        );
+      }
+    },
+    [dismiss, update],
+  );
+
+  // drop timers of notifications pushed out of the queue
+  useEffect(() => {
+    const ids = new Set(queue.map((notification) => notification.id));
+    for (const [id, timer] of timersRef.current) {
+      if (!ids.has(id)) {
+        clearTimeout(timer);
+        timersRef.current.delete(id);
+      }
+    }
+  }, [queue]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  return (
+    <NotificationContext.Provider value={{ notify, dismiss }}>
+      {children}
+      <Toaster notifications={queue} onDismiss={dismiss} />
+    </NotificationContext.Provider>
+  );
+}
+
+export function useNotifications(): NotificationContextValue {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications must be used inside a NotificationProvider');
+  }
+  return context;
+}
+
+interface ToasterProps {
+  notifications: Notification[];
+  onDismiss: (id: number) => void;
+}
+
+export function Toaster({ notifications, onDismiss }: ToasterProps) {
+  return (
+    <div aria-live="polite" className="fixed top-20 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {notifications.map((notification) => (
+        <div
+          key={notification.id}
+          role={notification.severity === 'error' ? 'alert' : 'status'}
+          className={`flex items-start gap-3 rounded-lg border-2 p-3 shadow-lg ${SEVERITY_STYLES[notification.severity]}`}
+        >
+          <span aria-hidden="true" className="font-bold">
+            {SEVERITY_ICONS[notification.severity]}
+          </span>
+          <div className="flex-1 text-sm">
+            {notification.title && <p className="font-bold">{notification.title}</p>}
+            <p>
+              {notification.message}
+              {notification.count > 1 && <span className="ml-2 text-xs opacity-70">×{notification.count}</span>}
+            </p>
+          </div>
+          <button
+            onClick={() => onDismiss(notification.id)}
+            aria-label="Dismiss notification"
+            className="opacity-70 hover:opacity-100"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
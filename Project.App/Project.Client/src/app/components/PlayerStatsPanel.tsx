@@ -0,0 +1,110 @@
+'use client';
+
+import { BankrollPointDTO, PlayerStatsDTO } from '@/lib/api/Api.types';
+import { buildBankrollChart, formatPercent, formatSignedMoney } from '@/lib/stats/PlayerStats';
+
+interface PlayerStatsPanelProps {
+  stats: PlayerStatsDTO | null;
+  loading?: boolean;
+}
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 160;
+
+/**
+ * A player's results over the rounds they played, and how their winnings went over time.
+ */
+export default function PlayerStatsPanel({ stats, loading = false }: PlayerStatsPanelProps) {
+  if (loading || !stats) {
+    return (
+      <div className="bg-black/50 rounded-lg p-4 border border-yellow-600 w-full text-center text-yellow-100/60">
+        {loading ? 'Loading statistics...' : 'No statistics available.'}
+      </div>
+    );
+  }
+
+  if (stats.handsPlayed === 0) {
+    return (
+      <div className="bg-black/50 rounded-lg p-4 border border-yellow-600 w-full text-center text-yellow-100/60">
+        Play a round to see your statistics here.
+      </div>
+    );
+  }
+
+  const tiles: [string, string][] = [
+    ['Hands played', stats.handsPlayed.toLocaleString()],
+    ['Net winnings', formatSignedMoney(stats.netWinnings)],
+    ['Biggest win', `$${stats.biggestWin.toLocaleString()}`],
+    ['Wins', formatPercent(stats.winRate)],
+    ['Losses', formatPercent(stats.lossRate)],
+    ['Pushes', formatPercent(stats.pushRate)],
+    ['Blackjacks', formatPercent(stats.blackjackRate)],
+    ['Busts', formatPercent(stats.bustRate)],
+    ['Doubles', stats.doubles.toLocaleString()],
+    ['Splits', stats.splits.toLocaleString()],
+    ['Surrenders', stats.surrenders.toLocaleString()],
+  ];
+
+  return (
+    <div className="bg-black/50 rounded-lg p-4 border border-yellow-600 w-full space-y-4">
+      <h2 className="text-xl font-bold text-yellow-400">Statistics</h2>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {tiles.map(([label, value]) => (
+          <div key={label} className="bg-black/60 rounded p-2 border border-yellow-700/50">
+            <dt className="text-yellow-100/60 text-xs">{label}</dt>
+            <dd className="text-yellow-200 font-bold">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <BankrollChart bankroll={stats.bankroll} />
+    </div>
+  );
+}
+
+function BankrollChart({ bankroll }: { bankroll: BankrollPointDTO[] }) {
+  const chart = buildBankrollChart(bankroll, CHART_WIDTH, CHART_HEIGHT);
+  if (!chart) return null;
+
+  const last = bankroll[bankroll.length - 1];
+
+  return (
+    <figure>
+      <figcaption className="text-yellow-300 text-sm font-bold mb-1">Winnings over time</figcaption>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-40 bg-black/60 rounded border border-yellow-700/50"
+        role="img"
+        aria-label={`Net winnings over ${bankroll.length} rounds, ending at ${formatSignedMoney(last.total)}`}
+      >
+        <line
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={chart.zeroY}
+          y2={chart.zeroY}
+          className="stroke-yellow-100/30"
+          strokeDasharray="4 4"
+        />
+        <path
+          d={chart.path}
+          fill="none"
+          strokeWidth={2}
+          className={last.total < 0 ? 'stroke-red-400' : 'stroke-green-400'}
+        />
+        {chart.points.map(
+          ({ x, y, point }) =>
+            point && (
+              <circle key={point.roundId} cx={x} cy={y} r={2.5} className="fill-yellow-400">
+                <title>
+                  Round {point.roundNumber}: {formatSignedMoney(point.net)}, {formatSignedMoney(point.total)} in total
+                </title>
+              </circle>
+            ),
+        )}
+      </svg>
+      <div className="flex justify-between text-xs text-yellow-100/60 mt-1">
+        <span>Low {formatSignedMoney(chart.min)}</span>
+        <span>High {formatSignedMoney(chart.max)}</span>
+      </div>
+    </figure>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { RoomPlayerDTO } from '@/lib/api/Api.types';
+import { getRoomStandings } from '@/lib/leaderboard/Leaderboard';
+import { formatSignedMoney } from '@/lib/stats/PlayerStats';
+
+interface RoomLeaderboardProps {
+  players: RoomPlayerDTO[];
+  startingBalance: number;
+  currentUserId?: string;
+}
+
+/**
+ * The seated players ranked by what they won or lost at this table, from their balances.
+ */
+export default function RoomLeaderboard({ players, startingBalance, currentUserId }: RoomLeaderboardProps) {
+  const standings = getRoomStandings(players, startingBalance);
+
+  return (
+    <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4">
+      <h2 className="text-xl font-bold text-yellow-400 mb-4">Table Leaderboard</h2>
+      {standings.length === 0 ? (
+        <p className="text-yellow-100/40 text-sm text-center">No players yet</p>
+      ) : (
+        <ol className="space-y-1">
+          {standings.map(({ rank, player, net }) => (
+            <li
+              key={player.id}
+              className={`flex items-center gap-2 text-sm rounded px-2 py-1 ${
+                player.userId === currentUserId ? 'bg-yellow-900/40' : ''
+              }`}
+            >
+              <span className="w-6 text-yellow-400 font-bold">{rank}.</span>
+              <span className="flex-1 text-yellow-200 truncate">{player.userName}</span>
+              <span
+                className={`font-bold ${net > 0 ? 'text-green-400' : net < 0 ? 'text-red-400' : 'text-yellow-100/60'}`}
+              >
+                {formatSignedMoney(net)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { PagedResultDTO, RoundRecordDTO, RoundSummaryDTO } from '@/lib/api/Api.types';
+import { ApiClient } from '@/lib/api/ApiClient';
+import { getRoundNet } from '@/lib/game/RoundReplay';
+import { Notify } from '@/lib/notifications/Notifications';
+import RoundReplay from '@/app/components/RoundReplay';
+
+interface RoundHistoryPanelProps {
+  roomId: string;
+  rooms: ApiClient['rooms'];
+  notify: Notify;
+  currentUserId?: string;
+}
+
+const PAGE_SIZE = 10;
+
+const formatNet = (net: number) => `${net < 0 ? '-' : '+'}$${Math.abs(net).toLocaleString()}`;
+
+/**
+ * The room's finished rounds, each of which can be replayed action by action.
+ */
+export default function RoundHistoryPanel({ roomId, rooms, notify, currentUserId }: RoundHistoryPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [result, setResult] = useState<PagedResultDTO<RoundSummaryDTO> | null>(null);
+  const [replaying, setReplaying] = useState<RoundRecordDTO | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (error) {
+      notify({ severity: 'error', message: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadPage = (page: number) => run(async () => setResult(await rooms.getRounds(roomId, page, PAGE_SIZE)));
+
+  const handleToggle = () => {
+    if (!open) loadPage(result?.page ?? 1);
+    setOpen(!open);
+  };
+
+  const handleReplay = (round: RoundSummaryDTO) =>
+    run(async () => setReplaying(await rooms.getRound(roomId, round.id)));
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.totalCount / result.pageSize)) : 1;
+
+  return (
+    <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-yellow-400">Round History</h2>
+        <div className="flex gap-2">
+          {open && !replaying && (
+            <button
+              onClick={() => loadPage(result?.page ?? 1)}
+              disabled={busy}
+              className="px-3 py-1 rounded bg-yellow-900/40 border border-yellow-700 text-yellow-300 text-sm font-semibold disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          )}
+          <button
+            onClick={handleToggle}
+            className="px-3 py-1 rounded bg-yellow-600 text-black text-sm font-bold hover:bg-yellow-700"
+          >
+            {open ? 'Hide' : 'Show'}
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        <div className="mt-4">
+          {replaying ? (
+            <RoundReplay round={replaying} currentUserId={currentUserId} onClose={() => setReplaying(null)} />
+          ) : result === null ? (
+            <p className="text-yellow-100/40 text-sm">Loading rounds...</p>
+          ) : result.items.length === 0 ? (
+            <p className="text-yellow-100/40 text-sm">No rounds have been played yet.</p>
+          ) : (
+            <>
+              <ul className="space-y-2">
+                {result.items.map((round) => {
+                  const played = currentUserId && round.hands.some((hand) => hand.playerId === currentUserId);
+                  const net = played ? getRoundNet(round, currentUserId) : null;
+                  return (
+                    <li key={round.id}>
+                      <button
+                        onClick={() => handleReplay(round)}
+                        disabled={busy}
+                        className="w-full flex items-center justify-between gap-2 bg-black/60 rounded-lg p-2 border border-yellow-700/50 hover:border-yellow-500 text-sm text-left disabled:opacity-50"
+                      >
+                        <span className="text-yellow-200 font-bold">Round {round.roundNumber}</span>
+                        <span className="text-yellow-100/60">Dealer {round.dealerScore}</span>
+                        {net !== null && (
+                          <span className={net < 0 ? 'text-red-400' : 'text-green-400'}>{formatNet(net)}</span>
+                        )}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {pageCount > 1 && (
+                <div className="flex items-center justify-between mt-3 text-sm">
+                  <button
+                    onClick={() => loadPage(result.page - 1)}
+                    disabled={busy || result.page <= 1}
+                    className="px-2 py-1 rounded bg-gray-700 text-white disabled:opacity-40"
+                  >
+                    Newer
+                  </button>
+                  <span className="text-yellow-100/60">
+                    Page {result.page} of {pageCount}
+                  </span>
+                  <button
+                    onClick={() => loadPage(result.page + 1)}
+                    disabled={busy || result.page >= pageCount}
+                    className="px-2 py-1 rounded bg-gray-700 text-white disabled:opacity-40"
+                  >
+                    Older
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { RoundRecordDTO } from '@/lib/api/Api.types';
+import { buildReplay } from '@/lib/game/RoundReplay';
+import CardTable from '@/app/components/CardTable';
+
+interface RoundReplayProps {
+  round: RoundRecordDTO;
+  currentUserId?: string;
+  onClose: () => void;
+}
+
+/**
+ * Steps through a finished round event by event, showing the table as it was at each point.
+ */
+export default function RoundReplay({ round, currentUserId, onClose }: RoundReplayProps) {
+  const steps = useMemo(() => buildReplay(round), [round]);
+  const [index, setIndex] = useState(0);
+
+  const step = steps[Math.min(index, steps.length - 1)];
+  const last = steps.length - 1;
+
+  const navButton =
+    'px-3 py-1 rounded bg-yellow-600 text-black font-bold disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-yellow-300 font-bold">Round {round.roundNumber}</h3>
+        <button onClick={onClose} className="text-yellow-100/60 hover:text-yellow-100 text-sm">
+          Back to rounds
+        </button>
+      </div>
+
+      <CardTable
+        dealerHand={step.state.dealerHand}
+        hands={step.state.hands}
+        players={step.state.players}
+        currentUserId={currentUserId}
+      />
+
+      <div className="bg-black/60 rounded-lg p-3 min-h-12 text-sm text-yellow-100">
+        {step.event === null ? (
+          <p className="text-yellow-100/60">Step forward to replay the round.</p>
+        ) : step.descriptions.length > 0 ? (
+          step.descriptions.map((description, i) => <p key={i}>{description}</p>)
+        ) : (
+          <p className="text-yellow-100/60">{step.event.eventType.replaceAll('_', ' ')}</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          <button onClick={() => setIndex(0)} disabled={index === 0} className={navButton} aria-label="First step">
+            «
+          </button>
+          <button onClick={() => setIndex(index - 1)} disabled={index === 0} className={navButton}>
+            Prev
+          </button>
+        </div>
+        <span className="text-yellow-100/60 text-xs">
+          Step {index} of {last}
+        </span>
+        <div className="flex gap-1">
+          <button onClick={() => setIndex(index + 1)} disabled={index >= last} className={navButton}>
+            Next
+          </button>
+          <button onClick={() => setIndex(last)} disabled={index >= last} className={navButton} aria-label="Last step">
+            »
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
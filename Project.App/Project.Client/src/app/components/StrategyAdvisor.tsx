@@ -0,0 +1,55 @@
+'use client';
+
+import { describeAdvice, StrategyAdvice } from '@/lib/game/BasicStrategy';
+import { AdvisorSession, describeDeviation } from '@/lib/game/StrategyAdvisor';
+
+interface StrategyAdvisorProps {
+  session: AdvisorSession;
+  /** The advice for the hand being played, null when it is not the player's turn. */
+  advice: StrategyAdvice | null;
+  onToggle: () => void;
+  onReset: () => void;
+}
+
+/**
+ * An opt-in coach: on the player's turn it tells the basic strategy move, which the action bar highlights,
+ * and it counts how often the player went another way this session.
+ */
+export default function StrategyAdvisor({ session, advice, onToggle, onReset }: StrategyAdvisorProps) {
+  return (
+    <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-yellow-400">Strategy Advisor</h2>
+        <button
+          onClick={onToggle}
+          aria-pressed={session.enabled}
+          className="px-3 py-1 rounded bg-yellow-600 text-black text-sm font-bold hover:bg-yellow-700"
+        >
+          {session.enabled ? 'Turn Off' : 'Turn On'}
+        </button>
+      </div>
+
+      {session.enabled && (
+        <div className="mt-3 space-y-2 text-sm">
+          <p className={advice ? 'text-green-300 font-semibold' : 'text-yellow-100/40'}>
+            {advice ? describeAdvice(advice) : 'Advice shows up on your turn.'}
+          </p>
+          <div className="flex items-center justify-between text-yellow-100/80">
+            <span>
+              Deviations: <span className="text-yellow-200 font-bold">{session.deviations}</span> of {session.decisions}{' '}
+              move{session.decisions === 1 ? '' : 's'}
+            </span>
+            {session.decisions > 0 && (
+              <button onClick={onReset} className="text-xs text-yellow-300 underline hover:text-yellow-400">
+                Reset
+              </button>
+            )}
+          </div>
+          {session.lastDeviation && (
+            <p className="text-orange-300 text-xs">{describeDeviation(session.lastDeviation)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,100 +1,176 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useMemo, useReducer, useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { createSSEListener, GameStateSetters } from '@/lib/sse/GameEventHandler';
-import { ChatEventData } from '@/lib/sse/GameEvents.types';
+import { createSSEListener, GameStateSetters, ROOM_EVENT_TYPES } from '@/lib/sse/GameEventHandler';
+import { ConnectionStatus, createRoomConnection, RoomConnection } from '@/lib/sse/RoomConnection';
+import { parseStoredBlackjackState } from '@/lib/game/BlackjackStateParser';
+import { BlackjackActionRequest, createActionRequest } from '@/lib/game/BlackjackActions';
+import {
+  canTakeSeat,
+  gameStoreReducer,
+  getSpectators,
+  initialGameStore,
+  isSeated,
+  withPendingActions,
+} from '@/lib/game/GameStore';
+import { getTurnInfo } from '@/lib/game/PlayerTurn';
+import { DEFAULT_BLACKJACK_CONFIG, describeRules } from '@/lib/game/BlackjackConfig';
+import { createServerClock } from '@/lib/time/ServerClock';
+import CardTable from '@/app/components/CardTable';
+import ActionBar from '@/app/components/ActionBar';
+import Countdown from '@/app/components/Countdown';
+import GameLogPanel from '@/app/components/GameLogPanel';
+import InviteMenu from '@/app/components/InviteMenu';
+import HostPanel from '@/app/components/HostPanel';
+import RoundHistoryPanel from '@/app/components/RoundHistoryPanel';
+import RoomLeaderboard from '@/app/components/RoomLeaderboard';
+import StrategyAdvisor from '@/app/components/StrategyAdvisor';
+import ChatPanel from '@/app/components/ChatPanel';
+import { GameLogEntry, loadGameLog, saveGameLog } from '@/lib/game/GameLog';
+import { getBasicStrategyMove } from '@/lib/game/BasicStrategy';
+import { getBotPolicyLabel } from '@/lib/game/BotPlayers';
+import {
+  AdvisorSession,
+  INITIAL_ADVISOR_SESSION,
+  loadAdvisorSession,
+  recordDecision,
+  saveAdvisorSession,
+} from '@/lib/game/StrategyAdvisor';
+import { createApiClient, createIdempotencyKey } from '@/lib/api/ApiClient';
+import { isAbortError, NetworkError } from '@/lib/api/ApiErrors';
+import { useNotifications } from '@/app/components/Notifications';
 
 export default function GameClient({ roomId }) {
   const router = useRouter();
-  const [room, setRoom] = useState(null);
+  const { notify } = useNotifications();
   const [user, setUser] = useState(null);
-  const [roomPlayers, setRoomPlayers] = useState([]);
-  const [gameState, setGameState] = useState(null);
-  const [gameConfig, setGameConfig] = useState(null);
-  const [messages, setMessages] = useState<ChatEventData[]>([]);
-  const [chatMessage, setChatMessage] = useState('');
+  // room, roster, stage, hands and chat, kept up to date by the room's events
+  const [store, dispatch] = useReducer(gameStoreReducer, initialGameStore);
+  // what our own actions are expected to do is shown right away, and rolled back if the server disagrees
+  const view = useMemo(() => withPendingActions(store), [store]);
+  const {
+    room,
+    players: roomPlayers,
+    gameState,
+    hands,
+    dealerHand,
+    roundBets,
+    gameConfig,
+    messages,
+    mutedUserIds,
+  } = view;
+  const pendingAction = store.pending.find((pending) => pending.userId === user?.id)?.request.action ?? null;
+  // anyone without a seat only watches: no bets or actions, but they can sit down between rounds
+  const isSpectator = !isSeated(roomPlayers.find((p) => p.userId === user?.id));
+  const spectators = getSpectators(view);
+  const [gameLog, setGameLog] = useState<GameLogEntry[]>([]);
+  const gameLogLoadedRef = useRef(false);
+  const [advisor, setAdvisor] = useState<AdvisorSession>(INITIAL_ADVISOR_SESSION);
+  const advisorLoadedRef = useRef(false);
+  const [takingSeat, setTakingSeat] = useState(false);
   const [betAmount, setBetAmount] = useState(10);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
-  const eventSourceRef = useRef(null);
-
-  const API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const connectionRef = useRef<RoomConnection | null>(null);
+  // offset between our clock and the server's, for counting down deadlines
+  const [serverClock] = useState(createServerClock);
+  const [api] = useState(() => createApiClient({ serverClock }));
 
   // Fetch room players
   const fetchRoomPlayers = async () => {
     try {
-      const playersRes = await fetch(`${API_URL}/api/room/${roomId}/players`, {
-        credentials: 'include',
-        cache: 'no-store', // Force fresh data, no caching
-      });
-      if (playersRes.ok) {
-        const playersData = await playersRes.json();
-        console.log('[GameClient] Players fetched:', playersData);
-        console.log('[GameClient] Player count:', playersData.length);
-        console.log(
-          '[GameClient] Player balances:',
-          playersData.map((p) => ({ id: p.userId, balance: p.balance })),
-        );
-        setRoomPlayers(playersData);
-      }
+      const playersData = await api.rooms.getPlayers(roomId);
+      console.log('[GameClient] Players fetched:', playersData);
+      console.log('[GameClient] Player count:', playersData.length);
+      console.log(
+        '[GameClient] Player balances:',
+        playersData.map((p) => ({ id: p.userId, balance: p.balance })),
+      );
+      dispatch({ type: 'players_loaded', players: playersData });
     } catch (e) {
       console.error('Failed to fetch room players:', e);
     }
   };
 
+  // Fetch who is watching without a seat, kept up to date by viewer events afterwards
+  const fetchSpectators = async () => {
+    try {
+      dispatch({ type: 'spectators_loaded', spectators: await api.rooms.getSpectators(roomId) });
+    } catch (e) {
+      console.error('Failed to fetch spectators:', e);
+    }
+  };
+
+  // Fetch the chat's latest messages, newer ones arrive as events
+  const fetchChat = async () => {
+    try {
+      dispatch({ type: 'chat_loaded', history: await api.rooms.getChat(roomId) });
+    } catch (e) {
+      console.error('Failed to fetch chat:', e);
+    }
+  };
+
+  // Refetch everything the event stream would have kept up to date, after missing events
+  const resyncRoom = async () => {
+    const [roomResult, stateResult] = await Promise.allSettled([
+      api.rooms.get(roomId),
+      api.rooms.getGameState(roomId),
+      fetchRoomPlayers(),
+      fetchSpectators(),
+      fetchChat(),
+    ]);
+
+    if (roomResult.status === 'fulfilled') {
+      dispatch({ type: 'room_loaded', room: roomResult.value });
+    }
+    if (stateResult.status === 'fulfilled') {
+      // endpoint returns the stored state still serialized
+      dispatch({ type: 'game_state_loaded', gameState: parseStoredBlackjackState(stateResult.value) });
+    }
+  };
+
   // Fetch initial room data and user info
   useEffect(() => {
+    // stop loading if the user navigates away first
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const fetchInitialData = async () => {
       try {
         // Fetch user
-        const userRes = await fetch(`${API_URL}/api/user/me`, {
-          credentials: 'include',
-        });
-        if (!userRes.ok) {
+        try {
+          setUser(await api.users.me({ signal }));
+        } catch (err) {
+          if (isAbortError(err)) return;
           router.replace('/login');
           return;
         }
-        const userData = await userRes.json();
-        setUser(userData);
 
         // Fetch room
-        const roomRes = await fetch(`${API_URL}/api/room/${roomId}`, {
-          credentials: 'include',
-        });
-        if (!roomRes.ok) {
-          throw new Error('Failed to fetch room');
-        }
-        const roomData = await roomRes.json();
-        setRoom(roomData);
+        const roomData = await api.rooms.get(roomId, { signal });
+        dispatch({ type: 'room_loaded', room: roomData });
 
-        // Fetch room players
-        await fetchRoomPlayers();
+        // Fetch room players, whoever is only watching, and what was said before joining
+        await Promise.all([fetchRoomPlayers(), fetchSpectators(), fetchChat()]);
 
         console.log('[GameClient] Room loaded:', roomData);
         console.log('[GameClient] MaxPlayers:', roomData.maxPlayers);
 
-        // Parse game state and config
+        // Parse game state
         try {
-          const parsedState = JSON.parse(roomData.gameState);
+          const parsedState = parseStoredBlackjackState(roomData.gameState);
           console.log('[GameClient] Parsed game state:', parsedState);
-          console.log('[GameClient] Current stage:', parsedState?.currentStage);
-          console.log('[GameClient] Stage $type:', parsedState?.currentStage?.$type);
-          setGameState(parsedState);
+          console.log('[GameClient] Stage $type:', parsedState?.currentStage.$type);
+          dispatch({ type: 'game_state_loaded', gameState: parsedState });
         } catch (e) {
           console.error('Failed to parse game state:', e);
         }
 
-        try {
-          const parsedConfig = JSON.parse(roomData.gameConfig);
-          setGameConfig(parsedConfig);
-          setBetAmount(parsedConfig.minBet || 10);
-        } catch (e) {
-          console.error('Failed to parse game config:', e);
-        }
-
         setLoading(false);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error('Error fetching initial data:', err);
         setError(err.message);
         setLoading(false);
@@ -102,94 +178,114 @@ export default function GameClient({ roomId }) {
     };
 
     fetchInitialData();
-  }, [roomId, API_URL, router]);
+    return () => controller.abort();
+  }, [roomId, api, router]);
 
-  // Setup SSE connection
+  // Keep this session's game log saved, once it has been restored below
   useEffect(() => {
-    if (!roomId || !user) return; // Wait for user data to be available
+    if (gameLogLoadedRef.current) {
+      saveGameLog(roomId, gameLog);
+    }
+  }, [roomId, gameLog]);
 
-    const eventSource = new EventSource(`${API_URL}/api/room/${roomId}/events`, {
-      withCredentials: true,
-    });
+  useEffect(() => {
+    setGameLog(loadGameLog(roomId));
+    gameLogLoadedRef.current = true;
+  }, [roomId]);
 
-    eventSource.onopen = () => {
-      console.log('[SSE] Connection opened');
-    };
+  useEffect(() => {
+    if (advisorLoadedRef.current) {
+      saveAdvisorSession(advisor);
+    }
+  }, [advisor]);
+
+  useEffect(() => {
+    setAdvisor(loadAdvisorSession());
+    advisorLoadedRef.current = true;
+  }, []);
+
+  // Start betting at the table minimum
+  const minBet = gameConfig?.minBet || 10;
+  const maxBet = gameConfig?.maxBet ?? null;
+  const betLimit = (amount: number) => (maxBet !== null ? Math.min(amount, maxBet) : amount);
+  useEffect(() => {
+    setBetAmount(minBet);
+  }, [minBet]);
+
+  // Refetch whatever changed without an event describing it
+  useEffect(() => {
+    if (store.refetch.players > 0) {
+      fetchRoomPlayers();
+    }
+  }, [store.refetch.players]);
+
+  useEffect(() => {
+    if (store.refetch.room > 0) {
+      api.rooms
+        .get(roomId)
+        .then((updatedRoom) => dispatch({ type: 'room_loaded', room: updatedRoom }))
+        .catch((e) => console.error('Failed to refetch room:', e));
+    }
+  }, [store.refetch.room]);
+
+  // Render again once the turn is up, the other players may hurry the active one from then on
+  const turnDeadline = gameState?.currentStage?.$type === 'player_action' ? gameState.currentStage.deadline : null;
+  const [, setExpiredTurnDeadline] = useState<string | null>(null);
+  useEffect(() => {
+    if (!turnDeadline) return;
+    const remaining = Date.parse(turnDeadline) - serverClock.now();
+    if (!(remaining > 0)) return;
+
+    const timer = setTimeout(() => setExpiredTurnDeadline(turnDeadline), remaining);
+    return () => clearTimeout(timer);
+  }, [turnDeadline, serverClock]);
+
+  // Setup SSE connection
+  useEffect(() => {
+    if (!roomId || !user) return; // Wait for user data to be available
 
     // Define the state setters and functions to pass to the event handler
     const setters: GameStateSetters = {
-      setMessages,
-      setRoomPlayers,
-      setGameState,
-      setRoom,
-      fetchRoomPlayers,
+      dispatch,
+      setGameLog,
+      resyncRoom,
+      serverClock,
+      notify,
       user,
     };
 
     // Create a single listener that will process all incoming game events
     const listener = createSSEListener(setters);
 
-    // List of all event types we want to handle
-    const eventTypes = [
-      'chat',
-      'game_state_update',
-      'player_action',
-      'player_join',
-      'player_leave',
-      'host_change',
-      'player_reveal',
-      'dealer_reveal',
-    ];
-
-    // Attach the listener to each event type
-    eventTypes.forEach((type) => {
-      eventSource.addEventListener(type, listener);
+    // keeps the stream open, resuming from the last event (or resyncing) after network blips
+    const connection = createRoomConnection({
+      url: api.rooms.eventsUrl(roomId),
+      eventTypes: ROOM_EVENT_TYPES,
+      onEvent: listener,
+      onStatusChange: setConnectionStatus,
+      onResync: resyncRoom,
     });
-
-    eventSource.onerror = (error) => {
-      console.error('[SSE] Error:', error);
-      eventSource.close();
-    };
-
-    eventSourceRef.current = eventSource;
+    connectionRef.current = connection;
 
     return () => {
-      if (eventSourceRef.current) {
-        // Remove all specific listeners before closing
-        eventTypes.forEach((type) => {
-          eventSourceRef.current.removeEventListener(type, listener);
-        });
-        eventSourceRef.current.close();
-      }
+      connection.close();
+      connectionRef.current = null;
     };
     // Add `user` to dependency array to ensure setters object has the latest user state
-  }, [roomId, API_URL, user]);
+  }, [roomId, api, user]);
 
   const handleStartGame = async () => {
     try {
       console.log('[StartGame] Starting game for room:', roomId);
-      const response = await fetch(`${API_URL}/api/room/${roomId}/start`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify(null),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || error.title || 'Failed to start game');
-      }
-
-      const updatedRoom = await response.json();
+      const updatedRoom = await api.rooms.start(roomId);
       console.log('[StartGame] Updated room received:', updatedRoom);
-      setRoom(updatedRoom);
+      dispatch({ type: 'room_loaded', room: updatedRoom });
 
-      if (updatedRoom.gameState) {
-        const parsedState = JSON.parse(updatedRoom.gameState);
+      const parsedState = parseStoredBlackjackState(updatedRoom.gameState);
+      if (parsedState) {
         console.log('[StartGame] Parsed game state:', parsedState);
-        console.log('[StartGame] Current stage:', parsedState?.currentStage);
-        console.log('[StartGame] Stage $type:', parsedState?.currentStage?.$type);
-        setGameState(parsedState);
+        console.log('[StartGame] Stage $type:', parsedState.currentStage.$type);
+        dispatch({ type: 'game_state_loaded', gameState: parsedState });
       } else {
         console.warn('[StartGame] No game state in response');
       }
@@ -197,89 +293,83 @@ export default function GameClient({ roomId }) {
       console.log('[StartGame] Game started successfully');
     } catch (error) {
       console.error('[StartGame] Error starting game:', error);
-      alert(`Failed to start game: ${error.message}`);
+      notify({ severity: 'error', title: "Couldn't start the game", message: error.message });
     }
   };
 
-  const handlePlayerAction = async (action, data = {}) => {
+  const handlePlayerAction = async (request: BlackjackActionRequest) => {
     if (!user) return;
 
+    const { action, data } = request;
+    // one action at a time, the next one may depend on how this one turns out
+    if (pendingAction) return;
+
+    if (advice && action !== 'bet' && action !== 'hurry_up') {
+      setAdvisor((session) => recordDecision(session, advice, action));
+    }
+
+    // the key makes retrying safe, the server applies the action only once
+    const id = createIdempotencyKey();
+    dispatch({ type: 'action_sent', id, userId: user.id, request });
     try {
       console.log(`[PlayerAction] Performing action: ${action}`, data);
-      const response = await fetch(`${API_URL}/api/room/${roomId}/player/${user.id}/action`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ action, data }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || error.title || 'Failed to perform action');
+      try {
+        await api.rooms.performAction(roomId, user.id, request, { idempotencyKey: id });
+      } catch (error) {
+        // the request may or may not have arrived, so try once more
+        if (!(error instanceof NetworkError)) throw error;
+        console.warn(`[PlayerAction] Retrying action ${action} after a network error`);
+        await api.rooms.performAction(roomId, user.id, request, { idempotencyKey: id });
       }
 
+      // confirmed by the player_action event that follows
+      dispatch({ type: 'action_acknowledged', id });
       console.log(`[PlayerAction] Action ${action} performed successfully`);
-
-      // Immediately refresh player data to show updated balances
-      // This supplements the SSE room_updated event for faster UI update
-      await fetchRoomPlayers();
-      console.log('[PlayerAction] Player data refreshed');
     } catch (error) {
       console.error('Error performing action:', error);
-      alert(`Failed to perform action: ${error.message}`);
+      dispatch({ type: 'action_failed', id });
+      notify({ severity: 'error', title: `Couldn't ${action.replace('_', ' ')}`, message: error.message });
     }
   };
 
   const handlePlaceBet = () => {
-    handlePlayerAction('bet', { amount: betAmount });
+    if (maxBet !== null && betAmount > maxBet) {
+      notify({ severity: 'warning', message: `The maximum bet at this table is $${maxBet}.` });
+      return;
+    }
+    handlePlayerAction(createActionRequest('bet', { amount: betAmount }));
   };
 
-  const handleHit = () => {
-    handlePlayerAction('hit', {});
-  };
+  const handleTakeSeat = async () => {
+    if (!user) return;
 
-  const handleStand = () => {
-    handlePlayerAction('stand', {});
+    setTakingSeat(true);
+    try {
+      // the player_join event that follows brings the new seat into the roster
+      await api.rooms.join(roomId, user.id);
+    } catch (error) {
+      console.error('Error taking a seat:', error);
+      notify({ severity: 'error', title: "Couldn't take a seat", message: error.message });
+    } finally {
+      setTakingSeat(false);
+    }
   };
 
   const handleLeaveRoom = async () => {
     if (!user) return;
 
-    try {
-      const response = await fetch(`${API_URL}/api/room/${roomId}/leave`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ userId: user.id }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || error.title || 'Failed to leave room');
-      }
-
+    // spectators have no seat to give up
+    if (isSpectator) {
       router.push('/rooms');
-    } catch (error) {
-      console.error('Error leaving room:', error);
-      alert(`Failed to leave room: ${error.message}`);
+      return;
     }
-  };
-
-  const handleSendMessage = async (e) => {
-    e.preventDefault();
-    if (!chatMessage.trim()) return;
 
     try {
-      await fetch(`${API_URL}/api/room/${roomId}/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ content: chatMessage }),
-      });
-
-      setChatMessage('');
+      await api.rooms.leave(roomId, user.id);
+      router.push('/rooms');
     } catch (error) {
-      console.error('Error sending message:', error);
+      console.error('Error leaving room:', error);
+      notify({ severity: 'error', title: "Couldn't leave the room", message: error.message });
     }
   };
 
@@ -309,10 +399,34 @@ export default function GameClient({ roomId }) {
   }
 
   const isHost = user && room && user.id === room.hostId;
-  const currentStage = gameState?.currentStage?.$type || gameState?.currentStage?.type || 'unknown';
+  const stage = gameState?.currentStage ?? null;
+  const currentStage = stage?.$type ?? 'unknown';
 
   // Game has not started if there's no stage or it's in 'init' stage
-  const gameNotStarted = !gameState?.currentStage || currentStage === 'init' || currentStage === 'unknown';
+  const gameNotStarted = !stage || currentStage === 'init';
+
+  const turn = getTurnInfo({
+    stage,
+    roundBets,
+    players: roomPlayers,
+    hands,
+    userId: user?.id,
+    rules: gameConfig,
+    now: serverClock.now(),
+  });
+  // the hole card stays face down until the dealer's turn
+  const dealerUpcard = dealerHand?.cards.find((card) => !card.isFaceDown) ?? null;
+  const advice =
+    advisor.enabled && turn.isMyTurn && turn.hand && dealerUpcard
+      ? getBasicStrategyMove(turn.hand.cards, dealerUpcard, gameConfig, turn.legal)
+      : null;
+  // the host stopped the timers, nobody can act until they resume
+  const paused = !!gameState?.pausedAt;
+  const pausedNotice = (
+    <div className="bg-yellow-900/30 border border-yellow-600 rounded-lg p-3 text-center">
+      <p className="text-yellow-300 font-semibold">Paused by the host</p>
+    </div>
+  );
 
   // Debug logging
   console.log('[GameClient] Render - gameState:', gameState);
@@ -329,6 +443,7 @@ export default function GameClient({ roomId }) {
             <p className="text-yellow-100/60 text-sm font-mono">Room ID: {roomId.substring(0, 8)}...</p>
           </div>
           <div className="flex items-center gap-4">
+            <ConnectionIndicator status={connectionStatus} onRetry={() => connectionRef.current?.reconnect()} />
             <div
               className={`px-3 py-1 rounded text-sm font-semibold ${
                 room?.isActive
@@ -338,11 +453,12 @@ export default function GameClient({ roomId }) {
             >
               {room?.isActive ? 'Active' : 'Waiting'}
             </div>
+            {isHost && <InviteMenu roomId={roomId} invites={api.invites} notify={notify} />}
             <button
               onClick={handleLeaveRoom}
               className="px-4 py-2 bg-red-600/80 text-white font-bold rounded-lg hover:bg-red-700 border-2 border-red-700"
             >
-              Leave
+              {isSpectator ? 'Back to Rooms' : 'Leave'}
             </button>
           </div>
         </div>
@@ -377,7 +493,18 @@ export default function GameClient({ roomId }) {
                     <span className="text-yellow-100/60">Min Bet:</span>
                     <span className="text-yellow-200 ml-2 font-bold">${gameConfig.minBet}</span>
                   </div>
+                  {maxBet !== null && (
+                    <div>
+                      <span className="text-yellow-100/60">Max Bet:</span>
+                      <span className="text-yellow-200 ml-2 font-bold">${maxBet}</span>
+                    </div>
+                  )}
                 </div>
+                <ul className="mt-3 space-y-1 text-xs text-yellow-100/80 list-disc list-inside">
+                  {describeRules(gameConfig).map((rule) => (
+                    <li key={rule}>{rule}</li>
+                  ))}
+                </ul>
               </div>
             )}
 
@@ -391,6 +518,26 @@ export default function GameClient({ roomId }) {
               </button>
             )}
 
+            {/* Spectating */}
+            {isSpectator && (
+              <div className="bg-purple-900/20 border border-purple-700 rounded-lg p-4 mb-4 flex items-center justify-between gap-4 flex-wrap">
+                <p className="text-purple-200 text-sm">
+                  You are watching this table.
+                  {!canTakeSeat(view) &&
+                    (roomPlayers.filter(isSeated).length >= (room?.maxPlayers ?? 0)
+                      ? ' All seats are taken.'
+                      : ' You can take a seat once this round is over.')}
+                </p>
+                <button
+                  onClick={handleTakeSeat}
+                  disabled={!canTakeSeat(view) || takingSeat}
+                  className="px-4 py-2 bg-purple-600 text-white font-bold rounded-lg hover:bg-purple-700 border-2 border-purple-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {takingSeat ? 'Taking Seat...' : 'Take a Seat'}
+                </button>
+              </div>
+            )}
+
             {/* Waiting for Host to Start */}
             {!isHost && gameNotStarted && (
               <div className="bg-blue-900/20 border border-blue-700 rounded-lg p-4 text-center">
@@ -399,12 +546,17 @@ export default function GameClient({ roomId }) {
             )}
           </div>
 
-          {/* Player Actions */}
+          {/* Cards */}
           {room?.isActive && !gameNotStarted && (
+            <CardTable dealerHand={dealerHand} hands={hands} players={roomPlayers} currentUserId={user?.id} />
+          )}
+
+          {/* Player Actions */}
+          {room?.isActive && !gameNotStarted && !isSpectator && (
             <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-6">
               <h2 className="text-xl font-bold text-yellow-400 mb-4">Player Actions</h2>
 
-              {currentStage === 'betting' && (
+              {stage?.$type === 'betting' && (
                 <div className="space-y-4">
                   {/* Player Balance */}
                   {roomPlayers.find((p) => p.userId === user?.id) && (
@@ -419,18 +571,22 @@ export default function GameClient({ roomId }) {
                   )}
 
                   {/* Betting Deadline Timer */}
-                  {gameState?.currentStage?.deadline && (
-                    <div className="bg-red-900/20 border border-red-700 rounded-lg p-2 text-center">
-                      <span className="text-red-300 text-sm">
-                        Betting closes: {new Date(gameState.currentStage.deadline).toLocaleTimeString()}
-                      </span>
-                    </div>
-                  )}
+                  {paused
+                    ? pausedNotice
+                    : stage.deadline && (
+                        <Countdown
+                          label="Betting closes in"
+                          deadline={stage.deadline}
+                          now={serverClock.now}
+                          expiredLabel="Betting closed, starting round..."
+                        />
+                      )}
 
                   {/* Bet Amount Input */}
                   <div>
                     <label className="block text-yellow-100 mb-2 font-semibold">
-                      Bet Amount (Min: ${gameConfig?.minBet || 10})
+                      Bet Amount (Min: ${gameConfig?.minBet || 10}
+                      {maxBet !== null && `, Max: $${maxBet}`})
                     </label>
                     <input
                       type="number"
@@ -438,7 +594,7 @@ export default function GameClient({ roomId }) {
                       onChange={(e) => setBetAmount(parseInt(e.target.value))}
                       min={gameConfig?.minBet || 10}
                       step="10"
-                      max={roomPlayers.find((p) => p.userId === user?.id)?.balance || 1000}
+                      max={betLimit(roomPlayers.find((p) => p.userId === user?.id)?.balance || 1000)}
                       className="w-full px-4 py-2 rounded bg-black/60 border border-yellow-700 text-yellow-100 focus:outline-none focus:ring-2 focus:ring-yellow-500"
                     />
                   </div>
@@ -452,19 +608,21 @@ export default function GameClient({ roomId }) {
                       Min
                     </button>
                     <button
-                      onClick={() => setBetAmount((gameConfig?.minBet || 10) * 2)}
+                      onClick={() => setBetAmount(betLimit((gameConfig?.minBet || 10) * 2))}
                       className="py-2 px-3 bg-yellow-900/40 hover:bg-yellow-900/60 border border-yellow-700 text-yellow-300 rounded text-sm font-semibold transition"
                     >
                       2x
                     </button>
                     <button
-                      onClick={() => setBetAmount((gameConfig?.minBet || 10) * 5)}
+                      onClick={() => setBetAmount(betLimit((gameConfig?.minBet || 10) * 5))}
                       className="py-2 px-3 bg-yellow-900/40 hover:bg-yellow-900/60 border border-yellow-700 text-yellow-300 rounded text-sm font-semibold transition"
                     >
                       5x
                     </button>
                     <button
-                      onClick={() => setBetAmount(roomPlayers.find((p) => p.userId === user?.id)?.balance || 1000)}
+                      onClick={() =>
+                        setBetAmount(betLimit(roomPlayers.find((p) => p.userId === user?.id)?.balance || 1000))
+                      }
                       className="py-2 px-3 bg-yellow-900/40 hover:bg-yellow-900/60 border border-yellow-700 text-yellow-300 rounded text-sm font-semibold transition"
                     >
                       All In
@@ -474,17 +632,18 @@ export default function GameClient({ roomId }) {
                   {/* Place Bet Button */}
                   <button
                     onClick={handlePlaceBet}
-                    className="w-full py-3 bg-gradient-to-r from-yellow-400 via-yellow-500 to-yellow-600 text-black font-bold rounded-lg hover:from-yellow-500 hover:to-yellow-700 transition-all duration-200 border-2 border-yellow-700 shadow-md"
+                    disabled={!!pendingAction || paused}
+                    className="w-full py-3 bg-gradient-to-r from-yellow-400 via-yellow-500 to-yellow-600 text-black font-bold rounded-lg hover:from-yellow-500 hover:to-yellow-700 transition-all duration-200 border-2 border-yellow-700 shadow-md disabled:opacity-60 disabled:cursor-wait"
                   >
-                    Place Bet ${betAmount}
+                    {pendingAction === 'bet' ? 'Placing Bet...' : `Place Bet $${betAmount}`}
                   </button>
 
                   {/* Show who has bet */}
-                  {gameState?.currentStage?.bets && Object.keys(gameState.currentStage.bets).length > 0 && (
+                  {Object.keys(stage.bets).length > 0 && (
                     <div className="bg-green-900/20 border border-green-700 rounded-lg p-3">
                       <p className="text-green-300 text-sm mb-2 font-semibold">Bets Placed:</p>
                       <div className="space-y-1">
-                        {Object.entries(gameState.currentStage.bets).map(([playerId, amount]) => {
+                        {Object.entries(stage.bets).map(([playerId, amount]) => {
                           const player = roomPlayers.find((p) => p.id === playerId);
                           return (
                             <div key={playerId} className="flex justify-between text-sm">
@@ -499,20 +658,27 @@ export default function GameClient({ roomId }) {
                 </div>
               )}
 
-              {currentStage === 'player_action' && (
-                <div className="flex gap-4">
-                  <button
-                    onClick={handleHit}
-                    className="flex-1 py-3 bg-gradient-to-r from-blue-400 via-blue-500 to-blue-600 text-white font-bold rounded-lg hover:from-blue-500 hover:to-blue-700 transition-all duration-200 border-2 border-blue-700 shadow-md"
-                  >
-                    Hit
-                  </button>
-                  <button
-                    onClick={handleStand}
-                    className="flex-1 py-3 bg-gradient-to-r from-red-400 via-red-500 to-red-600 text-white font-bold rounded-lg hover:from-red-500 hover:to-red-700 transition-all duration-200 border-2 border-red-700 shadow-md"
-                  >
-                    Stand
-                  </button>
+              {stage?.$type === 'player_action' && (
+                <div className="space-y-4">
+                  {paused ? (
+                    pausedNotice
+                  ) : (
+                    <>
+                      <Countdown
+                        key={`${stage.playerIndex}-${stage.handIndex}`}
+                        label={turn.isMyTurn ? 'Your turn ends in' : 'Turn ends in'}
+                        deadline={stage.deadline}
+                        now={serverClock.now}
+                        expiredLabel="Auto-standing..."
+                      />
+                      <ActionBar
+                        turn={turn}
+                        onAction={handlePlayerAction}
+                        pendingAction={pendingAction}
+                        recommended={advice?.action}
+                      />
+                    </>
+                  )}
                 </div>
               )}
 
@@ -525,10 +691,25 @@ export default function GameClient({ roomId }) {
 
         {/* Sidebar */}
         <div className="space-y-4">
+          {isHost && (
+            <HostPanel
+              roomId={roomId}
+              rooms={api.rooms}
+              notify={notify}
+              hostId={user.id}
+              players={roomPlayers}
+              config={gameConfig}
+              pendingConfig={gameState?.pendingConfig}
+              gameStarted={!gameNotStarted}
+              paused={paused}
+              canPause={currentStage === 'betting' || currentStage === 'player_action'}
+            />
+          )}
+
           {/* Players List */}
           <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4">
             <h2 className="text-xl font-bold text-yellow-400 mb-4">
-              Players ({roomPlayers.length}/{room?.maxPlayers || '?'})
+              Players ({roomPlayers.filter(isSeated).length}/{room?.maxPlayers || '?'})
             </h2>
             <div className="space-y-2">
               {roomPlayers.length === 0 ? (
@@ -544,8 +725,13 @@ export default function GameClient({ roomId }) {
                           {player.userId === room?.hostId && (
                             <span className="ml-2 text-xs text-green-400">(Host)</span>
                           )}
+                          {player.botPolicy && <span className="ml-2 text-xs text-cyan-300">(Bot)</span>}
+                        </p>
+                        <p className="text-yellow-100/60 text-xs">
+                          {player.botPolicy
+                            ? `Played by the server: ${getBotPolicyLabel(player.botPolicy)}`
+                            : player.userEmail}
                         </p>
-                        <p className="text-yellow-100/60 text-xs">{player.userEmail}</p>
                         <p className="text-yellow-100/40 text-xs font-mono">ID: {player.userId.substring(0, 8)}...</p>
                       </div>
                       <div className="text-right">
@@ -565,37 +751,63 @@ export default function GameClient({ roomId }) {
             </div>
           </div>
 
-          {/* Chat */}
-          <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4">
-            <h2 className="text-xl font-bold text-yellow-400 mb-4">Chat</h2>
-            <div className="bg-black/60 rounded-lg p-3 h-64 overflow-y-auto mb-4">
-              {messages.length === 0 ? (
-                <p className="text-yellow-100/40 text-sm text-center">No messages yet</p>
-              ) : (
-                messages.map((msg, idx) => (
-                  <div key={idx} className="text-yellow-100 text-sm mb-2">
-                    <span className="font-bold text-yellow-300">{msg.sender}: </span>
-                    <span>{msg.content}</span>
-                  </div>
-                ))
-              )}
+          {/* Strategy Advisor */}
+          {!isSpectator && (
+            <StrategyAdvisor
+              session={advisor}
+              advice={advice}
+              onToggle={() => setAdvisor((session) => ({ ...session, enabled: !session.enabled }))}
+              onReset={() => setAdvisor((session) => ({ ...INITIAL_ADVISOR_SESSION, enabled: session.enabled }))}
+            />
+          )}
+
+          {/* Table Leaderboard */}
+          <RoomLeaderboard
+            players={roomPlayers}
+            startingBalance={gameConfig?.startingBalance ?? DEFAULT_BLACKJACK_CONFIG.startingBalance}
+            currentUserId={user?.id}
+          />
+
+          {/* Spectators */}
+          {spectators.length > 0 && (
+            <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-4">
+              <h2 className="text-xl font-bold text-yellow-400 mb-4">Spectators ({spectators.length})</h2>
+              <ul className="flex flex-wrap gap-2">
+                {spectators.map((spectator) => (
+                  <li
+                    key={spectator.userId}
+                    className="px-2 py-1 rounded bg-purple-900/30 border border-purple-700 text-purple-200 text-sm"
+                  >
+                    {spectator.userName}
+                    {spectator.userId === user?.id && <span className="ml-1 text-xs text-purple-400">(You)</span>}
+                  </li>
+                ))}
+              </ul>
             </div>
-            <form onSubmit={handleSendMessage} className="flex gap-2">
-              <input
-                type="text"
-                value={chatMessage}
-                onChange={(e) => setChatMessage(e.target.value)}
-                placeholder="Type a message..."
-                className="flex-1 px-3 py-2 rounded bg-black/60 border border-yellow-700 text-yellow-100 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
-              />
-              <button
-                type="submit"
-                className="px-4 py-2 bg-yellow-600 text-black font-bold rounded-lg hover:bg-yellow-700"
-              >
-                Send
-              </button>
-            </form>
-          </div>
+          )}
+
+          {/* Chat */}
+          <ChatPanel
+            roomId={roomId}
+            rooms={api.rooms}
+            notify={notify}
+            messages={messages}
+            mutedUserIds={mutedUserIds}
+            currentUserId={user?.id}
+            currentUserName={user?.name}
+            names={[...roomPlayers.map((player) => player.userName), ...store.viewers.map((viewer) => viewer.userName)]}
+            isHost={!!isHost}
+          />
+
+          {/* Game Log */}
+          <GameLogPanel
+            roomId={roomId}
+            log={gameLog}
+            resolveName={(playerId) => roomPlayers.find((p) => p.userId === playerId)?.userName}
+          />
+
+          {/* Round History */}
+          <RoundHistoryPanel roomId={roomId} rooms={api.rooms} notify={notify} currentUserId={user?.id} />
 
           {/* Game State Debug */}
           {gameState && (
@@ -611,3 +823,25 @@ export default function GameClient({ roomId }) {
     </div>
   );
 }
+
+const CONNECTION_LABELS: Record<ConnectionStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting...', className: 'bg-blue-600/20 text-blue-300 border border-blue-600' },
+  connected: { label: 'Live', className: 'bg-green-600/20 text-green-300 border border-green-600' },
+  reconnecting: { label: 'Reconnecting...', className: 'bg-yellow-600/20 text-yellow-300 border border-yellow-600' },
+  offline: { label: 'Offline', className: 'bg-red-600/20 text-red-300 border border-red-600' },
+};
+
+function ConnectionIndicator({ status, onRetry }: { status: ConnectionStatus; onRetry: () => void }) {
+  const { label, className } = CONNECTION_LABELS[status];
+
+  return (
+    <div className={`flex items-center gap-2 px-3 py-1 rounded text-sm font-semibold ${className}`}>
+      <span>{label}</span>
+      {status === 'offline' && (
+        <button onClick={onRetry} className="underline hover:text-red-100">
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
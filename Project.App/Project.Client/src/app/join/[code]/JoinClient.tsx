@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { api } from '@/lib/api/ApiClient';
+import { isAbortError } from '@/lib/api/ApiErrors';
+import { formatInviteCode } from '@/lib/invites/Invites';
+
+export default function JoinClient({ code }: { code: string }) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  // joining again with a code we already used is harmless, it only counts once
+  useEffect(() => {
+    const controller = new AbortController();
+
+    api.invites
+      .join(code, { signal: controller.signal })
+      .then((room) => router.replace(`/game/${room.id}`))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('[JoinClient] Failed to join with invite:', err);
+        setError(err.message);
+      });
+
+    return () => controller.abort();
+  }, [code, router]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-emerald-900 flex items-center justify-center">
+      {error ? (
+        <div className="bg-black/80 border-2 border-red-600 rounded-xl p-8 max-w-md">
+          <h2 className="text-2xl font-bold text-red-400 mb-4">Couldn&apos;t Join</h2>
+          <p className="text-yellow-100 mb-4">{error}</p>
+          <button
+            onClick={() => router.push('/rooms')}
+            className="px-4 py-2 bg-yellow-600 text-black font-bold rounded-lg hover:bg-yellow-700"
+          >
+            Back to Rooms
+          </button>
+        </div>
+      ) : (
+        <div className="text-yellow-100 text-2xl">
+          Joining with invite <span className="font-mono">{formatInviteCode(code)}</span>...
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import { use } from 'react';
+import JoinClient from './JoinClient';
+
+export default function JoinPage({ params }) {
+  const { code } = use(params);
+
+  return <JoinClient code={code} />;
+}
@@ -1,5 +1,6 @@
 import { Geist, Geist_Mono } from 'next/font/google';
 import NavBar from './components/NavBar';
+import { NotificationProvider } from './components/Notifications';
 import './globals.css';
 
 const geistSans = Geist({
@@ -26,8 +27,10 @@ export default function RootLayout({ children }) {
   return (
     <html lang="en">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
-        <NavBar />
-        <div className="pt-16">{children}</div>
+        <NotificationProvider>
+          <NavBar />
+          <div className="pt-16">{children}</div>
+        </NotificationProvider>
       </body>
     </html>
   );
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import LeaderboardPanel from '../components/LeaderboardPanel';
+import { useNotifications } from '../components/Notifications';
+import { api } from '@/lib/api/ApiClient';
+import { isAbortError } from '@/lib/api/ApiErrors';
+
+export default function LeaderboardClient() {
+  const { notify } = useNotifications();
+  const [userId, setUserId] = useState(null);
+
+  // only to pick out the user's own entry, the leaderboard loads either way
+  useEffect(() => {
+    const controller = new AbortController();
+    api.users
+      .me({ signal: controller.signal })
+      .then((data) => setUserId(data.id))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('[LeaderboardClient] Failed to load the current user:', err);
+      });
+    return () => controller.abort();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-emerald-900 p-8 flex flex-col items-center gap-6">
+      <h1 className="text-3xl font-bold bg-gradient-to-b from-yellow-400 via-yellow-500 to-yellow-600 bg-clip-text text-transparent">
+        Leaderboard
+      </h1>
+      <div className="w-full max-w-3xl">
+        <LeaderboardPanel leaderboard={api.leaderboard} notify={notify} currentUserId={userId} />
+      </div>
+    </div>
+  );
+}
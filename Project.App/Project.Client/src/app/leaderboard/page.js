@@ -0,0 +1,7 @@
+'use client';
+
+import LeaderboardClient from './LeaderboardClient';
+
+export default function Leaderboard() {
+  return <LeaderboardClient />;
+}
@@ -1,22 +1,23 @@
 'use client';
 
+import { api } from '@/lib/api/ApiClient';
+
 export default function Login() {
   // Click handler for "Sign in with Google"
   const handleGoogleSignIn = () => {
     console.log('Google sign-in clicked');
 
-    // API base HTTPS in dev. Set NEXT_PUBLIC_API_URL in .env.local, else fallback.
-    const apiBaseUrl = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
-
-    // Where to land in the SPA after successful login
-    const returnUrl = `${window.location.origin}/rooms`; // e.g., http://localhost:3000/rooms
+    // Where to land in the SPA after successful login, the page that sent us here if any
+    const next = new URLSearchParams(window.location.search).get('next');
+    const path = next?.startsWith('/') && !next.startsWith('//') ? next : '/rooms'; // only our own pages
+    const returnUrl = `${window.location.origin}${path}`; // e.g., http://localhost:3000/rooms
 
-    console.log('API Base URL:', apiBaseUrl);
+    const loginUrl = api.auth.loginUrl(returnUrl);
     console.log('Return URL:', returnUrl);
-    console.log('Full login URL:', `${apiBaseUrl}/auth/login?returnUrl=${encodeURIComponent(returnUrl)}`);
+    console.log('Full login URL:', loginUrl);
 
     // Send the browser to your backend auth endpoint with a safe returnUrl
-    window.location.href = `${apiBaseUrl}/auth/login?returnUrl=${encodeURIComponent(returnUrl)}`;
+    window.location.href = loginUrl;
   };
 
   return (
@@ -2,10 +2,13 @@ import { NextResponse } from 'next/server';
 
 export function middleware(request) {
   const authCookie = request.cookies.get('.AspNetCore.Cookies');
-  const protectedPaths = ['/rooms', '/player', '/game'];
+  const protectedPaths = ['/rooms', '/player', '/game', '/join', '/leaderboard'];
 
   if (protectedPaths.some((path) => request.nextUrl.pathname.startsWith(path)) && !authCookie) {
-    return NextResponse.redirect(new URL('/login', request.url));
+    // come back here after logging in, e.g. to an invite link
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+    return NextResponse.redirect(loginUrl);
   }
 
   return NextResponse.next();
@@ -4,85 +4,91 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import AddCreditsModal from '../../components/AddCreditsModal';
+import PlayerStatsPanel from '../../components/PlayerStatsPanel';
+import { useNotifications } from '../../components/Notifications';
+import { api } from '@/lib/api/ApiClient';
+import { isAbortError } from '@/lib/api/ApiErrors';
 
 export default function PlayerClient({ _id, _initialBalance }) {
   const router = useRouter();
-  const [playerName, setPlayerName] = useState('Danny Devito');
+  const { notify } = useNotifications();
+  const [playerName, setPlayerName] = useState('');
   const [playerId, setPlayerId] = useState('');
-  const [avatarUrl, setAvatarUrl] = useState(
-    'https://www.shutterstock.com/editorial/image-editorial/NeTeY724MeD5Q1weMTgxMw==/danny-devito-440nw-5624612ab.jpg',
-  );
-  const [balance, setBalance] = useState(2089234500);
+  const [avatarUrl, setAvatarUrl] = useState(null);
+  const [balance, setBalance] = useState(null);
+  const [stats, setStats] = useState(null);
+  const [isLoadingStats, setIsLoadingStats] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [creditsToAdd, setCreditsToAdd] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingUser, setIsLoadingUser] = useState(true); // Track initial load
 
-  const API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
-
   // Client-side auth guard and fetch user data
   useEffect(() => {
+    const controller = new AbortController();
     setIsLoadingUser(true);
-    fetch(`${API_URL}/api/user/me`, { credentials: 'include' })
-      .then((res) => {
-        if (!res.ok) {
-          router.replace('/login');
-        } else {
-          return res.json();
-        }
-      })
+    api.users
+      .me({ signal: controller.signal })
       .then((data) => {
-        if (data) {
-          console.log('Authenticated user:', data);
-          setPlayerName(data.name);
-          setPlayerId(data.id);
-          setBalance(data.balance);
-          setAvatarUrl(data.avatarUrl);
-        }
+        console.log('Authenticated user:', data);
+        setPlayerName(data.name);
+        setPlayerId(data.id);
+        setBalance(data.balance);
+        setAvatarUrl(data.avatarUrl);
+        setIsLoadingUser(false);
       })
       .catch((err) => {
+        if (isAbortError(err)) return;
         console.error('Auth check failed:', err);
         router.replace('/login');
-      })
-      .finally(() => {
         setIsLoadingUser(false);
       });
-  }, [router, API_URL]);
+
+    return () => controller.abort();
+  }, [router]);
+
+  // statistics of the logged-in user, once we know who that is
+  useEffect(() => {
+    if (!playerId) return;
+    const controller = new AbortController();
+    setIsLoadingStats(true);
+    api.users
+      .getStats(playerId, { signal: controller.signal })
+      .then((data) => {
+        setStats(data);
+        setIsLoadingStats(false);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('Failed to load statistics:', err);
+        notify({ severity: 'error', message: err.message });
+        setIsLoadingStats(false);
+      });
+
+    return () => controller.abort();
+  }, [playerId, notify]);
 
   const handleAddCredits = async (e) => {
     e.preventDefault();
     const amount = parseFloat(creditsToAdd);
 
     if (!playerId) {
-      alert('Player ID not loaded. Please refresh the page.');
+      notify({ severity: 'warning', message: 'Player ID not loaded. Please refresh the page.' });
       return;
     }
 
     if (isNaN(amount) || amount <= 0) {
-      alert('Please enter a valid amount greater than 0');
+      notify({ severity: 'warning', message: 'Please enter a valid amount greater than 0' });
       return;
     }
 
-    const newBalance = balance + amount;
+    const newBalance = (balance ?? 0) + amount;
 
     setIsLoading(true);
 
     try {
       console.log('New total shold be:', newBalance);
-      const response = await fetch(`${API_URL}/api/user/${playerId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ balance: newBalance }),
-      });
-      console.log('Add credits response status:', response.status);
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to add credits');
-      }
+      await api.users.updateBalance(playerId, newBalance);
 
       //const data = await response.json();
       //console.log('Credits added successfully. New balance:', data.balance);
@@ -91,9 +97,10 @@ export default function PlayerClient({ _id, _initialBalance }) {
       setBalance(newBalance);
       setCreditsToAdd('');
       setShowModal(false);
+      notify({ severity: 'success', message: `Added $${amount.toLocaleString()} in credits` });
     } catch (error) {
       console.error('Error adding credits:', error);
-      alert(`Failed to add credits: ${error.message}`);
+      notify({ severity: 'error', title: "Couldn't add credits", message: error.message });
     } finally {
       setIsLoading(false);
     }
@@ -106,16 +113,22 @@ export default function PlayerClient({ _id, _initialBalance }) {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-emerald-900 p-8 relative overflow-hidden flex items-center justify-center">
-      <div className="flex flex-col items-center justify-center w-full max-w-md mx-auto">
-        <Image
-          src={avatarUrl}
-          alt="Description of my image"
-          width={128}
-          height={128}
-          className="w-32 h-32 mb-4 rounded-full overflow-hidden border-4 border-yellow-600 shadow-lg"
-        />
+      <div className="flex flex-col items-center justify-center w-full max-w-2xl mx-auto">
+        {avatarUrl ? (
+          <Image
+            src={avatarUrl}
+            alt={`${playerName}'s avatar`}
+            width={128}
+            height={128}
+            className="w-32 h-32 mb-4 rounded-full overflow-hidden border-4 border-yellow-600 shadow-lg"
+          />
+        ) : (
+          <div className="w-32 h-32 mb-4 rounded-full border-4 border-yellow-600 bg-black/50 flex items-center justify-center text-5xl font-bold text-yellow-400">
+            {playerName.charAt(0).toUpperCase()}
+          </div>
+        )}
         <h1 className="text-4xl font-bold bg-gradient-to-b from-yellow-400 via-yellow-500 to-yellow-600 bg-clip-text text-transparent mb-4 text-center">
-          {playerName}
+          {isLoadingUser ? 'Loading...' : playerName}
         </h1>
         {/* Player Credits */}
         <div className="bg-black/50 rounded-lg p-4 mb-6 border border-yellow-600 max-w-xs w-full text-center">
@@ -133,6 +146,11 @@ export default function PlayerClient({ _id, _initialBalance }) {
         >
           Add Credits
         </button>
+
+        {/* Statistics */}
+        <div className="w-full mt-8">
+          <PlayerStatsPanel stats={stats} loading={isLoadingStats} />
+        </div>
       </div>
 
       <AddCreditsModal
@@ -1,199 +1,247 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import CreateGameForm from '../components/CreateGameForm';
+import { useNotifications } from '../components/Notifications';
+import { api } from '@/lib/api/ApiClient';
+import { ApiError, isAbortError } from '@/lib/api/ApiErrors';
+import {
+  applyLobbyEvent,
+  applyLobbyEventToMine,
+  DEFAULT_ROOM_QUERY,
+  GAME_MODES,
+  LOBBY_EVENT_TYPES,
+} from '@/lib/lobby/Lobby';
+import { createRoomConnection } from '@/lib/sse/RoomConnection';
+
+const SORT_OPTIONS = [
+  { value: 'CreatedAt', label: 'Newest' },
+  { value: 'MinBet', label: 'Min bet' },
+  { value: 'Players', label: 'Players' },
+  { value: 'FreeSeats', label: 'Free seats' },
+];
+
+// bursts of lobby events, e.g. a round starting in several rooms, only reload the page once
+const REFETCH_DELAY_MS = 500;
+
+const parseBetFilter = (value) => (value === '' ? null : Math.max(0, Number(value)));
 
 export default function RoomsClient() {
   const router = useRouter();
+  const { notify } = useNotifications();
   const [userId, setUserId] = useState(null);
   const [rooms, setRooms] = useState([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [myRooms, setMyRooms] = useState([]); // open rooms the user hosts or has a seat in
+  const [query, setQuery] = useState(DEFAULT_ROOM_QUERY);
   const [joiningRoomId, setJoiningRoomId] = useState(null);
   const [isLoadingRooms, setIsLoadingRooms] = useState(true);
-  const [userRooms, setUserRooms] = useState([]); // Rooms the user is already in
 
-  // Fetch rooms the user is already in
-  const fetchUserRooms = async () => {
-    if (!userId) return;
+  // the lobby stream outlives filter changes, it reads the latest values through these
+  const roomsRef = useRef(rooms);
+  const myRoomsRef = useRef(myRooms);
+  const queryRef = useRef(query);
+  roomsRef.current = rooms;
+  myRoomsRef.current = myRooms;
+  queryRef.current = query;
 
+  const loadRooms = useCallback(async (roomQuery, signal) => {
     try {
-      const API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
-      // Check if user has an active room they're hosting or participating in
-      // Only check ACTIVE rooms to avoid showing user as "in game" after leaving
-      const response = await fetch(`${API_URL}/api/room/active`, {
-        credentials: 'include',
-        cache: 'no-store',
-      });
-
-      if (response.ok) {
-        const activeRooms = await response.json();
-        // Find active rooms where user is either host or a player
-        const myRooms = [];
-
-        for (const room of activeRooms) {
-          if (room.hostId === userId) {
-            myRooms.push(room.id);
-            continue;
-          }
-
-          // Check if user is a player in this room
-          try {
-            const playersRes = await fetch(`${API_URL}/api/room/${room.id}/players`, {
-              credentials: 'include',
-              cache: 'no-store', // Ensure fresh data
-            });
-            if (playersRes.ok) {
-              const players = await playersRes.json();
-              if (players.some((p) => p.userId === userId)) {
-                console.log(`[fetchUserRooms] User ${userId} is in room ${room.id}`);
-                myRooms.push(room.id);
-              }
-            }
-          } catch (e) {
-            console.error('Error checking room players:', e);
-          }
-        }
+      const result = await api.rooms.browse(roomQuery, { signal });
+      const lastPage = Math.max(1, Math.ceil(result.totalCount / result.pageSize));
 
-        console.log(`[fetchUserRooms] User rooms found:`, myRooms);
-        setUserRooms(myRooms);
+      // rooms closing can leave us past the last page
+      if (result.items.length === 0 && result.page > lastPage) {
+        setQuery((prev) => ({ ...prev, page: lastPage }));
+        return;
       }
+
+      setRooms(result.items);
+      setTotalCount(result.totalCount);
     } catch (error) {
-      console.error('Error fetching user rooms:', error);
+      if (isAbortError(error)) return;
+      console.error('Error loading rooms:', error);
+    } finally {
+      if (!signal?.aborted) setIsLoadingRooms(false);
     }
-  };
+  }, []);
 
-  // Fetch rooms
-  const handleRefreshRooms = async () => {
+  const loadMyRooms = useCallback(async (signal) => {
     try {
-      const API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
-      const response = await fetch(`${API_URL}/api/room/public`, {
-        credentials: 'include',
-        cache: 'no-store',
-      });
-
-      if (response.ok) {
-        const updatedRooms = await response.json();
-        // Filter to only show active rooms (extra safety check)
-        const activeRooms = updatedRooms.filter((room) => room.isActive);
-        setRooms(activeRooms);
-        setIsLoadingRooms(false);
-      }
-
-      // Also fetch user's rooms
-      await fetchUserRooms();
+      setMyRooms(await api.rooms.listMine({ signal }));
     } catch (error) {
-      console.error('Error refreshing rooms:', error);
-      setIsLoadingRooms(false);
+      if (isAbortError(error)) return;
+      console.error('Error loading your rooms:', error);
     }
-  };
+  }, []);
+
+  const handleRefreshRooms = useCallback(
+    () => Promise.all([loadRooms(queryRef.current), loadMyRooms()]),
+    [loadRooms, loadMyRooms],
+  );
 
   useEffect(() => {
-    const apiBaseUrl = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
+    const controller = new AbortController();
     console.log('[RoomsClient] Checking authentication...');
 
-    fetch(`${apiBaseUrl}/api/user/me`, { credentials: 'include' })
-      .then((res) => {
-        console.log('[RoomsClient] Auth response status:', res.status);
-        if (!res.ok) {
-          console.log('[RoomsClient] Not authenticated, redirecting to /login');
-          router.replace('/login');
-        } else {
-          return res.json();
-        }
-      })
+    api.users
+      .me({ signal: controller.signal })
       .then((data) => {
-        if (data) {
-          console.log('[RoomsClient] ✅ Authenticated as:', data.name);
-          console.log('[RoomsClient] Full user data:', data);
-          setUserId(data.id);
-          // Fetch rooms after authentication
-          handleRefreshRooms();
-        }
+        console.log('[RoomsClient] ✅ Authenticated as:', data.name);
+        setUserId(data.id);
       })
       .catch((err) => {
+        if (isAbortError(err)) return;
         console.error('[RoomsClient] Auth check failed:', err);
         router.replace('/login');
       });
+
+    return () => controller.abort();
   }, [router]);
 
-  // Auto-refresh rooms every 5 seconds
   useEffect(() => {
-    const interval = setInterval(() => {
-      handleRefreshRooms();
-    }, 5000);
+    if (!userId) return;
 
-    return () => clearInterval(interval);
-  }, []);
+    const controller = new AbortController();
+    loadRooms(query, controller.signal);
+    return () => controller.abort();
+  }, [userId, query, loadRooms]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const controller = new AbortController();
+    loadMyRooms(controller.signal);
+    return () => controller.abort();
+  }, [userId, loadMyRooms]);
+
+  // rooms opening, filling up and closing are pushed by the server instead of polled
+  useEffect(() => {
+    if (!userId) return;
+
+    let roomsTimer = null;
+    let myRoomsTimer = null;
+    const scheduleRoomsRefetch = () => {
+      clearTimeout(roomsTimer);
+      roomsTimer = setTimeout(() => loadRooms(queryRef.current), REFETCH_DELAY_MS);
+    };
+    const scheduleMyRoomsRefetch = () => {
+      clearTimeout(myRoomsTimer);
+      myRoomsTimer = setTimeout(() => loadMyRooms(), REFETCH_DELAY_MS);
+    };
+
+    const connection = createRoomConnection({
+      url: api.rooms.lobbyEventsUrl(),
+      eventTypes: [...LOBBY_EVENT_TYPES, 'resync'],
+      onEvent: (event) => {
+        if (event.type === 'resync') {
+          handleRefreshRooms();
+          return;
+        }
+
+        let data;
+        try {
+          data = JSON.parse(event.data);
+        } catch (error) {
+          console.error('[Lobby] Unreadable event:', error);
+          return;
+        }
+
+        const page = applyLobbyEvent(roomsRef.current, event.type, data, queryRef.current);
+        if (page.rooms !== roomsRef.current) setRooms(page.rooms);
+        if (page.refetch) scheduleRoomsRefetch();
+
+        const mine = applyLobbyEventToMine(myRoomsRef.current, event.type, data);
+        if (mine.rooms !== myRoomsRef.current) setMyRooms(mine.rooms);
+        if (mine.refetch) scheduleMyRoomsRefetch();
+      },
+      onResync: handleRefreshRooms,
+    });
+
+    return () => {
+      clearTimeout(roomsTimer);
+      clearTimeout(myRoomsTimer);
+      connection.close();
+    };
+  }, [userId, loadRooms, loadMyRooms, handleRefreshRooms]);
+
+  // any filter change starts over from the first page
+  const updateQuery = (changes) => setQuery((prev) => ({ ...prev, page: 1, ...changes }));
 
   const handleJoinRoom = async (roomId) => {
     if (!userId) {
-      alert('Please log in first');
+      notify({ severity: 'warning', message: 'Please log in first' });
       return;
     }
 
     setJoiningRoomId(roomId);
 
     try {
-      const API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
-
-      const response = await fetch(`${API_URL}/api/room/${roomId}/join`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({
-          userId: userId,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        console.log('[JoinRoom] Error response:', error);
-        console.log('[JoinRoom] Status code:', response.status);
-
-        // If already in room (409 Conflict), just redirect to the room
-        if (response.status === 409) {
-          // Check both 'detail' and 'Detail' (case-insensitive)
-          const errorMsg = (error.detail || error.Detail || error.message || error.title || '').toLowerCase();
-          console.log('[JoinRoom] Conflict error message:', errorMsg);
-
-          // Check if error is about already being in the room
-          if (errorMsg.includes('already') || errorMsg.includes('player')) {
-            console.log('[JoinRoom] Already in room, redirecting...');
-            router.push(`/game/${roomId}`);
-            return;
-          }
-        }
-
-        throw new Error(error.detail || error.Detail || error.message || error.title || 'Failed to join room');
-      }
-
-      const updatedRoom = await response.json();
+      const updatedRoom = await api.rooms.join(roomId, userId);
       console.log('Successfully joined room:', updatedRoom);
 
       // Redirect to the game room
       router.push(`/game/${roomId}`);
     } catch (error) {
+      // If already in room (409 Conflict), just redirect to the room
+      if (error instanceof ApiError && error.status === 409) {
+        const errorMsg = (error.problem.detail || error.problem.title || '').toLowerCase();
+        console.log('[JoinRoom] Conflict error message:', errorMsg);
+
+        // Check if error is about already being in the room
+        if (errorMsg.includes('already') || errorMsg.includes('player')) {
+          console.log('[JoinRoom] Already in room, redirecting...');
+          router.push(`/game/${roomId}`);
+          return;
+        }
+      }
+
       console.error('Error joining room:', error);
-      alert(`Failed to join room: ${error.message}`);
+      notify({ severity: 'error', title: "Couldn't join the room", message: error.message });
       setJoiningRoomId(null);
     }
   };
 
-  // Parse game config to get min bet
-  const getMinBet = (room) => {
-    try {
-      const config = JSON.parse(room.gameConfig);
-      return config.minBet || 0;
-    } catch {
-      return 0;
-    }
-  };
+  const myRoomIds = new Set(myRooms.map((room) => room.id));
+  const lastPage = Math.max(1, Math.ceil(totalCount / query.pageSize));
+  const hasFilters =
+    query.gameMode !== null || query.minBetFrom !== null || query.minBetTo !== null || query.hasFreeSeats;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-emerald-900 p-8 flex flex-col md:flex-row gap-8 relative overflow-hidden">
       <div className="flex-1 max-w-lg relative z-10">
-        <div className="flex items-center justify-between mb-6">
+        {myRooms.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold bg-gradient-to-b from-yellow-400 via-yellow-500 to-yellow-600 bg-clip-text text-transparent mb-4">
+              Rooms I&apos;m In
+            </h2>
+            <ul className="space-y-2">
+              {myRooms.map((room) => (
+                <li
+                  key={room.id}
+                  className="bg-black/80 border-2 border-blue-600 rounded-xl p-4 flex items-center justify-between"
+                >
+                  <div>
+                    <div className="text-yellow-200 font-bold">{room.description || 'Blackjack Game'}</div>
+                    <div className="text-yellow-100/60 text-xs">
+                      {room.hostId === userId ? 'You are hosting' : `Hosted by ${room.hostName}`} · {room.playerCount}/
+                      {room.maxPlayers} players
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => router.push(`/game/${room.id}`)}
+                    className="px-4 py-2 bg-gradient-to-r from-blue-400 via-blue-500 to-blue-600 text-white font-bold rounded-lg hover:from-blue-500 hover:to-blue-700 transition-all duration-200 border-2 border-blue-700 shadow-md"
+                  >
+                    Rejoin
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mb-4">
           <h2 className="text-2xl font-bold bg-gradient-to-b from-yellow-400 via-yellow-500 to-yellow-600 bg-clip-text text-transparent">
             Available Game Rooms
           </h2>
@@ -204,76 +252,178 @@ export default function RoomsClient() {
             Refresh
           </button>
         </div>
+
+        <div className="bg-black/60 border border-yellow-700 rounded-xl p-4 mb-4 grid grid-cols-2 gap-3 text-sm text-yellow-100/80">
+          <label>
+            Game mode
+            <select
+              value={query.gameMode ?? ''}
+              onChange={(e) => updateQuery({ gameMode: e.target.value || null })}
+              className="w-full mt-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+            >
+              <option value="">All</option>
+              {GAME_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Sort by
+            <div className="flex gap-1 mt-1">
+              <select
+                value={query.sortBy}
+                onChange={(e) => updateQuery({ sortBy: e.target.value })}
+                className="flex-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => updateQuery({ descending: !query.descending })}
+                aria-label={query.descending ? 'Sort ascending' : 'Sort descending'}
+                className="px-2 rounded bg-black border border-yellow-700 text-yellow-100"
+              >
+                {query.descending ? '↓' : '↑'}
+              </button>
+            </div>
+          </label>
+          <label>
+            Min bet from
+            <input
+              type="number"
+              min={0}
+              value={query.minBetFrom ?? ''}
+              onChange={(e) => updateQuery({ minBetFrom: parseBetFilter(e.target.value) })}
+              placeholder="Any"
+              className="w-full mt-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+            />
+          </label>
+          <label>
+            Min bet up to
+            <input
+              type="number"
+              min={0}
+              value={query.minBetTo ?? ''}
+              onChange={(e) => updateQuery({ minBetTo: parseBetFilter(e.target.value) })}
+              placeholder="Any"
+              className="w-full mt-1 px-2 py-1 rounded bg-black border border-yellow-700 text-yellow-100"
+            />
+          </label>
+          <label className="col-span-2 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={query.hasFreeSeats}
+              onChange={(e) => updateQuery({ hasFreeSeats: e.target.checked })}
+            />
+            Only rooms with free seats
+          </label>
+        </div>
+
         {isLoadingRooms ? (
           <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-8 text-center">
             <p className="text-yellow-100 text-lg">Loading rooms...</p>
           </div>
-        ) : rooms.filter((room) => !userRooms.includes(room.id)).length === 0 ? (
+        ) : rooms.length === 0 ? (
           <div className="bg-black/80 border-2 border-yellow-600 rounded-xl p-8 text-center">
-            <p className="text-yellow-100 text-lg mb-2">No rooms available</p>
-            <p className="text-yellow-300 text-sm mb-4">
-              {userRooms.length > 0 ? "You're already in a game!" : 'Create a new game to get started!'}
+            <p className="text-yellow-100 text-lg mb-2">
+              {hasFilters ? 'No rooms match your filters' : 'No rooms available'}
+            </p>
+            <p className="text-yellow-300 text-sm">
+              {hasFilters ? 'Try widening your search.' : 'Create a new game to get started!'}
             </p>
-            {userRooms.length > 0 && (
-              <button
-                onClick={() => router.push(`/game/${userRooms[0]}`)}
-                className="px-4 py-2 bg-gradient-to-r from-blue-400 via-blue-500 to-blue-600 text-white font-bold rounded-lg hover:from-blue-500 hover:to-blue-700 transition-all duration-200 border-2 border-blue-700 shadow-md"
-              >
-                Go to Your Game
-              </button>
-            )}
           </div>
         ) : (
           <ul className="space-y-4">
-            {rooms
-              .filter((room) => !userRooms.includes(room.id))
-              .map((room) => (
-                <li key={room.id} className="bg-black/80 border-2 border-yellow-600 rounded-xl p-5 shadow-lg">
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex-1">
-                      <div className="text-yellow-200 font-bold text-lg mb-1">
-                        {room.description || 'Blackjack Game'}
-                      </div>
-                      <div className="text-yellow-100/60 font-mono text-xs mb-2">ID: {room.id.substring(0, 8)}...</div>
-                    </div>
-                    <div
-                      className={`px-2 py-1 rounded text-xs font-semibold ${
-                        room.isActive
-                          ? 'bg-green-600/20 text-green-300 border border-green-600'
-                          : 'bg-gray-600/20 text-gray-300 border border-gray-600'
-                      }`}
-                    >
-                      {room.isActive ? 'Active' : 'Waiting'}
-                    </div>
+            {rooms.map((room) => (
+              <li key={room.id} className="bg-black/80 border-2 border-yellow-600 rounded-xl p-5 shadow-lg">
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex-1">
+                    <div className="text-yellow-200 font-bold text-lg mb-1">{room.description || 'Blackjack Game'}</div>
+                    <div className="text-yellow-100/60 text-xs mb-2">Hosted by {room.hostName}</div>
                   </div>
-                  <div className="grid grid-cols-2 gap-2 mb-4">
-                    <div className="text-yellow-300 text-sm">
-                      Mode: <span className="font-bold text-yellow-200">{room.gameMode}</span>
-                    </div>
-                    <div className="text-yellow-300 text-sm">
-                      Min Bet: <span className="font-bold text-yellow-200">${getMinBet(room)}</span>
-                    </div>
-                    <div className="text-yellow-300 text-sm">
-                      Players:{' '}
-                      <span className="font-bold text-yellow-200">
-                        {room.minPlayers}-{room.maxPlayers}
-                      </span>
-                    </div>
-                    <div className="text-yellow-300 text-sm">
-                      Public: <span className="font-bold text-yellow-200">{room.isPublic ? 'Yes' : 'No'}</span>
-                    </div>
+                  <div
+                    className={`px-2 py-1 rounded text-xs font-semibold ${
+                      room.isStarted
+                        ? 'bg-green-600/20 text-green-300 border border-green-600'
+                        : 'bg-gray-600/20 text-gray-300 border border-gray-600'
+                    }`}
+                  >
+                    {room.isStarted ? 'Playing' : 'Waiting'}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2 mb-4">
+                  <div className="text-yellow-300 text-sm">
+                    Mode: <span className="font-bold text-yellow-200">{room.gameMode}</span>
+                  </div>
+                  <div className="text-yellow-300 text-sm">
+                    Min Bet: <span className="font-bold text-yellow-200">${room.minBet}</span>
                   </div>
+                  <div className="text-yellow-300 text-sm">
+                    Players:{' '}
+                    <span className="font-bold text-yellow-200">
+                      {room.playerCount}/{room.maxPlayers}
+                    </span>
+                  </div>
+                  <div className="text-yellow-300 text-sm">
+                    Free Seats: <span className="font-bold text-yellow-200">{room.freeSeats}</span>
+                  </div>
+                </div>
+                {myRoomIds.has(room.id) ? (
                   <button
-                    onClick={() => handleJoinRoom(room.id)}
-                    disabled={joiningRoomId === room.id}
-                    className="w-full py-2 bg-gradient-to-r from-yellow-400 via-yellow-500 to-yellow-600 text-black font-bold rounded-lg hover:from-yellow-500 hover:to-yellow-700 transition-all duration-200 border-2 border-yellow-700 shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={() => router.push(`/game/${room.id}`)}
+                    className="w-full py-2 bg-gradient-to-r from-blue-400 via-blue-500 to-blue-600 text-white font-bold rounded-lg hover:from-blue-500 hover:to-blue-700 transition-all duration-200 border-2 border-blue-700 shadow-md"
                   >
-                    {joiningRoomId === room.id ? 'Joining...' : 'Join Room'}
+                    Rejoin
                   </button>
-                </li>
-              ))}
+                ) : (
+                  <>
+                    <button
+                      onClick={() => handleJoinRoom(room.id)}
+                      disabled={joiningRoomId === room.id || room.freeSeats === 0}
+                      className="w-full py-2 bg-gradient-to-r from-yellow-400 via-yellow-500 to-yellow-600 text-black font-bold rounded-lg hover:from-yellow-500 hover:to-yellow-700 transition-all duration-200 border-2 border-yellow-700 shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {joiningRoomId === room.id ? 'Joining...' : room.freeSeats === 0 ? 'Room Full' : 'Join Room'}
+                    </button>
+                    <button
+                      onClick={() => router.push(`/game/${room.id}`)}
+                      className="w-full mt-2 py-2 bg-black/60 text-yellow-300 font-bold rounded-lg hover:bg-black/80 transition-all duration-200 border-2 border-yellow-700"
+                    >
+                      Watch
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
           </ul>
         )}
+
+        {totalCount > query.pageSize && (
+          <div className="flex items-center justify-between mt-4 text-yellow-100">
+            <button
+              onClick={() => setQuery((prev) => ({ ...prev, page: prev.page - 1 }))}
+              disabled={query.page <= 1}
+              className="px-3 py-1 text-sm bg-yellow-600/20 border border-yellow-600 rounded-lg disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm">
+              Page {query.page} of {lastPage}
+            </span>
+            <button
+              onClick={() => setQuery((prev) => ({ ...prev, page: prev.page + 1 }))}
+              disabled={query.page >= lastPage}
+              className="px-3 py-1 text-sm bg-yellow-600/20 border border-yellow-600 rounded-lg disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
       </div>
       <div className="flex-1 flex flex-col items-start md:items-end relative z-10">
         {userId && <CreateGameForm userId={userId} onRoomCreated={handleRefreshRooms} />}
@@ -0,0 +1,289 @@
+// for reference:
+// Project.App/Project.Api/DTOs/RoomDTOs.cs
+// Project.App/Project.Api/DTOs/HandDTO.cs
+// Project.App/Project.Api/DTOs/RoomInviteDTOs.cs
+// Project.App/Project.Api/DTOs/RoomSummaryDTOs.cs
+// Project.App/Project.Api/DTOs/HostControlDTOs.cs
+// Project.App/Project.Api/DTOs/RoundRecordDTOs.cs
+// Project.App/Project.Api/DTOs/PlayerStatsDTOs.cs
+// Project.App/Project.Api/DTOs/LeaderboardDTOs.cs
+// Project.App/Project.Api/Controllers/*.cs (request records and anonymous response objects)
+
+import type { Card, ChatEventData } from '../sse/GameEvents.types';
+
+export type { Card as CardDTO } from '../sse/GameEvents.types';
+
+export interface RoomDTO {
+  id: string;
+  hostId: string;
+  isPublic: boolean;
+  gameMode: string;
+  gameState: string; // JSON, see parseStoredBlackjackState
+  gameConfig: string; // JSON
+  description: string | null;
+  maxPlayers: number;
+  minPlayers: number;
+  createdAt: string;
+  isActive: boolean;
+}
+
+export interface CreateRoomDTO {
+  hostId: string;
+  isPublic?: boolean;
+  gameMode: string;
+  gameConfig: string;
+  description?: string | null;
+  maxPlayers?: number;
+  minPlayers?: number;
+}
+
+export interface UpdateRoomDTO extends CreateRoomDTO {
+  id: string;
+}
+
+/**
+ * A short code that lets people join a room, see `/join/[code]`.
+ */
+export type RoomSortBy = 'CreatedAt' | 'MinBet' | 'Players' | 'FreeSeats';
+
+/**
+ * A room as listed in the lobby, see `GET /api/room/browse` and the lobby events.
+ */
+export interface RoomSummaryDTO {
+  id: string;
+  hostId: string;
+  hostName: string;
+  isPublic: boolean;
+  gameMode: string;
+  description: string | null;
+  minBet: number;
+  maxPlayers: number;
+  minPlayers: number;
+  playerCount: number; // seated players, spectators not included
+  freeSeats: number;
+  isStarted: boolean;
+  isActive: boolean;
+  createdAt: string;
+}
+
+// a type rather than an interface so it can be passed as request query
+export type RoomSearchQuery = {
+  gameMode?: string | null;
+  minBetFrom?: number | null;
+  minBetTo?: number | null;
+  hasFreeSeats?: boolean | null;
+  sortBy?: RoomSortBy;
+  descending?: boolean;
+  page?: number;
+  pageSize?: number;
+};
+
+export interface PagedResultDTO<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+}
+
+/**
+ * A finished round as listed by `GET /api/room/{roomId}/rounds`, the latest first.
+ */
+export interface RoundSummaryDTO {
+  id: string;
+  roomId: string;
+  roundNumber: number;
+  finishedAt: string;
+  dealerHand: Card[];
+  dealerScore: number;
+  hands: RoundHandDTO[];
+}
+
+/**
+ * A finished round with the events to replay it, see `buildReplay`.
+ */
+export interface RoundRecordDTO extends RoundSummaryDTO {
+  events: RoundEventDTO[];
+}
+
+export interface RoundHandDTO {
+  playerId: string; // user guid
+  playerName: string;
+  handIndex: number;
+  bet: number;
+  cards: Card[];
+  score: number;
+  payout: number; // including the returned bet, 0 if the hand lost
+}
+
+/**
+ * A room event as it was broadcast during the round.
+ */
+export interface RoundEventDTO {
+  id: number;
+  event: string; // the SSE event name
+  data: unknown;
+  timestamp: string;
+}
+
+export interface KickPlayerDTO {
+  userId: string;
+  ban?: boolean; // keeps them from taking a seat in the room again
+}
+
+/**
+ * The settings a host can change, see `PUT /api/room/{roomId}/host/config`. Time limits are `TimeSpan`s.
+ */
+export interface UpdateBlackjackConfigDTO {
+  minBet: number;
+  bettingTimeLimit: string;
+  turnTimeLimit: string;
+  allowBalanceReset: boolean;
+}
+
+export interface RoomInviteDTO {
+  code: string;
+  roomId: string;
+  createdAt: string;
+  expiresAt: string | null; // null if it never expires
+  maxUses: number | null; // null for no limit
+  uses: number;
+}
+
+export interface CreateRoomInviteDTO {
+  expiresInMinutes?: number | null;
+  maxUses?: number | null;
+}
+
+export interface HandDTO {
+  id: string;
+  roomPlayerId: string;
+  order: number;
+  handNumber: number;
+  bet: number;
+}
+
+export type RoomPlayerRole = 'Admin' | 'Moderator' | 'Player';
+
+export type RoomPlayerStatus = 'Active' | 'Inactive' | 'Away' | 'Left';
+
+/** How the server plays a bot's seat, see `POST /api/room/{roomId}/host/bots`. */
+export type BotPolicy = 'BasicStrategy' | 'AlwaysStand' | 'MimicDealer';
+
+/**
+ * An entry of `GET /api/room/{roomId}/players`.
+ */
+export interface RoomPlayerDTO {
+  id: string; // room player id
+  userId: string;
+  userName: string;
+  userEmail: string;
+  role: RoomPlayerRole;
+  status: RoomPlayerStatus;
+  balance: number;
+  balanceDelta: number;
+  botPolicy?: BotPolicy | null; // null for people
+}
+
+/**
+ * An entry of `GET /api/room/{roomId}/spectators`, someone watching the room without a seat.
+ */
+export interface RoomViewerDTO {
+  userId: string;
+  userName: string;
+}
+
+/**
+ * A room's recent chat from `GET /api/room/{roomId}/chat`, for catching up after joining or reconnecting.
+ */
+export interface ChatHistoryDTO {
+  messages: ChatEventData[]; // the latest ones, oldest first
+  mutedUserIds: string[];
+}
+
+/**
+ * The user as stored by the server, returned by the `/api/user` routes.
+ */
+export interface UserDTO {
+  id: string;
+  name: string;
+  email: string;
+  balance: number;
+  avatarUrl: string | null;
+}
+
+/**
+ * A player's results over every recorded round they played, from `GET /api/user/{id}/stats`.
+ * Rates are fractions of the hands played.
+ */
+export interface PlayerStatsDTO {
+  userId: string;
+  roundsPlayed: number;
+  handsPlayed: number; // a split adds a hand
+  wins: number;
+  losses: number; // surrendered hands included
+  pushes: number;
+  blackjacks: number;
+  busts: number;
+  doubles: number;
+  splits: number;
+  surrenders: number;
+  winRate: number;
+  lossRate: number;
+  pushRate: number;
+  blackjackRate: number;
+  bustRate: number;
+  totalBet: number;
+  netWinnings: number;
+  biggestWin: number; // the most won in a single round
+  bankroll: BankrollPointDTO[]; // oldest first
+}
+
+export interface BankrollPointDTO {
+  roundId: string;
+  roomId: string;
+  roundNumber: number;
+  finishedAt: string;
+  net: number; // won or lost this round
+  total: number; // net winnings up to and including this round
+}
+
+export type LeaderboardMetric = 'NetWinnings' | 'BiggestWin' | 'WinStreak';
+
+/** Daily and weekly leaderboards count the rounds of the last 24 hours and 7 days. */
+export type LeaderboardWindow = 'Daily' | 'Weekly' | 'AllTime';
+
+// a type rather than an interface so it can be passed as request query
+export type LeaderboardQuery = {
+  metric?: LeaderboardMetric;
+  window?: LeaderboardWindow;
+  page?: number;
+  pageSize?: number;
+};
+
+/**
+ * A player's place on `GET /api/leaderboard`. Tied players share a rank, the next one is skipped (1, 2, 2, 4).
+ */
+export interface LeaderboardEntryDTO {
+  rank: number;
+  userId: string;
+  userName: string;
+  value: number; // chips for net winnings and the biggest win, hands in a row for the win streak
+  handsPlayed: number;
+}
+
+/**
+ * The logged-in user, from `GET /api/user/me`.
+ */
+export type CurrentUserDTO = UserDTO;
+
+/**
+ * The identity behind the auth cookie, from `GET /auth/me`.
+ */
+export interface AuthIdentityDTO {
+  name: string | null;
+  claims: { type: string; value: string }[];
+}
+
+export interface MessageResponse {
+  message: string;
+}
@@ -0,0 +1,417 @@
+import { BlackjackActionRequest } from '../game/BlackjackActions';
+import { ChatEventData } from '../sse/GameEvents.types';
+import { ServerClock } from '../time/ServerClock';
+import { ApiError, isAbortError, NetworkError, RateLimitedError, UnauthorizedError } from './ApiErrors';
+import {
+  AuthIdentityDTO,
+  BotPolicy,
+  ChatHistoryDTO,
+  CreateRoomDTO,
+  CreateRoomInviteDTO,
+  CurrentUserDTO,
+  KickPlayerDTO,
+  LeaderboardEntryDTO,
+  LeaderboardQuery,
+  MessageResponse,
+  PagedResultDTO,
+  PlayerStatsDTO,
+  RoomDTO,
+  RoomInviteDTO,
+  RoomPlayerDTO,
+  RoomSearchQuery,
+  RoomSummaryDTO,
+  RoomViewerDTO,
+  RoundRecordDTO,
+  RoundSummaryDTO,
+  UpdateBlackjackConfigDTO,
+  UpdateRoomDTO,
+  UserDTO,
+} from './Api.types';
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:7069';
+
+/**
+ * Makes a key that identifies one attempt at something, see `ActionRequestOptions.idempotencyKey`.
+ */
+export function createIdempotencyKey(): string {
+  // randomUUID is only available in secure contexts, e.g. not when testing over the local network
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export interface RequestOptions {
+  /** Cancels the request, which then rejects with an `AbortError` (see `isAbortError`). */
+  signal?: AbortSignal;
+  /** Whether a 401 response sends the user to the login page. Defaults to true. */
+  redirectOnUnauthorized?: boolean;
+}
+
+export interface ActionRequestOptions extends RequestOptions {
+  /**
+   * Identifies the player's intent. Sending the same key again, e.g. when retrying after a timeout,
+   * gets the original result instead of acting twice. The key comes back in the resulting `player_action` event.
+   */
+  idempotencyKey?: string;
+}
+
+interface RequestConfig extends RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  query?: Record<string, string | number | boolean | null | undefined>;
+  /** Sent as JSON, including `null`. Leave undefined to send no body. */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Shown if the error response does not explain itself. */
+  errorMessage?: string;
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  /** Records the `Date` header of every response, see `ServerClock.recordResponse`. */
+  serverClock?: ServerClock;
+  /** Called before an `UnauthorizedError` is thrown. Defaults to going to the login page. */
+  onUnauthorized?: () => void;
+}
+
+const redirectToLogin = () => {
+  if (typeof window !== 'undefined' && !window.location.pathname.startsWith('/login')) {
+    // come back to this page afterwards, see the login page
+    const next = encodeURIComponent(window.location.pathname + window.location.search);
+    window.location.href = `/login?next=${next}`;
+  }
+};
+
+function withQuery(url: string, query: RequestConfig['query']) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== null && value !== undefined) params.set(key, String(value));
+  }
+  const search = params.toString();
+  return search ? `${url}?${search}` : url;
+}
+
+/**
+ * Reads the body as JSON when the server says it is JSON, as text otherwise, and as undefined when there is none.
+ */
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return undefined;
+
+  if (response.headers.get('Content-Type')?.includes('json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * Reads the `Retry-After` header as seconds. The server only sends a number of seconds, not a date.
+ */
+function readRetryAfter(response: Response): number | null {
+  const seconds = Number(response.headers.get('Retry-After') ?? NaN);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+/**
+ * Creates a client for the server's REST API.
+ * Requests include the auth cookie, are never cached, and fail with an `ApiError` (or `NetworkError`)
+ * whose message can be shown to the player.
+ */
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = options.baseUrl ?? API_URL;
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const onUnauthorized = options.onUnauthorized ?? redirectToLogin;
+
+  async function request<T>(path: string, config: RequestConfig = {}): Promise<T> {
+    const init: RequestInit = {
+      method: config.method ?? 'GET',
+      credentials: 'include',
+      cache: 'no-store',
+      signal: config.signal,
+    };
+    const headers: Record<string, string> = { ...config.headers };
+    if (config.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      init.body = JSON.stringify(config.body);
+    }
+    if (Object.keys(headers).length > 0) {
+      init.headers = headers;
+    }
+
+    const sentAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetchImpl(withQuery(`${baseUrl}${path}`, config.query), init);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new NetworkError(error);
+    }
+    options.serverClock?.recordResponse(response, sentAt);
+
+    const body = await readBody(response);
+    if (response.status === 401) {
+      if (config.redirectOnUnauthorized !== false) onUnauthorized();
+      throw new UnauthorizedError(body);
+    }
+    if (response.status === 429) {
+      throw new RateLimitedError(body, readRetryAfter(response), config.errorMessage);
+    }
+    if (!response.ok) {
+      throw new ApiError(response.status, body, config.errorMessage);
+    }
+    return body as T;
+  }
+
+  const rooms = {
+    list: (opts?: RequestOptions) => request<RoomDTO[]>('/api/room', opts),
+    listActive: (opts?: RequestOptions) => request<RoomDTO[]>('/api/room/active', opts),
+    listPublic: (opts?: RequestOptions) => request<RoomDTO[]>('/api/room/public', opts),
+    /** One page of the open rooms, filtered and sorted by the server. */
+    browse: (query: RoomSearchQuery = {}, opts?: RequestOptions) =>
+      request<PagedResultDTO<RoomSummaryDTO>>('/api/room/browse', {
+        ...opts,
+        query,
+        errorMessage: 'Failed to load rooms',
+      }),
+    /** The open rooms the current user hosts or has a seat in. */
+    listMine: (opts?: RequestOptions) => request<RoomSummaryDTO[]>('/api/room/mine', opts),
+    get: (roomId: string, opts?: RequestOptions) =>
+      request<RoomDTO>(`/api/room/${roomId}`, { ...opts, errorMessage: 'Failed to load the room' }),
+    getByHost: (hostId: string, opts?: RequestOptions) => request<RoomDTO>(`/api/room/host/${hostId}`, opts),
+    exists: (roomId: string, opts?: RequestOptions) => request<boolean>(`/api/room/${roomId}/exists`, opts),
+    /** The stored game state as JSON, see `parseStoredBlackjackState`. */
+    getGameState: (roomId: string, opts?: RequestOptions) => request<string>(`/api/room/${roomId}/gamestate`, opts),
+    getGameConfig: (roomId: string, opts?: RequestOptions) => request<string>(`/api/room/${roomId}/gameconfig`, opts),
+    create: (room: CreateRoomDTO, opts?: RequestOptions) =>
+      request<RoomDTO>('/api/room', { ...opts, method: 'POST', body: room, errorMessage: 'Failed to create room' }),
+    update: (room: UpdateRoomDTO, opts?: RequestOptions) =>
+      request<RoomDTO>(`/api/room/${room.id}`, { ...opts, method: 'PUT', body: room }),
+    updateGameState: (roomId: string, gameState: string, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/gamestate`, { ...opts, method: 'PUT', body: gameState }),
+    updateGameConfig: (roomId: string, gameConfig: string, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/gameconfig`, { ...opts, method: 'PUT', body: gameConfig }),
+    delete: (roomId: string, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}`, { ...opts, method: 'DELETE' }),
+    start: (roomId: string, gameConfigJson: string | null = null, opts?: RequestOptions) =>
+      request<RoomDTO>(`/api/room/${roomId}/start`, {
+        ...opts,
+        method: 'POST',
+        body: gameConfigJson,
+        errorMessage: 'Failed to start game',
+      }),
+    performAction: (
+      roomId: string,
+      playerId: string,
+      action: BlackjackActionRequest,
+      { idempotencyKey, ...opts }: ActionRequestOptions = {},
+    ) =>
+      request<MessageResponse>(`/api/room/${roomId}/player/${playerId}/action`, {
+        ...opts,
+        method: 'POST',
+        body: action,
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+        errorMessage: 'Failed to perform action',
+      }),
+    join: (roomId: string, userId: string, opts?: RequestOptions) =>
+      request<RoomDTO>(`/api/room/${roomId}/join`, {
+        ...opts,
+        method: 'POST',
+        body: { userId },
+        errorMessage: 'Failed to join room',
+      }),
+    leave: (roomId: string, userId: string, opts?: RequestOptions) =>
+      request<RoomDTO>(`/api/room/${roomId}/leave`, {
+        ...opts,
+        method: 'POST',
+        body: { userId },
+        errorMessage: 'Failed to leave room',
+      }),
+    getPlayers: (roomId: string, opts?: RequestOptions) =>
+      request<RoomPlayerDTO[]>(`/api/room/${roomId}/players`, opts),
+    /** Who is watching without a seat, see `getSpectators` in the game store. */
+    getSpectators: (roomId: string, opts?: RequestOptions) =>
+      request<RoomViewerDTO[]>(`/api/room/${roomId}/spectators`, opts),
+    /** One page of the room's finished rounds, the latest first. */
+    getRounds: (roomId: string, page = 1, pageSize = 20, opts?: RequestOptions) =>
+      request<PagedResultDTO<RoundSummaryDTO>>(`/api/room/${roomId}/rounds`, {
+        ...opts,
+        query: { page, pageSize },
+        errorMessage: 'Failed to load the round history',
+      }),
+    /** A finished round with its events, to replay it. */
+    getRound: (roomId: string, roundId: string, opts?: RequestOptions) =>
+      request<RoundRecordDTO>(`/api/room/${roomId}/rounds/${roundId}`, {
+        ...opts,
+        errorMessage: 'Failed to load the round',
+      }),
+    /** Host only: removes a player from the table, and with `ban` keeps them from sitting down again. */
+    kickPlayer: (roomId: string, kick: KickPlayerDTO, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/host/kick`, {
+        ...opts,
+        method: 'POST',
+        body: kick,
+        errorMessage: 'Failed to remove the player',
+      }),
+    /** Host only: seats a bot the server plays for, bots are removed by kicking them. */
+    addBot: (roomId: string, policy: BotPolicy, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/host/bots`, {
+        ...opts,
+        method: 'POST',
+        body: { policy },
+        errorMessage: 'Failed to add the bot',
+      }),
+    /** Host only: hands the room over to another seated player. */
+    transferHost: (roomId: string, userId: string, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/host/transfer`, {
+        ...opts,
+        method: 'POST',
+        body: { userId },
+        errorMessage: 'Failed to transfer host',
+      }),
+    /** Host only: stops the betting and turn timers, nobody can act until the game is resumed. */
+    pause: (roomId: string, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/host/pause`, {
+        ...opts,
+        method: 'POST',
+        errorMessage: 'Failed to pause the game',
+      }),
+    resume: (roomId: string, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/host/resume`, {
+        ...opts,
+        method: 'POST',
+        errorMessage: 'Failed to resume the game',
+      }),
+    /** Host only: games that have started apply the settings from the next round. */
+    updateConfig: (roomId: string, config: UpdateBlackjackConfigDTO, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/host/config`, {
+        ...opts,
+        method: 'PUT',
+        body: config,
+        errorMessage: 'Failed to update the settings',
+      }),
+    /** The latest messages and who is muted, the rest arrives as events. */
+    getChat: (roomId: string, opts?: RequestOptions) =>
+      request<ChatHistoryDTO>(`/api/room/${roomId}/chat`, { ...opts, errorMessage: 'Failed to load the chat' }),
+    /** Fails with a `RateLimitedError` when sending too fast. */
+    sendChat: (roomId: string, content: string, opts?: RequestOptions) =>
+      request<ChatEventData>(`/api/room/${roomId}/chat`, {
+        ...opts,
+        method: 'POST',
+        body: { content },
+        errorMessage: 'Failed to send the message',
+      }),
+    /** Host only: removes a message for everyone. */
+    deleteChatMessage: (roomId: string, messageId: string, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/chat/${messageId}`, {
+        ...opts,
+        method: 'DELETE',
+        errorMessage: 'Failed to delete the message',
+      }),
+    /** Host only: muted users can read the chat but not send to it, `muted: false` lets them again. */
+    muteUser: (roomId: string, userId: string, muted: boolean, opts?: RequestOptions) =>
+      request<void>(`/api/room/${roomId}/host/mute`, {
+        ...opts,
+        method: 'POST',
+        body: { userId, muted },
+        errorMessage: muted ? 'Failed to mute the user' : 'Failed to unmute the user',
+      }),
+    /** The URL of the room's event stream, for `createRoomConnection`. */
+    eventsUrl: (roomId: string) => `${baseUrl}/api/room/${roomId}/events`,
+    /** The URL of the lobby's event stream, rooms opening, changing and closing. */
+    lobbyEventsUrl: () => `${baseUrl}/api/room/lobby/events`,
+  };
+
+  const invites = {
+    /** Checks that a code can still be used, without using it. */
+    resolve: (code: string, opts?: RequestOptions) =>
+      request<RoomInviteDTO>(`/api/invite/${encodeURIComponent(code)}`, {
+        ...opts,
+        errorMessage: 'Failed to look up the invite',
+      }),
+    /** Joins the invite's room as the logged-in user. */
+    join: (code: string, opts?: RequestOptions) =>
+      request<RoomDTO>(`/api/invite/${encodeURIComponent(code)}/join`, {
+        ...opts,
+        method: 'POST',
+        errorMessage: 'Failed to join room',
+      }),
+    /** The room's codes that still work, host only. */
+    listForRoom: (roomId: string, opts?: RequestOptions) =>
+      request<RoomInviteDTO[]>(`/api/invite/room/${roomId}`, opts),
+    create: (roomId: string, invite: CreateRoomInviteDTO = {}, opts?: RequestOptions) =>
+      request<RoomInviteDTO>(`/api/invite/room/${roomId}`, {
+        ...opts,
+        method: 'POST',
+        body: invite,
+        errorMessage: 'Failed to create invite',
+      }),
+    /** Replaces the code with a new one, the old one stops working. */
+    rotate: (code: string, opts?: RequestOptions) =>
+      request<RoomInviteDTO>(`/api/invite/${encodeURIComponent(code)}/rotate`, {
+        ...opts,
+        method: 'POST',
+        errorMessage: 'Failed to rotate invite',
+      }),
+    revoke: (code: string, opts?: RequestOptions) =>
+      request<void>(`/api/invite/${encodeURIComponent(code)}`, {
+        ...opts,
+        method: 'DELETE',
+        errorMessage: 'Failed to revoke invite',
+      }),
+  };
+
+  const users = {
+    list: (opts?: RequestOptions) => request<UserDTO[]>('/api/user', opts),
+    get: (userId: string, opts?: RequestOptions) => request<UserDTO>(`/api/user/${userId}`, opts),
+    create: (user: Omit<UserDTO, 'id'>, opts?: RequestOptions) =>
+      request<UserDTO>('/api/user', { ...opts, method: 'POST', body: user }),
+    update: (user: UserDTO, opts?: RequestOptions) =>
+      request<void>(`/api/user/${user.id}`, { ...opts, method: 'PUT', body: user }),
+    /** Sets the balance of the logged-in user. */
+    updateBalance: (userId: string, balance: number, opts?: RequestOptions) =>
+      request<void>(`/api/user/${userId}`, {
+        ...opts,
+        method: 'PATCH',
+        body: { balance },
+        errorMessage: 'Failed to add credits',
+      }),
+    delete: (userId: string, opts?: RequestOptions) =>
+      request<void>(`/api/user/${userId}`, { ...opts, method: 'DELETE' }),
+    /** The user's results over every recorded round they played. */
+    getStats: (userId: string, opts?: RequestOptions) =>
+      request<PlayerStatsDTO>(`/api/user/${userId}/stats`, { ...opts, errorMessage: 'Failed to load the statistics' }),
+    me: (opts?: RequestOptions) => request<CurrentUserDTO>('/api/user/me', opts),
+  };
+
+  const leaderboard = {
+    /** One page of the players ranked by the query's metric, over its window. */
+    get: (query: LeaderboardQuery = {}, opts?: RequestOptions) =>
+      request<PagedResultDTO<LeaderboardEntryDTO>>('/api/leaderboard', {
+        ...opts,
+        query,
+        errorMessage: 'Failed to load the leaderboard',
+      }),
+  };
+
+  const auth = {
+    /** Where to send the browser to log in with Google, returning to `returnUrl` afterwards. */
+    loginUrl: (returnUrl: string) => withQuery(`${baseUrl}/auth/login`, { returnUrl }),
+    logout: (opts?: RequestOptions) =>
+      request<MessageResponse>('/auth/logout', { ...opts, method: 'POST', redirectOnUnauthorized: false }),
+    me: (opts?: RequestOptions) => request<AuthIdentityDTO>('/auth/me', opts),
+  };
+
+  return { rooms, invites, users, leaderboard, auth };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+/**
+ * The client shared by pages that do not need their own options.
+ */
+export const api = createApiClient();
@@ -0,0 +1,91 @@
+import { friendlyErrorMessage } from '../notifications/Notifications';
+
+/**
+ * The problem details the server sends with failed requests, see `GlobalExceptionHandler`.
+ */
+export interface ProblemDetails {
+  title?: string;
+  status?: number;
+  detail?: string;
+  errors?: Record<string, string[]>;
+}
+
+/**
+ * Thrown when the server answers with an error status.
+ * The message is already suitable for showing to the player, the raw problem details are kept for logging.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly problem: ProblemDetails;
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown, fallback?: string) {
+    super(friendlyErrorMessage(body, status, fallback));
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+    this.problem = toProblemDetails(body);
+  }
+}
+
+/**
+ * Thrown when the session is missing or expired. The client redirects to the login page before throwing this,
+ * unless the request opted out.
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(body: unknown) {
+    super(401, body);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Thrown when the server turned the request down for coming too often, e.g. chat messages sent too fast.
+ */
+export class RateLimitedError extends ApiError {
+  /** Seconds until the request may be sent again, null if the server did not say. */
+  readonly retryAfter: number | null;
+
+  constructor(body: unknown, retryAfter: number | null, fallback?: string) {
+    super(429, body, fallback);
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when the server could not be reached at all.
+ */
+export class NetworkError extends Error {
+  readonly cause: unknown;
+
+  constructor(cause: unknown) {
+    super('Could not reach the server. Please check your connection.');
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Whether a request failed because it was cancelled through its `AbortSignal`, which usually needs no handling.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Normalizes the casing of the server's problem details, which are sent in PascalCase.
+ */
+function toProblemDetails(body: unknown): ProblemDetails {
+  if (!body || typeof body !== 'object') {
+    return typeof body === 'string' && body ? { detail: body } : {};
+  }
+
+  const raw = body as Record<string, any>;
+  return {
+    title: raw.title ?? raw.Title,
+    status: raw.status ?? raw.Status,
+    detail: raw.detail ?? raw.Detail ?? raw.message ?? raw.Message,
+    errors: raw.errors ?? raw.Errors,
+  };
+}
@@ -0,0 +1,63 @@
+import { RateLimitedError } from '../api/ApiErrors';
+
+/** The longest message the server accepts, see `ChatService.MaxMessageLength`. */
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+/**
+ * A piece of a chat message, either plain text or an `@name` mention of someone in the room.
+ */
+export interface ChatSegment {
+  text: string;
+  /** The name mentioned, as it is spelled in the room, null for plain text. */
+  mention: string | null;
+}
+
+// letters of any alphabet have a case, unlike spaces and punctuation
+const isWordChar = (char: string | undefined) =>
+  !!char && (/\w/.test(char) || char.toLowerCase() !== char.toUpperCase());
+
+/**
+ * The name mentioned by the `@` at `at`, if any. Names may contain spaces, so the longest one that fits wins,
+ * and it has to end where a word ends: `@Annabel` does not mention Ann.
+ */
+function findMention(content: string, at: number, names: string[]): string | null {
+  // an address like ann@example.com is no mention
+  if (isWordChar(content[at - 1])) return null;
+
+  const rest = content.slice(at + 1).toLowerCase();
+  return names.find((name) => rest.startsWith(name.toLowerCase()) && !isWordChar(rest[name.length])) ?? null;
+}
+
+/**
+ * Splits a message into plain text and mentions of the given names, ignoring case, for highlighting them.
+ */
+export function splitMentions(content: string, names: string[]): ChatSegment[] {
+  const candidates = [...new Set(names.map((name) => name.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+
+  const segments: ChatSegment[] = [];
+  let textStart = 0;
+  for (let at = content.indexOf('@'); at !== -1; at = content.indexOf('@', at + 1)) {
+    const mention = findMention(content, at, candidates);
+    if (!mention) continue;
+
+    if (at > textStart) segments.push({ text: content.slice(textStart, at), mention: null });
+    textStart = at + 1 + mention.length;
+    segments.push({ text: content.slice(at, textStart), mention });
+    at = textStart - 1;
+  }
+  if (textStart < content.length) segments.push({ text: content.slice(textStart), mention: null });
+
+  return segments;
+}
+
+/** Whether the message mentions the user by name. */
+export function isMentioned(content: string, userName: string | null | undefined): boolean {
+  return !!userName && splitMentions(content, [userName]).some((segment) => segment.mention !== null);
+}
+
+/**
+ * Tells a player who is sending too fast how long to wait, e.g. `Slow down. You can send again in 3s.`
+ */
+export function describeRateLimit(error: RateLimitedError): string {
+  return error.retryAfter ? `${error.message} You can send again in ${Math.ceil(error.retryAfter)}s.` : error.message;
+}
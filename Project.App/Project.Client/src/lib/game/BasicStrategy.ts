@@ -0,0 +1,247 @@
+import { DEFAULT_BLACKJACK_CONFIG } from './BlackjackConfig';
+import { BlackjackConfig } from './BlackjackState.types';
+import { TurnAction } from './PlayerTurn';
+import { Card } from '../sse/GameEvents.types';
+
+/**
+ * What a chart cell says to do:
+ * - `H` hit, `S` stand, `P` split
+ * - `D` double, or hit if doubling is not allowed; `Ds` double, or stand
+ * - `Rh`, `Rs`, `Rp` surrender, or else hit, stand or split
+ * - `-` (pairs only) don't split, play the hand by its total
+ */
+type Play = 'H' | 'S' | 'P' | 'D' | 'Ds' | 'Rh' | 'Rs' | 'Rp' | '-';
+
+/** A chart row, one cell per dealer upcard from 2 to ace. */
+type Row = Play[];
+
+interface StrategyTables {
+  hard: Record<number, Row>;
+  soft: Record<number, Row>;
+  /** By the value of one card of the pair, aces are 11. */
+  pairs: Record<number, Row>;
+}
+
+export type StrategyHandKind = 'hard' | 'soft' | 'pair';
+
+export interface StrategyAdvice {
+  action: TurnAction;
+  /** How the chart looked the hand up, e.g. a pair of 8s is looked up as a pair, unless it can't be split. */
+  kind: StrategyHandKind;
+  total: number;
+  /** The value of each card of a pair looked up as one, aces are 11. */
+  pairValue: number | null;
+  /** The dealer upcard's value, aces are 11. */
+  dealerValue: number;
+}
+
+/** The rules the charts depend on, the server's defaults are used for anything missing. */
+export type StrategyRules = Partial<
+  Pick<BlackjackConfig, 'deckCount' | 'dealerHitsSoft17' | 'doubleAfterSplit' | 'lateSurrender'>
+>;
+
+const row = (cells: string): Row => cells.split(' ') as Row;
+
+const repeat = (play: Play): Row => Array<Play>(10).fill(play);
+
+// dealer upcards 2, 3, 4, 5, 6, 7, 8, 9, 10, ace
+const upcardIndex = (dealerValue: number) => (dealerValue === 11 ? 9 : dealerValue - 2);
+
+/**
+ * The charts for 4 to 8 decks where the dealer stands on soft 17, doubling after a split and late surrender
+ * are allowed, changed to fit the rules. The charts assume the dealer checks for blackjack before anyone plays.
+ */
+function buildTables({ deckCount, dealerHitsSoft17, doubleAfterSplit }: Required<StrategyRules>): StrategyTables {
+  const hard: Record<number, Row> = {
+    9: row('H D D D D H H H H H'),
+    10: row('D D D D D D D D H H'),
+    11: row('D D D D D D D D D H'),
+    12: row('H H S S S H H H H H'),
+    13: row('S S S S S H H H H H'),
+    14: row('S S S S S H H H H H'),
+    15: row('S S S S S H H H Rh H'),
+    16: row('S S S S S H H Rh Rh Rh'),
+  };
+  for (let total = 4; total <= 8; total++) hard[total] = repeat('H');
+  for (let total = 17; total <= 21; total++) hard[total] = repeat('S');
+
+  const soft: Record<number, Row> = {
+    12: repeat('H'), // two aces that can't be split
+    13: row('H H H D D H H H H H'),
+    14: row('H H H D D H H H H H'),
+    15: row('H H D D D H H H H H'),
+    16: row('H H D D D H H H H H'),
+    17: row('H D D D D H H H H H'),
+    18: row('S Ds Ds Ds Ds S S H H H'),
+    19: repeat('S'),
+    20: repeat('S'),
+    21: repeat('S'),
+  };
+
+  const pairs: Record<number, Row> = {
+    2: row('P P P P P P - - - -'),
+    3: row('P P P P P P - - - -'),
+    4: row('- - - P P - - - - -'),
+    5: repeat('-'),
+    6: row('P P P P P - - - - -'),
+    7: row('P P P P P P - - - -'),
+    8: repeat('P'),
+    9: row('P P P P P - P P - -'),
+    10: repeat('-'),
+    11: repeat('P'),
+  };
+
+  if (dealerHitsSoft17) {
+    hard[11][9] = 'D';
+    hard[15][9] = 'Rh';
+    hard[17][9] = 'Rs';
+    soft[18][0] = 'Ds';
+    soft[19][4] = 'Ds';
+    pairs[8][9] = 'Rp';
+  }
+
+  // small pairs are split against weak upcards for the chance to double the new hands
+  if (!doubleAfterSplit) {
+    pairs[2] = row('- - P P P P - - - -');
+    pairs[3] = row('- - P P P P - - - -');
+    pairs[4] = repeat('-');
+    pairs[6] = row('- P P P P - - - - -');
+  }
+
+  // fewer decks leave more good cards for doubling
+  if (deckCount <= 2) {
+    hard[9][0] = 'D';
+    hard[11][9] = 'D';
+  }
+  if (deckCount === 1) {
+    hard[8][3] = 'D';
+    hard[8][4] = 'D';
+  }
+
+  return { hard, soft, pairs };
+}
+
+const tablesCache = new Map<string, StrategyTables>();
+
+function getTables(rules: Required<StrategyRules>): StrategyTables {
+  const key = `${rules.deckCount}:${rules.dealerHitsSoft17}:${rules.doubleAfterSplit}`;
+  let tables = tablesCache.get(key);
+  if (!tables) {
+    tables = buildTables(rules);
+    tablesCache.set(key, tables);
+  }
+  return tables;
+}
+
+/**
+ * The blackjack value of a single card, aces are 11. Null for jokers and anything else unknown.
+ */
+export function getCardValue(card: Pick<Card, 'value'>): number | null {
+  switch (card.value.toUpperCase()) {
+    case 'ACE':
+      return 11;
+    case 'KING':
+    case 'QUEEN':
+    case 'JACK':
+      return 10;
+    default: {
+      const value = parseInt(card.value, 10);
+      return value >= 2 && value <= 10 ? value : null;
+    }
+  }
+}
+
+/**
+ * The best total of the cards, and whether an ace is counted as 11 in it.
+ */
+export function getHandTotal(cards: Pick<Card, 'value'>[]): { total: number; soft: boolean } {
+  let total = 0;
+  let aces = 0;
+  for (const card of cards) {
+    const value = getCardValue(card) ?? 0;
+    if (value === 11) aces++;
+    total += value === 11 ? 1 : value;
+  }
+  // at most one ace can count as 11
+  const soft = aces > 0 && total + 10 <= 21;
+  return { total: soft ? total + 10 : total, soft };
+}
+
+/**
+ * Looks up the basic strategy play for a hand against the dealer's upcard, under the table's rules.
+ * When the chart's play isn't allowed, e.g. doubling after a hit, it falls back the way basic strategy does.
+ *
+ * @param allowed which actions can be taken right now, e.g. `TurnInfo.legal`. Without it doubling, splitting and
+ * surrendering are assumed to be allowed on the first two cards as far as the rules go.
+ * @returns null if there is no move to make: the hand is empty, or a card is unknown
+ */
+export function getBasicStrategyMove(
+  cards: Pick<Card, 'value'>[],
+  dealerUpcard: Pick<Card, 'value'>,
+  rules?: StrategyRules | null,
+  allowed?: Partial<Record<TurnAction, boolean>>,
+): StrategyAdvice | null {
+  const dealerValue = getCardValue(dealerUpcard);
+  const values = cards.map(getCardValue);
+  if (values.length === 0 || dealerValue === null || values.includes(null)) return null;
+
+  const settings: Required<StrategyRules> = {
+    deckCount: rules?.deckCount ?? DEFAULT_BLACKJACK_CONFIG.deckCount,
+    dealerHitsSoft17: rules?.dealerHitsSoft17 ?? DEFAULT_BLACKJACK_CONFIG.dealerHitsSoft17,
+    doubleAfterSplit: rules?.doubleAfterSplit ?? DEFAULT_BLACKJACK_CONFIG.doubleAfterSplit,
+    lateSurrender: rules?.lateSurrender ?? DEFAULT_BLACKJACK_CONFIG.lateSurrender,
+  };
+  // the server only splits cards of the same rank, a king and a queen are no pair
+  const firstAction = cards.length === 2;
+  const isPair = firstAction && cards[0].value === cards[1].value;
+  const can = {
+    double: firstAction && (allowed?.double ?? true),
+    split: isPair && (allowed?.split ?? true),
+    surrender: firstAction && settings.lateSurrender && (allowed?.surrender ?? true),
+  };
+
+  const tables = getTables(settings);
+  const column = upcardIndex(dealerValue);
+  const { total, soft } = getHandTotal(cards);
+  const advice = { total, pairValue: null, dealerValue };
+
+  if (can.split) {
+    const pairValue = values[0];
+    const play = tables.pairs[pairValue][column];
+    if (play === 'P') return { ...advice, action: 'split', kind: 'pair', pairValue };
+    if (play === 'Rp') return { ...advice, action: can.surrender ? 'surrender' : 'split', kind: 'pair', pairValue };
+  }
+
+  // a single card, right after a split, is always hit
+  const play = (soft ? tables.soft : tables.hard)[total]?.[column] ?? (total > 21 ? 'S' : 'H');
+  const action = ((): TurnAction => {
+    switch (play) {
+      case 'D':
+        return can.double ? 'double' : 'hit';
+      case 'Ds':
+        return can.double ? 'double' : 'stand';
+      case 'Rh':
+        return can.surrender ? 'surrender' : 'hit';
+      case 'Rs':
+        return can.surrender ? 'surrender' : 'stand';
+      case 'S':
+        return 'stand';
+      default:
+        return 'hit';
+    }
+  })();
+  return { ...advice, action, kind: soft ? 'soft' : 'hard' };
+}
+
+/**
+ * The advice as a short line, e.g. `Double soft 17 against a 5`.
+ */
+export function describeAdvice(advice: StrategyAdvice): string {
+  const action = advice.action.charAt(0).toUpperCase() + advice.action.slice(1);
+  const hand =
+    advice.pairValue === null
+      ? `${advice.kind} ${advice.total}`
+      : `a pair of ${advice.pairValue === 11 ? 'aces' : `${advice.pairValue}s`}`;
+  const upcard = advice.dealerValue === 11 ? 'an ace' : advice.dealerValue === 8 ? 'an 8' : `a ${advice.dealerValue}`;
+  return `${action} ${hand} against ${upcard}`;
+}
@@ -0,0 +1,43 @@
+// for reference:
+// Project.App/Project.Api/DTOs/BlackjackActionDTO.cs
+
+/**
+ * The data sent with each action, keyed by the action name the server expects.
+ * Mirrors the server's `BlackjackActionDTO` records (`BetAction`, `SplitAction`, ...).
+ */
+export interface BlackjackActionPayloads {
+  bet: { amount: number }; // BetAction
+  hit: Record<string, never>; // HitAction
+  stand: Record<string, never>; // StandAction
+  double: Record<string, never>; // DoubleAction
+  split: { amount: number }; // SplitAction
+  surrender: Record<string, never>; // SurrenderAction
+  hurry_up: Record<string, never>; // HurryUpAction
+}
+
+export type BlackjackActionName = keyof BlackjackActionPayloads;
+
+/**
+ * The body of `POST /api/room/{roomId}/player/{playerId}/action`.
+ */
+export type BlackjackActionRequest = {
+  [K in BlackjackActionName]: { action: K; data: BlackjackActionPayloads[K] };
+}[BlackjackActionName];
+
+/**
+ * Builds a typed action request, so callers cannot pair an action with the wrong payload.
+ */
+export function createActionRequest<K extends BlackjackActionName>(
+  action: K,
+  data: BlackjackActionPayloads[K],
+): Extract<BlackjackActionRequest, { action: K }> {
+  return { action, data } as Extract<BlackjackActionRequest, { action: K }>;
+}
+
+/**
+ * Used in the `default` branch of a switch over a discriminated union to make the compiler check that every
+ * variant is handled. Returns the unhandled value so it can still be reported at runtime.
+ */
+export function unhandledVariant(value: never): unknown {
+  return value;
+}
@@ -0,0 +1,108 @@
+import { BlackjackConfig, BlackjackPayout } from './BlackjackState.types';
+
+/**
+ * What the server uses for settings missing from a room's config, see `BlackjackConfig.cs`.
+ */
+export const DEFAULT_BLACKJACK_CONFIG: BlackjackConfig = {
+  startingBalance: 1000,
+  minBet: 0,
+  bettingTimeLimit: '00:01:00',
+  turnTimeLimit: '00:00:30',
+  allowBalanceReset: true,
+  maxBet: null,
+  deckCount: 6,
+  reshufflePenetration: 0.75,
+  dealerHitsSoft17: false,
+  blackjackPayout: 'ThreeToTwo',
+  lateSurrender: true,
+  maxSplits: 3,
+  resplitAces: false,
+  doubleAfterSplit: true,
+};
+
+export const BLACKJACK_PAYOUT_LABELS: Record<BlackjackPayout, string> = {
+  ThreeToTwo: '3:2',
+  SixToFive: '6:5',
+};
+
+// [-][d.]hh:mm:ss[.fffffff], the way System.Text.Json writes a TimeSpan
+const TIME_SPAN_PATTERN = /^(-)?(?:(\d+)\.)?(\d{1,2}):(\d{1,2}):(\d{1,2})(?:\.(\d+))?$/;
+
+/**
+ * Reads a .NET `TimeSpan` as a number of seconds, or `null` if it is not one.
+ */
+export function parseTimeSpan(value: string | null | undefined): number | null {
+  const match = TIME_SPAN_PATTERN.exec(value ?? '');
+  if (!match) return null;
+
+  const [, sign, days, hours, minutes, seconds, fraction] = match;
+  const total =
+    Number(days ?? 0) * 86400 +
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(`0.${fraction}`) : 0);
+  return sign ? -total : total;
+}
+
+/**
+ * Writes a number of seconds as a .NET `TimeSpan`, dropping fractions of a second.
+ */
+export function formatTimeSpan(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const days = Math.floor(seconds / 86400);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const time = `${pad(Math.floor((seconds % 86400) / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+  return days > 0 ? `${days}.${time}` : time;
+}
+
+/**
+ * Reads a room's config, either as the JSON string stored on the room or an already-parsed object.
+ * Stored configs use C# property names (PascalCase), events and configs made by this client use camelCase,
+ * so keys are read either way. Settings missing from it are left out, see `DEFAULT_BLACKJACK_CONFIG`.
+ *
+ * @returns null if there is no config, or it is not valid JSON
+ */
+export function parseBlackjackConfig(raw: unknown): Partial<BlackjackConfig> | null {
+  let parsed = raw;
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return null;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      console.error('[BlackjackConfig] Failed to parse game config:', error);
+      return null;
+    }
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return null;
+
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    // `$type` is the server's discriminator for the kind of game
+    if (!key.startsWith('$')) config[key.charAt(0).toLowerCase() + key.slice(1)] = value;
+  }
+  return config as Partial<BlackjackConfig>;
+}
+
+/**
+ * The table's house rules as short lines for the config panel, filling in the defaults for missing settings.
+ */
+export function describeRules(config: Partial<BlackjackConfig> | null): string[] {
+  const rules = { ...DEFAULT_BLACKJACK_CONFIG, ...config };
+  // the server writes enums by name, but accepts numbers too
+  const payout =
+    typeof rules.blackjackPayout === 'number'
+      ? (['ThreeToTwo', 'SixToFive'] as const)[rules.blackjackPayout]
+      : rules.blackjackPayout;
+
+  return [
+    `${rules.deckCount} deck${rules.deckCount === 1 ? '' : 's'}, reshuffled at ${Math.round(rules.reshufflePenetration * 100)}%`,
+    `Dealer ${rules.dealerHitsSoft17 ? 'hits' : 'stands on'} soft 17`,
+    `Blackjack pays ${BLACKJACK_PAYOUT_LABELS[payout] ?? payout}`,
+    rules.lateSurrender ? 'Late surrender allowed' : 'No surrender',
+    rules.maxSplits === 0
+      ? 'No splitting'
+      : `Split up to ${rules.maxSplits} time${rules.maxSplits === 1 ? '' : 's'}${rules.resplitAces ? ', aces may be re-split' : ''}`,
+    rules.doubleAfterSplit ? 'Double after split allowed' : 'No double after split',
+  ];
+}
@@ -0,0 +1,106 @@
+// for reference:
+// Project.App/Project.Api/Models/Games/BlackjackState.cs
+// Project.App/Project.Api/Models/Games/GameState.cs
+// Project.App/Project.Api/Models/Games/BlackjackConfig.cs
+
+/**
+ * All possible values of the `$type` discriminator on a blackjack stage.
+ */
+export const BLACKJACK_STAGE_TYPES = [
+  'init',
+  'setup',
+  'betting',
+  'dealing',
+  'player_action',
+  'finish_round',
+  'teardown',
+] as const;
+
+export type BlackjackStageType = (typeof BLACKJACK_STAGE_TYPES)[number];
+
+// initial setup
+// initialize deck, set game configs
+export interface BlackjackInitStage {
+  $type: 'init';
+}
+
+// doing pre-round setup
+export interface BlackjackSetupStage {
+  $type: 'setup';
+}
+
+// waiting for players to bet
+export interface BlackjackBettingStage {
+  $type: 'betting';
+  deadline: string; // ISO 8601 timestamp
+  bets: Record<string, number>; // room player guid -> bet amount
+}
+
+// dealing
+export interface BlackjackDealingStage {
+  $type: 'dealing';
+}
+
+// player turn
+export interface BlackjackPlayerActionStage {
+  $type: 'player_action';
+  deadline: string; // ISO 8601 timestamp
+  playerIndex: number;
+  handIndex: number;
+}
+
+// dealer turn and distribute winnings
+export interface BlackjackFinishRoundStage {
+  $type: 'finish_round';
+}
+
+// teardown, close room
+export interface BlackjackTeardownStage {
+  $type: 'teardown';
+}
+
+export type BlackjackStage =
+  | BlackjackInitStage
+  | BlackjackSetupStage
+  | BlackjackBettingStage
+  | BlackjackDealingStage
+  | BlackjackPlayerActionStage
+  | BlackjackFinishRoundStage
+  | BlackjackTeardownStage;
+
+/**
+ * Narrows a stage union to the variant with the given `$type`.
+ */
+export type BlackjackStageOf<T extends BlackjackStageType> = Extract<BlackjackStage, { $type: T }>;
+
+export interface BlackjackState {
+  currentStage: BlackjackStage;
+  dealerHand: string;
+  bets: Record<string, number>; // room player guid -> bet amount
+  pausedAt?: string | null; // ISO 8601 timestamp, set while the host has paused the stage timers
+  pendingConfig?: BlackjackConfig | null; // changes made by the host during a game, applied from the next round
+}
+
+/**
+ * The room's settings. Time limits are .NET `TimeSpan`s, e.g. `"00:01:00"`, see `parseTimeSpan`.
+ */
+export interface BlackjackConfig {
+  startingBalance: number;
+  minBet: number;
+  bettingTimeLimit: string;
+  turnTimeLimit: string;
+  allowBalanceReset: boolean;
+  maxPlayers?: number | null;
+  minPlayers?: number;
+  maxBet: number | null; // null for no limit
+  deckCount: number;
+  reshufflePenetration: number; // share of the shoe dealt before it is reshuffled, e.g. 0.75
+  dealerHitsSoft17: boolean;
+  blackjackPayout: BlackjackPayout;
+  lateSurrender: boolean;
+  maxSplits: number;
+  resplitAces: boolean;
+  doubleAfterSplit: boolean;
+}
+
+export type BlackjackPayout = 'ThreeToTwo' | 'SixToFive';
@@ -0,0 +1,185 @@
+import { parseBlackjackConfig } from './BlackjackConfig';
+import {
+  BlackjackConfig,
+  BLACKJACK_STAGE_TYPES,
+  BlackjackStage,
+  BlackjackStageType,
+  BlackjackState,
+} from './BlackjackState.types';
+
+/**
+ * Thrown when a game state payload from the server does not match the expected shape.
+ * The message includes the path of the offending field, so it can be logged as-is.
+ */
+export class BlackjackStateValidationError extends Error {
+  readonly path: string;
+  readonly received: unknown;
+
+  constructor(path: string, reason: string, received: unknown) {
+    super(`Invalid blackjack state at '${path}': ${reason} (received ${describe(received)})`);
+    this.name = 'BlackjackStateValidationError';
+    this.path = path;
+    this.received = received;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 32 ? `${value.slice(0, 32)}...` : value}"`;
+  if (typeof value === 'object') return 'object';
+  return `${typeof value} ${String(value)}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses JSON strings, passing through anything that has already been parsed.
+ */
+function fromJson(raw: unknown, path: string): unknown {
+  if (typeof raw !== 'string') return raw;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new BlackjackStateValidationError(path, 'not valid JSON', raw);
+  }
+}
+
+/**
+ * The server stores state with C# property names (PascalCase), but broadcasts it over SSE in camelCase.
+ * Lowercase the first letter of every key (except discriminators like `$type`) so both can be read the same way.
+ */
+function normalizeKeys(obj: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    normalized[key.startsWith('$') ? key : key.charAt(0).toLowerCase() + key.slice(1)] = value;
+  }
+  return normalized;
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new BlackjackStateValidationError(path, 'expected an object', value);
+  }
+  return normalizeKeys(value);
+}
+
+function expectDeadline(value: unknown, path: string): string {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new BlackjackStateValidationError(path, 'expected an ISO 8601 timestamp', value);
+  }
+  return value;
+}
+
+function expectIndex(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new BlackjackStateValidationError(path, 'expected a non-negative integer', value);
+  }
+  return value;
+}
+
+function expectBets(value: unknown, path: string): Record<string, number> {
+  if (!isRecord(value)) {
+    throw new BlackjackStateValidationError(path, 'expected a map of player ids to bet amounts', value);
+  }
+
+  // keys are guids, so do not normalize them
+  const bets: Record<string, number> = {};
+  for (const [playerId, amount] of Object.entries(value)) {
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      throw new BlackjackStateValidationError(`${path}.${playerId}`, 'expected a non-negative number', amount);
+    }
+    bets[playerId] = amount;
+  }
+  return bets;
+}
+
+function expectConfig(value: unknown, path: string): BlackjackConfig {
+  if (!isRecord(value)) {
+    throw new BlackjackStateValidationError(path, 'expected a game config', value);
+  }
+  return parseBlackjackConfig(value) as BlackjackConfig;
+}
+
+function isStageType(value: unknown): value is BlackjackStageType {
+  return typeof value === 'string' && (BLACKJACK_STAGE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a single blackjack stage, either as a JSON string or an already-parsed object.
+ * Only the fields known for the stage's `$type` are kept.
+ *
+ * @throws BlackjackStateValidationError if the payload does not describe a valid stage
+ */
+export function parseBlackjackStage(raw: unknown, path = 'currentStage'): BlackjackStage {
+  const stage = expectObject(fromJson(raw, path), path);
+  const type = stage.$type;
+
+  if (!isStageType(type)) {
+    throw new BlackjackStateValidationError(
+      `${path}.$type`,
+      `expected one of ${BLACKJACK_STAGE_TYPES.join(', ')}`,
+      type,
+    );
+  }
+
+  switch (type) {
+    case 'betting':
+      return {
+        $type: type,
+        deadline: expectDeadline(stage.deadline, `${path}.deadline`),
+        bets: expectBets(stage.bets ?? {}, `${path}.bets`),
+      };
+    case 'player_action':
+      return {
+        $type: type,
+        deadline: expectDeadline(stage.deadline, `${path}.deadline`),
+        playerIndex: expectIndex(stage.playerIndex, `${path}.playerIndex`),
+        handIndex: expectIndex(stage.handIndex, `${path}.handIndex`),
+      };
+    default:
+      // remaining stages carry no data
+      return { $type: type };
+  }
+}
+
+/**
+ * Validates a full blackjack game state, either as a JSON string or an already-parsed object.
+ *
+ * @throws BlackjackStateValidationError if the payload does not describe a valid state
+ */
+export function parseBlackjackState(raw: unknown): BlackjackState {
+  const state = expectObject(fromJson(raw, 'state'), 'state');
+
+  if (state.dealerHand !== undefined && typeof state.dealerHand !== 'string') {
+    throw new BlackjackStateValidationError('state.dealerHand', 'expected a string', state.dealerHand);
+  }
+
+  const parsed: BlackjackState = {
+    currentStage: parseBlackjackStage(state.currentStage, 'state.currentStage'),
+    dealerHand: (state.dealerHand as string | undefined) ?? '',
+    bets: expectBets(state.bets ?? {}, 'state.bets'),
+  };
+  // only set by the host's controls, most states leave them out
+  if (state.pausedAt != null) parsed.pausedAt = expectDeadline(state.pausedAt, 'state.pausedAt');
+  if (state.pendingConfig != null) parsed.pendingConfig = expectConfig(state.pendingConfig, 'state.pendingConfig');
+  return parsed;
+}
+
+/**
+ * Parses the `gameState` string stored on a room.
+ * Rooms that have not been started yet store an empty object, which is treated as "no state" instead of an error.
+ *
+ * @throws BlackjackStateValidationError if the room has a state, but it is invalid
+ */
+export function parseStoredBlackjackState(raw: string | null | undefined): BlackjackState | null {
+  if (!raw || !raw.trim()) return null;
+
+  const parsed = fromJson(raw, 'state');
+  if (isRecord(parsed) && Object.keys(parsed).length === 0) return null;
+
+  return parseBlackjackState(parsed);
+}
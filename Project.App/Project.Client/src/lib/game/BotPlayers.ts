@@ -0,0 +1,17 @@
+// for reference:
+// Project.App/Project.Api/Utilities/BlackjackBotStrategy.cs
+
+import { BotPolicy, RoomPlayerDTO } from '../api/Api.types';
+
+/** The ways the server can play a bot's seat, for the host to pick from. */
+export const BOT_POLICIES: { value: BotPolicy; label: string; description: string }[] = [
+  { value: 'BasicStrategy', label: 'Basic strategy', description: 'Plays by the basic strategy chart' },
+  { value: 'AlwaysStand', label: 'Always stand', description: 'Never takes another card' },
+  { value: 'MimicDealer', label: 'Mimic dealer', description: 'Hits below 17, like the dealer' },
+];
+
+export const isBot = (player: Pick<RoomPlayerDTO, 'botPolicy'> | undefined): boolean => !!player?.botPolicy;
+
+export function getBotPolicyLabel(policy: BotPolicy): string {
+  return BOT_POLICIES.find((option) => option.value === policy)?.label ?? policy;
+}
@@ -0,0 +1,17 @@
+// for reference:
+// Project.App/Project.Api/Services/LocalDeckService.cs
+
+import { Card } from '../sse/GameEvents.types';
+
+// rank then suit, with 0 for tens, or X1 and X2 for the jokers
+const CARD_CODE_PATTERN = /^(?:[2-90AJQK][SHDC]|X[12])$/;
+
+/**
+ * The bundled image for a card (see `public/cards`), found by its code so games don't need the deck api's images.
+ *
+ * @returns null for face-down cards and codes there is no image for
+ */
+export function getCardImage(card: Pick<Card, 'code' | 'isFaceDown'>): string | null {
+  if (card.isFaceDown || !CARD_CODE_PATTERN.test(card.code)) return null;
+  return `/cards/${card.code}.svg`;
+}
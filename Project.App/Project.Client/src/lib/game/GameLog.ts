@@ -0,0 +1,316 @@
+import { Card, RoomEvent } from '../sse/GameEvents.types';
+import { unhandledVariant } from './BlackjackActions';
+import { parseBlackjackStage } from './BlackjackStateParser';
+import { BlackjackStageType } from './BlackjackState.types';
+
+export const GAME_LOG_CATEGORIES = ['round', 'bet', 'play', 'reveal', 'payout', 'room'] as const;
+
+export type GameLogCategory = (typeof GAME_LOG_CATEGORIES)[number];
+
+/**
+ * The maximum number of entries kept per room, older entries are dropped first.
+ */
+export const MAX_GAME_LOG_ENTRIES = 500;
+
+/**
+ * A single line of the game log.
+ * `text` may contain a `{player}` placeholder, which is filled in with the player's current name when displayed,
+ * so entries recorded before the roster was loaded still show names.
+ */
+export interface GameLogEntry {
+  id: number;
+  timestamp: string; // ISO 8601, when the event was received
+  category: GameLogCategory;
+  eventType: string;
+  playerId?: string; // user guid
+  playerName?: string; // name carried by the event itself, if any
+  text: string;
+}
+
+/** An entry that has not been added to a log yet, and so has no id. */
+export type NewGameLogEntry = Omit<GameLogEntry, 'id'>;
+
+type GameLogEntryDraft = Omit<NewGameLogEntry, 'timestamp' | 'eventType'>;
+
+const STAGE_MESSAGES: Partial<Record<BlackjackStageType, string>> = {
+  betting: 'Betting opened for a new round',
+  dealing: 'Dealing cards',
+  finish_round: "Dealer's turn",
+  teardown: 'The game has ended',
+};
+
+const formatMoney = (amount: number) => `$${amount.toLocaleString()}`;
+
+const formatCards = (cards: Card[] | null | undefined) =>
+  (cards ?? []).map((card) => (card.isFaceDown ? '??' : card.code)).join(' ');
+
+const handLabel = (handIndex: number) => (handIndex > 0 ? ` (hand ${handIndex + 1})` : '');
+
+/**
+ * Turns room events into log entries.
+ * Keeps track of the round (bets, dealer score, surrenders) to describe payouts, which have no event of their own.
+ */
+export function createGameLogRecorder(now: () => Date = () => new Date()) {
+  let stage: BlackjackStageType | null = null;
+  let dealerScore: number | null = null;
+  let dealerCardCount = 0;
+  let bets: Record<string, number> = {}; // by `${userId}:${handIndex}`
+  let surrendered = new Set<string>();
+
+  const handKey = (playerId: string, handIndex: number) => `${playerId}:${handIndex}`;
+
+  // the server numbers a hand made by splitting after the player's last hand
+  const nextHandIndex = (playerId: string) =>
+    Math.max(
+      -1,
+      ...Object.keys(bets)
+        .filter((key) => key.startsWith(`${playerId}:`))
+        .map((key) => Number(key.slice(playerId.length + 1))),
+    ) + 1;
+
+  const describePayout = (playerId: string, handIndex: number, cards: Card[], score: number): string | null => {
+    if (stage !== 'finish_round' || dealerScore === null) return null;
+
+    const key = handKey(playerId, handIndex);
+    const bet = bets[key];
+    const stake = bet !== undefined ? ` ${formatMoney(bet)}` : '';
+    const label = handLabel(handIndex);
+
+    if (surrendered.has(key)) return `{player}${label} surrendered`;
+
+    // same rules as CompareHand on the server
+    let result: number;
+    if (score > 21) result = -1;
+    else if (dealerScore > 21) result = 1;
+    else if (score === 21 && dealerScore === 21) result = dealerCardCount - cards.length;
+    else result = score - dealerScore;
+
+    if (result > 0) return `{player}${label} won${stake} (${score} vs ${dealerScore})`;
+    if (result < 0) return `{player}${label} lost${stake} (${score} vs ${dealerScore})`;
+    return `{player}${label} pushed, bet returned (${score} vs ${dealerScore})`;
+  };
+
+  const describe = (event: RoomEvent): GameLogEntryDraft | GameLogEntryDraft[] | null => {
+    switch (event.eventType) {
+      case 'game_state_update': {
+        let next: BlackjackStageType;
+        try {
+          next = parseBlackjackStage(event.data.currentStage).$type;
+        } catch {
+          return null;
+        }
+        if (next === stage) return null;
+
+        stage = next;
+        if (next === 'betting') {
+          dealerScore = null;
+          dealerCardCount = 0;
+          bets = {};
+          surrendered = new Set();
+        }
+        const text = STAGE_MESSAGES[next];
+        return text ? { category: 'round', text } : null;
+      }
+      case 'player_action': {
+        const { data } = event;
+        const { playerId, handIndex = 0 } = data;
+        const label = handLabel(handIndex);
+        switch (data.action) {
+          case 'bet':
+            bets[handKey(playerId, handIndex)] = data.amount;
+            return { category: 'bet', playerId, text: `{player} bet ${formatMoney(data.amount)}` };
+          case 'hit':
+            return { category: 'play', playerId, text: `{player}${label} hit: ${formatCards(data.cards)}` };
+          case 'stand':
+            return { category: 'play', playerId, text: `{player}${label} stood` };
+          case 'double':
+            bets[handKey(playerId, handIndex)] = data.amount;
+            return {
+              category: 'play',
+              playerId,
+              text: `{player}${label} doubled to ${formatMoney(data.amount)}: ${formatCards(data.cards)}`,
+            };
+          case 'split':
+            bets[handKey(playerId, nextHandIndex(playerId))] = data.amount;
+            return { category: 'play', playerId, text: `{player} split, betting ${formatMoney(data.amount)} more` };
+          case 'surrender':
+            surrendered.add(handKey(playerId, handIndex));
+            return {
+              category: 'play',
+              playerId,
+              text: `{player}${label} surrendered, ${formatMoney(data.amount)} refunded`,
+            };
+          case 'hurry_up':
+            return data.success
+              ? {
+                  category: 'play',
+                  playerId: data.targetPlayerId ?? undefined,
+                  text: '{player} ran out of time and was marked inactive',
+                }
+              : { category: 'play', playerId, text: '{player} asked the current player to hurry up' };
+          default: {
+            // sent by a newer server
+            const unknownAction = unhandledVariant(data) as { action?: string };
+            return { category: 'play', playerId, text: `{player} did something (${unknownAction.action})` };
+          }
+        }
+      }
+      case 'player_reveal': {
+        const { playerId, handIndex = 0, playerHand, playerScore } = event.data;
+        const reveal: GameLogEntryDraft = {
+          category: 'reveal',
+          playerId,
+          text: `{player}${handLabel(handIndex)} has ${formatCards(playerHand)} (${playerScore})`,
+        };
+        const payout = describePayout(playerId, handIndex, playerHand ?? [], playerScore);
+        return payout ? [reveal, { category: 'payout', playerId, text: payout }] : reveal;
+      }
+      case 'dealer_reveal': {
+        const { data } = event;
+        dealerScore = data.dealerScore;
+        dealerCardCount = (data.dealerHand ?? []).length;
+        const hidden = (data.dealerHand ?? []).some((card) => card.isFaceDown);
+        return {
+          category: 'reveal',
+          text: `Dealer has ${formatCards(data.dealerHand)} (${hidden ? `${data.dealerScore}+?` : data.dealerScore})`,
+        };
+      }
+      case 'player_join': {
+        const { playerId, playerName } = event.data;
+        return { category: 'room', playerId, playerName, text: '{player} joined' };
+      }
+      case 'player_leave': {
+        const { playerId, playerName } = event.data;
+        return { category: 'room', playerId, playerName, text: '{player} left' };
+      }
+      case 'host_change': {
+        const { playerId, playerName } = event.data;
+        return { category: 'room', playerId, playerName, text: '{player} is now the host' };
+      }
+      case 'player_kicked': {
+        const { playerId, playerName, banned } = event.data;
+        return {
+          category: 'room',
+          playerId,
+          playerName,
+          text: banned ? '{player} was banned by the host' : '{player} was removed from the table by the host',
+        };
+      }
+      case 'chat_user_muted': {
+        const { userId, userName, muted } = event.data;
+        return {
+          category: 'room',
+          playerId: userId,
+          playerName: userName,
+          text: muted ? '{player} was muted in the chat by the host' : '{player} can chat again',
+        };
+      }
+      case 'game_paused':
+        return { category: 'room', text: 'The host paused the game' };
+      case 'game_resumed':
+        return { category: 'room', text: 'The host resumed the game' };
+      case 'config_change': {
+        const { config, pending } = event.data;
+        const change = config?.minBet !== undefined ? `, minimum bet ${formatMoney(config.minBet)}` : '';
+        return {
+          category: 'room',
+          text: pending
+            ? `The host changed the settings for the next round${change}`
+            : `The table settings changed${change}`,
+        };
+      }
+      case 'chat':
+      case 'chat_message_deleted':
+        // the chat has its own panel
+        return null;
+      case 'viewer_join':
+      case 'viewer_leave':
+      case 'resync':
+        // not worth logging
+        return null;
+      default:
+        unhandledVariant(event);
+        return null;
+    }
+  };
+
+  return {
+    /**
+     * Describes an event as zero or more log entries.
+     */
+    record(event: RoomEvent): NewGameLogEntry[] {
+      const drafts = describe(event);
+      if (!drafts) return [];
+
+      const timestamp = now().toISOString();
+      const { eventType } = event;
+      return (Array.isArray(drafts) ? drafts : [drafts]).map((draft) => ({ timestamp, eventType, ...draft }));
+    },
+  };
+}
+
+export type GameLogRecorder = ReturnType<typeof createGameLogRecorder>;
+
+/**
+ * Adds entries to the log, numbering them after the last entry and dropping the oldest ones beyond the cap.
+ */
+export function appendLogEntries(
+  log: GameLogEntry[],
+  entries: NewGameLogEntry[],
+  max = MAX_GAME_LOG_ENTRIES,
+): GameLogEntry[] {
+  if (entries.length === 0) return log;
+
+  const lastId = log.length > 0 ? log[log.length - 1].id : 0;
+  const numbered = entries.map((entry, index) => ({ ...entry, id: lastId + index + 1 }));
+  return [...log, ...numbered].slice(-max);
+}
+
+/**
+ * Fills in the player placeholder, preferring the current roster over the name sent with the event.
+ */
+export function formatLogEntry(entry: NewGameLogEntry, resolveName: (playerId: string) => string | undefined) {
+  const name = (entry.playerId && resolveName(entry.playerId)) || entry.playerName || 'A player';
+  return entry.text.replaceAll('{player}', name);
+}
+
+export function exportLogAsJson(log: GameLogEntry[], resolveName: (playerId: string) => string | undefined) {
+  return JSON.stringify(
+    log.map((entry) => ({ ...entry, message: formatLogEntry(entry, resolveName) })),
+    null,
+    2,
+  );
+}
+
+export function exportLogAsText(log: GameLogEntry[], resolveName: (playerId: string) => string | undefined) {
+  return log
+    .map((entry) => `[${entry.timestamp}] [${entry.category}] ${formatLogEntry(entry, resolveName)}`)
+    .join('\n');
+}
+
+const storageKey = (roomId: string) => `gameLog:${roomId}`;
+
+/**
+ * Loads the log of this browser session for a room, so it survives reloads.
+ */
+export function loadGameLog(roomId: string): GameLogEntry[] {
+  if (typeof sessionStorage === 'undefined') return [];
+
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(storageKey(roomId)) ?? '[]');
+    return Array.isArray(stored) ? stored.slice(-MAX_GAME_LOG_ENTRIES) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveGameLog(roomId: string, log: GameLogEntry[]) {
+  if (typeof sessionStorage === 'undefined') return;
+
+  try {
+    sessionStorage.setItem(storageKey(roomId), JSON.stringify(log));
+  } catch (error) {
+    // storage full or disabled, the log still works for this page
+    console.warn('[GameLog] Failed to save log:', error);
+  }
+}
@@ -0,0 +1,461 @@
+import { ChatHistoryDTO, RoomDTO, RoomPlayerDTO, RoomViewerDTO } from '../api/Api.types';
+import { Card, ChatEventData, PlayerActionEventData, RoomEvent } from '../sse/GameEvents.types';
+import { BlackjackActionRequest, unhandledVariant } from './BlackjackActions';
+import { parseBlackjackConfig } from './BlackjackConfig';
+import { BlackjackConfig, BlackjackStage, BlackjackState } from './BlackjackState.types';
+import { BlackjackStateValidationError, parseBlackjackStage } from './BlackjackStateParser';
+import { appendToHand, createHandView, HandView, replaceHand, splitHand, TableHands } from './TableState';
+
+/**
+ * Everything the game page shows about a room, kept up to date by applying room events.
+ */
+export interface GameStoreState {
+  room: RoomDTO | null;
+  /**
+   * The room's `gameConfig`, parsed.
+   * Changes the host makes during a game are in `gameState.pendingConfig` until the next round.
+   */
+  gameConfig: Partial<BlackjackConfig> | null;
+  players: RoomPlayerDTO[];
+  gameState: BlackjackState | null;
+  hands: TableHands;
+  dealerHand: HandView | null;
+  /** The bets of the current round by room player guid. Their order is the turn order once betting is over. */
+  roundBets: Record<string, number>;
+  /** The chat, oldest first, starting with the history loaded on joining. */
+  messages: ChatEventData[];
+  /** Users the host muted in the chat. */
+  mutedUserIds: string[];
+  /** Who has the room open, with or without a seat. */
+  viewers: RoomViewerDTO[];
+  /** Actions this client sent that the server has not confirmed with an event yet, oldest first. */
+  pending: PendingAction[];
+  /**
+   * Bumped whenever something changed that the events do not describe (payouts, new players, ...),
+   * so whoever owns the store knows to fetch it again.
+   */
+  refetch: { room: number; players: number };
+}
+
+/**
+ * An action sent by this client. Until the matching `player_action` event arrives, its expected outcome
+ * is shown on top of the confirmed state, see `withPendingActions`.
+ */
+export interface PendingAction {
+  /** The idempotency key the action was sent with. */
+  id: string;
+  userId: string;
+  request: BlackjackActionRequest;
+  /** Whether the server accepted the request. The event confirming it may still be on its way. */
+  acknowledged: boolean;
+}
+
+export type GameStoreAction =
+  | { type: 'room_loaded'; room: RoomDTO }
+  | { type: 'players_loaded'; players: RoomPlayerDTO[] }
+  | { type: 'spectators_loaded'; spectators: RoomViewerDTO[] }
+  | { type: 'game_state_loaded'; gameState: BlackjackState | null }
+  | { type: 'chat_loaded'; history: ChatHistoryDTO }
+  | { type: 'event'; event: RoomEvent }
+  | { type: 'action_sent'; id: string; userId: string; request: BlackjackActionRequest }
+  | { type: 'action_acknowledged'; id: string }
+  | { type: 'action_failed'; id: string };
+
+export const initialGameStore: GameStoreState = {
+  room: null,
+  gameConfig: null,
+  players: [],
+  gameState: null,
+  hands: {},
+  dealerHand: null,
+  roundBets: {},
+  messages: [],
+  mutedUserIds: [],
+  viewers: [],
+  pending: [],
+  refetch: { room: 0, players: 0 },
+};
+
+function updatePlayers(
+  players: RoomPlayerDTO[],
+  matches: (player: RoomPlayerDTO) => boolean,
+  update: (player: RoomPlayerDTO) => Partial<RoomPlayerDTO>,
+): RoomPlayerDTO[] {
+  return players.some(matches)
+    ? players.map((player) => (matches(player) ? { ...player, ...update(player) } : player))
+    : players;
+}
+
+const bumpRefetch = (state: GameStoreState, key: keyof GameStoreState['refetch']) => ({
+  ...state.refetch,
+  [key]: state.refetch[key] + 1,
+});
+
+/**
+ * Moves to a new stage, taking care of what happens between stages without an event of its own.
+ */
+function applyStage(state: GameStoreState, next: BlackjackStage): GameStoreState {
+  const previous = state.gameState?.currentStage.$type ?? null;
+  // keep any fields that are not broadcast
+  let result: GameStoreState = {
+    ...state,
+    gameState: { dealerHand: '', bets: {}, ...state.gameState, currentStage: next },
+  };
+
+  if (next.$type === 'betting') {
+    // a new round starts with an empty table
+    result = { ...result, roundBets: next.bets };
+    if (previous !== 'betting') {
+      result = { ...result, hands: {}, dealerHand: null };
+    }
+  }
+
+  if (previous === 'betting' && next.$type === 'dealing') {
+    // the server takes the bets once betting closes
+    result = {
+      ...result,
+      players: result.players.map((player) =>
+        player.id in state.roundBets ? { ...player, balance: player.balance - state.roundBets[player.id] } : player,
+      ),
+    };
+  }
+
+  if (previous !== next.$type && (next.$type === 'betting' || next.$type === 'teardown')) {
+    // winnings are paid out (or balances reset when the game starts) without any events
+    result = { ...result, refetch: bumpRefetch(result, 'players') };
+  }
+  if (previous === 'init' && next.$type !== 'init') {
+    // starting the game may update the room's config
+    result = { ...result, refetch: bumpRefetch(result, 'room') };
+  }
+
+  return result;
+}
+
+function applyPlayerAction(state: GameStoreState, event: PlayerActionEventData): GameStoreState {
+  const isActor = (player: RoomPlayerDTO) => player.userId === event.playerId;
+
+  switch (event.action) {
+    case 'bet': {
+      // the next state update has the bet as well, but showing it now keeps optimistic bets from flickering
+      const better = state.players.find(isActor);
+      const stage = state.gameState?.currentStage;
+      const withBet =
+        better && stage?.$type === 'betting'
+          ? {
+              ...state,
+              gameState: {
+                ...state.gameState,
+                currentStage: { ...stage, bets: { ...stage.bets, [better.id]: event.amount } },
+              },
+              roundBets: { ...state.roundBets, [better.id]: event.amount },
+            }
+          : state;
+      return { ...withBet, players: updatePlayers(state.players, isActor, () => ({ status: 'Active' })) };
+    }
+    case 'hit':
+      // show the drawn card right away, the following player_reveal has the full hand
+      return event.cards?.length
+        ? { ...state, hands: appendToHand(state.hands, event.playerId, event.handIndex, event.cards) }
+        : state;
+    case 'double':
+      // the amount is the doubled bet, of which the original half was already paid
+      return {
+        ...state,
+        hands: event.cards?.length
+          ? appendToHand(state.hands, event.playerId, event.handIndex, event.cards)
+          : state.hands,
+        players: updatePlayers(state.players, isActor, (player) => ({ balance: player.balance - event.amount / 2 })),
+      };
+    case 'split':
+      return {
+        ...state,
+        hands: splitHand(state.hands, event.playerId, event.handIndex),
+        players: updatePlayers(state.players, isActor, (player) => ({ balance: player.balance - event.amount })),
+      };
+    case 'surrender':
+      return {
+        ...state,
+        players: updatePlayers(state.players, isActor, (player) => ({ balance: player.balance + event.amount })),
+      };
+    case 'stand':
+      return state;
+    case 'hurry_up':
+      return event.success && event.targetPlayerId
+        ? {
+            ...state,
+            players: updatePlayers(
+              state.players,
+              (player) => player.userId === event.targetPlayerId,
+              () => ({ status: 'Inactive' }),
+            ),
+          }
+        : state;
+    default: {
+      // compile-time exhaustiveness check, but the server may still send something new
+      const unknownAction = unhandledVariant(event) as { action?: string };
+      console.warn(`[GameStore] Unknown action: ${unknownAction?.action}`);
+      return state;
+    }
+  }
+}
+
+/**
+ * Drops the pending action the event answers, found by its idempotency key, or else the oldest one of the same
+ * player and kind. Actions the server turned down (`success: false`) are dropped as well, which rolls them back.
+ */
+function confirmPendingAction(state: GameStoreState, event: PlayerActionEventData): GameStoreState {
+  const index = event.idempotencyKey
+    ? state.pending.findIndex((pending) => pending.id === event.idempotencyKey)
+    : state.pending.findIndex(
+        (pending) => pending.userId === event.playerId && pending.request.action === event.action,
+      );
+  return index === -1 ? state : { ...state, pending: state.pending.filter((_, i) => i !== index) };
+}
+
+/**
+ * Takes the loaded history, keeping messages that arrived as events after it was read.
+ */
+function mergeChatHistory(messages: ChatEventData[], history: ChatEventData[]): ChatEventData[] {
+  const loaded = new Set(history.map((message) => message.id));
+  const lastLoaded = history.at(-1)?.timestamp;
+  const newer = messages.filter(
+    (message) => !loaded.has(message.id) && (!lastLoaded || Date.parse(message.timestamp) > Date.parse(lastLoaded)),
+  );
+  return [...history, ...newer];
+}
+
+function applyEvent(state: GameStoreState, event: RoomEvent): GameStoreState {
+  switch (event.eventType) {
+    case 'chat':
+      // may already be part of the loaded history
+      return state.messages.some((message) => message.id === event.data.id)
+        ? state
+        : { ...state, messages: [...state.messages, event.data] };
+    case 'chat_message_deleted':
+      return { ...state, messages: state.messages.filter((message) => message.id !== event.data.messageId) };
+    case 'chat_user_muted': {
+      const others = state.mutedUserIds.filter((userId) => userId !== event.data.userId);
+      return { ...state, mutedUserIds: event.data.muted ? [...others, event.data.userId] : others };
+    }
+    case 'game_state_update': {
+      let stage: BlackjackStage;
+      try {
+        stage = parseBlackjackStage(event.data.currentStage);
+      } catch (error) {
+        if (error instanceof BlackjackStateValidationError) {
+          // reject the update, keep showing the last valid state
+          console.error(`[GameStore] Rejected game state update: ${error.message}`, error.received);
+          return state;
+        }
+        throw error;
+      }
+      return applyStage(state, stage);
+    }
+    case 'player_action':
+      return confirmPendingAction(applyPlayerAction(state, event.data), event.data);
+    case 'player_join':
+      // a new room player (or a returning one, whose balance may have been reset), which the event does not describe
+      return { ...state, refetch: bumpRefetch(state, 'players') };
+    case 'player_leave':
+      return {
+        ...state,
+        players: updatePlayers(
+          state.players,
+          (player) => player.userId === event.data.playerId,
+          () => ({ status: 'Left' }),
+        ),
+      };
+    case 'player_kicked':
+      // kicked players can keep watching, but only those not banned can take a seat again
+      return {
+        ...state,
+        players: updatePlayers(
+          state.players,
+          (player) => player.userId === event.data.playerId,
+          () => ({ status: 'Left' }),
+        ),
+      };
+    case 'game_paused':
+      return state.gameState ? { ...state, gameState: { ...state.gameState, pausedAt: event.data.pausedAt } } : state;
+    case 'game_resumed': {
+      if (!state.gameState) return state;
+      const { currentStage } = state.gameState;
+      const { deadline } = event.data;
+      return {
+        ...state,
+        gameState: {
+          ...state.gameState,
+          pausedAt: null,
+          // the timers continue where they stopped
+          currentStage: deadline && 'deadline' in currentStage ? { ...currentStage, deadline } : currentStage,
+        },
+      };
+    }
+    case 'config_change':
+      if (event.data.pending) {
+        return state.gameState
+          ? { ...state, gameState: { ...state.gameState, pendingConfig: event.data.config } }
+          : state;
+      }
+      return {
+        ...state,
+        gameConfig: event.data.config,
+        gameState: state.gameState ? { ...state.gameState, pendingConfig: null } : state.gameState,
+      };
+    case 'host_change':
+      return state.room ? { ...state, room: { ...state.room, hostId: event.data.playerId } } : state;
+    case 'player_reveal': {
+      const { playerId, handIndex, playerHand, playerScore } = event.data;
+      // the server sends the whole hand, so replace whatever was built up incrementally
+      return {
+        ...state,
+        hands: replaceHand(state.hands, playerId, handIndex, createHandView(playerHand, playerScore)),
+      };
+    }
+    case 'dealer_reveal':
+      // hole card arrives face down until the dealer's turn
+      return { ...state, dealerHand: createHandView(event.data.dealerHand, event.data.dealerScore) };
+    case 'viewer_join':
+      return state.viewers.some((viewer) => viewer.userId === event.data.userId)
+        ? state
+        : { ...state, viewers: [...state.viewers, event.data] };
+    case 'viewer_leave':
+      return { ...state, viewers: state.viewers.filter((viewer) => viewer.userId !== event.data.userId) };
+    case 'resync':
+      // handled by refetching the whole room
+      return state;
+    default:
+      unhandledVariant(event);
+      return state;
+  }
+}
+
+/**
+ * Applies loaded data and room events to the store.
+ * Pure, so recorded event sequences can be replayed in tests with `events.reduce(gameStoreReducer, state)`.
+ */
+export function gameStoreReducer(state: GameStoreState, action: GameStoreAction): GameStoreState {
+  switch (action.type) {
+    case 'action_sent':
+      return {
+        ...state,
+        pending: [
+          ...state.pending,
+          { id: action.id, userId: action.userId, request: action.request, acknowledged: false },
+        ],
+      };
+    case 'action_acknowledged':
+      return {
+        ...state,
+        pending: state.pending.map((pending) =>
+          pending.id === action.id ? { ...pending, acknowledged: true } : pending,
+        ),
+      };
+    case 'action_failed':
+      // rolls back whatever was shown for it
+      return { ...state, pending: state.pending.filter((pending) => pending.id !== action.id) };
+    case 'room_loaded':
+      return { ...state, room: action.room, gameConfig: parseBlackjackConfig(action.room.gameConfig) };
+    case 'players_loaded':
+      return { ...state, players: action.players };
+    case 'spectators_loaded':
+      // seated viewers are left out, which only matters if they give up their seat and keep watching
+      return { ...state, viewers: action.spectators };
+    case 'game_state_loaded': {
+      const stage = action.gameState?.currentStage;
+      return {
+        ...state,
+        gameState: action.gameState,
+        roundBets: stage?.$type === 'betting' ? stage.bets : state.roundBets,
+        // a fresh state already includes anything the server accepted, even if its event was missed
+        pending: state.pending.filter((pending) => !pending.acknowledged),
+      };
+    }
+    case 'chat_loaded':
+      return {
+        ...state,
+        messages: mergeChatHistory(state.messages, action.history.messages),
+        mutedUserIds: action.history.mutedUserIds,
+      };
+    case 'event':
+      return applyEvent(state, action.event);
+    default:
+      unhandledVariant(action);
+      return state;
+  }
+}
+
+/** Stands in for a card that is being drawn. */
+const DRAWING_CARD: Card = { code: '', image: '', value: '', suit: '', isFaceDown: true };
+
+/**
+ * The expected outcome of a pending action. Only bets, hits, stands and doubles are predicted,
+ * anything else just waits for the server.
+ */
+function applyPendingAction(state: GameStoreState, pending: PendingAction): GameStoreState {
+  const player = state.players.find((p) => p.userId === pending.userId);
+  const stage = state.gameState?.currentStage;
+  const handIndex = stage?.$type === 'player_action' ? stage.handIndex : 0;
+
+  switch (pending.request.action) {
+    case 'bet': {
+      if (!player || stage?.$type !== 'betting') return state;
+      const { amount } = pending.request.data;
+      return {
+        ...state,
+        gameState: { ...state.gameState, currentStage: { ...stage, bets: { ...stage.bets, [player.id]: amount } } },
+        roundBets: { ...state.roundBets, [player.id]: amount },
+      };
+    }
+    case 'hit':
+      return { ...state, hands: appendToHand(state.hands, pending.userId, handIndex, [DRAWING_CARD]) };
+    case 'double': {
+      const bet = player ? state.roundBets[player.id] : undefined;
+      return {
+        ...state,
+        hands: appendToHand(state.hands, pending.userId, handIndex, [DRAWING_CARD]),
+        players:
+          bet !== undefined
+            ? updatePlayers(
+                state.players,
+                (p) => p === player,
+                (p) => ({ balance: p.balance - bet }),
+              )
+            : state.players,
+      };
+    }
+    default:
+      // stand has nothing to show until the turn moves on
+      return state;
+  }
+}
+
+/**
+ * The state to display: the confirmed state with the expected outcome of every pending action on top.
+ */
+export function withPendingActions(state: GameStoreState): GameStoreState {
+  return state.pending.reduce(applyPendingAction, state);
+}
+
+/** Whether the player has a seat at the table, as opposed to having left it. */
+export const isSeated = (player: RoomPlayerDTO | undefined): player is RoomPlayerDTO =>
+  !!player && player.status !== 'Left';
+
+/**
+ * Everyone watching without a seat. Players who left the table but still have the room open are spectators too.
+ */
+export function getSpectators(state: GameStoreState): RoomViewerDTO[] {
+  return state.viewers.filter((viewer) => !isSeated(state.players.find((p) => p.userId === viewer.userId)));
+}
+
+/** Stages between rounds (or before the first one), when someone can sit down without joining a round halfway. */
+const SEATING_STAGES: (BlackjackStage['$type'] | undefined)[] = [undefined, 'init', 'betting', 'teardown'];
+
+/**
+ * Whether a spectator can take a seat right now: there has to be a free one, and no round being played.
+ */
+export function canTakeSeat(state: GameStoreState): boolean {
+  const seated = state.players.filter(isSeated).length;
+  return !!state.room && seated < state.room.maxPlayers && SEATING_STAGES.includes(state.gameState?.currentStage.$type);
+}
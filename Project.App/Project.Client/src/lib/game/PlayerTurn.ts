@@ -0,0 +1,123 @@
+// for reference:
+// Project.App/Project.Api/Services/BlackjackService.cs (DoDoubleAsync, DoSplitAsync, DoSurrenderAsync)
+
+import { DEFAULT_BLACKJACK_CONFIG } from './BlackjackConfig';
+import { BlackjackConfig, BlackjackStage } from './BlackjackState.types';
+import { HandView, TableHands } from './TableState';
+
+/**
+ * The actions a player can take on their own turn.
+ */
+export type TurnAction = 'hit' | 'stand' | 'double' | 'split' | 'surrender';
+
+/**
+ * The room player fields needed to work out whose turn it is.
+ */
+export interface TurnPlayer {
+  id: string; // room player guid
+  userId: string; // user guid
+  userName?: string;
+  balance: number;
+}
+
+export interface TurnContext {
+  stage: BlackjackStage | null;
+  /** Bets of the current round by room player id, in the order they were placed (which is the turn order). */
+  roundBets: Record<string, number>;
+  players: TurnPlayer[];
+  hands: TableHands;
+  userId: string | undefined;
+  /** The table's rules, the server's defaults are used for anything missing. */
+  rules?: Partial<BlackjackConfig> | null;
+  /** The current server time in ms, see `ServerClock.now`. */
+  now: number;
+}
+
+export interface TurnInfo {
+  /** The player whose turn it is, or null outside of the player action stage or if the turn order is unknown. */
+  activePlayer: TurnPlayer | null;
+  /** Whether the turn order could not be worked out, e.g. after joining in the middle of a round. */
+  unknownTurnOrder: boolean;
+  isMyTurn: boolean;
+  /** The hand being played, if known. */
+  hand: HandView | null;
+  /** The bet on the hand being played, if known. */
+  bet: number | null;
+  legal: Record<TurnAction, boolean>;
+  /** Whether the current user may hurry up the active player, which the server only allows once their time is up. */
+  canHurryUp: boolean;
+}
+
+const NO_ACTIONS: Record<TurnAction, boolean> = {
+  hit: false,
+  stand: false,
+  double: false,
+  split: false,
+  surrender: false,
+};
+
+/**
+ * Finds the room player whose turn it is.
+ * The server numbers players by the order their bets were placed, so `playerIndex` indexes into the round's bets.
+ */
+export function getActiveRoomPlayerId(stage: BlackjackStage | null, roundBets: Record<string, number>) {
+  if (stage?.$type !== 'player_action') return null;
+  return Object.keys(roundBets)[stage.playerIndex] ?? null;
+}
+
+/**
+ * Works out whose turn it is and which actions are legal for them, mirroring the server's checks
+ * so buttons can be disabled instead of failing after the request.
+ */
+export function getTurnInfo({ stage, roundBets, players, hands, userId, rules, now }: TurnContext): TurnInfo {
+  const info: TurnInfo = {
+    activePlayer: null,
+    unknownTurnOrder: false,
+    isMyTurn: false,
+    hand: null,
+    bet: null,
+    legal: NO_ACTIONS,
+    canHurryUp: false,
+  };
+  if (stage?.$type !== 'player_action') return info;
+
+  const activeRoomPlayerId = getActiveRoomPlayerId(stage, roundBets);
+  const activePlayer = players.find((p) => p.id === activeRoomPlayerId) ?? null;
+
+  if (!activePlayer) {
+    // no way to tell whose turn it is, let the server decide on basic actions
+    const isPlaying = players.some((p) => p.userId === userId);
+    return { ...info, unknownTurnOrder: true, legal: { ...NO_ACTIONS, hit: isPlaying, stand: isPlaying } };
+  }
+
+  const isMyTurn = activePlayer.userId === userId;
+  const hand = hands[activePlayer.userId]?.[stage.handIndex] ?? null;
+  // hands made by splitting are played for the same amount as the original bet
+  const bet = roundBets[activePlayer.id] ?? null;
+  const { doubleAfterSplit, lateSurrender, maxSplits, resplitAces } = { ...DEFAULT_BLACKJACK_CONFIG, ...rules };
+
+  // double, split and surrender are only allowed as the first action on a hand
+  const isFirstAction = hand !== null && hand.cards.length === 2;
+  const canAfford = bet !== null && activePlayer.balance >= bet;
+  const splits = Math.max(Object.keys(hands[activePlayer.userId] ?? {}).length - 1, 0);
+  const isPair = isFirstAction && hand.cards[0].value === hand.cards[1].value;
+  const canSplit = isPair && splits < maxSplits && (splits === 0 || hand.cards[0].value !== 'ACE' || resplitAces);
+
+  return {
+    ...info,
+    activePlayer,
+    isMyTurn,
+    hand,
+    bet,
+    legal: isMyTurn
+      ? {
+          hit: true,
+          stand: true,
+          double: isFirstAction && canAfford && (splits === 0 || doubleAfterSplit),
+          split: canSplit && canAfford,
+          surrender: lateSurrender && isFirstAction && stage.handIndex === 0,
+        }
+      : NO_ACTIONS,
+    canHurryUp: !isMyTurn && players.some((p) => p.userId === userId) && now >= Date.parse(stage.deadline),
+  };
+}
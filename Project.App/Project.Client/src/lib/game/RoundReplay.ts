@@ -0,0 +1,77 @@
+import { RoomPlayerDTO, RoundRecordDTO, RoundSummaryDTO } from '../api/Api.types';
+import { isRoomEventType } from '../sse/GameEventHandler';
+import { RoomEvent } from '../sse/GameEvents.types';
+import { createGameLogRecorder, formatLogEntry } from './GameLog';
+import { gameStoreReducer, GameStoreState, initialGameStore } from './GameStore';
+
+/**
+ * One step of a replayed round: the table after an event, and what happened.
+ */
+export interface ReplayStep {
+  state: GameStoreState;
+  /** The event that led here, null for the empty table the replay starts from. */
+  event: RoomEvent | null;
+  timestamp: string | null;
+  /** What happened, in the words of the game log. Empty for events the log leaves out. */
+  descriptions: string[];
+}
+
+/**
+ * The players of a round in seat order, as far as the round's hands tell.
+ * Only their names and ids are known, the room player ids and balances are not kept with the round.
+ */
+export function getRoundPlayers(round: RoundSummaryDTO): RoomPlayerDTO[] {
+  const players = new Map<string, RoomPlayerDTO>();
+  for (const hand of round.hands) {
+    if (players.has(hand.playerId)) continue;
+    players.set(hand.playerId, {
+      id: hand.playerId,
+      userId: hand.playerId,
+      userName: hand.playerName,
+      userEmail: '',
+      role: 'Player',
+      status: 'Active',
+      balance: 0,
+      balanceDelta: 0,
+    });
+  }
+  return [...players.values()];
+}
+
+/**
+ * Replays a recorded round through the same reducer as the live table, one step per event.
+ * The first step is the table before anything happened, the last one the table as the round ended.
+ * Events this client does not know are skipped.
+ */
+export function buildReplay(round: RoundRecordDTO): ReplayStep[] {
+  const players = getRoundPlayers(round);
+  const names = new Map(players.map((player) => [player.userId, player.userName]));
+  const recorder = createGameLogRecorder();
+
+  let state = gameStoreReducer(initialGameStore, { type: 'players_loaded', players });
+  const steps: ReplayStep[] = [{ state, event: null, timestamp: null, descriptions: [] }];
+
+  for (const recorded of round.events) {
+    if (!isRoomEventType(recorded.event)) continue;
+
+    const event = { eventType: recorded.event, data: recorded.data } as RoomEvent;
+    state = gameStoreReducer(state, { type: 'event', event });
+    steps.push({
+      state,
+      event,
+      timestamp: recorded.timestamp,
+      descriptions: recorder.record(event).map((entry) => formatLogEntry(entry, (playerId) => names.get(playerId))),
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * What a round did to a player's balance: the payouts of their hands less what they bet.
+ */
+export function getRoundNet(round: RoundSummaryDTO, playerId: string): number {
+  return round.hands
+    .filter((hand) => hand.playerId === playerId)
+    .reduce((net, hand) => net + hand.payout - hand.bet, 0);
+}
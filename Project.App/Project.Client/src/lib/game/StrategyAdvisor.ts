@@ -0,0 +1,72 @@
+import { describeAdvice, StrategyAdvice } from './BasicStrategy';
+import { TurnAction } from './PlayerTurn';
+
+/**
+ * How closely the player followed basic strategy while the advisor was on, for this browser session.
+ */
+export interface AdvisorSession {
+  enabled: boolean;
+  /** Moves made while there was advice to follow. */
+  decisions: number;
+  /** Moves that were not the advised one. */
+  deviations: number;
+  lastDeviation: { advice: StrategyAdvice; action: TurnAction } | null;
+}
+
+export const INITIAL_ADVISOR_SESSION: AdvisorSession = {
+  enabled: false,
+  decisions: 0,
+  deviations: 0,
+  lastDeviation: null,
+};
+
+const STORAGE_KEY = 'strategyAdvisor';
+
+/**
+ * Counts a move against the advice for it, if the advisor is on.
+ */
+export function recordDecision(session: AdvisorSession, advice: StrategyAdvice, action: TurnAction): AdvisorSession {
+  if (!session.enabled) return session;
+
+  const deviated = action !== advice.action;
+  return {
+    ...session,
+    decisions: session.decisions + 1,
+    deviations: session.deviations + (deviated ? 1 : 0),
+    lastDeviation: deviated ? { advice, action } : session.lastDeviation,
+  };
+}
+
+/**
+ * Tells what the player did instead of the advice, e.g. `You chose hit, basic strategy says: Stand hard 13 against a 4`.
+ */
+export function describeDeviation({ advice, action }: NonNullable<AdvisorSession['lastDeviation']>): string {
+  return `You chose ${action}, basic strategy says: ${describeAdvice(advice)}`;
+}
+
+/**
+ * Loads the advisor's state of this browser session, so it survives reloads and moving between rooms.
+ */
+export function loadAdvisorSession(): AdvisorSession {
+  if (typeof sessionStorage === 'undefined') return INITIAL_ADVISOR_SESSION;
+
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? 'null');
+    return typeof stored === 'object' && stored !== null
+      ? { ...INITIAL_ADVISOR_SESSION, ...stored }
+      : INITIAL_ADVISOR_SESSION;
+  } catch {
+    return INITIAL_ADVISOR_SESSION;
+  }
+}
+
+export function saveAdvisorSession(session: AdvisorSession) {
+  if (typeof sessionStorage === 'undefined') return;
+
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    // storage full or disabled, the advisor still works for this page
+    console.warn('[StrategyAdvisor] Failed to save session:', error);
+  }
+}
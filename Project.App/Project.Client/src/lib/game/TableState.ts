@@ -0,0 +1,95 @@
+import { Card } from '../sse/GameEvents.types';
+
+/**
+ * A single hand on the table, as far as the client knows it.
+ * `score` only counts face-up cards, the same way the server does.
+ */
+export interface HandView {
+  cards: Card[];
+  score: number;
+}
+
+/**
+ * All player hands on the table, by player (user guid) and hand index.
+ * A player has more than one hand after splitting.
+ */
+export type TableHands = Record<string, Record<number, HandView>>;
+
+/**
+ * Calculates the best blackjack value of the face-up cards, counting aces as 1 where needed.
+ * Mirrors `CalculateHandValue` on the server, for hands that are built up from individual cards.
+ */
+export function calculateHandScore(cards: Card[], target = 21): number {
+  let total = 0;
+  let aces = 0;
+
+  for (const card of cards) {
+    if (card.isFaceDown) continue;
+
+    switch (card.value.toUpperCase()) {
+      case 'ACE':
+        aces++;
+        total += 11;
+        break;
+      case 'KING':
+      case 'QUEEN':
+      case 'JACK':
+        total += 10;
+        break;
+      default: {
+        const value = parseInt(card.value, 10);
+        if (!Number.isNaN(value)) total += value;
+        break;
+      }
+    }
+  }
+
+  // downgrade aces from 11 to 1 until under the target
+  while (total > target && aces > 0) {
+    total -= 10;
+    aces--;
+  }
+  return total;
+}
+
+export function createHandView(cards: Card[], score = calculateHandScore(cards)): HandView {
+  return { cards, score };
+}
+
+/**
+ * Replaces a player's hand, e.g. from a `player_reveal` event.
+ */
+export function replaceHand(hands: TableHands, playerId: string, handIndex: number, hand: HandView): TableHands {
+  return { ...hands, [playerId]: { ...hands[playerId], [handIndex]: hand } };
+}
+
+/**
+ * Adds newly drawn cards to a player's hand, e.g. from a `hit` or `double` action.
+ */
+export function appendToHand(hands: TableHands, playerId: string, handIndex: number, cards: Card[]): TableHands {
+  const previous = hands[playerId]?.[handIndex]?.cards ?? [];
+  return replaceHand(hands, playerId, handIndex, createHandView([...previous, ...cards]));
+}
+
+/**
+ * Moves the second card of a hand into a new hand after the player's last one, numbered like the server does on a split.
+ * The card drawn for each hand afterwards arrives with the next `player_reveal` events.
+ */
+export function splitHand(hands: TableHands, playerId: string, handIndex: number): TableHands {
+  const cards = hands[playerId]?.[handIndex]?.cards;
+  if (!cards || cards.length !== 2) return hands;
+
+  const [first, second] = cards;
+  const newHandIndex = Math.max(...getPlayerHands(hands, playerId).map(([index]) => index)) + 1;
+  const withFirst = replaceHand(hands, playerId, handIndex, createHandView([first]));
+  return replaceHand(withFirst, playerId, newHandIndex, createHandView([second]));
+}
+
+/**
+ * Lists a player's hands ordered by hand index.
+ */
+export function getPlayerHands(hands: TableHands, playerId: string): [number, HandView][] {
+  return Object.entries(hands[playerId] ?? {})
+    .map(([handIndex, hand]): [number, HandView] => [Number(handIndex), hand])
+    .sort(([a], [b]) => a - b);
+}
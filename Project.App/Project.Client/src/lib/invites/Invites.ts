@@ -0,0 +1,44 @@
+import { RoomInviteDTO } from '../api/Api.types';
+
+/**
+ * The expiry choices offered to hosts, in minutes. Null never expires.
+ */
+export const INVITE_EXPIRY_OPTIONS: { label: string; minutes: number | null }[] = [
+  { label: 'Never', minutes: null },
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+  { label: '7 days', minutes: 7 * 24 * 60 },
+];
+
+/**
+ * The link that joins the room with the code, e.g. `https://casino.example/join/ABCD2345`.
+ */
+export function inviteUrl(code: string, origin: string): string {
+  return `${origin}/join/${encodeURIComponent(code)}`;
+}
+
+/**
+ * Shows codes in two halves, which is easier to read out loud. The server ignores the dash.
+ */
+export function formatInviteCode(code: string): string {
+  return code.length === 8 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+}
+
+function formatRemaining(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+/**
+ * Summarizes the limits of an invite, e.g. "2/5 uses, expires in 3h".
+ */
+export function describeInvite(invite: RoomInviteDTO, now = Date.now()): string {
+  const uses = invite.maxUses === null ? `${invite.uses} uses` : `${invite.uses}/${invite.maxUses} uses`;
+  if (invite.expiresAt === null) return `${uses}, never expires`;
+
+  const remaining = new Date(invite.expiresAt).getTime() - now;
+  return remaining > 0 ? `${uses}, expires in ${formatRemaining(remaining)}` : `${uses}, expired`;
+}
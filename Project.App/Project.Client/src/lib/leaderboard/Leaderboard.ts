@@ -0,0 +1,64 @@
+// for reference:
+// Project.App/Project.Api/Services/LeaderboardService.cs
+
+import { LeaderboardMetric, LeaderboardQuery, LeaderboardWindow, RoomPlayerDTO } from '../api/Api.types';
+import { isSeated } from '../game/GameStore';
+import { formatSignedMoney } from '../stats/PlayerStats';
+
+export const LEADERBOARD_METRICS: { value: LeaderboardMetric; label: string }[] = [
+  { value: 'NetWinnings', label: 'Net winnings' },
+  { value: 'BiggestWin', label: 'Biggest win' },
+  { value: 'WinStreak', label: 'Win streak' },
+];
+
+export const LEADERBOARD_WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: 'Daily', label: 'Today' },
+  { value: 'Weekly', label: 'This week' },
+  { value: 'AllTime', label: 'All time' },
+];
+
+export const DEFAULT_LEADERBOARD_QUERY: Required<LeaderboardQuery> = {
+  metric: 'NetWinnings',
+  window: 'Weekly',
+  page: 1,
+  pageSize: 20,
+};
+
+/**
+ * A leaderboard value the way the metric counts it, e.g. `+$150`, `$300` or `4 hands`.
+ */
+export function formatLeaderboardValue(metric: LeaderboardMetric, value: number): string {
+  switch (metric) {
+    case 'BiggestWin':
+      return `$${value.toLocaleString()}`;
+    case 'WinStreak':
+      return `${value} hand${value === 1 ? '' : 's'}`;
+    default:
+      return formatSignedMoney(value);
+  }
+}
+
+export interface RoomStanding {
+  /** Tied players share a rank, like on the leaderboard. */
+  rank: number;
+  player: RoomPlayerDTO;
+  /** Won or lost since sitting down, the balance against the room's starting balance. */
+  net: number;
+}
+
+/**
+ * Ranks the seated players of a room by how far their balance is from the starting balance, best first.
+ */
+export function getRoomStandings(players: RoomPlayerDTO[], startingBalance: number): RoomStanding[] {
+  const sorted = players
+    .filter(isSeated)
+    .map((player) => ({ player, net: player.balance - startingBalance }))
+    .sort((a, b) => b.net - a.net || a.player.userName.localeCompare(b.player.userName));
+
+  const standings: RoomStanding[] = [];
+  sorted.forEach((standing, i) => {
+    const tied = i > 0 && standing.net === sorted[i - 1].net;
+    standings.push({ ...standing, rank: tied ? standings[i - 1].rank : i + 1 });
+  });
+  return standings;
+}
@@ -0,0 +1,102 @@
+// for reference:
+// Project.App/Project.Api/Services/LobbyService.cs
+// Project.App/Project.Api/Models/Games/RoomEvents.cs
+
+import { RoomSearchQuery, RoomSummaryDTO } from '../api/Api.types';
+
+export type LobbyEventType = 'room_created' | 'room_updated' | 'room_closed';
+
+export const LOBBY_EVENT_TYPES: LobbyEventType[] = ['room_created', 'room_updated', 'room_closed'];
+
+export interface LobbyRoomEventData {
+  room: RoomSummaryDTO;
+}
+
+export interface RoomClosedEventData {
+  roomId: string;
+}
+
+export const GAME_MODES = ['Blackjack'];
+
+export const DEFAULT_ROOM_QUERY: RoomSearchQuery = {
+  gameMode: null,
+  minBetFrom: null,
+  minBetTo: null,
+  hasFreeSeats: false,
+  sortBy: 'CreatedAt',
+  descending: true,
+  page: 1,
+  pageSize: 10,
+};
+
+/**
+ * Whether the server would list the room for the query, mirroring `LobbyService.SearchRoomsAsync`.
+ */
+export function matchesRoomFilters(room: RoomSummaryDTO, query: RoomSearchQuery): boolean {
+  if (!room.isActive || !room.isPublic) return false;
+  if (query.gameMode && room.gameMode.toLowerCase() !== query.gameMode.toLowerCase()) return false;
+  if (query.minBetFrom != null && room.minBet < query.minBetFrom) return false;
+  if (query.minBetTo != null && room.minBet > query.minBetTo) return false;
+  if (query.hasFreeSeats && room.freeSeats <= 0) return false;
+  return true;
+}
+
+export interface LobbyUpdate {
+  rooms: RoomSummaryDTO[];
+  refetch: boolean; // the page has to be loaded again, e.g. because a room moved onto or off it
+}
+
+/**
+ * Applies a lobby event to the rooms on the current page. Rooms already shown are updated in place,
+ * anything that changes which rooms belong on the page asks for a refetch instead, since only the
+ * server knows the neighbouring pages.
+ */
+export function applyLobbyEvent(
+  rooms: RoomSummaryDTO[],
+  eventType: string,
+  data: LobbyRoomEventData | RoomClosedEventData,
+  query: RoomSearchQuery,
+): LobbyUpdate {
+  switch (eventType) {
+    case 'room_created': {
+      const { room } = data as LobbyRoomEventData;
+      return { rooms, refetch: matchesRoomFilters(room, query) };
+    }
+    case 'room_updated': {
+      const { room } = data as LobbyRoomEventData;
+      const shown = rooms.some((r) => r.id === room.id);
+      const matches = matchesRoomFilters(room, query);
+      if (!shown) return { rooms, refetch: matches };
+      if (!matches) return { rooms: rooms.filter((r) => r.id !== room.id), refetch: true };
+      return { rooms: rooms.map((r) => (r.id === room.id ? room : r)), refetch: false };
+    }
+    case 'room_closed': {
+      const { roomId } = data as RoomClosedEventData;
+      if (!rooms.some((r) => r.id === roomId)) return { rooms, refetch: false };
+      return { rooms: rooms.filter((r) => r.id !== roomId), refetch: true };
+    }
+    default:
+      return { rooms, refetch: false };
+  }
+}
+
+/**
+ * Keeps the rooms the user is in current. Joining and leaving happen through this page, which
+ * reloads the list, so only changes to the rooms themselves are applied.
+ */
+export function applyLobbyEventToMine(
+  rooms: RoomSummaryDTO[],
+  eventType: string,
+  data: LobbyRoomEventData | RoomClosedEventData,
+): LobbyUpdate {
+  if (eventType === 'room_updated') {
+    const { room } = data as LobbyRoomEventData;
+    return { rooms: rooms.map((r) => (r.id === room.id ? room : r)), refetch: false };
+  }
+  if (eventType === 'room_closed') {
+    // private rooms are closed to the lobby too, but the user can still be in them
+    const { roomId } = data as RoomClosedEventData;
+    return { rooms, refetch: rooms.some((r) => r.id === roomId) };
+  }
+  return { rooms, refetch: false };
+}
@@ -0,0 +1,124 @@
+export const NOTIFICATION_SEVERITIES = ['info', 'success', 'warning', 'error'] as const;
+
+export type NotificationSeverity = (typeof NOTIFICATION_SEVERITIES)[number];
+
+/**
+ * How long (ms) a notification stays up by default. Errors stay longer, since they usually need reading.
+ */
+export const DEFAULT_DURATIONS: Record<NotificationSeverity, number> = {
+  info: 4000,
+  success: 3000,
+  warning: 6000,
+  error: 8000,
+};
+
+/**
+ * The maximum number of notifications shown at once, the oldest ones are dropped first.
+ */
+export const MAX_VISIBLE_NOTIFICATIONS = 4;
+
+export interface Notification {
+  id: number;
+  severity: NotificationSeverity;
+  title?: string;
+  message: string;
+  /** How many times the same notification was raised while it was showing. */
+  count: number;
+  /** Time (ms) until it is dismissed automatically, 0 keeps it up until dismissed. */
+  duration: number;
+}
+
+export interface NotificationInput {
+  severity?: NotificationSeverity;
+  title?: string;
+  message: string;
+  duration?: number;
+}
+
+export type Notify = (notification: NotificationInput) => void;
+
+const isSameNotification = (
+  notification: Notification,
+  input: Required<Pick<NotificationInput, 'severity'>> & NotificationInput,
+) =>
+  notification.severity === input.severity &&
+  notification.message === input.message &&
+  (notification.title ?? '') === (input.title ?? '');
+
+/**
+ * Adds a notification to the queue.
+ * A notification that is already showing is not repeated, its count goes up instead and it is moved to the end,
+ * so its timer can be restarted.
+ * Returns the new queue and the notification that was added or bumped.
+ */
+export function addNotification(
+  queue: Notification[],
+  input: NotificationInput,
+  nextId: number,
+  max = MAX_VISIBLE_NOTIFICATIONS,
+): { queue: Notification[]; notification: Notification } {
+  const severity = input.severity ?? 'info';
+  const duration = input.duration ?? DEFAULT_DURATIONS[severity];
+
+  const existing = queue.find((notification) => isSameNotification(notification, { ...input, severity }));
+  if (existing) {
+    const bumped = { ...existing, count: existing.count + 1, duration };
+    return { queue: [...queue.filter((notification) => notification !== existing), bumped], notification: bumped };
+  }
+
+  const notification: Notification = {
+    id: nextId,
+    severity,
+    title: input.title,
+    message: input.message,
+    count: 1,
+    duration,
+  };
+  return { queue: [...queue, notification].slice(-max), notification };
+}
+
+export function dismissNotification(queue: Notification[], id: number): Notification[] {
+  return queue.some((notification) => notification.id === id)
+    ? queue.filter((notification) => notification.id !== id)
+    : queue;
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  403: "You don't have permission to do that.",
+  404: "That doesn't exist anymore. It may have been removed.",
+  409: 'Someone else got there first. Please try again.',
+  429: "You're doing that too often. Please wait a moment.",
+};
+
+/**
+ * Turns an error response body from the API into something that can be shown to a player.
+ * The server sends problem details (`title`, `detail`, validation `errors`) in either casing, and the detail is
+ * usually the most useful part. Expired sessions and server errors always get a fixed message.
+ */
+export function friendlyErrorMessage(body: unknown, status: number, fallback = 'Something went wrong.'): string {
+  if (status === 401) return 'Your session has expired. Please log in again.';
+  if (status >= 500) return 'The server ran into a problem. Please try again in a moment.';
+
+  // some endpoints answer with a bare message instead of problem details
+  const problem = (
+    body && typeof body === 'object' ? body : typeof body === 'string' ? { detail: body } : {}
+  ) as Record<string, unknown>;
+  const pick = (...keys: string[]) =>
+    keys.map((key) => problem[key]).find((value): value is string => typeof value === 'string' && !!value.trim());
+
+  const errors = problem.errors ?? problem.Errors;
+  const firstError =
+    errors && typeof errors === 'object'
+      ? Object.values(errors)
+          .flat()
+          .find((value): value is string => typeof value === 'string')
+      : undefined;
+
+  return (
+    firstError ??
+    pick('detail', 'Detail', 'message', 'Message') ??
+    STATUS_MESSAGES[status] ??
+    pick('title', 'Title') ??
+    fallback
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * The result of checking an event's id against the ones seen before.
+ * - `first`: first event with an id, nothing to compare against
+ * - `in_order`: exactly the next id
+ * - `duplicate`: already seen (e.g. replayed after a reconnect), should be skipped
+ * - `gap`: one or more events were skipped, the caller should refetch
+ * - `untracked`: the event has no usable id
+ */
+export type SequenceCheck = 'first' | 'in_order' | 'duplicate' | 'gap' | 'untracked';
+
+export interface EventSequencer {
+  /** The highest event id seen so far, or null if none. */
+  readonly lastEventId: number | null;
+  /** Checks an event's `lastEventId` and records it, unless it is a duplicate. */
+  check(rawId: string | null | undefined): SequenceCheck;
+  /** Continues counting from the given id, e.g. after refetching everything. */
+  reset(eventId: number | null): void;
+}
+
+export function parseEventId(rawId: string | null | undefined): number | null {
+  if (!rawId) return null;
+
+  const id = Number(rawId);
+  return Number.isSafeInteger(id) && id >= 0 ? id : null;
+}
+
+/**
+ * Tracks the ids of a room's events (assigned by the server in increasing order, per room)
+ * to detect events that were delivered twice, or not at all.
+ */
+export function createEventSequencer(): EventSequencer {
+  let lastEventId: number | null = null;
+
+  return {
+    get lastEventId() {
+      return lastEventId;
+    },
+    check(rawId) {
+      const id = parseEventId(rawId);
+      if (id === null) return 'untracked';
+
+      if (lastEventId === null) {
+        lastEventId = id;
+        return 'first';
+      }
+      if (id <= lastEventId) return 'duplicate';
+
+      const result = id === lastEventId + 1 ? 'in_order' : 'gap';
+      lastEventId = id;
+      return result;
+    },
+    reset(eventId) {
+      lastEventId = eventId;
+    },
+  };
+}
@@ -1,124 +1,205 @@
-import {
-  ChatEventData,
-  GameStateUpdateEventData,
-  PlayerActionEventData,
-  PlayerJoinEventData,
-  PlayerLeaveEventData,
-  HostChangeEventData,
-  DealerRevealEventData,
-  PlayerRevealEventData,
-} from './GameEvents.types';
+import { RoomEvent, RoomEventType } from './GameEvents.types';
+import { createEventSequencer, parseEventId, SequenceCheck } from './EventSequencer';
+import { GameStoreAction } from '../game/GameStore';
+import { unhandledVariant } from '../game/BlackjackActions';
+import { ServerClock } from '../time/ServerClock';
+import { appendLogEntries, createGameLogRecorder, GameLogEntry } from '../game/GameLog';
+import { Notify } from '../notifications/Notifications';
+import { isMentioned } from '../chat/ChatMessages';
 
 /**
  * A map representing the set of functions necessary to update the current display state.
  * Will be called by the event handler to update the UI.
  */
 export interface GameStateSetters {
-  setMessages: React.Dispatch<React.SetStateAction<ChatEventData[]>>;
-  setRoomPlayers: React.Dispatch<React.SetStateAction<any[]>>;
-  setGameState: React.Dispatch<React.SetStateAction<any | null>>;
-  setRoom: React.Dispatch<React.SetStateAction<any | null>>;
-  fetchRoomPlayers: () => Promise<void>;
+  /** Applies the event to the game store, see `gameStoreReducer`. */
+  dispatch: React.Dispatch<GameStoreAction>;
+  setGameLog: React.Dispatch<React.SetStateAction<GameLogEntry[]>>;
+  /** Refetches the whole room, for when events were missed. */
+  resyncRoom: () => Promise<void>;
+  serverClock: ServerClock;
+  /** Shows a toast to the player. */
+  notify: Notify;
   user: any | null;
 }
 
-const eventHandlers = {
-  chat: (event: ChatEventData, { setMessages }: GameStateSetters) => {
-    console.log(`[SSE Event] Chat message: ${event.sender} said: ${event.content}`);
-
-    // add message to display
-    setMessages((prev) => [...prev, event]);
-  },
-  game_state_update: (event: GameStateUpdateEventData, { setGameState }: GameStateSetters) => {
-    console.log(`[SSE Event] Game state updated: ${event.currentStage}`);
-
-    // update game state
-    // TODO: use strong typing for state parsing
-    const parsedState = JSON.parse(event.currentStage);
-    setGameState(parsedState);
-  },
-  player_action: (event: PlayerActionEventData, { fetchRoomPlayers }: GameStateSetters) => {
-    // TODO: use better type system for action data
+/**
+ * The SSE event names to listen for.
+ */
+export const ROOM_EVENT_TYPES: RoomEventType[] = [
+  'chat',
+  'game_state_update',
+  'player_action',
+  'player_join',
+  'player_leave',
+  'host_change',
+  'player_reveal',
+  'dealer_reveal',
+  'resync',
+  'viewer_join',
+  'viewer_leave',
+  'player_kicked',
+  'game_paused',
+  'game_resumed',
+  'config_change',
+  'chat_message_deleted',
+  'chat_user_muted',
+];
 
-    switch (event.action) {
-      case 'bet': {
-        console.log(`[SSE Event] Player bet: ${event.amount}`);
-        // sync player list with new balance
-        fetchRoomPlayers();
-        break;
+/**
+ * Whatever an event does besides changing the game store.
+ */
+function applyEventEffects(event: RoomEvent, { user, notify, serverClock, resyncRoom }: GameStateSetters) {
+  switch (event.eventType) {
+    case 'chat': {
+      const { senderId, sender, content } = event.data;
+      // the chat panel highlights it too, but it may be scrolled away
+      if (senderId !== user?.id && isMentioned(content, user?.name)) {
+        notify({ severity: 'info', title: `${sender} mentioned you`, message: content });
       }
-      case 'hit':
-      case 'stand':
-      case 'double':
-      case 'split':
-      case 'surrender': {
-        console.log(`[SSE Event] Player ${event.action} (${event.playerId}, ${event.handIndex})`);
-        // TODO: add player action to messages?
+      return;
+    }
+    case 'chat_user_muted':
+      if (event.data.userId !== user?.id) return;
 
-        // sync player list, since hand/balance/bet may have changed
-        fetchRoomPlayers();
-        break;
+      notify(
+        event.data.muted
+          ? { severity: 'warning', message: 'The host muted you, you can still read the chat.' }
+          : { severity: 'info', message: 'The host unmuted you, you can chat again.' },
+      );
+      return;
+    case 'game_state_update':
+      if (event.data.serverTime) {
+        serverClock.recordServerTime(event.data.serverTime);
       }
-      case 'hurry_up': {
-        console.log(`[SSE Event] Player ${event.action} (${event.playerId}, ${event.targetPlayerId})`);
-        // TODO: add player action to messages?
-        break;
+      return;
+    case 'host_change': {
+      const { playerId, playerName } = event.data;
+      console.log(`[SSE Event] Host changed: ${playerName} (${playerId})`);
+
+      // the host may have left, or handed the room over
+      if (playerId === user?.id) {
+        notify({ severity: 'success', title: 'You are now the host', message: 'You can start and run the game.' });
+      } else {
+        notify({ severity: 'info', message: `${playerName} is the new host.` });
       }
-      default: {
-        console.warn(`[SSE Event] Unknown action: ${event.action}`);
-        break;
+      return;
+    }
+    case 'player_kicked': {
+      const { playerId, playerName, banned } = event.data;
+      if (playerId === user?.id) {
+        notify({
+          severity: 'error',
+          title: banned ? 'You have been banned' : 'You have been removed from the table',
+          message: banned
+            ? 'The host banned you from this room, you can no longer take a seat.'
+            : 'The host removed you from the table. You can keep watching.',
+          duration: 0,
+        });
+      } else {
+        notify({
+          severity: 'info',
+          message: `${playerName} was ${banned ? 'banned' : 'removed from the table'} by the host.`,
+        });
       }
+      return;
     }
-    fetchRoomPlayers();
-  },
-  player_join: (event: PlayerJoinEventData, { fetchRoomPlayers }: GameStateSetters) => {
-    console.log(`[SSE Event] Player joined: ${event.playerName} (${event.playerId})`);
-
-    // sync player list
-    fetchRoomPlayers();
-  },
-  player_leave: (event: PlayerLeaveEventData, { fetchRoomPlayers }: GameStateSetters) => {
-    console.log(`[SSE Event] Player left: ${event.playerName} (${event.playerId})`);
-
-    // sync player list
-    fetchRoomPlayers();
-  },
-  host_change: (event: HostChangeEventData, { user }: GameStateSetters) => {
-    console.log(`[SSE Event] Host changed: ${event.playerName} (${event.playerId})`);
-
-    if (event.playerId === user?.id) {
-      alert('The previous host left. You are now the host!');
-    } else {
-      alert(`The host has left. ${event.playerName} is the new host.`);
+    case 'game_paused':
+      notify({ severity: 'warning', message: 'The host paused the game.' });
+      return;
+    case 'game_resumed':
+      notify({ severity: 'info', message: 'The game continues.' });
+      return;
+    case 'config_change':
+      notify({
+        severity: 'info',
+        message: event.data.pending
+          ? 'The host changed the table settings, they apply from the next round.'
+          : 'The table settings have changed.',
+      });
+      return;
+    case 'player_action': {
+      const { success, playerId, action } = event.data;
+      // the store already rolled it back, tell the player why
+      if (success === false && playerId === user?.id) {
+        notify({
+          severity: 'warning',
+          message:
+            action === 'hurry_up'
+              ? "It's too early to hurry them up, they still have time left."
+              : `The server turned down your ${action.replace('_', ' ')}.`,
+        });
+      }
+      return;
     }
-  },
-  player_reveal: (event: PlayerRevealEventData) => {
-    console.log(`[SSE Event] Player cards revealed: ${event.playerHand} (${event.playerScore}) (${event.playerId})`);
+    case 'resync':
+      console.log(`[SSE Event] Server cannot replay missed events, resyncing at ${event.data.lastEventId}`);
 
-    // TODO: update cards on screen
-  },
-  dealer_reveal: (event: DealerRevealEventData) => {
-    console.log(`[SSE Event] Dealer cards revealed: ${event.dealerHand} (${event.dealerScore})`);
+      resyncRoom().catch((error) => console.error('[SSE] Resync failed:', error));
+      return;
+    case 'player_join':
+    case 'player_leave':
+    case 'player_reveal':
+    case 'dealer_reveal':
+    case 'viewer_join':
+    case 'viewer_leave':
+    case 'chat_message_deleted':
+      return;
+    default:
+      unhandledVariant(event);
+  }
+}
 
-    // TODO: update cards on screen
-    // NOTE: double check that balances are synced elsewhere
-  },
-};
+/**
+ * Whether the SSE event name is one of the room events this client understands.
+ */
+export function isRoomEventType(type: string): type is RoomEventType {
+  return (ROOM_EVENT_TYPES as string[]).includes(type);
+}
 
 export function createSSEListener(setters: GameStateSetters) {
+  const sequencer = createEventSequencer();
+  // every event is also written to the game log, in addition to its own handling
+  const logRecorder = createGameLogRecorder();
+
   return (event: MessageEvent) => {
     try {
-      const eventType = event.type as keyof typeof eventHandlers;
-      const handler = eventHandlers[eventType];
+      const eventType = event.type;
+
+      // a resync starts counting anew, anything else has to follow the last seen id
+      let sequence: SequenceCheck = 'in_order';
+      if (eventType === 'resync') {
+        sequencer.reset(parseEventId(event.lastEventId));
+      } else {
+        sequence = sequencer.check(event.lastEventId);
+      }
+
+      if (sequence === 'duplicate') {
+        console.log(`[SSE] Skipping duplicate '${eventType}' event (id ${event.lastEventId})`);
+        return;
+      }
 
-      if (handler) {
+      if (isRoomEventType(eventType)) {
         // The 'data' property on a MessageEvent is the string payload from the server.
         const data = JSON.parse(event.data);
         console.log(`[SSE] Handling '${eventType}':`, data);
-        handler(data, setters);
+        const roomEvent = { eventType, data } as RoomEvent;
+        setters.dispatch({ type: 'event', event: roomEvent });
+        applyEventEffects(roomEvent, setters);
+
+        const logEntries = logRecorder.record(roomEvent);
+        if (logEntries.length > 0) {
+          setters.setGameLog((prev) => appendLogEntries(prev, logEntries));
+        }
       } else {
         console.warn(`[SSE] No handler for event type: ${event.type}`);
       }
+
+      if (sequence === 'gap') {
+        // the event itself is still applied, but whatever came before it is lost
+        console.warn(`[SSE] Missed events before id ${event.lastEventId}, resyncing`);
+        setters.resyncRoom().catch((error) => console.error('[SSE] Resync failed:', error));
+      }
     } catch (error) {
       console.error(`[SSE] Error processing event:`, event, error);
     }
@@ -3,35 +3,90 @@
 // Project.App/Project.Api/Models/Games/RoomEvents.cs
 // Project.App/Project.Api/Models/Games/BlackjackState.cs
 
+import { BlackjackConfig, BlackjackStage } from '../game/BlackjackState.types';
+import { BlackjackActionName } from '../game/BlackjackActions';
+
 export interface Card {
   code: string;
-  image: string;
+  image: string; // only set by the deck api, cards are shown from `code`, see `getCardImage`
   value: string;
   suit: string;
   isFaceDown: boolean;
 }
 
 export interface ChatEventData {
+  id: string; // message guid, for the host to delete it
+  senderId: string; // user guid
   sender: string; // user's display name
-  content: string;
+  content: string; // may mention people as @name, see `splitMentions`
   timestamp: string;
 }
 
-// TODO: strong typing for state
+/** The host deleted a chat message. */
+export interface ChatMessageDeletedEventData {
+  messageId: string;
+}
+
+/** The host muted or unmuted someone in the chat. Muted users cannot send messages. */
+export interface ChatUserMutedEventData {
+  userId: string; // user guid
+  userName: string;
+  muted: boolean;
+}
+
 export interface GameStateUpdateEventData {
-  currentStage: string;
+  currentStage: BlackjackStage; // validated with parseBlackjackStage before use
+  serverTime?: string; // when the update was sent, for clock skew correction
 }
 
-export interface PlayerActionEventData {
+interface PlayerActionEventBase<TAction extends BlackjackActionName> {
   playerId: string; // user guid
   handIndex: number;
-  action: string;
-  amount: number | null | undefined; // optional
-  cards: Card[] | null | undefined; // optional
-  targetPlayerId: string | null | undefined; // optional target user guid
-  success: boolean | null | undefined; // optional
+  action: TAction;
+  success?: boolean | null; // optional
+  idempotencyKey?: string | null; // of the request that caused it, null for actions the server took on its own
 }
 
+export interface BetActionEventData extends PlayerActionEventBase<'bet'> {
+  amount: number;
+}
+
+export interface HitActionEventData extends PlayerActionEventBase<'hit'> {
+  cards: Card[]; // newly drawn card
+}
+
+export type StandActionEventData = PlayerActionEventBase<'stand'>;
+
+export interface DoubleActionEventData extends PlayerActionEventBase<'double'> {
+  amount: number; // new (doubled) bet
+  cards: Card[]; // newly drawn card
+}
+
+export interface SplitActionEventData extends PlayerActionEventBase<'split'> {
+  amount: number; // bet on the new hand
+}
+
+export interface SurrenderActionEventData extends PlayerActionEventBase<'surrender'> {
+  amount: number; // refunded half of the bet
+}
+
+export interface HurryUpActionEventData extends PlayerActionEventBase<'hurry_up'> {
+  targetPlayerId?: string | null; // user guid of the player that was hurried, if successful
+}
+
+/**
+ * One variant per action, discriminated by `action`.
+ * Mirrors the server's `BlackjackActionDTO` records, so sent and received actions share the same names.
+ */
+export type PlayerActionEventData =
+  | BetActionEventData
+  | HitActionEventData
+  | StandActionEventData
+  | DoubleActionEventData
+  | SplitActionEventData
+  | SurrenderActionEventData
+  | HurryUpActionEventData;
+
 export interface PlayerJoinEventData {
   playerId: string; // user guid
   playerName: string;
@@ -47,6 +102,26 @@ export interface HostChangeEventData {
   playerName: string;
 }
 
+/** The host removed a player from the table. Banned players cannot take a seat again. */
+export interface PlayerKickedEventData {
+  playerId: string; // user guid
+  playerName: string;
+  banned: boolean;
+}
+
+export interface GamePausedEventData {
+  pausedAt: string; // ISO 8601 timestamp
+}
+
+export interface GameResumedEventData {
+  deadline?: string | null; // the stage's deadline, moved back by the length of the pause
+}
+
+export interface ConfigChangeEventData {
+  config: BlackjackConfig;
+  pending: boolean; // true if the game has started, the change then applies from the next round
+}
+
 export interface DealerRevealEventData {
   dealerHand: Card[];
   dealerScore: number;
@@ -58,3 +133,45 @@ export interface PlayerRevealEventData {
   playerHand: Card[];
   playerScore: number;
 }
+
+/** Someone opened the room's event stream, or closed their last one. Players are viewers too. */
+export interface ViewerEventData {
+  userId: string; // user guid
+  userName: string;
+}
+
+export interface ResyncEventData {
+  lastEventId: number; // id of the latest event, to continue counting from after refetching
+}
+
+/**
+ * The data of each room event, keyed by the SSE event name.
+ */
+export interface RoomEventMap {
+  chat: ChatEventData;
+  game_state_update: GameStateUpdateEventData;
+  player_action: PlayerActionEventData;
+  player_join: PlayerJoinEventData;
+  player_leave: PlayerLeaveEventData;
+  host_change: HostChangeEventData;
+  player_reveal: PlayerRevealEventData;
+  dealer_reveal: DealerRevealEventData;
+  resync: ResyncEventData;
+  viewer_join: ViewerEventData;
+  viewer_leave: ViewerEventData;
+  player_kicked: PlayerKickedEventData;
+  game_paused: GamePausedEventData;
+  game_resumed: GameResumedEventData;
+  config_change: ConfigChangeEventData;
+  chat_message_deleted: ChatMessageDeletedEventData;
+  chat_user_muted: ChatUserMutedEventData;
+}
+
+export type RoomEventType = keyof RoomEventMap;
+
+/**
+ * A room event as received, discriminated by `eventType`.
+ */
+export type RoomEvent = {
+  [K in RoomEventType]: { eventType: K; data: RoomEventMap[K] };
+}[RoomEventType];
@@ -0,0 +1,223 @@
+import { parseEventId } from './EventSequencer';
+
+/**
+ * The connection state of a room's event stream, for display purposes.
+ * - `connecting`: first connection attempt in progress
+ * - `connected`: receiving events
+ * - `reconnecting`: connection dropped, waiting to retry
+ * - `offline`: gave up retrying, or the browser reports no network; call `reconnect()` to try again
+ */
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+/**
+ * The subset of `EventSource` used by the connection, so tests can provide a fake.
+ */
+export interface EventSourceLike {
+  onopen: ((event: Event) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  close(): void;
+}
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitter: number; // fraction of the delay (0-1) that is randomized
+  maxAttempts: number; // consecutive failed attempts before going offline
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxAttempts: 10,
+};
+
+export interface RoomConnectionOptions {
+  url: string;
+  eventTypes: string[];
+  onEvent: (event: MessageEvent) => void;
+  onStatusChange?: (status: ConnectionStatus) => void;
+  /**
+   * Called after a successful reconnect, to refetch anything missed while disconnected.
+   * Not called if the stream could be resumed from the last event id, the server replays missed events instead.
+   */
+  onResync?: () => Promise<void> | void;
+  backoff?: Partial<BackoffOptions>;
+  createEventSource?: (url: string) => EventSourceLike;
+  random?: () => number;
+}
+
+export interface RoomConnection {
+  readonly status: ConnectionStatus;
+  /** The id of the last event received, sent when reconnecting so the server can replay what was missed. */
+  readonly lastEventId: number | null;
+  /** Drops any pending retry and connects immediately, resetting the backoff. */
+  reconnect(): void;
+  /** Closes the connection for good. */
+  close(): void;
+}
+
+/**
+ * Computes the delay before the given retry attempt (0-based), using exponential backoff with jitter.
+ */
+export function computeBackoffDelay(attempt: number, backoff: BackoffOptions, random: () => number = Math.random) {
+  const base = Math.min(backoff.maxDelayMs, backoff.initialDelayMs * Math.pow(backoff.multiplier, attempt));
+  const jitter = Math.min(Math.max(backoff.jitter, 0), 1);
+
+  // keep (1 - jitter) of the delay fixed, randomize the rest
+  return Math.round(base * (1 - jitter) + base * jitter * random());
+}
+
+/**
+ * Appends the id of the last received event to the stream url.
+ * A fresh `EventSource` does not send the `Last-Event-ID` header, so it is passed as a query parameter instead.
+ */
+export function withLastEventId(url: string, lastEventId: number | null) {
+  if (lastEventId === null) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}lastEventId=${lastEventId}`;
+}
+
+const defaultEventSourceFactory = (url: string): EventSourceLike => new EventSource(url, { withCredentials: true });
+
+/**
+ * Opens a room's event stream and keeps it open, reconnecting with exponential backoff when it drops.
+ * Reconnects resume from the last received event. If no event was received yet, `onResync` is called
+ * instead so the caller can refetch state that may have been missed.
+ */
+export function createRoomConnection(options: RoomConnectionOptions): RoomConnection {
+  const backoff: BackoffOptions = { ...DEFAULT_BACKOFF, ...options.backoff };
+  const createEventSource = options.createEventSource ?? defaultEventSourceFactory;
+  const random = options.random ?? Math.random;
+
+  let status: ConnectionStatus = 'connecting';
+  let eventSource: EventSourceLike | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let hasConnected = false;
+  let closed = false;
+  let lastEventId: number | null = null;
+
+  const setStatus = (next: ConnectionStatus) => {
+    if (status === next) return;
+    status = next;
+    options.onStatusChange?.(next);
+  };
+
+  const handleEvent = (event: MessageEvent) => {
+    lastEventId = parseEventId(event.lastEventId) ?? lastEventId;
+    options.onEvent(event);
+  };
+
+  const detach = () => {
+    if (!eventSource) return;
+
+    options.eventTypes.forEach((type) => eventSource.removeEventListener(type, handleEvent));
+    eventSource.onopen = null;
+    eventSource.onerror = null;
+    eventSource.close();
+    eventSource = null;
+  };
+
+  const clearRetry = () => {
+    if (retryTimer !== null) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  const isBrowserOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+  const scheduleRetry = () => {
+    if (closed) return;
+
+    // no point retrying while the browser has no network, wait for the 'online' event instead
+    if (attempt >= backoff.maxAttempts || isBrowserOffline()) {
+      console.warn(`[SSE] Giving up after ${attempt} attempt(s), going offline`);
+      setStatus('offline');
+      return;
+    }
+
+    const delay = computeBackoffDelay(attempt, backoff, random);
+    attempt++;
+    setStatus('reconnecting');
+
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    detach();
+
+    const source = createEventSource(withLastEventId(options.url, lastEventId));
+    eventSource = source;
+
+    // the server replays anything after this id, or asks for a resync if it cannot
+    const resumed = lastEventId !== null;
+
+    source.onopen = () => {
+      const isReconnect = hasConnected;
+      hasConnected = true;
+      attempt = 0;
+      setStatus('connected');
+
+      if (isReconnect && !resumed && options.onResync) {
+        // events may have been missed while disconnected, and there is no id to resume from
+        Promise.resolve(options.onResync()).catch((error) => console.error('[SSE] Resync failed:', error));
+      }
+    };
+
+    source.onerror = (error) => {
+      console.error('[SSE] Error:', error);
+
+      // the browser's built-in retry has no backoff, so take over
+      detach();
+      scheduleRetry();
+    };
+
+    options.eventTypes.forEach((type) => source.addEventListener(type, handleEvent));
+  };
+
+  const handleOnline = () => {
+    if (status === 'offline' || status === 'reconnecting') {
+      connection.reconnect();
+    }
+  };
+
+  const connection: RoomConnection = {
+    get status() {
+      return status;
+    },
+    get lastEventId() {
+      return lastEventId;
+    },
+    reconnect() {
+      if (closed) return;
+      clearRetry();
+      attempt = 0;
+      setStatus(hasConnected ? 'reconnecting' : 'connecting');
+      connect();
+    },
+    close() {
+      closed = true;
+      clearRetry();
+      detach();
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', handleOnline);
+      }
+    },
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', handleOnline);
+  }
+
+  connect();
+  return connection;
+}
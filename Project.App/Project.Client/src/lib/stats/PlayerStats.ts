@@ -0,0 +1,67 @@
+import { BankrollPointDTO } from '../api/Api.types';
+
+/** A rate (0 to 1) as a percentage with at most one decimal, e.g. `42.5%`. */
+export const formatPercent = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+/** An amount won or lost, e.g. `+$1,500` or `-$20`. */
+export const formatSignedMoney = (amount: number) =>
+  `${amount > 0 ? '+' : amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString()}`;
+
+export interface BankrollChartPoint {
+  x: number;
+  y: number;
+  /** The round that led here, null for the start of the line. */
+  point: BankrollPointDTO | null;
+}
+
+/**
+ * The net winnings over time laid out for an SVG of the given size, with `(0, 0)` at the top left.
+ */
+export interface BankrollChart {
+  /** An SVG path through all points. */
+  path: string;
+  points: BankrollChartPoint[];
+  /** The height of the zero line, to tell winnings from losses. */
+  zeroY: number;
+  min: number;
+  max: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Lays out the running net winnings as a line, one step per round, starting at 0 before the first round.
+ * Rounds are spread evenly rather than by time, games are played in bursts.
+ *
+ * @returns null if there are no rounds to draw
+ */
+export function buildBankrollChart(
+  bankroll: BankrollPointDTO[],
+  width: number,
+  height: number,
+  padding = 8,
+): BankrollChart | null {
+  if (bankroll.length === 0) return null;
+
+  const values = [0, ...bankroll.map((point) => point.total)];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  const toX = (index: number) => round2(padding + (index / (values.length - 1)) * (width - 2 * padding));
+  const toY = (value: number) => round2(padding + ((max - value) / range) * (height - 2 * padding));
+
+  const points = values.map((value, index) => ({
+    x: toX(index),
+    y: toY(value),
+    point: index === 0 ? null : bankroll[index - 1],
+  }));
+
+  return {
+    path: points.map(({ x, y }, index) => `${index === 0 ? 'M' : 'L'}${x} ${y}`).join(' '),
+    points,
+    zeroY: toY(0),
+    min,
+    max,
+  };
+}
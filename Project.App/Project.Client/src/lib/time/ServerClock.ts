@@ -0,0 +1,92 @@
+/**
+ * The range the offset (server time - client time, in ms) must lie in, according to one observation.
+ */
+interface OffsetBounds {
+  low: number;
+  high: number;
+}
+
+export interface ServerClock {
+  /** The current time on the server, in ms since the epoch. */
+  now(): number;
+  /** The estimated offset of the server clock from the client clock, in ms. */
+  readonly offset: number;
+  /**
+   * Records a server timestamp that was sent at some point before `receivedAt`, e.g. from an SSE event.
+   * Since delivery takes a while, this only proves the server clock was at least this far ahead.
+   */
+  recordServerTime(serverTime: string | number, receivedAt?: number): void;
+  /**
+   * Records the `Date` header of a response to a request sent at `sentAt`.
+   * The header only has second precision, so this bounds the offset in both directions.
+   */
+  recordResponse(response: Pick<Response, 'headers'>, sentAt: number, receivedAt?: number): void;
+}
+
+export interface ServerClockOptions {
+  /** How many recent observations to combine. */
+  maxSamples?: number;
+  clientNow?: () => number;
+}
+
+/**
+ * Combines observations into the narrowest consistent range, and picks the middle of it
+ * (or the lower bound, if nothing bounded it from above yet).
+ * Observations that contradict each other mean the client clock jumped, so only the latest one is kept.
+ */
+export function estimateOffset(samples: OffsetBounds[]): number {
+  if (samples.length === 0) return 0;
+
+  let low = -Infinity;
+  let high = Infinity;
+  for (const sample of samples) {
+    low = Math.max(low, sample.low);
+    high = Math.min(high, sample.high);
+  }
+
+  if (low > high) {
+    return estimateOffset(samples.slice(-1));
+  }
+  if (!Number.isFinite(low)) return high;
+  if (!Number.isFinite(high)) return low;
+  return Math.round((low + high) / 2);
+}
+
+/**
+ * Keeps track of the difference between the client and server clocks, so deadlines set by the server
+ * can be counted down correctly on machines with a skewed clock.
+ */
+export function createServerClock(options: ServerClockOptions = {}): ServerClock {
+  const maxSamples = options.maxSamples ?? 10;
+  const clientNow = options.clientNow ?? Date.now;
+
+  let samples: OffsetBounds[] = [];
+  let offset = 0;
+
+  const addSample = (sample: OffsetBounds) => {
+    samples = [...samples, sample].slice(-maxSamples);
+    offset = estimateOffset(samples);
+  };
+
+  return {
+    now() {
+      return clientNow() + offset;
+    },
+    get offset() {
+      return offset;
+    },
+    recordServerTime(serverTime, receivedAt = clientNow()) {
+      const serverMs = typeof serverTime === 'number' ? serverTime : Date.parse(serverTime);
+      if (Number.isNaN(serverMs)) return;
+
+      addSample({ low: serverMs - receivedAt, high: Infinity });
+    },
+    recordResponse(response, sentAt, receivedAt = clientNow()) {
+      const serverMs = Date.parse(response.headers.get('Date') ?? '');
+      if (Number.isNaN(serverMs)) return;
+
+      // the server time was somewhere in [date, date + 1s) at a moment between sending and receiving
+      addSample({ low: serverMs - receivedAt, high: serverMs + 1000 - sentAt });
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import ActionBar, { HURRY_UP_COOLDOWN_MS } from '@/app/components/ActionBar';
+
+const legal = (overrides = {}) => ({
+  hit: false,
+  stand: false,
+  double: false,
+  split: false,
+  surrender: false,
+  ...overrides,
+});
+
+const turn = (overrides = {}) => ({
+  activePlayer: { id: 'rp1', userId: 'u1', userName: 'Alice', balance: 100 },
+  unknownTurnOrder: false,
+  isMyTurn: false,
+  hand: null,
+  bet: 25,
+  legal: legal(),
+  canHurryUp: false,
+  ...overrides,
+});
+
+describe('ActionBar', () => {
+  it('should only enable legal actions', () => {
+    render(
+      <ActionBar turn={turn({ isMyTurn: true, legal: legal({ hit: true, stand: true }) })} onAction={jest.fn()} />,
+    );
+
+    expect(screen.getByText('Hit')).toBeEnabled();
+    expect(screen.getByText('Stand')).toBeEnabled();
+    expect(screen.getByText('Double')).toBeDisabled();
+    expect(screen.getByText('Split')).toBeDisabled();
+    expect(screen.getByText('Surrender')).toBeDisabled();
+  });
+
+  it('should send the hand bet along with a split', () => {
+    const onAction = jest.fn();
+    render(<ActionBar turn={turn({ isMyTurn: true, legal: legal({ split: true }) })} onAction={onAction} />);
+
+    fireEvent.click(screen.getByText('Split'));
+
+    expect(onAction).toHaveBeenCalledWith({ action: 'split', data: { amount: 25 } });
+  });
+
+  it('should highlight the recommended action', () => {
+    render(
+      <ActionBar
+        turn={turn({ isMyTurn: true, legal: legal({ hit: true, stand: true }) })}
+        onAction={jest.fn()}
+        recommended="stand"
+      />,
+    );
+
+    expect(screen.getByText('Stand')).toHaveAttribute('title', 'Basic strategy');
+    expect(screen.getByText('Hit')).not.toHaveAttribute('title');
+  });
+
+  it('should cool down after hurrying up the active player', () => {
+    jest.useFakeTimers();
+    const onAction = jest.fn();
+    render(<ActionBar turn={turn({ canHurryUp: true })} onAction={onAction} />);
+
+    fireEvent.click(screen.getByText('Hurry Up Alice'));
+    expect(onAction).toHaveBeenCalledWith({ action: 'hurry_up', data: {} });
+    expect(screen.getByText(/Hurry Up \(\d+s\)/)).toBeDisabled();
+
+    // the label ticks down once per second
+    for (let elapsed = 0; elapsed < HURRY_UP_COOLDOWN_MS; elapsed += 1000) {
+      act(() => {
+        jest.advanceTimersByTime(1000);
+      });
+    }
+    expect(screen.getByText('Hurry Up Alice')).toBeEnabled();
+    jest.useRealTimers();
+  });
+
+  it('should disable every action while one is waiting for the server', () => {
+    render(
+      <ActionBar
+        turn={turn({ isMyTurn: true, canHurryUp: true, legal: legal({ hit: true, stand: true }) })}
+        onAction={jest.fn()}
+        pendingAction="hit"
+      />,
+    );
+
+    expect(screen.getByText('Hit...')).toBeDisabled();
+    expect(screen.getByText('Stand')).toBeDisabled();
+    expect(screen.getByText('Hurry Up Alice')).toBeDisabled();
+  });
+});
@@ -0,0 +1,58 @@
+import { render, screen, within } from '@testing-library/react';
+import CardTable from '@/app/components/CardTable';
+
+const card = (value, isFaceDown = false) => ({
+  code: isFaceDown ? '' : `${value === '10' ? '0' : value[0]}S`,
+  image: '',
+  value,
+  suit: 'SPADES',
+  isFaceDown,
+});
+
+const players = [
+  { id: 'rp1', userId: 'u1', userName: 'Alice' },
+  { id: 'rp2', userId: 'u2', userName: 'Bob' },
+];
+
+describe('CardTable', () => {
+  it('should render the dealer hand with a face-down hole card', () => {
+    render(
+      <CardTable dealerHand={{ cards: [card('KING'), card('', true)], score: 10 }} hands={{}} players={players} />,
+    );
+
+    expect(screen.getByAltText('KING of SPADES')).toHaveAttribute('src', '/cards/KS.svg');
+    expect(screen.getByLabelText('Face-down card')).toBeInTheDocument();
+    expect(screen.getByText('10+?')).toBeInTheDocument();
+  });
+
+  it('should mark the seats of bots', () => {
+    render(
+      <CardTable
+        dealerHand={null}
+        hands={{}}
+        players={[...players, { id: 'rp3', userId: 'b1', userName: 'Stand Bot 1', botPolicy: 'AlwaysStand' }]}
+      />,
+    );
+
+    expect(within(screen.getByTestId('seat-b1')).getByText('(Bot)')).toBeInTheDocument();
+    expect(within(screen.getByTestId('seat-u1')).queryByText('(Bot)')).not.toBeInTheDocument();
+  });
+
+  it('should render one seat per player with all of their hands', () => {
+    const hands = {
+      u1: {
+        0: { cards: [card('8'), card('3')], score: 11 },
+        1: { cards: [card('8'), card('KING'), card('5')], score: 23 },
+      },
+    };
+    render(<CardTable dealerHand={null} hands={hands} players={players} currentUserId="u1" />);
+
+    const alice = within(screen.getByTestId('seat-u1'));
+    expect(alice.getByText('Hand 1')).toBeInTheDocument();
+    expect(alice.getByText('Hand 2')).toBeInTheDocument();
+    expect(alice.getByText(/23/)).toHaveTextContent('23 (Bust)');
+
+    const bob = within(screen.getByTestId('seat-u2'));
+    expect(bob.getByText('No cards')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,111 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import ChatPanel from '@/app/components/ChatPanel';
+import { RateLimitedError } from '@/lib/api/ApiErrors';
+
+const message = (id, senderId, sender, content) => ({
+  id,
+  senderId,
+  sender,
+  content,
+  timestamp: '2025-10-24T17:00:00Z',
+});
+
+const messages = [message('m1', 'u2', 'Bob', 'hi @Alice'), message('m2', 'u3', 'Carol', 'hello')];
+
+describe('ChatPanel', () => {
+  let rooms;
+  let notify;
+
+  const renderPanel = (props = {}) =>
+    render(
+      <ChatPanel
+        roomId="room-1"
+        rooms={rooms}
+        notify={notify}
+        messages={messages}
+        mutedUserIds={[]}
+        currentUserId="u1"
+        currentUserName="Alice"
+        names={['Alice', 'Bob', 'Carol']}
+        isHost={false}
+        {...props}
+      />,
+    );
+
+  beforeEach(() => {
+    rooms = {
+      sendChat: jest.fn().mockResolvedValue(undefined),
+      deleteChatMessage: jest.fn().mockResolvedValue(undefined),
+      muteUser: jest.fn().mockResolvedValue(undefined),
+    };
+    notify = jest.fn();
+  });
+
+  it('should highlight messages that mention the player', () => {
+    renderPanel();
+
+    const [mentioning, other] = screen.getAllByTestId('chat-message');
+    expect(mentioning).toHaveClass('border-yellow-400');
+    expect(other).not.toHaveClass('border-yellow-400');
+    expect(screen.getByText('@Alice')).toHaveClass('text-yellow-300');
+  });
+
+  it('should send messages and clear the input', async () => {
+    renderPanel();
+
+    fireEvent.change(screen.getByLabelText('Chat message'), { target: { value: 'gl @Bob' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    await waitFor(() => expect(rooms.sendChat).toHaveBeenCalledWith('room-1', 'gl @Bob'));
+    await waitFor(() => expect(screen.getByLabelText('Chat message')).toHaveValue(''));
+  });
+
+  it('should keep the message and say how long to wait when sending too fast', async () => {
+    rooms.sendChat.mockRejectedValue(new RateLimitedError({ detail: 'Slow down.' }, 3));
+    renderPanel();
+
+    fireEvent.change(screen.getByLabelText('Chat message'), { target: { value: 'spam' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    await waitFor(() =>
+      expect(notify).toHaveBeenCalledWith({ severity: 'warning', message: 'Slow down. You can send again in 3s.' }),
+    );
+    expect(screen.getByLabelText('Chat message')).toHaveValue('spam');
+  });
+
+  it('should not let muted players send', () => {
+    renderPanel({ mutedUserIds: ['u1'] });
+
+    expect(screen.getByLabelText('Chat message')).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Send' })).toBeDisabled();
+  });
+
+  it('should only give the host moderation controls', async () => {
+    const { rerender } = renderPanel();
+    expect(screen.queryByRole('button', { name: /Delete message/ })).not.toBeInTheDocument();
+
+    rerender(
+      <ChatPanel
+        roomId="room-1"
+        rooms={rooms}
+        notify={notify}
+        messages={messages}
+        mutedUserIds={['u3']}
+        currentUserId="u1"
+        currentUserName="Alice"
+        names={['Alice', 'Bob', 'Carol']}
+        isHost
+      />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete message from Bob' }));
+    await waitFor(() => expect(rooms.deleteChatMessage).toHaveBeenCalledWith('room-1', 'm1'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mute Bob' }));
+    await waitFor(() => expect(rooms.muteUser).toHaveBeenCalledWith('room-1', 'u2', true));
+
+    expect(screen.getByText('(muted)')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Unmute Carol' }));
+    await waitFor(() => expect(rooms.muteUser).toHaveBeenCalledWith('room-1', 'u3', false));
+  });
+});
@@ -0,0 +1,56 @@
+import { act, render, screen } from '@testing-library/react';
+import Countdown, { formatRemaining } from '@/app/components/Countdown';
+
+describe('formatRemaining', () => {
+  it('should round up to whole seconds', () => {
+    expect(formatRemaining(61500)).toBe('1:02');
+    expect(formatRemaining(999)).toBe('0:01');
+    expect(formatRemaining(-5)).toBe('0:00');
+  });
+});
+
+describe('Countdown', () => {
+  const deadline = '2025-10-24T17:01:00.000Z';
+  let serverTime;
+  const now = () => serverTime;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    serverTime = Date.parse(deadline) - 30000;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const renderCountdown = () =>
+    render(<Countdown label="Turn ends in" deadline={deadline} now={now} expiredLabel="Auto-standing..." />);
+
+  it('should count down using the server clock', () => {
+    renderCountdown();
+    expect(screen.getByRole('timer')).toHaveTextContent('Turn ends in: 0:30');
+
+    serverTime += 5000;
+    act(() => {
+      jest.advanceTimersByTime(250);
+    });
+    expect(screen.getByRole('timer')).toHaveTextContent('Turn ends in: 0:25');
+  });
+
+  it('should warn when the deadline is close', () => {
+    serverTime = Date.parse(deadline) - 5000;
+    renderCountdown();
+
+    expect(screen.getByRole('timer')).toHaveClass('animate-pulse');
+  });
+
+  it('should show the expired label once time runs out', () => {
+    renderCountdown();
+
+    serverTime += 30000;
+    act(() => {
+      jest.advanceTimersByTime(250);
+    });
+    expect(screen.getByRole('timer')).toHaveTextContent('Auto-standing...');
+  });
+});
@@ -0,0 +1,32 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import GameLogPanel from '@/app/components/GameLogPanel';
+
+const entry = (id, category, text, playerId) => ({
+  id,
+  timestamp: '2025-10-24T17:00:00.000Z',
+  category,
+  eventType: 'player_action',
+  playerId,
+  text,
+});
+
+const log = [entry(1, 'bet', '{player} bet $100', 'u1'), entry(2, 'room', '{player} joined', 'u2')];
+const resolveName = (playerId) => ({ u1: 'Alice', u2: 'Bob' })[playerId];
+
+describe('GameLogPanel', () => {
+  it('should show entries with resolved player names', () => {
+    render(<GameLogPanel roomId="abcdef123456" log={log} resolveName={resolveName} />);
+
+    expect(screen.getByText('Alice bet $100')).toBeInTheDocument();
+    expect(screen.getByText('Bob joined')).toBeInTheDocument();
+  });
+
+  it('should hide filtered categories', () => {
+    render(<GameLogPanel roomId="abcdef123456" log={log} resolveName={resolveName} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Room' }));
+
+    expect(screen.getByText('Alice bet $100')).toBeInTheDocument();
+    expect(screen.queryByText('Bob joined')).not.toBeInTheDocument();
+  });
+});
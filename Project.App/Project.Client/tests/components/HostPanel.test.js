@@ -0,0 +1,167 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import HostPanel from '@/app/components/HostPanel';
+
+const player = (id, userId, status = 'Active') => ({
+  id,
+  userId,
+  userName: `Player ${userId}`,
+  userEmail: '',
+  role: 'Player',
+  status,
+  balance: 1000,
+  balanceDelta: 0,
+});
+
+const players = [player('rp1', 'host'), player('rp2', 'u2'), player('rp3', 'u3', 'Left')];
+
+const config = { startingBalance: 1000, minBet: 10, bettingTimeLimit: '00:01:00', turnTimeLimit: '00:00:30' };
+
+describe('HostPanel', () => {
+  let rooms;
+  let notify;
+
+  const renderPanel = (props = {}) =>
+    render(
+      <HostPanel
+        roomId="room-1"
+        rooms={rooms}
+        notify={notify}
+        hostId="host"
+        players={players}
+        config={config}
+        gameStarted
+        paused={false}
+        canPause
+        {...props}
+      />,
+    );
+
+  beforeEach(() => {
+    rooms = {
+      kickPlayer: jest.fn().mockResolvedValue(undefined),
+      transferHost: jest.fn().mockResolvedValue(undefined),
+      pause: jest.fn().mockResolvedValue(undefined),
+      resume: jest.fn().mockResolvedValue(undefined),
+      updateConfig: jest.fn().mockResolvedValue(undefined),
+      addBot: jest.fn().mockResolvedValue(undefined),
+    };
+    notify = jest.fn();
+  });
+
+  it('should only list the other seated players', () => {
+    renderPanel();
+
+    expect(screen.getByText('Player u2')).toBeInTheDocument();
+    expect(screen.queryByText('Player host')).not.toBeInTheDocument();
+    expect(screen.queryByText('Player u3')).not.toBeInTheDocument();
+  });
+
+  it('should kick, ban after confirming, and transfer host', async () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Kick' }));
+    await waitFor(() => expect(rooms.kickPlayer).toHaveBeenCalledWith('room-1', { userId: 'u2', ban: false }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Ban' }));
+    expect(rooms.kickPlayer).toHaveBeenCalledTimes(1);
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Ban' }));
+    await waitFor(() => expect(rooms.kickPlayer).toHaveBeenCalledWith('room-1', { userId: 'u2', ban: true }));
+
+    await screen.findByRole('button', { name: 'Make Host' });
+    fireEvent.click(screen.getByRole('button', { name: 'Make Host' }));
+    await waitFor(() => expect(rooms.transferHost).toHaveBeenCalledWith('room-1', 'u2'));
+  });
+
+  it('should add a bot with the chosen policy', async () => {
+    renderPanel();
+
+    fireEvent.change(screen.getByLabelText('Bot policy'), { target: { value: 'MimicDealer' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add Bot' }));
+
+    await waitFor(() => expect(rooms.addBot).toHaveBeenCalledWith('room-1', 'MimicDealer'));
+  });
+
+  it('should only offer to remove bots', async () => {
+    const bot = { ...player('rp4', 'bot'), userName: 'Dealer Bot 1', botPolicy: 'MimicDealer' };
+    renderPanel({ players: [player('rp1', 'host'), bot] });
+
+    expect(screen.getByText('(Bot, Mimic dealer)')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Make Host' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Ban' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }));
+    await waitFor(() => expect(rooms.kickPlayer).toHaveBeenCalledWith('room-1', { userId: 'bot', ban: false }));
+  });
+
+  it('should not add bots to a full table', () => {
+    renderPanel({ config: { ...config, maxPlayers: 2 } });
+
+    expect(screen.getByRole('button', { name: 'Add Bot' })).toBeDisabled();
+  });
+
+  it('should pause and resume', async () => {
+    const { rerender } = renderPanel();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pause' }));
+    await waitFor(() => expect(rooms.pause).toHaveBeenCalledWith('room-1'));
+
+    rerender(
+      <HostPanel
+        roomId="room-1"
+        rooms={rooms}
+        notify={notify}
+        hostId="host"
+        players={players}
+        config={config}
+        gameStarted
+        paused
+        canPause={false}
+      />,
+    );
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Resume' })).toBeEnabled());
+    fireEvent.click(screen.getByRole('button', { name: 'Resume' }));
+    await waitFor(() => expect(rooms.resume).toHaveBeenCalledWith('room-1'));
+  });
+
+  it('should not pause outside of the timed stages', () => {
+    renderPanel({ canPause: false });
+
+    expect(screen.getByRole('button', { name: 'Pause' })).toBeDisabled();
+  });
+
+  it('should send config changes with time limits as TimeSpans', async () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Settings' }));
+    fireEvent.change(screen.getByLabelText('Min bet'), { target: { value: '25' } });
+    fireEvent.change(screen.getByLabelText('Turn (s)'), { target: { value: '20' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Settings' }));
+
+    await waitFor(() =>
+      expect(rooms.updateConfig).toHaveBeenCalledWith('room-1', {
+        minBet: 25,
+        bettingTimeLimit: '00:01:00',
+        turnTimeLimit: '00:00:20',
+        allowBalanceReset: true,
+      }),
+    );
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ severity: 'success' }));
+  });
+
+  it('should reject invalid settings without sending them', async () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Settings' }));
+    fireEvent.change(screen.getByLabelText('Betting (s)'), { target: { value: '0' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Settings' }));
+
+    await waitFor(() => expect(notify).toHaveBeenCalledWith(expect.objectContaining({ severity: 'error' })));
+    expect(rooms.updateConfig).not.toHaveBeenCalled();
+  });
+
+  it('should show settings waiting for the next round', () => {
+    renderPanel({ pendingConfig: { ...config, minBet: 50 } });
+
+    expect(screen.getByText(/apply from the next round \(min bet \$50\)/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,64 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import InviteMenu from '@/app/components/InviteMenu';
+
+const invite = (code) => ({
+  code,
+  roomId: 'room-1',
+  createdAt: '2025-10-24T16:00:00.000Z',
+  expiresAt: null,
+  maxUses: null,
+  uses: 0,
+});
+
+describe('InviteMenu', () => {
+  let invites;
+  let notify;
+  let writeText;
+
+  beforeEach(() => {
+    invites = {
+      listForRoom: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue(invite('NEWC0DE2')),
+      rotate: jest.fn().mockResolvedValue(invite('R0TATED2')),
+      revoke: jest.fn().mockResolvedValue(undefined),
+    };
+    notify = jest.fn();
+    writeText = jest.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+  });
+
+  it('should make a code when copying the link of a room without one', async () => {
+    render(<InviteMenu roomId="room-1" invites={invites} notify={notify} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy Invite Link' }));
+
+    await waitFor(() => expect(writeText).toHaveBeenCalledWith('http://localhost/join/NEWC0DE2'));
+    expect(invites.create).toHaveBeenCalledWith('room-1');
+  });
+
+  it('should reuse the newest code', async () => {
+    invites.listForRoom.mockResolvedValue([invite('OLDC0DE2'), invite('NEWC0DE3')]);
+    render(<InviteMenu roomId="room-1" invites={invites} notify={notify} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy Invite Link' }));
+
+    await waitFor(() => expect(writeText).toHaveBeenCalledWith('http://localhost/join/NEWC0DE3'));
+    expect(invites.create).not.toHaveBeenCalled();
+  });
+
+  it('should rotate and revoke codes', async () => {
+    invites.listForRoom.mockResolvedValue([invite('ABCD2345'), invite('EFGH6789')]);
+    render(<InviteMenu roomId="room-1" invites={invites} notify={notify} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Manage invites' }));
+    await screen.findByText('ABCD-2345');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Rotate' })[0]);
+    await screen.findByText('R0TA-TED2');
+    expect(invites.rotate).toHaveBeenCalledWith('ABCD2345');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Revoke' })[1]);
+    await waitFor(() => expect(screen.queryByText('EFGH-6789')).not.toBeInTheDocument());
+    expect(invites.revoke).toHaveBeenCalledWith('EFGH6789');
+  });
+});
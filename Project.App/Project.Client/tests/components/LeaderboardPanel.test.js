@@ -0,0 +1,70 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import LeaderboardPanel from '@/app/components/LeaderboardPanel';
+
+const entry = (rank, userId, userName, value) => ({ rank, userId, userName, value, handsPlayed: 12 });
+
+describe('LeaderboardPanel', () => {
+  let leaderboard;
+  let notify;
+
+  beforeEach(() => {
+    leaderboard = {
+      get: jest.fn().mockResolvedValue({
+        items: [entry(1, 'u1', 'Alice', 250), entry(2, 'u2', 'Bob', -40)],
+        page: 1,
+        pageSize: 20,
+        totalCount: 2,
+      }),
+    };
+    notify = jest.fn();
+  });
+
+  it('should load the weekly net winnings leaderboard first', async () => {
+    render(<LeaderboardPanel leaderboard={leaderboard} notify={notify} currentUserId="u2" />);
+
+    expect(await screen.findByText('Alice')).toBeInTheDocument();
+    expect(screen.getByText('+$250')).toBeInTheDocument();
+    expect(screen.getByText('-$40')).toBeInTheDocument();
+    expect(screen.getByText('(You)')).toBeInTheDocument();
+    expect(leaderboard.get).toHaveBeenCalledWith(
+      { metric: 'NetWinnings', window: 'Weekly', page: 1, pageSize: 20 },
+      expect.anything(),
+    );
+  });
+
+  it('should reload from the first page when the metric or window changes', async () => {
+    leaderboard.get.mockResolvedValue({ items: [entry(1, 'u1', 'Alice', 3)], page: 1, pageSize: 1, totalCount: 2 });
+    render(<LeaderboardPanel leaderboard={leaderboard} notify={notify} />);
+    fireEvent.click(await screen.findByText('Next'));
+    await waitFor(() =>
+      expect(leaderboard.get).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }), expect.anything()),
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Win streak' }));
+    fireEvent.click(screen.getByRole('button', { name: 'All time' }));
+
+    await waitFor(() =>
+      expect(leaderboard.get).toHaveBeenLastCalledWith(
+        { metric: 'WinStreak', window: 'AllTime', page: 1, pageSize: 20 },
+        expect.anything(),
+      ),
+    );
+    expect(await screen.findByText('3 hands')).toBeInTheDocument();
+  });
+
+  it('should tell when nobody has played yet', async () => {
+    leaderboard.get.mockResolvedValue({ items: [], page: 1, pageSize: 20, totalCount: 0 });
+    render(<LeaderboardPanel leaderboard={leaderboard} notify={notify} />);
+
+    expect(await screen.findByText('Nobody has played a round in this time yet.')).toBeInTheDocument();
+  });
+
+  it('should notify when the leaderboard fails to load', async () => {
+    leaderboard.get.mockRejectedValue(new Error('Failed to load the leaderboard'));
+    render(<LeaderboardPanel leaderboard={leaderboard} notify={notify} />);
+
+    await waitFor(() =>
+      expect(notify).toHaveBeenCalledWith({ severity: 'error', message: 'Failed to load the leaderboard' }),
+    );
+  });
+});
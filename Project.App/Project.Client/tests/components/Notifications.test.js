@@ -0,0 +1,81 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { NotificationProvider, useNotifications } from '@/app/components/Notifications';
+
+function Trigger({ notification }) {
+  const { notify } = useNotifications();
+  return <button onClick={() => notify(notification)}>Notify</button>;
+}
+
+describe('NotificationProvider', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const renderWithProvider = (notification) =>
+    render(
+      <NotificationProvider>
+        <Trigger notification={notification} />
+      </NotificationProvider>,
+    );
+
+  it('should show a notification and dismiss it automatically', () => {
+    renderWithProvider({ severity: 'success', message: 'Bet placed', duration: 3000 });
+
+    fireEvent.click(screen.getByText('Notify'));
+    expect(screen.getByRole('status')).toHaveTextContent('Bet placed');
+
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should show errors as alerts', () => {
+    renderWithProvider({ severity: 'error', title: "Couldn't hit", message: 'Not your turn' });
+
+    fireEvent.click(screen.getByText('Notify'));
+    expect(screen.getByRole('alert')).toHaveTextContent("Couldn't hit");
+    expect(screen.getByRole('alert')).toHaveTextContent('Not your turn');
+  });
+
+  it('should count repeats and restart the timer', () => {
+    renderWithProvider({ message: 'Someone joined', duration: 3000 });
+
+    fireEvent.click(screen.getByText('Notify'));
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    fireEvent.click(screen.getByText('Notify'));
+
+    expect(screen.getAllByRole('status')).toHaveLength(1);
+    expect(screen.getByRole('status')).toHaveTextContent('×2');
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    expect(screen.getByRole('status')).toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should be dismissable', () => {
+    renderWithProvider({ message: 'Hello', duration: 0 });
+
+    fireEvent.click(screen.getByText('Notify'));
+    fireEvent.click(screen.getByLabelText('Dismiss notification'));
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should require a provider', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => render(<Trigger notification={{ message: 'Hello' }} />)).toThrow(/NotificationProvider/);
+    console.error.mockRestore();
+  });
+});
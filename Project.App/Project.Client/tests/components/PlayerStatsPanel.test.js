@@ -0,0 +1,67 @@
+import { render, screen } from '@testing-library/react';
+import PlayerStatsPanel from '@/app/components/PlayerStatsPanel';
+
+const point = (roundNumber, net, total) => ({
+  roundId: `round-${roundNumber}`,
+  roomId: 'room-1',
+  roundNumber,
+  finishedAt: '2025-10-24T17:01:13.000+00:00',
+  net,
+  total,
+});
+
+const stats = {
+  userId: 'u1',
+  roundsPlayed: 2,
+  handsPlayed: 4,
+  wins: 2,
+  losses: 1,
+  pushes: 1,
+  blackjacks: 1,
+  busts: 0,
+  doubles: 1,
+  splits: 1,
+  surrenders: 0,
+  winRate: 0.5,
+  lossRate: 0.25,
+  pushRate: 0.25,
+  blackjackRate: 0.25,
+  bustRate: 0,
+  totalBet: 80,
+  netWinnings: 1500,
+  biggestWin: 1520,
+  bankroll: [point(1, 1520, 1520), point(2, -20, 1500)],
+};
+
+describe('PlayerStatsPanel', () => {
+  it('should show the rates and totals', () => {
+    render(<PlayerStatsPanel stats={stats} />);
+
+    expect(screen.getByText('Hands played').nextSibling).toHaveTextContent('4');
+    expect(screen.getByText('Net winnings').nextSibling).toHaveTextContent('+$1,500');
+    expect(screen.getByText('Biggest win').nextSibling).toHaveTextContent('$1,520');
+    expect(screen.getByText('Wins').nextSibling).toHaveTextContent('50%');
+    expect(screen.getByText('Blackjacks').nextSibling).toHaveTextContent('25%');
+    expect(screen.getByText('Splits').nextSibling).toHaveTextContent('1');
+  });
+
+  it('should chart the winnings with a point per round', () => {
+    const { container } = render(<PlayerStatsPanel stats={stats} />);
+
+    expect(screen.getByRole('img')).toHaveAttribute('aria-label', 'Net winnings over 2 rounds, ending at +$1,500');
+    expect(container.querySelectorAll('circle')).toHaveLength(2);
+    expect(screen.getByText('Round 2: -$20, +$1,500 in total')).toBeInTheDocument();
+  });
+
+  it('should ask to play a round when there are no hands yet', () => {
+    render(<PlayerStatsPanel stats={{ ...stats, handsPlayed: 0, bankroll: [] }} />);
+
+    expect(screen.getByText('Play a round to see your statistics here.')).toBeInTheDocument();
+  });
+
+  it('should show that statistics are loading', () => {
+    render(<PlayerStatsPanel stats={null} loading />);
+
+    expect(screen.getByText('Loading statistics...')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,29 @@
+import { render, screen } from '@testing-library/react';
+import RoomLeaderboard from '@/app/components/RoomLeaderboard';
+
+const player = (userName, balance) => ({
+  id: `rp-${userName}`,
+  userId: `u-${userName}`,
+  userName,
+  userEmail: '',
+  role: 'Player',
+  status: 'Active',
+  balance,
+  balanceDelta: 0,
+});
+
+describe('RoomLeaderboard', () => {
+  it('should rank the players by what they won at the table', () => {
+    render(<RoomLeaderboard players={[player('Bob', 950), player('Alice', 1100)]} startingBalance={1000} />);
+
+    const rows = screen.getAllByRole('listitem');
+    expect(rows[0]).toHaveTextContent('1.Alice+$100');
+    expect(rows[1]).toHaveTextContent('2.Bob-$50');
+  });
+
+  it('should tell when nobody is seated', () => {
+    render(<RoomLeaderboard players={[]} startingBalance={1000} />);
+
+    expect(screen.getByText('No players yet')).toBeInTheDocument();
+  });
+});
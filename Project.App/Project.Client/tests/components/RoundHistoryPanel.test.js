@@ -0,0 +1,87 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import RoundHistoryPanel from '@/app/components/RoundHistoryPanel';
+
+const DEADLINE = '2025-10-24T17:01:13.000+00:00';
+const card = (code, value) => ({ code, image: '', value, suit: 'SPADES' });
+
+const summary = {
+  id: 'round-1',
+  roomId: 'room-1',
+  roundNumber: 2,
+  finishedAt: DEADLINE,
+  dealerHand: [card('KS', 'KING'), card('7S', '7')],
+  dealerScore: 17,
+  hands: [{ playerId: 'u1', playerName: 'Alice', handIndex: 0, bet: 10, cards: [], score: 20, payout: 20 }],
+};
+
+const record = {
+  ...summary,
+  events: [
+    {
+      id: 1,
+      event: 'player_action',
+      data: { playerId: 'u1', handIndex: 0, action: 'bet', amount: 10 },
+      timestamp: DEADLINE,
+    },
+    {
+      id: 2,
+      event: 'player_reveal',
+      data: { playerId: 'u1', handIndex: 0, playerHand: [card('QS', 'QUEEN'), card('0S', '10')], playerScore: 20 },
+      timestamp: DEADLINE,
+    },
+  ],
+};
+
+describe('RoundHistoryPanel', () => {
+  let rooms;
+  let notify;
+
+  beforeEach(() => {
+    rooms = {
+      getRounds: jest.fn().mockResolvedValue({ items: [summary], page: 1, pageSize: 10, totalCount: 1 }),
+      getRound: jest.fn().mockResolvedValue(record),
+    };
+    notify = jest.fn();
+  });
+
+  it('should list the rounds with the players result once opened', async () => {
+    render(<RoundHistoryPanel roomId="room-1" rooms={rooms} notify={notify} currentUserId="u1" />);
+    expect(rooms.getRounds).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Show'));
+
+    expect(await screen.findByText('Round 2')).toBeInTheDocument();
+    expect(screen.getByText('+$10')).toBeInTheDocument();
+    expect(rooms.getRounds).toHaveBeenCalledWith('room-1', 1, 10);
+  });
+
+  it('should step through a round', async () => {
+    render(<RoundHistoryPanel roomId="room-1" rooms={rooms} notify={notify} currentUserId="u1" />);
+    fireEvent.click(screen.getByText('Show'));
+    fireEvent.click(await screen.findByText('Round 2'));
+
+    expect(await screen.findByText('Step 0 of 2')).toBeInTheDocument();
+    expect(rooms.getRound).toHaveBeenCalledWith('room-1', 'round-1');
+
+    fireEvent.click(screen.getByText('Next'));
+    expect(screen.getByText('Alice bet $10')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Last step'));
+    expect(screen.getByText('Step 2 of 2')).toBeInTheDocument();
+    expect(screen.getByAltText('QUEEN of SPADES')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Back to rounds'));
+    expect(screen.getByText('Round 2')).toBeInTheDocument();
+  });
+
+  it('should tell the player when the rounds cannot be loaded', async () => {
+    rooms.getRounds.mockRejectedValue(new Error('Failed to load the round history'));
+    render(<RoundHistoryPanel roomId="room-1" rooms={rooms} notify={notify} />);
+
+    fireEvent.click(screen.getByText('Show'));
+
+    await waitFor(() =>
+      expect(notify).toHaveBeenCalledWith({ severity: 'error', message: 'Failed to load the round history' }),
+    );
+  });
+});
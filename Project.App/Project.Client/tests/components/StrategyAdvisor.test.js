@@ -0,0 +1,51 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import StrategyAdvisor from '@/app/components/StrategyAdvisor';
+import { getBasicStrategyMove } from '@/lib/game/BasicStrategy';
+import { INITIAL_ADVISOR_SESSION } from '@/lib/game/StrategyAdvisor';
+
+const card = (value) => ({ code: '', image: '', value, suit: 'SPADES', isFaceDown: false });
+const advice = getBasicStrategyMove([card('10'), card('2')], card('4'));
+
+describe('StrategyAdvisor', () => {
+  it('should stay quiet until turned on', () => {
+    const onToggle = jest.fn();
+    render(
+      <StrategyAdvisor session={INITIAL_ADVISOR_SESSION} advice={advice} onToggle={onToggle} onReset={jest.fn()} />,
+    );
+
+    expect(screen.queryByText('Stand hard 12 against a 4')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Turn On'));
+    expect(onToggle).toHaveBeenCalled();
+  });
+
+  it('should show the advice and the deviations so far', () => {
+    const onReset = jest.fn();
+    const session = {
+      enabled: true,
+      decisions: 4,
+      deviations: 1,
+      lastDeviation: { advice, action: 'hit' },
+    };
+    render(<StrategyAdvisor session={session} advice={advice} onToggle={jest.fn()} onReset={onReset} />);
+
+    expect(screen.getByText('Stand hard 12 against a 4')).toBeInTheDocument();
+    expect(screen.getByText(/Deviations:/)).toHaveTextContent('Deviations: 1 of 4 moves');
+    expect(screen.getByText('You chose hit, basic strategy says: Stand hard 12 against a 4')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Reset'));
+    expect(onReset).toHaveBeenCalled();
+  });
+
+  it('should wait for the players turn', () => {
+    render(
+      <StrategyAdvisor
+        session={{ ...INITIAL_ADVISOR_SESSION, enabled: true }}
+        advice={null}
+        onToggle={jest.fn()}
+        onReset={jest.fn()}
+      />,
+    );
+
+    expect(screen.getByText('Advice shows up on your turn.')).toBeInTheDocument();
+  });
+});
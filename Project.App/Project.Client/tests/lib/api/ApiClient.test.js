@@ -0,0 +1,163 @@
+import { createApiClient } from '@/lib/api/ApiClient';
+import { ApiError, isAbortError, NetworkError, RateLimitedError, UnauthorizedError } from '@/lib/api/ApiErrors';
+import { createServerClock } from '@/lib/time/ServerClock';
+
+const response = (status, body, headers = {}) => {
+  const text = body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body);
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: new Headers(typeof body === 'object' ? { 'Content-Type': 'application/json', ...headers } : headers),
+    text: async () => text,
+  };
+};
+
+describe('createApiClient', () => {
+  let fetch;
+  let onUnauthorized;
+  let api;
+
+  beforeEach(() => {
+    fetch = jest.fn();
+    onUnauthorized = jest.fn();
+    api = createApiClient({ baseUrl: 'https://api.test', fetch, onUnauthorized });
+  });
+
+  it('should send requests with credentials and a JSON body', async () => {
+    fetch.mockResolvedValue(response(200, { id: 'room-1' }));
+
+    await expect(api.rooms.join('room-1', 'user-1')).resolves.toEqual({ id: 'room-1' });
+    expect(fetch).toHaveBeenCalledWith('https://api.test/api/room/room-1/join', {
+      method: 'POST',
+      credentials: 'include',
+      cache: 'no-store',
+      signal: undefined,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId: 'user-1' }),
+    });
+  });
+
+  it('should send a null body when starting a game', async () => {
+    fetch.mockResolvedValue(response(200, { id: 'room-1' }));
+
+    await api.rooms.start('room-1');
+    expect(fetch.mock.calls[0][1].body).toBe('null');
+  });
+
+  it('should add query parameters, leaving out missing ones', async () => {
+    fetch.mockResolvedValue(response(200, { items: [], totalCount: 0 }));
+
+    await api.leaderboard.get({ metric: 'NetWinnings', page: 2, pageSize: undefined });
+    expect(fetch.mock.calls[0][0]).toBe('https://api.test/api/leaderboard?metric=NetWinnings&page=2');
+    expect(fetch.mock.calls[0][1].body).toBeUndefined();
+  });
+
+  it('should resolve to undefined for empty responses and text for plain ones', async () => {
+    fetch.mockResolvedValueOnce(response(204)).mockResolvedValueOnce(response(200, '{"currentStage":{}}'));
+
+    await expect(api.users.updateBalance('user-1', 100)).resolves.toBeUndefined();
+    await expect(api.rooms.getGameState('room-1')).resolves.toBe('{"currentStage":{}}');
+  });
+
+  it('should throw an ApiError with a readable message', async () => {
+    fetch.mockResolvedValue(response(400, { Title: 'Bad Request', Status: 400, Detail: 'Not your turn' }));
+
+    const error = await api.rooms.performAction('room-1', 'user-1', { action: 'hit', data: {} }).catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(400);
+    expect(error.message).toBe('Not your turn');
+    expect(error.problem).toEqual({ title: 'Bad Request', status: 400, detail: 'Not your turn', errors: undefined });
+  });
+
+  it('should throw a RateLimitedError with the time to wait on 429', async () => {
+    fetch.mockResolvedValue(
+      response(429, { title: 'Too Many Requests', status: 429, detail: 'Slow down' }, { 'Retry-After': '4' }),
+    );
+
+    const error = await api.rooms.sendChat('room-1', 'hi').catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.message).toBe('Slow down');
+    expect(error.retryAfter).toBe(4);
+  });
+
+  it('should send the idempotency key of an action as a header', async () => {
+    fetch.mockResolvedValue(response(200, { message: 'ok' }));
+
+    await api.rooms.performAction('room-1', 'user-1', { action: 'hit', data: {} }, { idempotencyKey: 'key-1' });
+
+    expect(fetch.mock.calls[0][1].headers).toEqual({ 'Idempotency-Key': 'key-1', 'Content-Type': 'application/json' });
+  });
+
+  it('should escape invite codes in the path', async () => {
+    fetch.mockResolvedValue(response(200, { id: 'room-1' }));
+
+    await api.invites.join('ab/cd');
+    expect(fetch.mock.calls[0][0]).toBe('https://api.test/api/invite/ab%2Fcd/join');
+    expect(fetch.mock.calls[0][1].method).toBe('POST');
+  });
+
+  it('should fall back to the message of the endpoint', async () => {
+    fetch.mockResolvedValue(response(400));
+
+    await expect(api.rooms.leave('room-1', 'user-1')).rejects.toThrow('Failed to leave room');
+  });
+
+  it('should redirect to the login page on 401', async () => {
+    fetch.mockResolvedValue(response(401));
+
+    await expect(api.users.me()).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not redirect when the request opts out', async () => {
+    fetch.mockResolvedValue(response(401));
+
+    await expect(api.users.me({ redirectOnUnauthorized: false })).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(api.auth.logout()).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it('should wrap network failures', async () => {
+    fetch.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const error = await api.rooms.list().catch((e) => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+
+  it('should pass the abort signal and rethrow aborts as-is', async () => {
+    const controller = new AbortController();
+    fetch.mockImplementation((url, init) => {
+      expect(init.signal).toBe(controller.signal);
+      const abort = new Error('The operation was aborted.');
+      abort.name = 'AbortError';
+      return Promise.reject(abort);
+    });
+
+    controller.abort();
+    const error = await api.rooms.get('room-1', { signal: controller.signal }).catch((e) => e);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it('should record response dates on the server clock', async () => {
+    let now = 1_000_000;
+    const serverClock = createServerClock({ clientNow: () => now });
+    const clocked = createApiClient({ baseUrl: 'https://api.test', fetch, serverClock });
+    fetch.mockResolvedValue(response(200, [], { Date: new Date(now + 60000).toUTCString() }));
+
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    await clocked.rooms.getPlayers('room-1');
+    Date.now.mockRestore();
+
+    expect(serverClock.offset).toBeGreaterThan(59000);
+    expect(serverClock.offset).toBeLessThan(61000);
+  });
+
+  it('should build the login and event stream URLs', () => {
+    expect(api.auth.loginUrl('http://localhost:3000/rooms')).toBe(
+      'https://api.test/auth/login?returnUrl=http%3A%2F%2Flocalhost%3A3000%2Frooms',
+    );
+    expect(api.rooms.eventsUrl('room-1')).toBe('https://api.test/api/room/room-1/events');
+  });
+});
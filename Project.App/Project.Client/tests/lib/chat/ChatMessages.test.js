@@ -0,0 +1,36 @@
+import { RateLimitedError } from '@/lib/api/ApiErrors';
+import { describeRateLimit, isMentioned, splitMentions } from '@/lib/chat/ChatMessages';
+
+describe('ChatMessages', () => {
+  const names = ['Ann', 'Ann Lee', 'Strategy Bot 1'];
+
+  it('should split out mentions, preferring the longest name', () => {
+    expect(splitMentions('hi @ann lee, and @Strategy Bot 1!', names)).toEqual([
+      { text: 'hi ', mention: null },
+      { text: '@ann lee', mention: 'Ann Lee' },
+      { text: ', and ', mention: null },
+      { text: '@Strategy Bot 1', mention: 'Strategy Bot 1' },
+      { text: '!', mention: null },
+    ]);
+  });
+
+  it('should only mention whole names', () => {
+    expect(splitMentions('@Annabel, mail ann@example.com', names)).toEqual([
+      { text: '@Annabel, mail ann@example.com', mention: null },
+    ]);
+    expect(splitMentions('@Ann', names)).toEqual([{ text: '@Ann', mention: 'Ann' }]);
+  });
+
+  it('should tell whether a message mentions the player', () => {
+    expect(isMentioned('gg @ann', 'Ann')).toBe(true);
+    expect(isMentioned('gg @Ann Lee', 'Ann')).toBe(true);
+    expect(isMentioned('gg Ann', 'Ann')).toBe(false);
+    expect(isMentioned('gg @Ann', undefined)).toBe(false);
+  });
+
+  it('should tell how long to wait before chatting again', () => {
+    const body = { detail: 'Slow down.' };
+    expect(describeRateLimit(new RateLimitedError(body, 2.5))).toBe('Slow down. You can send again in 3s.');
+    expect(describeRateLimit(new RateLimitedError(body, null))).toBe('Slow down.');
+  });
+});
@@ -0,0 +1,209 @@
+import { describeAdvice, getBasicStrategyMove, getCardValue, getHandTotal } from '@/lib/game/BasicStrategy';
+
+const VALUES = { A: 'ACE', K: 'KING', Q: 'QUEEN', J: 'JACK', X: 'JOKER' };
+const card = (rank) => ({
+  code: `${rank}S`,
+  image: '',
+  value: VALUES[rank] ?? rank,
+  suit: 'SPADES',
+  isFaceDown: false,
+});
+const hand = (...ranks) => ranks.map(card);
+
+// six decks, dealer stands on soft 17, double after split and late surrender, like the server's defaults
+const move = (ranks, upcard, rules = {}, allowed) =>
+  getBasicStrategyMove(hand(...ranks), card(upcard), rules, allowed)?.action;
+
+const H17 = { dealerHitsSoft17: true };
+const NO_DAS = { doubleAfterSplit: false };
+const NO_SURRENDER = { lateSurrender: false };
+
+describe('getCardValue', () => {
+  it('should count faces as 10 and aces as 11', () => {
+    expect(getCardValue(card('2'))).toBe(2);
+    expect(getCardValue(card('10'))).toBe(10);
+    expect(getCardValue(card('Q'))).toBe(10);
+    expect(getCardValue(card('A'))).toBe(11);
+  });
+
+  it('should not know jokers', () => {
+    expect(getCardValue(card('X'))).toBeNull();
+  });
+});
+
+describe('getHandTotal', () => {
+  it('should count one ace as 11 while that does not bust the hand', () => {
+    expect(getHandTotal(hand('A', '6'))).toEqual({ total: 17, soft: true });
+    expect(getHandTotal(hand('A', 'A', '9'))).toEqual({ total: 21, soft: true });
+    expect(getHandTotal(hand('A', '6', '9'))).toEqual({ total: 16, soft: false });
+    expect(getHandTotal(hand('K', '7'))).toEqual({ total: 17, soft: false });
+  });
+});
+
+describe('getBasicStrategyMove', () => {
+  describe('hard totals', () => {
+    it('should hit low totals and stand on 17 or more', () => {
+      expect(move(['3', '5'], '6')).toBe('hit');
+      expect(move(['K', '7'], '10')).toBe('stand');
+      expect(move(['K', '9'], 'A')).toBe('stand');
+    });
+
+    it('should stand on stiff hands against weak upcards only', () => {
+      expect(move(['10', '2'], '2')).toBe('hit');
+      expect(move(['10', '2'], '4')).toBe('stand');
+      expect(move(['10', '3'], '2')).toBe('stand');
+      expect(move(['10', '6'], '7')).toBe('hit');
+    });
+
+    it('should double 9 to 11 against the right upcards', () => {
+      expect(move(['5', '4'], '3')).toBe('double');
+      expect(move(['5', '4'], '2')).toBe('hit');
+      expect(move(['6', '4'], '9')).toBe('double');
+      expect(move(['6', '4'], '10')).toBe('hit');
+      expect(move(['6', '5'], '10')).toBe('double');
+      expect(move(['6', '5'], 'A')).toBe('hit');
+    });
+
+    it('should hit instead of doubling after the first two cards', () => {
+      expect(move(['3', '3', '4'], '6')).toBe('hit');
+    });
+
+    it('should surrender 16 against 9 to ace and 15 against 10', () => {
+      expect(move(['10', '6'], '9')).toBe('surrender');
+      expect(move(['10', '6'], 'K')).toBe('surrender');
+      expect(move(['10', '6'], 'A')).toBe('surrender');
+      expect(move(['10', '5'], '10')).toBe('surrender');
+      expect(move(['10', '5'], 'A')).toBe('hit');
+    });
+
+    it('should hit instead of surrendering when surrender is off or after the first two cards', () => {
+      expect(move(['10', '6'], '10', NO_SURRENDER)).toBe('hit');
+      expect(move(['10', '2', '4'], '10')).toBe('hit');
+    });
+
+    it('should follow the dealer hitting soft 17', () => {
+      expect(move(['6', '5'], 'A', H17)).toBe('double');
+      expect(move(['10', '5'], 'A', H17)).toBe('surrender');
+      expect(move(['10', '7'], 'A', H17)).toBe('surrender');
+      expect(move(['10', '7'], 'A', { ...H17, ...NO_SURRENDER })).toBe('stand');
+      expect(move(['10', '7'], 'A')).toBe('stand');
+    });
+
+    it('should double more with fewer decks', () => {
+      expect(move(['5', '4'], '2', { deckCount: 2 })).toBe('double');
+      expect(move(['6', '5'], 'A', { deckCount: 2 })).toBe('double');
+      expect(move(['5', '3'], '5', { deckCount: 1 })).toBe('double');
+      expect(move(['5', '3'], '5', { deckCount: 2 })).toBe('hit');
+    });
+
+    it('should stand on a busted hand', () => {
+      expect(move(['K', '6', '9'], '10')).toBe('stand');
+    });
+
+    it('should hit a single card left by a split', () => {
+      expect(move(['8'], '6')).toBe('hit');
+      expect(move(['A'], '6')).toBe('hit');
+    });
+  });
+
+  describe('soft totals', () => {
+    it('should double small soft hands against 4 to 6', () => {
+      expect(move(['A', '2'], '5')).toBe('double');
+      expect(move(['A', '2'], '4')).toBe('hit');
+      expect(move(['A', '4'], '4')).toBe('double');
+      expect(move(['A', '6'], '3')).toBe('double');
+      expect(move(['A', '6'], '2')).toBe('hit');
+    });
+
+    it('should double soft 18 against 3 to 6, or stand when it cannot', () => {
+      expect(move(['A', '7'], '3')).toBe('double');
+      expect(move(['A', '7'], '3', {}, { double: false })).toBe('stand');
+      expect(move(['A', '7'], '2')).toBe('stand');
+      expect(move(['A', '7'], '8')).toBe('stand');
+      expect(move(['A', '7'], '9')).toBe('hit');
+    });
+
+    it('should follow the dealer hitting soft 17', () => {
+      expect(move(['A', '7'], '2', H17)).toBe('double');
+      expect(move(['A', '8'], '6', H17)).toBe('double');
+      expect(move(['A', '8'], '6')).toBe('stand');
+    });
+
+    it('should play soft hands of more than two cards by their total', () => {
+      expect(move(['A', '2', '4'], '4')).toBe('hit');
+      expect(move(['A', '3', '4'], '5')).toBe('stand');
+      expect(move(['A', '5', '3'], '6')).toBe('stand');
+    });
+  });
+
+  describe('pairs', () => {
+    it('should always split aces and 8s and never 10s or 5s', () => {
+      expect(move(['A', 'A'], 'A')).toBe('split');
+      expect(move(['8', '8'], '10')).toBe('split');
+      expect(move(['K', 'K'], '6')).toBe('stand');
+      expect(move(['5', '5'], '6')).toBe('double');
+    });
+
+    it('should not treat two different ten-valued cards as a pair', () => {
+      expect(move(['K', 'Q'], '6')).toBe('stand');
+    });
+
+    it('should split 9s except against 7, 10 and ace', () => {
+      expect(move(['9', '9'], '6')).toBe('split');
+      expect(move(['9', '9'], '7')).toBe('stand');
+      expect(move(['9', '9'], '8')).toBe('split');
+      expect(move(['9', '9'], 'A')).toBe('stand');
+    });
+
+    it('should split small pairs less without doubling after a split', () => {
+      expect(move(['2', '2'], '3')).toBe('split');
+      expect(move(['2', '2'], '3', NO_DAS)).toBe('hit');
+      expect(move(['4', '4'], '5')).toBe('split');
+      expect(move(['4', '4'], '5', NO_DAS)).toBe('hit');
+      expect(move(['6', '6'], '2')).toBe('split');
+      expect(move(['6', '6'], '2', NO_DAS)).toBe('hit');
+      expect(move(['7', '7'], '7', NO_DAS)).toBe('split');
+    });
+
+    it('should surrender 8s against an ace when the dealer hits soft 17', () => {
+      expect(move(['8', '8'], 'A', H17)).toBe('surrender');
+      expect(move(['8', '8'], 'A', { ...H17, ...NO_SURRENDER })).toBe('split');
+    });
+
+    it('should play the total when splitting is not allowed', () => {
+      expect(move(['8', '8'], '10', {}, { split: false })).toBe('surrender');
+      expect(move(['8', '8'], '10', {}, { split: false, surrender: false })).toBe('hit');
+      expect(move(['A', 'A'], '6', {}, { split: false })).toBe('hit');
+    });
+  });
+
+  it('should use the server defaults without rules', () => {
+    expect(getBasicStrategyMove(hand('10', '6'), card('10'), null)?.action).toBe('surrender');
+  });
+
+  it('should describe how the hand was looked up', () => {
+    expect(getBasicStrategyMove(hand('A', '6'), card('4'))).toEqual({
+      action: 'double',
+      kind: 'soft',
+      total: 17,
+      pairValue: null,
+      dealerValue: 4,
+    });
+    expect(getBasicStrategyMove(hand('8', '8'), card('A'))).toMatchObject({ kind: 'pair', pairValue: 8 });
+  });
+
+  it('should give no advice for an empty hand or unknown cards', () => {
+    expect(getBasicStrategyMove([], card('10'))).toBeNull();
+    expect(getBasicStrategyMove(hand('X', '5'), card('10'))).toBeNull();
+    expect(getBasicStrategyMove(hand('10', '5'), card('X'))).toBeNull();
+  });
+});
+
+describe('describeAdvice', () => {
+  it('should name the move, the hand and the upcard', () => {
+    expect(describeAdvice(getBasicStrategyMove(hand('A', '6'), card('4')))).toBe('Double soft 17 against a 4');
+    expect(describeAdvice(getBasicStrategyMove(hand('10', '6'), card('A')))).toBe('Surrender hard 16 against an ace');
+    expect(describeAdvice(getBasicStrategyMove(hand('A', 'A'), card('8')))).toBe('Split a pair of aces against an 8');
+    expect(describeAdvice(getBasicStrategyMove(hand('9', '9'), card('5')))).toBe('Split a pair of 9s against a 5');
+  });
+});
@@ -0,0 +1,14 @@
+import { createActionRequest } from '@/lib/game/BlackjackActions';
+
+describe('createActionRequest', () => {
+  it('should pair the action name with its payload', () => {
+    expect(createActionRequest('bet', { amount: 25 })).toEqual({ action: 'bet', data: { amount: 25 } });
+    expect(createActionRequest('hurry_up', {})).toEqual({ action: 'hurry_up', data: {} });
+  });
+
+  it('should serialize to the body the action endpoint expects', () => {
+    expect(JSON.stringify(createActionRequest('split', { amount: 10 }))).toBe(
+      '{"action":"split","data":{"amount":10}}',
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { describeRules, formatTimeSpan, parseBlackjackConfig, parseTimeSpan } from '@/lib/game/BlackjackConfig';
+
+describe('parseTimeSpan', () => {
+  it('should read TimeSpans as seconds', () => {
+    expect(parseTimeSpan('00:01:00')).toBe(60);
+    expect(parseTimeSpan('00:00:30.5000000')).toBe(30.5);
+    expect(parseTimeSpan('1.02:00:00')).toBe(93600);
+    expect(parseTimeSpan('-00:00:05')).toBe(-5);
+  });
+
+  it('should return null for anything else', () => {
+    expect(parseTimeSpan('60')).toBeNull();
+    expect(parseTimeSpan('')).toBeNull();
+    expect(parseTimeSpan(null)).toBeNull();
+  });
+});
+
+describe('formatTimeSpan', () => {
+  it('should write seconds as TimeSpans', () => {
+    expect(formatTimeSpan(45)).toBe('00:00:45');
+    expect(formatTimeSpan(3725.9)).toBe('01:02:05');
+    expect(formatTimeSpan(93600)).toBe('1.02:00:00');
+  });
+
+  it('should round trip', () => {
+    expect(parseTimeSpan(formatTimeSpan(90))).toBe(90);
+  });
+});
+
+describe('parseBlackjackConfig', () => {
+  it('should read stored and camelCase configs the same way', () => {
+    const expected = { minBet: 10, bettingTimeLimit: '00:01:00' };
+
+    expect(parseBlackjackConfig('{"$type":"blackjack","MinBet":10,"BettingTimeLimit":"00:01:00"}')).toEqual(expected);
+    expect(parseBlackjackConfig({ minBet: 10, bettingTimeLimit: '00:01:00' })).toEqual(expected);
+  });
+
+  it('should return null without a config', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(parseBlackjackConfig('')).toBeNull();
+    expect(parseBlackjackConfig(null)).toBeNull();
+    expect(parseBlackjackConfig('not json')).toBeNull();
+    expect(parseBlackjackConfig('[]')).toBeNull();
+    console.error.mockRestore();
+  });
+});
+
+describe('describeRules', () => {
+  it('should describe the default rules', () => {
+    expect(describeRules(null)).toEqual([
+      '6 decks, reshuffled at 75%',
+      'Dealer stands on soft 17',
+      'Blackjack pays 3:2',
+      'Late surrender allowed',
+      'Split up to 3 times',
+      'Double after split allowed',
+    ]);
+  });
+
+  it('should describe the configured rules', () => {
+    const rules = describeRules({
+      deckCount: 1,
+      reshufflePenetration: 0.5,
+      dealerHitsSoft17: true,
+      blackjackPayout: 'SixToFive',
+      lateSurrender: false,
+      maxSplits: 1,
+      resplitAces: true,
+      doubleAfterSplit: false,
+    });
+
+    expect(rules).toEqual([
+      '1 deck, reshuffled at 50%',
+      'Dealer hits soft 17',
+      'Blackjack pays 6:5',
+      'No surrender',
+      'Split up to 1 time, aces may be re-split',
+      'No double after split',
+    ]);
+    expect(describeRules({ maxSplits: 0, blackjackPayout: 1 })).toEqual(
+      expect.arrayContaining(['No splitting', 'Blackjack pays 6:5']),
+    );
+  });
+});
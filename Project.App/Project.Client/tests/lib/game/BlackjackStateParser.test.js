@@ -0,0 +1,101 @@
+import {
+  BlackjackStateValidationError,
+  parseBlackjackStage,
+  parseBlackjackState,
+  parseStoredBlackjackState,
+} from '@/lib/game/BlackjackStateParser';
+
+const DEADLINE = '2025-10-24T17:01:13.000+00:00';
+
+describe('parseBlackjackStage', () => {
+  it('should parse a camelCase betting stage from SSE', () => {
+    const stage = parseBlackjackStage({ $type: 'betting', deadline: DEADLINE, bets: { abc: 100 } });
+
+    expect(stage).toEqual({ $type: 'betting', deadline: DEADLINE, bets: { abc: 100 } });
+  });
+
+  it('should parse a PascalCase player action stage from a JSON string', () => {
+    const stage = parseBlackjackStage(
+      JSON.stringify({ $type: 'player_action', Deadline: DEADLINE, PlayerIndex: 1, HandIndex: 0 }),
+    );
+
+    expect(stage).toEqual({ $type: 'player_action', deadline: DEADLINE, playerIndex: 1, handIndex: 0 });
+  });
+
+  it('should parse stages without data', () => {
+    for (const $type of ['init', 'setup', 'dealing', 'finish_round', 'teardown']) {
+      expect(parseBlackjackStage({ $type, extra: true })).toEqual({ $type });
+    }
+  });
+
+  it('should reject unknown stage types', () => {
+    expect(() => parseBlackjackStage({ type: 'betting' })).toThrow(BlackjackStateValidationError);
+    expect(() => parseBlackjackStage({ $type: 'shuffling' })).toThrow(/currentStage\.\$type/);
+  });
+
+  it('should reject invalid stage fields with the offending path', () => {
+    expect(() => parseBlackjackStage({ $type: 'betting', deadline: 'soon', bets: {} })).toThrow(
+      /currentStage\.deadline/,
+    );
+    expect(() => parseBlackjackStage({ $type: 'betting', deadline: DEADLINE, bets: { abc: '100' } })).toThrow(
+      /currentStage\.bets\.abc/,
+    );
+    expect(() =>
+      parseBlackjackStage({ $type: 'player_action', deadline: DEADLINE, playerIndex: -1, handIndex: 0 }),
+    ).toThrow(/currentStage\.playerIndex/);
+  });
+
+  it('should reject malformed JSON', () => {
+    expect(() => parseBlackjackStage('{not json')).toThrow(/not valid JSON/);
+  });
+});
+
+describe('parseBlackjackState', () => {
+  it('should parse a stored PascalCase state', () => {
+    const state = parseBlackjackState(
+      JSON.stringify({
+        CurrentStage: { $type: 'betting', Deadline: DEADLINE, Bets: {} },
+        DealerHand: '',
+        Bets: { abc: 50 },
+      }),
+    );
+
+    expect(state).toEqual({
+      currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} },
+      dealerHand: '',
+      bets: { abc: 50 },
+    });
+  });
+
+  it('should reject a state without a stage', () => {
+    expect(() => parseBlackjackState({ dealerHand: '' })).toThrow(/state\.currentStage/);
+  });
+
+  it('should keep the pause and pending config set by the host', () => {
+    const state = parseBlackjackState({
+      CurrentStage: { $type: 'dealing' },
+      PausedAt: DEADLINE,
+      PendingConfig: { MinBet: 25, TurnTimeLimit: '00:00:20' },
+    });
+
+    expect(state.pausedAt).toBe(DEADLINE);
+    expect(state.pendingConfig).toEqual({ minBet: 25, turnTimeLimit: '00:00:20' });
+    expect(() => parseBlackjackState({ currentStage: { $type: 'dealing' }, pausedAt: 'soon' })).toThrow(
+      /state\.pausedAt/,
+    );
+  });
+});
+
+describe('parseStoredBlackjackState', () => {
+  it('should treat an empty state as not started', () => {
+    expect(parseStoredBlackjackState('{}')).toBeNull();
+    expect(parseStoredBlackjackState('')).toBeNull();
+    expect(parseStoredBlackjackState(null)).toBeNull();
+  });
+
+  it('should parse a non-empty state', () => {
+    expect(parseStoredBlackjackState('{"CurrentStage":{"$type":"dealing"}}')?.currentStage).toEqual({
+      $type: 'dealing',
+    });
+  });
+});
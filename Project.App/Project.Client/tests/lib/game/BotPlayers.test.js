@@ -0,0 +1,16 @@
+import { BOT_POLICIES, getBotPolicyLabel, isBot } from '@/lib/game/BotPlayers';
+
+describe('BotPlayers', () => {
+  it('should tell bots from people by their policy', () => {
+    expect(isBot({ botPolicy: 'MimicDealer' })).toBe(true);
+    expect(isBot({ botPolicy: null })).toBe(false);
+    expect(isBot({})).toBe(false);
+    expect(isBot(undefined)).toBe(false);
+  });
+
+  it('should label every policy the server knows', () => {
+    expect(BOT_POLICIES.map((option) => option.value)).toEqual(['BasicStrategy', 'AlwaysStand', 'MimicDealer']);
+    expect(getBotPolicyLabel('AlwaysStand')).toBe('Always stand');
+    expect(getBotPolicyLabel('SomethingNew')).toBe('SomethingNew');
+  });
+});
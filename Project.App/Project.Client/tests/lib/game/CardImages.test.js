@@ -0,0 +1,16 @@
+import { getCardImage } from '@/lib/game/CardImages';
+
+describe('getCardImage', () => {
+  it('should find the bundled image by card code', () => {
+    expect(getCardImage({ code: 'AS', isFaceDown: false })).toBe('/cards/AS.svg');
+    expect(getCardImage({ code: '0H', isFaceDown: false })).toBe('/cards/0H.svg');
+    expect(getCardImage({ code: 'X2', isFaceDown: false })).toBe('/cards/X2.svg');
+  });
+
+  it('should not show face-down or unknown cards', () => {
+    expect(getCardImage({ code: 'AS', isFaceDown: true })).toBeNull();
+    expect(getCardImage({ code: '', isFaceDown: false })).toBeNull();
+    expect(getCardImage({ code: '1S', isFaceDown: false })).toBeNull();
+    expect(getCardImage({ code: '../AS', isFaceDown: false })).toBeNull();
+  });
+});
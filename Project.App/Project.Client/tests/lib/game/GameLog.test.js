@@ -0,0 +1,174 @@
+import {
+  appendLogEntries,
+  createGameLogRecorder,
+  exportLogAsJson,
+  exportLogAsText,
+  formatLogEntry,
+  loadGameLog,
+  saveGameLog,
+} from '@/lib/game/GameLog';
+
+const DEADLINE = '2025-10-24T17:01:13.000+00:00';
+const NOW = new Date('2025-10-24T17:00:00.000Z');
+const card = (code, value, isFaceDown = false) => ({ code, image: '', value, suit: 'SPADES', isFaceDown });
+
+const names = { u1: 'Alice', u2: 'Bob' };
+const resolveName = (playerId) => names[playerId];
+
+const recordAll = (events) => {
+  const recorder = createGameLogRecorder(() => NOW);
+  return events.reduce((log, [type, data]) => appendLogEntries(log, recorder.record({ eventType: type, data })), []);
+};
+
+const texts = (log) => log.map((entry) => formatLogEntry(entry, resolveName));
+
+describe('createGameLogRecorder', () => {
+  it('should describe a round from bets to payouts', () => {
+    const log = recordAll([
+      ['game_state_update', { currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} } }],
+      ['player_action', { playerId: 'u1', handIndex: 0, action: 'bet', amount: 100 }],
+      ['player_action', { playerId: 'u2', handIndex: 0, action: 'bet', amount: 50 }],
+      ['game_state_update', { currentStage: { $type: 'dealing' } }],
+      ['player_action', { playerId: 'u1', handIndex: 0, action: 'hit', cards: [card('5S', '5')] }],
+      ['player_action', { playerId: 'u2', handIndex: 0, action: 'surrender', amount: 25 }],
+      ['game_state_update', { currentStage: { $type: 'finish_round' } }],
+      ['dealer_reveal', { dealerHand: [card('KS', 'KING'), card('8S', '8')], dealerScore: 18 }],
+      [
+        'player_reveal',
+        {
+          playerId: 'u1',
+          handIndex: 0,
+          playerHand: [card('KH', 'KING'), card('4H', '4'), card('5S', '5')],
+          playerScore: 19,
+        },
+      ],
+      [
+        'player_reveal',
+        { playerId: 'u2', handIndex: 0, playerHand: [card('9H', '9'), card('7H', '7')], playerScore: 16 },
+      ],
+    ]);
+
+    expect(texts(log)).toEqual([
+      'Betting opened for a new round',
+      'Alice bet $100',
+      'Bob bet $50',
+      'Dealing cards',
+      'Alice hit: 5S',
+      'Bob surrendered, $25 refunded',
+      "Dealer's turn",
+      'Dealer has KS 8S (18)',
+      'Alice has KH 4H 5S (19)',
+      'Alice won $100 (19 vs 18)',
+      'Bob has 9H 7H (16)',
+      'Bob surrendered',
+    ]);
+    expect(log.map((entry) => entry.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it('should pay out a re-split hand for the bet on it', () => {
+    const log = recordAll([
+      ['game_state_update', { currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} } }],
+      ['player_action', { playerId: 'u1', handIndex: 0, action: 'bet', amount: 100 }],
+      ['player_action', { playerId: 'u1', handIndex: 0, action: 'split', amount: 100 }],
+      ['player_action', { playerId: 'u1', handIndex: 0, action: 'split', amount: 100 }],
+      ['game_state_update', { currentStage: { $type: 'finish_round' } }],
+      ['dealer_reveal', { dealerHand: [card('KS', 'KING'), card('8S', '8')], dealerScore: 18 }],
+      [
+        'player_reveal',
+        { playerId: 'u1', handIndex: 2, playerHand: [card('8H', '8'), card('AH', 'ACE')], playerScore: 19 },
+      ],
+    ]);
+
+    expect(texts(log).at(-1)).toBe('Alice (hand 3) won $100 (19 vs 18)');
+  });
+
+  it('should show the hole card as hidden', () => {
+    const log = recordAll([
+      ['dealer_reveal', { dealerHand: [card('KS', 'KING'), card('', '', true)], dealerScore: 10 }],
+    ]);
+
+    expect(texts(log)).toEqual(['Dealer has KS ?? (10+?)']);
+  });
+
+  it('should describe room changes using the name from the event for unknown players', () => {
+    const log = recordAll([
+      ['player_join', { playerId: 'u3', playerName: 'Carol' }],
+      ['host_change', { playerId: 'u1', playerName: 'Old Name' }],
+      ['chat', { sender: 'Alice', content: 'hi' }],
+    ]);
+
+    expect(texts(log)).toEqual(['Carol joined', 'Alice is now the host']);
+  });
+
+  it('should log the host controls', () => {
+    const log = recordAll([
+      ['player_kicked', { playerId: 'u3', playerName: 'Carol', banned: false }],
+      ['player_kicked', { playerId: 'u4', playerName: 'Dave', banned: true }],
+      ['chat_user_muted', { userId: 'u3', userName: 'Carol', muted: true }],
+      ['chat_message_deleted', { messageId: 'm1' }],
+      ['game_paused', { pausedAt: DEADLINE }],
+      ['game_resumed', { deadline: DEADLINE }],
+      ['config_change', { config: { minBet: 50 }, pending: true }],
+    ]);
+
+    expect(texts(log)).toEqual([
+      'Carol was removed from the table by the host',
+      'Dave was banned by the host',
+      'Carol was muted in the chat by the host',
+      'The host paused the game',
+      'The host resumed the game',
+      'The host changed the settings for the next round, minimum bet $50',
+    ]);
+  });
+
+  it('should not log repeated updates of the same stage', () => {
+    const log = recordAll([
+      ['game_state_update', { currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} } }],
+      ['game_state_update', { currentStage: { $type: 'betting', deadline: DEADLINE, bets: { a: 1 } } }],
+    ]);
+
+    expect(log).toHaveLength(1);
+  });
+});
+
+describe('appendLogEntries', () => {
+  it('should drop the oldest entries beyond the cap and keep numbering', () => {
+    const entry = { timestamp: NOW.toISOString(), category: 'room', eventType: 'player_join', text: 'x' };
+    const log = appendLogEntries(appendLogEntries([], [entry, entry, entry], 2), [entry], 2);
+
+    expect(log.map((e) => e.id)).toEqual([3, 4]);
+  });
+});
+
+describe('export', () => {
+  const log = recordAll([['player_action', { playerId: 'u1', handIndex: 1, action: 'stand' }]]);
+
+  it('should export plain text with resolved names', () => {
+    expect(exportLogAsText(log, resolveName)).toBe('[2025-10-24T17:00:00.000Z] [play] Alice (hand 2) stood');
+  });
+
+  it('should export JSON with resolved messages', () => {
+    expect(JSON.parse(exportLogAsJson(log, resolveName))[0]).toMatchObject({
+      playerId: 'u1',
+      message: 'Alice (hand 2) stood',
+    });
+  });
+});
+
+describe('session storage', () => {
+  beforeEach(() => sessionStorage.clear());
+
+  it('should save and restore the log per room', () => {
+    const log = recordAll([['player_join', { playerId: 'u1', playerName: 'Alice' }]]);
+    saveGameLog('room-1', log);
+
+    expect(loadGameLog('room-1')).toEqual(log);
+    expect(loadGameLog('room-2')).toEqual([]);
+  });
+
+  it('should ignore corrupted storage', () => {
+    sessionStorage.setItem('gameLog:room-1', '{oops');
+
+    expect(loadGameLog('room-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,404 @@
+import {
+  canTakeSeat,
+  gameStoreReducer,
+  getSpectators,
+  initialGameStore,
+  withPendingActions,
+} from '@/lib/game/GameStore';
+
+const DEADLINE = '2025-10-24T17:01:13.000+00:00';
+const card = (code, value, isFaceDown = false) => ({ code, image: '', value, suit: 'SPADES', isFaceDown });
+
+const player = (id, userId, balance) => ({
+  id,
+  userId,
+  userName: userId,
+  userEmail: '',
+  role: 'Player',
+  status: 'Away',
+  balance,
+  balanceDelta: 0,
+});
+
+const room = {
+  id: 'room-1',
+  hostId: 'u1',
+  isPublic: true,
+  gameMode: 'Blackjack',
+  gameState: '{}',
+  gameConfig: '{"minBet":10,"startingBalance":1000}',
+  description: 'Test',
+  maxPlayers: 5,
+  minPlayers: 1,
+  createdAt: DEADLINE,
+  isActive: true,
+};
+
+const events = (...list) => list.map(([eventType, data]) => ({ type: 'event', event: { eventType, data } }));
+
+const stage = (currentStage) => ['game_state_update', { currentStage }];
+
+const loaded = (gameState = null) =>
+  [
+    { type: 'room_loaded', room },
+    { type: 'players_loaded', players: [player('rp1', 'u1', 1000), player('rp2', 'u2', 500)] },
+    { type: 'game_state_loaded', gameState },
+  ].reduce(gameStoreReducer, initialGameStore);
+
+const apply = (state, actions) => actions.reduce(gameStoreReducer, state);
+
+const balances = (state) => Object.fromEntries(state.players.map((p) => [p.userId, p.balance]));
+
+describe('gameStoreReducer', () => {
+  it('should parse the game config when the room is loaded', () => {
+    expect(loaded().gameConfig).toEqual({ minBet: 10, startingBalance: 1000 });
+  });
+
+  it('should play a round from recorded events without refetching', () => {
+    const betting = { currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} }, dealerHand: '', bets: {} };
+    const start = loaded(betting);
+
+    const state = apply(
+      start,
+      events(
+        ['player_action', { playerId: 'u1', handIndex: 0, action: 'bet', amount: 100 }],
+        stage({ $type: 'betting', deadline: DEADLINE, bets: { rp1: 100 } }),
+        ['player_action', { playerId: 'u2', handIndex: 0, action: 'bet', amount: 50 }],
+        stage({ $type: 'betting', deadline: DEADLINE, bets: { rp1: 100, rp2: 50 } }),
+        stage({ $type: 'dealing' }),
+        ['dealer_reveal', { dealerHand: [card('KS', 'KING'), card('XX', '', true)], dealerScore: 10 }],
+        [
+          'player_reveal',
+          { playerId: 'u1', handIndex: 0, playerHand: [card('5S', '5'), card('6S', '6')], playerScore: 11 },
+        ],
+        [
+          'player_reveal',
+          { playerId: 'u2', handIndex: 0, playerHand: [card('8S', '8'), card('8H', '8')], playerScore: 16 },
+        ],
+        stage({ $type: 'player_action', deadline: DEADLINE, playerIndex: 0, handIndex: 0 }),
+        ['player_action', { playerId: 'u1', handIndex: 0, action: 'double', amount: 200, cards: [card('9S', '9')] }],
+        stage({ $type: 'player_action', deadline: DEADLINE, playerIndex: 1, handIndex: 0 }),
+        ['player_action', { playerId: 'u2', handIndex: 0, action: 'split', amount: 50 }],
+        ['player_action', { playerId: 'u2', handIndex: 0, action: 'stand' }],
+        ['chat', { id: 'm1', senderId: 'u2', sender: 'Bob', content: 'gl', timestamp: DEADLINE }],
+      ),
+    );
+
+    expect(state.refetch).toEqual(start.refetch);
+    expect(state.roundBets).toEqual({ rp1: 100, rp2: 50 });
+    expect(balances(state)).toEqual({ u1: 800, u2: 400 });
+    expect(state.players.map((p) => p.status)).toEqual(['Active', 'Active']);
+    expect(state.gameState.currentStage).toEqual({
+      $type: 'player_action',
+      deadline: DEADLINE,
+      playerIndex: 1,
+      handIndex: 0,
+    });
+    expect(state.dealerHand.score).toBe(10);
+    expect(state.hands.u1[0]).toEqual({ cards: [card('5S', '5'), card('6S', '6'), card('9S', '9')], score: 20 });
+    expect(Object.keys(state.hands.u2)).toEqual(['0', '1']);
+    expect(state.messages).toHaveLength(1);
+  });
+
+  it('should refund surrenders', () => {
+    const state = apply(
+      loaded(),
+      events(['player_action', { playerId: 'u2', handIndex: 0, action: 'surrender', amount: 25 }]),
+    );
+    expect(balances(state)).toEqual({ u1: 1000, u2: 525 });
+  });
+
+  it('should ask for the roster after payouts and when the game starts', () => {
+    const init = loaded({ currentStage: { $type: 'init' }, dealerHand: '', bets: {} });
+
+    const started = apply(init, events(stage({ $type: 'betting', deadline: DEADLINE, bets: {} })));
+    expect(started.refetch).toEqual({ room: 1, players: 1 });
+
+    const nextRound = apply(
+      started,
+      events(
+        stage({ $type: 'betting', deadline: DEADLINE, bets: { rp1: 10 } }),
+        stage({ $type: 'dealing' }),
+        stage({ $type: 'finish_round' }),
+        stage({ $type: 'betting', deadline: DEADLINE, bets: {} }),
+      ),
+    );
+    expect(nextRound.refetch).toEqual({ room: 1, players: 2 });
+    expect(nextRound.hands).toEqual({});
+    expect(nextRound.dealerHand).toBeNull();
+  });
+
+  it('should only refetch the roster for joins', () => {
+    const state = apply(loaded(), events(['player_join', { playerId: 'u3', playerName: 'Carol' }]));
+    expect(state.refetch).toEqual({ room: 0, players: 1 });
+  });
+
+  it('should update the roster and host from room events', () => {
+    const state = apply(
+      loaded(),
+      events(
+        ['player_leave', { playerId: 'u1', playerName: 'u1' }],
+        ['host_change', { playerId: 'u2', playerName: 'u2' }],
+        ['player_action', { playerId: 'u1', handIndex: 0, action: 'hurry_up', success: true, targetPlayerId: 'u2' }],
+      ),
+    );
+
+    expect(state.players.map((p) => p.status)).toEqual(['Left', 'Inactive']);
+    expect(state.room.hostId).toBe('u2');
+  });
+
+  it('should read stored PascalCase configs', () => {
+    const state = gameStoreReducer(initialGameStore, {
+      type: 'room_loaded',
+      room: { ...room, gameConfig: '{"$type":"blackjack","MinBet":25,"BettingTimeLimit":"00:00:45"}' },
+    });
+    expect(state.gameConfig).toEqual({ minBet: 25, bettingTimeLimit: '00:00:45' });
+  });
+
+  it('should apply the host controls', () => {
+    const start = loaded({
+      currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} },
+      dealerHand: '',
+      bets: {},
+    });
+    const resumedDeadline = '2025-10-24T17:02:13.000+00:00';
+    const config = { minBet: 50, startingBalance: 1000, bettingTimeLimit: '00:01:00', turnTimeLimit: '00:00:30' };
+
+    const paused = apply(
+      start,
+      events(
+        ['player_kicked', { playerId: 'u2', playerName: 'u2', banned: true }],
+        ['game_paused', { pausedAt: DEADLINE }],
+        ['config_change', { config, pending: true }],
+      ),
+    );
+    expect(paused.players.map((p) => p.status)).toEqual(['Away', 'Left']);
+    expect(paused.gameState.pausedAt).toBe(DEADLINE);
+    expect(paused.gameState.pendingConfig).toEqual(config);
+    expect(paused.gameConfig.minBet).toBe(10);
+
+    const resumed = apply(
+      paused,
+      events(['game_resumed', { deadline: resumedDeadline }], ['config_change', { config, pending: false }]),
+    );
+    expect(resumed.gameState.pausedAt).toBeNull();
+    expect(resumed.gameState.currentStage.deadline).toBe(resumedDeadline);
+    expect(resumed.gameState.pendingConfig).toBeNull();
+    expect(resumed.gameConfig.minBet).toBe(50);
+  });
+
+  it('should reject invalid stages and keep the last valid state', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const start = loaded({ currentStage: { $type: 'dealing' }, dealerHand: '', bets: {} });
+
+    const state = apply(start, events(stage({ $type: 'betting', bets: {} })));
+    expect(state).toBe(start);
+    console.error.mockRestore();
+  });
+
+  it('should leave the state alone for events that change nothing', () => {
+    const start = loaded();
+    const state = apply(
+      start,
+      events(
+        ['player_action', { playerId: 'u1', handIndex: 0, action: 'hurry_up', success: false }],
+        ['resync', { lastEventId: 7 }],
+      ),
+    );
+    expect(state).toBe(start);
+  });
+});
+
+describe('pending actions', () => {
+  const betting = { currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} }, dealerHand: '', bets: {} };
+  const playing = {
+    currentStage: { $type: 'player_action', deadline: DEADLINE, playerIndex: 0, handIndex: 0 },
+    dealerHand: '',
+    bets: {},
+  };
+  const sent = (id, request, userId = 'u1') => ({ type: 'action_sent', id, userId, request });
+
+  const dealt = () =>
+    apply(loaded(playing), [
+      ...events([
+        'player_reveal',
+        { playerId: 'u1', handIndex: 0, playerHand: [card('5S', '5'), card('6S', '6')], playerScore: 11 },
+      ]),
+    ]);
+
+  it('should show a bet before the server confirms it', () => {
+    const state = apply(loaded(betting), [sent('a1', { action: 'bet', data: { amount: 100 } })]);
+
+    const view = withPendingActions(state);
+    expect(view.gameState.currentStage.bets).toEqual({ rp1: 100 });
+    expect(view.roundBets).toEqual({ rp1: 100 });
+    expect(state.roundBets).toEqual({});
+  });
+
+  it('should confirm an action with its event', () => {
+    const state = apply(loaded(betting), [
+      sent('a1', { action: 'bet', data: { amount: 100 } }),
+      { type: 'action_acknowledged', id: 'a1' },
+      ...events(['player_action', { playerId: 'u1', handIndex: 0, action: 'bet', amount: 100 }]),
+    ]);
+
+    expect(state.pending).toEqual([]);
+    expect(state.roundBets).toEqual({ rp1: 100 });
+    expect(withPendingActions(state)).toBe(state);
+  });
+
+  it('should roll back a failed request', () => {
+    const start = dealt();
+    const state = apply(start, [sent('a1', { action: 'double', data: {} }), { type: 'action_failed', id: 'a1' }]);
+
+    expect(state.pending).toEqual([]);
+    expect(withPendingActions(state).hands).toEqual(start.hands);
+  });
+
+  it('should roll back an action the server turned down', () => {
+    const state = apply(loaded(playing), [
+      sent('a1', { action: 'hurry_up', data: {} }),
+      { type: 'action_acknowledged', id: 'a1' },
+      ...events(['player_action', { playerId: 'u1', handIndex: 0, action: 'hurry_up', success: false }]),
+    ]);
+    expect(state.pending).toEqual([]);
+  });
+
+  it('should draw a face-down card for hits and doubles until the real one arrives', () => {
+    const start = apply(dealt(), [{ type: 'players_loaded', players: [player('rp1', 'u1', 900)] }]);
+    const withBet = { ...start, roundBets: { rp1: 100 } };
+    const state = apply(withBet, [sent('a1', { action: 'double', data: {} })]);
+
+    const view = withPendingActions(state);
+    expect(view.hands.u1[0].cards).toHaveLength(3);
+    expect(view.hands.u1[0].cards[2].isFaceDown).toBe(true);
+    expect(view.hands.u1[0].score).toBe(11);
+    expect(balances(view)).toEqual({ u1: 800 });
+
+    const confirmed = apply(
+      state,
+      events([
+        'player_action',
+        { playerId: 'u1', handIndex: 0, action: 'double', amount: 200, cards: [card('9S', '9')] },
+      ]),
+    );
+    expect(withPendingActions(confirmed).hands.u1[0]).toEqual({
+      cards: [card('5S', '5'), card('6S', '6'), card('9S', '9')],
+      score: 20,
+    });
+    expect(balances(withPendingActions(confirmed))).toEqual({ u1: 800 });
+  });
+
+  it('should only confirm actions of the same player', () => {
+    const state = apply(dealt(), [
+      sent('a1', { action: 'hit', data: {} }),
+      ...events(['player_action', { playerId: 'u2', handIndex: 0, action: 'hit', cards: [card('2S', '2')] }]),
+    ]);
+    expect(state.pending).toHaveLength(1);
+  });
+
+  it('should match events to actions by their idempotency key', () => {
+    const state = apply(loaded(betting), [
+      sent('a1', { action: 'bet', data: { amount: 100 } }),
+      // the same player betting from another tab
+      ...events(['player_action', { playerId: 'u1', handIndex: 0, action: 'bet', amount: 50, idempotencyKey: 'b1' }]),
+    ]);
+    expect(state.pending.map((pending) => pending.id)).toEqual(['a1']);
+
+    const confirmed = apply(
+      state,
+      events(['player_action', { playerId: 'u1', handIndex: 0, action: 'bet', amount: 100, idempotencyKey: 'a1' }]),
+    );
+    expect(confirmed.pending).toEqual([]);
+  });
+
+  it('should drop acknowledged actions when the state is reloaded', () => {
+    const state = apply(loaded(betting), [
+      sent('a1', { action: 'bet', data: { amount: 100 } }),
+      { type: 'action_acknowledged', id: 'a1' },
+      sent('a2', { action: 'stand', data: {} }),
+      { type: 'game_state_loaded', gameState: betting },
+    ]);
+    expect(state.pending.map((pending) => pending.id)).toEqual(['a2']);
+  });
+});
+
+describe('chat', () => {
+  const message = (id, timestamp) => ({ id, senderId: 'u2', sender: 'u2', content: `message ${id}`, timestamp });
+  const ids = (state) => state.messages.map((m) => m.id);
+
+  it('should load the history, keeping messages that arrived since', () => {
+    const state = apply(loaded(), [
+      ...events(['chat', message('m2', '2025-10-24T17:00:02Z')], ['chat', message('m3', '2025-10-24T17:00:03Z')]),
+      {
+        type: 'chat_loaded',
+        history: {
+          messages: [message('m1', '2025-10-24T17:00:01Z'), message('m2', '2025-10-24T17:00:02Z')],
+          mutedUserIds: ['u2'],
+        },
+      },
+      ...events(['chat', message('m3', '2025-10-24T17:00:03Z')]),
+    ]);
+
+    expect(ids(state)).toEqual(['m1', 'm2', 'm3']);
+    expect(state.mutedUserIds).toEqual(['u2']);
+  });
+
+  it('should apply deleted messages and muted users', () => {
+    const state = apply(
+      loaded(),
+      events(
+        ['chat', message('m1', DEADLINE)],
+        ['chat', message('m2', DEADLINE)],
+        ['chat_message_deleted', { messageId: 'm1' }],
+        ['chat_user_muted', { userId: 'u2', userName: 'u2', muted: true }],
+        ['chat_user_muted', { userId: 'u3', userName: 'u3', muted: true }],
+        ['chat_user_muted', { userId: 'u2', userName: 'u2', muted: false }],
+      ),
+    );
+
+    expect(ids(state)).toEqual(['m2']);
+    expect(state.mutedUserIds).toEqual(['u3']);
+  });
+});
+
+describe('spectators', () => {
+  const viewer = (userId) => ({ userId, userName: userId });
+  const betting = { currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} }, dealerHand: '', bets: {} };
+  const playing = {
+    currentStage: { $type: 'player_action', deadline: DEADLINE, playerIndex: 0, handIndex: 0 },
+    dealerHand: '',
+    bets: {},
+  };
+
+  it('should track viewers from events and list the ones without a seat', () => {
+    const state = apply(loaded(), [
+      { type: 'spectators_loaded', spectators: [viewer('u3')] },
+      ...events(
+        ['viewer_join', viewer('u1')],
+        ['viewer_join', viewer('u4')],
+        ['viewer_join', viewer('u4')],
+        ['viewer_leave', viewer('u3')],
+      ),
+    ]);
+
+    expect(state.viewers).toEqual([viewer('u1'), viewer('u4')]);
+    expect(getSpectators(state)).toEqual([viewer('u4')]);
+  });
+
+  it('should count players who left as spectators', () => {
+    const state = apply(loaded(), [
+      { type: 'players_loaded', players: [player('rp1', 'u1', 1000), { ...player('rp2', 'u2', 500), status: 'Left' }] },
+      { type: 'spectators_loaded', spectators: [viewer('u2')] },
+    ]);
+    expect(getSpectators(state)).toEqual([viewer('u2')]);
+  });
+
+  it('should offer a seat only between rounds and while one is free', () => {
+    expect(canTakeSeat(loaded(betting))).toBe(true);
+    expect(canTakeSeat(loaded(playing))).toBe(false);
+
+    const full = apply(loaded(betting), [{ type: 'room_loaded', room: { ...room, maxPlayers: 2 } }]);
+    expect(canTakeSeat(full)).toBe(false);
+  });
+});
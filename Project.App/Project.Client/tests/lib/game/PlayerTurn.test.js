@@ -0,0 +1,134 @@
+import { getActiveRoomPlayerId, getTurnInfo } from '@/lib/game/PlayerTurn';
+
+const DEADLINE = '2025-10-24T17:01:13.000+00:00';
+const card = (value) => ({ code: value, image: '', value, suit: 'HEARTS', isFaceDown: false });
+
+const players = [
+  { id: 'rp1', userId: 'u1', userName: 'Alice', balance: 500 },
+  { id: 'rp2', userId: 'u2', userName: 'Bob', balance: 50 },
+];
+// bets are in turn order: Bob bet first
+const roundBets = { rp2: 100, rp1: 100 };
+
+const actionStage = (playerIndex, handIndex = 0) => ({
+  $type: 'player_action',
+  deadline: DEADLINE,
+  playerIndex,
+  handIndex,
+});
+
+describe('getActiveRoomPlayerId', () => {
+  it('should index into the bets in the order they were placed', () => {
+    expect(getActiveRoomPlayerId(actionStage(0), roundBets)).toBe('rp2');
+    expect(getActiveRoomPlayerId(actionStage(1), roundBets)).toBe('rp1');
+    expect(getActiveRoomPlayerId(actionStage(2), roundBets)).toBeNull();
+    expect(getActiveRoomPlayerId({ $type: 'dealing' }, roundBets)).toBeNull();
+  });
+});
+
+describe('getTurnInfo', () => {
+  const context = (overrides) => ({
+    stage: actionStage(1),
+    roundBets,
+    players,
+    hands: { u1: { 0: { cards: [card('8'), card('8')], score: 16 } } },
+    userId: 'u1',
+    ...overrides,
+  });
+
+  it('should allow every action on the first turn with a pair and enough balance', () => {
+    const turn = getTurnInfo(context());
+
+    expect(turn.isMyTurn).toBe(true);
+    expect(turn.bet).toBe(100);
+    expect(turn.legal).toEqual({ hit: true, stand: true, double: true, split: true, surrender: true });
+    expect(turn.canHurryUp).toBe(false);
+  });
+
+  it('should not allow split without a pair', () => {
+    const turn = getTurnInfo(context({ hands: { u1: { 0: { cards: [card('8'), card('9')], score: 17 } } } }));
+
+    expect(turn.legal.split).toBe(false);
+    expect(turn.legal.double).toBe(true);
+  });
+
+  it('should not allow double or split without enough balance', () => {
+    const turn = getTurnInfo(
+      context({
+        stage: actionStage(0),
+        hands: { u2: { 0: { cards: [card('8'), card('8')], score: 16 } } },
+        userId: 'u2',
+      }),
+    );
+
+    expect(turn.legal).toEqual({ hit: true, stand: true, double: false, split: false, surrender: true });
+  });
+
+  const splitHands = (second) => ({
+    u1: { 0: { cards: [card('8'), card('3'), card('9')], score: 20 }, 1: { cards: second, score: 16 } },
+  });
+
+  it('should only allow hit and stand after the first action', () => {
+    const turn = getTurnInfo(context({ hands: { u1: { 0: { cards: [card('2'), card('3'), card('4')], score: 9 } } } }));
+
+    expect(turn.legal).toEqual({ hit: true, stand: true, double: false, split: false, surrender: false });
+  });
+
+  it('should allow double and split but not surrender on split hands', () => {
+    const turn = getTurnInfo(context({ stage: actionStage(1, 1), hands: splitHands([card('8'), card('8')]) }));
+
+    expect(turn.bet).toBe(100);
+    expect(turn.legal).toEqual({ hit: true, stand: true, double: true, split: true, surrender: false });
+  });
+
+  it('should follow the table rules for split hands', () => {
+    const turn = getTurnInfo(
+      context({
+        stage: actionStage(1, 1),
+        hands: splitHands([card('8'), card('8')]),
+        rules: { doubleAfterSplit: false, maxSplits: 1 },
+      }),
+    );
+    const aces = getTurnInfo(context({ stage: actionStage(1, 1), hands: splitHands([card('ACE'), card('ACE')]) }));
+    const resplitAces = getTurnInfo(
+      context({
+        stage: actionStage(1, 1),
+        hands: splitHands([card('ACE'), card('ACE')]),
+        rules: { resplitAces: true },
+      }),
+    );
+
+    expect(turn.legal).toEqual({ hit: true, stand: true, double: false, split: false, surrender: false });
+    expect(aces.legal.split).toBe(false);
+    expect(resplitAces.legal.split).toBe(true);
+  });
+
+  it('should not allow surrender or split when the table does not', () => {
+    const turn = getTurnInfo(context({ rules: { lateSurrender: false, maxSplits: 0 } }));
+
+    expect(turn.legal).toEqual({ hit: true, stand: true, double: true, split: false, surrender: false });
+  });
+
+  it('should let other players hurry up the active player once their time is up', () => {
+    const turn = getTurnInfo(context({ userId: 'u2', now: Date.parse(DEADLINE) }));
+
+    expect(turn.isMyTurn).toBe(false);
+    expect(turn.activePlayer?.userName).toBe('Alice');
+    expect(Object.values(turn.legal).some(Boolean)).toBe(false);
+    expect(turn.canHurryUp).toBe(true);
+  });
+
+  it('should not let anyone hurry up the active player before the deadline', () => {
+    const turn = getTurnInfo(context({ userId: 'u2', now: Date.parse(DEADLINE) - 1000 }));
+
+    expect(turn.canHurryUp).toBe(false);
+  });
+
+  it('should fall back to basic actions if the turn order is unknown', () => {
+    const turn = getTurnInfo(context({ roundBets: {} }));
+
+    expect(turn.unknownTurnOrder).toBe(true);
+    expect(turn.legal).toEqual({ hit: true, stand: true, double: false, split: false, surrender: false });
+    expect(turn.canHurryUp).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { buildReplay, getRoundNet, getRoundPlayers } from '@/lib/game/RoundReplay';
+
+const DEADLINE = '2025-10-24T17:01:13.000+00:00';
+const card = (code, value, isFaceDown = false) => ({ code, image: '', value, suit: 'SPADES', isFaceDown });
+
+const hand = (playerId, playerName, handIndex, bet, payout) => ({
+  playerId,
+  playerName,
+  handIndex,
+  bet,
+  cards: [],
+  score: 0,
+  payout,
+});
+
+let nextId = 1;
+const recorded = (event, data) => ({ id: nextId++, event, data, timestamp: DEADLINE });
+
+const round = {
+  id: 'round-1',
+  roomId: 'room-1',
+  roundNumber: 3,
+  finishedAt: DEADLINE,
+  dealerHand: [card('KS', 'KING'), card('7S', '7')],
+  dealerScore: 17,
+  hands: [hand('u1', 'Alice', 0, 10, 20), hand('u2', 'Bob', 0, 10, 0), hand('u1', 'Alice', 1, 10, 0)],
+  events: [
+    recorded('game_state_update', { currentStage: { $type: 'betting', deadline: DEADLINE, bets: {} } }),
+    recorded('player_action', { playerId: 'u1', handIndex: 0, action: 'bet', amount: 10 }),
+    recorded('game_state_update', { currentStage: { $type: 'dealing' } }),
+    recorded('dealer_reveal', { dealerHand: [card('KS', 'KING'), card('', '', true)], dealerScore: 10 }),
+    recorded('player_reveal', { playerId: 'u1', handIndex: 0, playerHand: [card('9S', '9')], playerScore: 9 }),
+    recorded('something_new', {}),
+    recorded('player_action', { playerId: 'u1', handIndex: 0, action: 'hit', cards: [card('0S', '10')] }),
+    recorded('dealer_reveal', { dealerHand: [card('KS', 'KING'), card('7S', '7')], dealerScore: 17 }),
+  ],
+};
+
+describe('getRoundPlayers', () => {
+  it('should seat each player once, in the order of their first hand', () => {
+    expect(getRoundPlayers(round).map((player) => [player.userId, player.userName])).toEqual([
+      ['u1', 'Alice'],
+      ['u2', 'Bob'],
+    ]);
+  });
+});
+
+describe('buildReplay', () => {
+  it('should start from an empty table and take a step per known event', () => {
+    const steps = buildReplay(round);
+
+    expect(steps).toHaveLength(round.events.length); // the unknown event is skipped, the empty table added
+    expect(steps[0].event).toBeNull();
+    expect(steps[0].state.dealerHand).toBeNull();
+    expect(steps[0].state.players).toHaveLength(2);
+  });
+
+  it('should build the table up the same way as the live game', () => {
+    const steps = buildReplay(round);
+
+    const dealt = steps[5].state;
+    expect(dealt.dealerHand.cards[1].isFaceDown).toBe(true);
+    expect(dealt.hands.u1[0].cards.map((c) => c.code)).toEqual(['9S']);
+
+    const end = steps[steps.length - 1].state;
+    expect(end.hands.u1[0].cards.map((c) => c.code)).toEqual(['9S', '0S']);
+    expect(end.dealerHand.score).toBe(17);
+  });
+
+  it('should describe steps like the game log, with the players names', () => {
+    const steps = buildReplay(round);
+
+    expect(steps[2].descriptions).toEqual(['Alice bet $10']);
+    expect(steps[6].descriptions).toEqual(['Alice hit: 0S']);
+  });
+});
+
+describe('getRoundNet', () => {
+  it('should add up the payouts less the bets of all the players hands', () => {
+    expect(getRoundNet(round, 'u1')).toBe(0);
+    expect(getRoundNet(round, 'u2')).toBe(-10);
+    expect(getRoundNet(round, 'someone-else')).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { getBasicStrategyMove } from '@/lib/game/BasicStrategy';
+import {
+  describeDeviation,
+  INITIAL_ADVISOR_SESSION,
+  loadAdvisorSession,
+  recordDecision,
+  saveAdvisorSession,
+} from '@/lib/game/StrategyAdvisor';
+
+const card = (value) => ({ code: '', image: '', value, suit: 'SPADES', isFaceDown: false });
+// hard 16 against a 10
+const advice = getBasicStrategyMove([card('10'), card('6')], card('KING'));
+
+describe('recordDecision', () => {
+  const enabled = { ...INITIAL_ADVISOR_SESSION, enabled: true };
+
+  it('should count moves and deviations from the advice', () => {
+    let session = recordDecision(enabled, advice, 'surrender');
+    session = recordDecision(session, advice, 'hit');
+
+    expect(session).toMatchObject({ decisions: 2, deviations: 1, lastDeviation: { advice, action: 'hit' } });
+  });
+
+  it('should keep the last deviation after following the advice', () => {
+    const session = recordDecision(recordDecision(enabled, advice, 'stand'), advice, 'surrender');
+
+    expect(session.lastDeviation).toEqual({ advice, action: 'stand' });
+  });
+
+  it('should not count anything while the advisor is off', () => {
+    expect(recordDecision(INITIAL_ADVISOR_SESSION, advice, 'hit')).toBe(INITIAL_ADVISOR_SESSION);
+  });
+});
+
+describe('describeDeviation', () => {
+  it('should tell the move and the advice', () => {
+    expect(describeDeviation({ advice, action: 'hit' })).toBe(
+      'You chose hit, basic strategy says: Surrender hard 16 against a 10',
+    );
+  });
+});
+
+describe('advisor session storage', () => {
+  beforeEach(() => sessionStorage.clear());
+
+  it('should save and restore the session', () => {
+    const session = { ...INITIAL_ADVISOR_SESSION, enabled: true, decisions: 3, deviations: 1 };
+    saveAdvisorSession(session);
+
+    expect(loadAdvisorSession()).toEqual(session);
+  });
+
+  it('should start over when nothing or garbage is stored', () => {
+    expect(loadAdvisorSession()).toEqual(INITIAL_ADVISOR_SESSION);
+
+    sessionStorage.setItem('strategyAdvisor', '{oops');
+    expect(loadAdvisorSession()).toEqual(INITIAL_ADVISOR_SESSION);
+  });
+});
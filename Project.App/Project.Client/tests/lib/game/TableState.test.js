@@ -0,0 +1,61 @@
+import { appendToHand, calculateHandScore, getPlayerHands, replaceHand, splitHand } from '@/lib/game/TableState';
+
+const card = (value, isFaceDown = false) => ({ code: value, image: '', value, suit: 'SPADES', isFaceDown });
+
+describe('calculateHandScore', () => {
+  it('should count face cards as ten and aces as eleven', () => {
+    expect(calculateHandScore([card('KING'), card('ACE')])).toBe(21);
+    expect(calculateHandScore([card('7'), card('QUEEN')])).toBe(17);
+  });
+
+  it('should count aces as one when needed', () => {
+    expect(calculateHandScore([card('ACE'), card('ACE'), card('9')])).toBe(21);
+    expect(calculateHandScore([card('ACE'), card('KING'), card('5')])).toBe(16);
+  });
+
+  it('should skip face-down cards', () => {
+    expect(calculateHandScore([card('10'), card('', true)])).toBe(10);
+  });
+});
+
+describe('table hands', () => {
+  it('should append drawn cards and update the score', () => {
+    let hands = replaceHand({}, 'p1', 0, { cards: [card('5'), card('6')], score: 11 });
+    hands = appendToHand(hands, 'p1', 0, [card('KING')]);
+
+    expect(hands.p1[0].cards).toHaveLength(3);
+    expect(hands.p1[0].score).toBe(21);
+  });
+
+  it('should start a new hand when appending to an unknown one', () => {
+    const hands = appendToHand({}, 'p1', 1, [card('9')]);
+
+    expect(hands.p1[1]).toEqual({ cards: [card('9')], score: 9 });
+  });
+
+  it('should split a pair into the next hand index', () => {
+    const hands = splitHand(replaceHand({}, 'p1', 0, { cards: [card('8'), card('8')], score: 16 }), 'p1', 0);
+
+    expect(getPlayerHands(hands, 'p1')).toEqual([
+      [0, { cards: [card('8')], score: 8 }],
+      [1, { cards: [card('8')], score: 8 }],
+    ]);
+  });
+
+  it('should put the card of a re-split after the last hand', () => {
+    let hands = replaceHand({}, 'p1', 0, { cards: [card('8'), card('8')], score: 16 });
+    hands = replaceHand(hands, 'p1', 1, { cards: [card('8'), card('3')], score: 11 });
+
+    expect(getPlayerHands(splitHand(hands, 'p1', 0), 'p1')).toEqual([
+      [0, { cards: [card('8')], score: 8 }],
+      [1, { cards: [card('8'), card('3')], score: 11 }],
+      [2, { cards: [card('8')], score: 8 }],
+    ]);
+  });
+
+  it('should not split hands that are not a pair of cards', () => {
+    const hands = replaceHand({}, 'p1', 0, { cards: [card('8')], score: 8 });
+
+    expect(splitHand(hands, 'p1', 0)).toBe(hands);
+  });
+});
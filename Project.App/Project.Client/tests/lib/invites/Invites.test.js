@@ -0,0 +1,33 @@
+import { describeInvite, formatInviteCode, inviteUrl } from '@/lib/invites/Invites';
+
+const NOW = Date.parse('2025-10-24T17:00:00.000Z');
+
+const invite = (overrides) => ({
+  code: 'ABCD2345',
+  roomId: 'room-1',
+  createdAt: '2025-10-24T16:00:00.000Z',
+  expiresAt: null,
+  maxUses: null,
+  uses: 0,
+  ...overrides,
+});
+
+describe('invites', () => {
+  it('should build the join link', () => {
+    expect(inviteUrl('ABCD2345', 'https://casino.test')).toBe('https://casino.test/join/ABCD2345');
+  });
+
+  it('should split codes in two halves', () => {
+    expect(formatInviteCode('ABCD2345')).toBe('ABCD-2345');
+    expect(formatInviteCode('ABC')).toBe('ABC');
+  });
+
+  it('should describe the limits of an invite', () => {
+    expect(describeInvite(invite({ uses: 2 }), NOW)).toBe('2 uses, never expires');
+    expect(describeInvite(invite({ uses: 2, maxUses: 5, expiresAt: '2025-10-24T17:30:00.000Z' }), NOW)).toBe(
+      '2/5 uses, expires in 30m',
+    );
+    expect(describeInvite(invite({ expiresAt: '2025-10-27T17:00:00.000Z' }), NOW)).toBe('0 uses, expires in 3d');
+    expect(describeInvite(invite({ expiresAt: '2025-10-24T16:59:00.000Z' }), NOW)).toBe('0 uses, expired');
+  });
+});
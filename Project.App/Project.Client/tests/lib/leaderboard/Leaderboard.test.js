@@ -0,0 +1,51 @@
+import { formatLeaderboardValue, getRoomStandings } from '@/lib/leaderboard/Leaderboard';
+
+const player = (userName, balance, status = 'Active') => ({
+  id: `rp-${userName}`,
+  userId: `u-${userName}`,
+  userName,
+  userEmail: '',
+  role: 'Player',
+  status,
+  balance,
+  balanceDelta: 0,
+});
+
+describe('getRoomStandings', () => {
+  it('should rank seated players by their balance against the starting balance', () => {
+    const standings = getRoomStandings([player('Bob', 900), player('Alice', 1250), player('Carol', 1000)], 1000);
+
+    expect(standings.map((s) => [s.rank, s.player.userName, s.net])).toEqual([
+      [1, 'Alice', 250],
+      [2, 'Carol', 0],
+      [3, 'Bob', -100],
+    ]);
+  });
+
+  it('should share ranks between tied players and leave out players who left', () => {
+    const standings = getRoomStandings(
+      [player('Dave', 1200), player('Bob', 1100), player('Alice', 1100), player('Eve', 5000, 'Left')],
+      1000,
+    );
+
+    expect(standings.map((s) => [s.rank, s.player.userName])).toEqual([
+      [1, 'Dave'],
+      [2, 'Alice'],
+      [2, 'Bob'],
+    ]);
+  });
+
+  it('should return nothing for an empty room', () => {
+    expect(getRoomStandings([], 1000)).toEqual([]);
+  });
+});
+
+describe('formatLeaderboardValue', () => {
+  it('should format the value the way the metric counts it', () => {
+    expect(formatLeaderboardValue('NetWinnings', 1500)).toBe('+$1,500');
+    expect(formatLeaderboardValue('NetWinnings', -20)).toBe('-$20');
+    expect(formatLeaderboardValue('BiggestWin', 300)).toBe('$300');
+    expect(formatLeaderboardValue('WinStreak', 1)).toBe('1 hand');
+    expect(formatLeaderboardValue('WinStreak', 4)).toBe('4 hands');
+  });
+});
@@ -0,0 +1,108 @@
+import { applyLobbyEvent, applyLobbyEventToMine, DEFAULT_ROOM_QUERY, matchesRoomFilters } from '@/lib/lobby/Lobby';
+
+const room = (overrides) => ({
+  id: 'room-1',
+  hostId: 'host-1',
+  hostName: 'Host',
+  isPublic: true,
+  gameMode: 'Blackjack',
+  description: null,
+  minBet: 10,
+  maxPlayers: 5,
+  minPlayers: 1,
+  playerCount: 2,
+  freeSeats: 3,
+  isStarted: false,
+  isActive: true,
+  createdAt: '2025-10-24T16:00:00.000Z',
+  ...overrides,
+});
+
+describe('lobby', () => {
+  describe('matchesRoomFilters', () => {
+    it('should match open public rooms without filters', () => {
+      expect(matchesRoomFilters(room(), DEFAULT_ROOM_QUERY)).toBe(true);
+      expect(matchesRoomFilters(room({ isPublic: false }), DEFAULT_ROOM_QUERY)).toBe(false);
+      expect(matchesRoomFilters(room({ isActive: false }), DEFAULT_ROOM_QUERY)).toBe(false);
+    });
+
+    it('should filter by game mode ignoring case', () => {
+      expect(matchesRoomFilters(room(), { gameMode: 'blackjack' })).toBe(true);
+      expect(matchesRoomFilters(room(), { gameMode: 'Poker' })).toBe(false);
+    });
+
+    it('should filter by min bet range', () => {
+      expect(matchesRoomFilters(room({ minBet: 10 }), { minBetFrom: 10, minBetTo: 10 })).toBe(true);
+      expect(matchesRoomFilters(room({ minBet: 5 }), { minBetFrom: 10 })).toBe(false);
+      expect(matchesRoomFilters(room({ minBet: 50 }), { minBetTo: 25 })).toBe(false);
+    });
+
+    it('should filter full rooms when asked for free seats', () => {
+      expect(matchesRoomFilters(room({ freeSeats: 0 }), { hasFreeSeats: true })).toBe(false);
+      expect(matchesRoomFilters(room({ freeSeats: 0 }), { hasFreeSeats: false })).toBe(true);
+    });
+  });
+
+  describe('applyLobbyEvent', () => {
+    const rooms = [room({ id: 'a' }), room({ id: 'b' })];
+
+    it('should refetch for new rooms that match the filters', () => {
+      expect(applyLobbyEvent(rooms, 'room_created', { room: room({ id: 'c' }) }, DEFAULT_ROOM_QUERY)).toEqual({
+        rooms,
+        refetch: true,
+      });
+      expect(
+        applyLobbyEvent(rooms, 'room_created', { room: room({ id: 'c', minBet: 1 }) }, { minBetFrom: 5 }).refetch,
+      ).toBe(false);
+    });
+
+    it('should update shown rooms in place', () => {
+      const updated = room({ id: 'b', playerCount: 3, freeSeats: 2 });
+      const result = applyLobbyEvent(rooms, 'room_updated', { room: updated }, DEFAULT_ROOM_QUERY);
+
+      expect(result.refetch).toBe(false);
+      expect(result.rooms).toEqual([rooms[0], updated]);
+    });
+
+    it('should drop shown rooms that no longer match and refetch', () => {
+      const full = room({ id: 'b', playerCount: 5, freeSeats: 0 });
+      const result = applyLobbyEvent(rooms, 'room_updated', { room: full }, { hasFreeSeats: true });
+
+      expect(result.refetch).toBe(true);
+      expect(result.rooms.map((r) => r.id)).toEqual(['a']);
+    });
+
+    it('should refetch when a room starts matching', () => {
+      const result = applyLobbyEvent(rooms, 'room_updated', { room: room({ id: 'c' }) }, DEFAULT_ROOM_QUERY);
+
+      expect(result).toEqual({ rooms, refetch: true });
+    });
+
+    it('should remove closed rooms', () => {
+      expect(applyLobbyEvent(rooms, 'room_closed', { roomId: 'a' }, DEFAULT_ROOM_QUERY)).toEqual({
+        rooms: [rooms[1]],
+        refetch: true,
+      });
+      expect(applyLobbyEvent(rooms, 'room_closed', { roomId: 'c' }, DEFAULT_ROOM_QUERY)).toEqual({
+        rooms,
+        refetch: false,
+      });
+    });
+  });
+
+  describe('applyLobbyEventToMine', () => {
+    const mine = [room({ id: 'a', isPublic: false })];
+
+    it('should update the rooms the user is in', () => {
+      const updated = room({ id: 'a', isPublic: false, playerCount: 4 });
+
+      expect(applyLobbyEventToMine(mine, 'room_updated', { room: updated }).rooms).toEqual([updated]);
+      expect(applyLobbyEventToMine(mine, 'room_created', { room: room({ id: 'b' }) }).rooms).toBe(mine);
+    });
+
+    it('should ask the server before dropping a closed room', () => {
+      expect(applyLobbyEventToMine(mine, 'room_closed', { roomId: 'a' })).toEqual({ rooms: mine, refetch: true });
+      expect(applyLobbyEventToMine(mine, 'room_closed', { roomId: 'b' }).refetch).toBe(false);
+    });
+  });
+});
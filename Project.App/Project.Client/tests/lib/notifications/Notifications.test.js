@@ -0,0 +1,90 @@
+import {
+  addNotification,
+  DEFAULT_DURATIONS,
+  dismissNotification,
+  friendlyErrorMessage,
+} from '@/lib/notifications/Notifications';
+
+describe('addNotification', () => {
+  it('should default to info with the severity duration', () => {
+    const { queue, notification } = addNotification([], { message: 'Hello' }, 1);
+
+    expect(queue).toEqual([notification]);
+    expect(notification).toEqual({
+      id: 1,
+      severity: 'info',
+      title: undefined,
+      message: 'Hello',
+      count: 1,
+      duration: DEFAULT_DURATIONS.info,
+    });
+  });
+
+  it('should bump a notification that is already showing instead of repeating it', () => {
+    let { queue } = addNotification([], { severity: 'error', message: 'Not enough credits' }, 1);
+    ({ queue } = addNotification(queue, { severity: 'info', message: 'Someone joined' }, 2));
+
+    const result = addNotification(queue, { severity: 'error', message: 'Not enough credits' }, 3);
+
+    expect(result.notification).toMatchObject({ id: 1, count: 2 });
+    expect(result.queue.map((notification) => notification.id)).toEqual([2, 1]);
+  });
+
+  it('should not merge notifications with a different severity or title', () => {
+    let { queue } = addNotification([], { severity: 'error', message: 'Oops' }, 1);
+    ({ queue } = addNotification(queue, { severity: 'warning', message: 'Oops' }, 2));
+    ({ queue } = addNotification(queue, { severity: 'error', title: 'Bet', message: 'Oops' }, 3));
+
+    expect(queue).toHaveLength(3);
+  });
+
+  it('should drop the oldest notifications beyond the cap', () => {
+    let queue = [];
+    for (let id = 1; id <= 5; id++) {
+      ({ queue } = addNotification(queue, { message: `Message ${id}` }, id, 3));
+    }
+
+    expect(queue.map((notification) => notification.id)).toEqual([3, 4, 5]);
+  });
+});
+
+describe('dismissNotification', () => {
+  it('should remove the notification and keep the queue otherwise', () => {
+    const { queue } = addNotification([], { message: 'Hello' }, 1);
+
+    expect(dismissNotification(queue, 1)).toEqual([]);
+    expect(dismissNotification(queue, 2)).toBe(queue);
+  });
+});
+
+describe('friendlyErrorMessage', () => {
+  it('should prefer the problem detail in either casing', () => {
+    expect(friendlyErrorMessage({ Title: 'Bad Request', Status: 400, Detail: 'Bet exceeds balance' }, 400)).toBe(
+      'Bet exceeds balance',
+    );
+    expect(friendlyErrorMessage({ title: 'Bad Request', detail: 'Not your turn' }, 400)).toBe('Not your turn');
+  });
+
+  it('should use the first validation error', () => {
+    expect(
+      friendlyErrorMessage({ Title: 'Validation Error', Errors: { Amount: ['Amount must be positive'] } }, 400),
+    ).toBe('Amount must be positive');
+  });
+
+  it('should fall back to the title, then the fallback', () => {
+    expect(friendlyErrorMessage({ title: 'Bad Request' }, 400)).toBe('Bad Request');
+    expect(friendlyErrorMessage(null, 400, 'Failed to start game')).toBe('Failed to start game');
+  });
+
+  it('should explain common statuses without a detail', () => {
+    expect(friendlyErrorMessage({ Title: 'Not Found', Status: 404 }, 404)).toMatch(/doesn't exist anymore/);
+    expect(friendlyErrorMessage({ Title: 'Conflict', Detail: 'Already in this room' }, 409)).toBe(
+      'Already in this room',
+    );
+  });
+
+  it('should replace messages that would not help the player', () => {
+    expect(friendlyErrorMessage({ Detail: 'User not authenticated' }, 401)).toMatch(/log in again/);
+    expect(friendlyErrorMessage({ Detail: 'NullReferenceException at ...' }, 500)).toMatch(/server ran into a problem/);
+  });
+});
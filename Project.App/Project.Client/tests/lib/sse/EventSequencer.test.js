@@ -0,0 +1,54 @@
+import { createEventSequencer, parseEventId } from '@/lib/sse/EventSequencer';
+
+describe('parseEventId', () => {
+  it('should parse non-negative integer ids only', () => {
+    expect(parseEventId('42')).toBe(42);
+    expect(parseEventId('0')).toBe(0);
+    expect(parseEventId('')).toBeNull();
+    expect(parseEventId(undefined)).toBeNull();
+    expect(parseEventId('-1')).toBeNull();
+    expect(parseEventId('abc')).toBeNull();
+  });
+});
+
+describe('createEventSequencer', () => {
+  it('should accept the first id and then consecutive ids', () => {
+    const sequencer = createEventSequencer();
+
+    expect(sequencer.check('7')).toBe('first');
+    expect(sequencer.check('8')).toBe('in_order');
+    expect(sequencer.lastEventId).toBe(8);
+  });
+
+  it('should detect duplicates without moving backwards', () => {
+    const sequencer = createEventSequencer();
+    sequencer.check('5');
+
+    expect(sequencer.check('5')).toBe('duplicate');
+    expect(sequencer.check('3')).toBe('duplicate');
+    expect(sequencer.lastEventId).toBe(5);
+  });
+
+  it('should detect gaps and continue from the new id', () => {
+    const sequencer = createEventSequencer();
+    sequencer.check('1');
+
+    expect(sequencer.check('4')).toBe('gap');
+    expect(sequencer.check('5')).toBe('in_order');
+  });
+
+  it('should ignore events without an id', () => {
+    const sequencer = createEventSequencer();
+
+    expect(sequencer.check('')).toBe('untracked');
+    expect(sequencer.lastEventId).toBeNull();
+  });
+
+  it('should continue counting from a reset id', () => {
+    const sequencer = createEventSequencer();
+    sequencer.check('10');
+    sequencer.reset(2);
+
+    expect(sequencer.check('3')).toBe('in_order');
+  });
+});
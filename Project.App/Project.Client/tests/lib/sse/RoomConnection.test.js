@@ -0,0 +1,175 @@
+import { computeBackoffDelay, createRoomConnection, DEFAULT_BACKOFF, withLastEventId } from '@/lib/sse/RoomConnection';
+
+// Minimal stand-in for the browser EventSource
+class FakeEventSource {
+  static instances = [];
+
+  constructor(url) {
+    this.url = url;
+    this.onopen = null;
+    this.onerror = null;
+    this.listeners = {};
+    this.closed = false;
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type, listener) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  removeEventListener(type, listener) {
+    this.listeners[type] = (this.listeners[type] ?? []).filter((l) => l !== listener);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  open() {
+    this.onopen?.(new Event('open'));
+  }
+
+  fail() {
+    this.onerror?.(new Event('error'));
+  }
+
+  emit(type, data, lastEventId = '') {
+    (this.listeners[type] ?? []).forEach((l) => l({ type, data: JSON.stringify(data), lastEventId }));
+  }
+}
+
+const latest = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+
+describe('computeBackoffDelay', () => {
+  const backoff = { ...DEFAULT_BACKOFF, initialDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 };
+
+  it('should grow exponentially up to the maximum', () => {
+    expect(computeBackoffDelay(0, backoff, () => 1)).toBe(100);
+    expect(computeBackoffDelay(2, backoff, () => 1)).toBe(400);
+    expect(computeBackoffDelay(10, backoff, () => 1)).toBe(1000);
+  });
+
+  it('should randomize only the jittered part of the delay', () => {
+    expect(computeBackoffDelay(1, backoff, () => 0)).toBe(100);
+    expect(computeBackoffDelay(1, backoff, () => 0.5)).toBe(150);
+  });
+});
+
+describe('withLastEventId', () => {
+  it('should append the id as a query parameter', () => {
+    expect(withLastEventId('/api/room/abc/events', null)).toBe('/api/room/abc/events');
+    expect(withLastEventId('/api/room/abc/events', 3)).toBe('/api/room/abc/events?lastEventId=3');
+    expect(withLastEventId('/events?x=1', 3)).toBe('/events?x=1&lastEventId=3');
+  });
+});
+
+describe('createRoomConnection', () => {
+  let connection;
+  let statuses;
+  let onResync;
+  let onEvent;
+
+  const connect = (backoff = {}) =>
+    createRoomConnection({
+      url: '/api/room/abc/events',
+      eventTypes: ['chat'],
+      onEvent,
+      onStatusChange: (status) => statuses.push(status),
+      onResync,
+      backoff: { initialDelayMs: 100, maxAttempts: 3, ...backoff },
+      createEventSource: (url) => new FakeEventSource(url),
+      random: () => 1,
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    FakeEventSource.instances = [];
+    statuses = [];
+    onResync = jest.fn();
+    onEvent = jest.fn();
+  });
+
+  afterEach(() => {
+    connection?.close();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should connect and forward events', () => {
+    connection = connect();
+    latest().open();
+    latest().emit('chat', { content: 'hi' });
+
+    expect(latest().url).toBe('/api/room/abc/events');
+    expect(connection.status).toBe('connected');
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(onResync).not.toHaveBeenCalled();
+  });
+
+  it('should reconnect with backoff and resync after an error', () => {
+    connection = connect();
+    const first = latest();
+    first.open();
+    first.fail();
+
+    expect(first.closed).toBe(true);
+    expect(connection.status).toBe('reconnecting');
+
+    jest.advanceTimersByTime(99);
+    expect(FakeEventSource.instances).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(FakeEventSource.instances).toHaveLength(2);
+
+    // second failure waits twice as long
+    latest().fail();
+    jest.advanceTimersByTime(199);
+    expect(FakeEventSource.instances).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+
+    latest().open();
+    expect(connection.status).toBe('connected');
+    expect(onResync).toHaveBeenCalledTimes(1);
+    expect(statuses).toEqual(['connected', 'reconnecting', 'connected']);
+  });
+
+  it('should resume from the last event id instead of resyncing', () => {
+    connection = connect();
+    latest().open();
+    latest().emit('chat', { content: 'hi' }, '12');
+    latest().fail();
+    jest.runOnlyPendingTimers();
+
+    expect(latest().url).toBe('/api/room/abc/events?lastEventId=12');
+    latest().open();
+    expect(connection.lastEventId).toBe(12);
+    expect(onResync).not.toHaveBeenCalled();
+  });
+
+  it('should go offline after too many failed attempts and allow a manual retry', () => {
+    connection = connect();
+    for (let i = 0; i < 4; i++) {
+      latest().fail();
+      jest.runOnlyPendingTimers();
+    }
+
+    expect(connection.status).toBe('offline');
+    expect(FakeEventSource.instances).toHaveLength(4);
+
+    connection.reconnect();
+    expect(FakeEventSource.instances).toHaveLength(5);
+    latest().open();
+    expect(connection.status).toBe('connected');
+  });
+
+  it('should stop reconnecting once closed', () => {
+    connection = connect();
+    latest().fail();
+    connection.close();
+    jest.runOnlyPendingTimers();
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+  });
+});
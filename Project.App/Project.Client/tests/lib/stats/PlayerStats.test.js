@@ -0,0 +1,54 @@
+import { buildBankrollChart, formatPercent, formatSignedMoney } from '@/lib/stats/PlayerStats';
+
+const point = (total, roundNumber = 1) => ({
+  roundId: `round-${roundNumber}`,
+  roomId: 'room-1',
+  roundNumber,
+  finishedAt: '2025-10-24T17:01:13.000+00:00',
+  net: 0,
+  total,
+});
+
+describe('formatPercent', () => {
+  it('should round to one decimal', () => {
+    expect(formatPercent(0)).toBe('0%');
+    expect(formatPercent(1 / 3)).toBe('33.3%');
+    expect(formatPercent(1)).toBe('100%');
+  });
+});
+
+describe('formatSignedMoney', () => {
+  it('should sign wins and losses', () => {
+    expect(formatSignedMoney(1500)).toBe('+$1,500');
+    expect(formatSignedMoney(-20)).toBe('-$20');
+    expect(formatSignedMoney(0)).toBe('$0');
+  });
+});
+
+describe('buildBankrollChart', () => {
+  it('should return null without rounds', () => {
+    expect(buildBankrollChart([], 100, 50)).toBeNull();
+  });
+
+  it('should start at zero and spread the rounds evenly', () => {
+    const chart = buildBankrollChart([point(20, 1), point(-20, 2)], 100, 50, 0);
+
+    expect(chart.min).toBe(-20);
+    expect(chart.max).toBe(20);
+    expect(chart.points.map(({ x, y }) => [x, y])).toEqual([
+      [0, 25],
+      [50, 0],
+      [100, 50],
+    ]);
+    expect(chart.zeroY).toBe(25);
+    expect(chart.path).toBe('M0 25 L50 0 L100 50');
+    expect(chart.points[0].point).toBeNull();
+    expect(chart.points[2].point.roundNumber).toBe(2);
+  });
+
+  it('should keep the padding and draw a flat line when nothing was won or lost', () => {
+    const chart = buildBankrollChart([point(0)], 100, 50, 10);
+
+    expect(chart.path).toBe('M10 10 L90 10');
+  });
+});
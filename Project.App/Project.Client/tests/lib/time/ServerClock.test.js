@@ -0,0 +1,74 @@
+import { createServerClock, estimateOffset } from '@/lib/time/ServerClock';
+
+const response = (date) => ({ headers: new Headers(date ? { Date: date } : {}) });
+
+describe('estimateOffset', () => {
+  it('should pick the middle of the combined range', () => {
+    expect(
+      estimateOffset([
+        { low: -100, high: 900 },
+        { low: 200, high: Infinity },
+      ]),
+    ).toBe(550);
+  });
+
+  it('should fall back to the latest sample when samples contradict each other', () => {
+    expect(
+      estimateOffset([
+        { low: 5000, high: 6000 },
+        { low: -200, high: 800 },
+      ]),
+    ).toBe(300);
+  });
+
+  it('should be zero without samples', () => {
+    expect(estimateOffset([])).toBe(0);
+  });
+});
+
+describe('createServerClock', () => {
+  let clientTime;
+  const clientNow = () => clientTime;
+
+  beforeEach(() => {
+    clientTime = Date.parse('2025-10-24T17:00:00.000Z');
+  });
+
+  it('should correct for a client clock that is behind', () => {
+    const clock = createServerClock({ clientNow });
+
+    // server is 60s ahead, request took 200ms
+    clock.recordResponse(response('Fri, 24 Oct 2025 17:01:00 GMT'), clientTime - 200, clientTime);
+
+    expect(clock.offset).toBeGreaterThanOrEqual(60000 - 200);
+    expect(clock.offset).toBeLessThanOrEqual(61000);
+    expect(clock.now()).toBe(clientTime + clock.offset);
+  });
+
+  it('should narrow the estimate with server timestamps from events', () => {
+    const clock = createServerClock({ clientNow });
+
+    clock.recordResponse(response('Fri, 24 Oct 2025 17:01:00 GMT'), clientTime, clientTime);
+    clock.recordServerTime('2025-10-24T17:01:00.900Z');
+
+    expect(clock.offset).toBe(60950);
+  });
+
+  it('should ignore events that were delivered late, e.g. replayed after a reconnect', () => {
+    const clock = createServerClock({ clientNow });
+
+    clock.recordServerTime('2025-10-24T17:00:00.000Z');
+    clock.recordServerTime('2025-10-24T16:55:00.000Z');
+
+    expect(clock.offset).toBe(0);
+  });
+
+  it('should ignore missing or invalid timestamps', () => {
+    const clock = createServerClock({ clientNow });
+
+    clock.recordResponse(response(null), clientTime, clientTime);
+    clock.recordServerTime('not a date');
+
+    expect(clock.offset).toBe(0);
+  });
+});
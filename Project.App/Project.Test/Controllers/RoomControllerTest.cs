@@ -367,7 +367,13 @@ namespace Project.Test.Tests.Controllers
             };
             _mockRoomService
                 .Setup(service =>
-                    service.PerformPlayerActionAsync(roomId, playerId, request.Action, request.Data)
+                    service.PerformPlayerActionAsync(
+                        roomId,
+                        playerId,
+                        request.Action,
+                        request.Data,
+                        null
+                    )
                 )
                 .Returns(Task.CompletedTask);
 
@@ -382,7 +388,8 @@ namespace Project.Test.Tests.Controllers
                         roomId,
                         playerId,
                         request.Action,
-                        request.Data
+                        request.Data,
+                        null
                     ),
                 Times.Once
             );
@@ -107,6 +107,7 @@ public static class MockDeckAPIHelper
         mockDeckService
             .Setup(m => m.CreateDeck(It.IsAny<int>(), It.IsAny<bool>()))
             .ReturnsAsync("test-deck-id");
+        mockDeckService.Setup(m => m.DeckExists(It.IsAny<string>())).ReturnsAsync(true);
 
         // Mock creating empty hand - store the hand ID
         mockDeckService
@@ -191,6 +192,23 @@ public static class MockDeckAPIHelper
                 }
             );
 
+        // Mock removing cards from hand (discarding them)
+        mockDeckService
+            .Setup(m =>
+                m.RemoveFromHand(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>())
+            )
+            .ReturnsAsync(
+                (string _, string handId, string cardCodes) =>
+                {
+                    if (handCards.TryGetValue(handId, out List<CardDTO>? value))
+                    {
+                        var codes = cardCodes.Split(',');
+                        value.RemoveAll(card => codes.Contains(card.Code));
+                    }
+                    return true;
+                }
+            );
+
         // Mock listing hands - return tracked cards
         mockDeckService
             .Setup(m => m.ListHand(It.IsAny<string>(), It.IsAny<string>()))
@@ -15,6 +15,11 @@ public class TestAuthHandler(
     public const string AuthenticationScheme = "Test";
     public const string TestUserHeader = "X-Test-User";
 
+    /// <summary>
+    /// The email the test user is signed in with, for endpoints that look up the current user by it.
+    /// </summary>
+    public static string EmailFor(string userId) => $"{userId}@test.example";
+
     protected override Task<AuthenticateResult> HandleAuthenticateAsync()
     {
         if (!Request.Headers.TryGetValue(TestUserHeader, out var userIdValues))
@@ -34,6 +39,7 @@ public class TestAuthHandler(
         {
             new Claim(ClaimTypes.NameIdentifier, userId),
             new Claim(ClaimTypes.Name, $"TestUser_{userId}"),
+            new Claim(ClaimTypes.Email, EmailFor(userId)),
         };
         var identity = new ClaimsIdentity(claims, AuthenticationScheme);
         var principal = new ClaimsPrincipal(identity);
@@ -1405,11 +1405,12 @@ public class BlackjackIntegrationTests(WebApplicationFactory<Program> factory)
             StreamReader reader
         )
         {
+            var idLine = await reader.ReadLineAsync();
             var eventLine = await reader.ReadLineAsync();
             var dataLine = await reader.ReadLineAsync();
             await reader.ReadLineAsync(); // consume blank line
 
-            if (eventLine == null || dataLine == null)
+            if (idLine == null || eventLine == null || dataLine == null)
             {
                 throw new EndOfStreamException("SSE stream ended unexpectedly.");
             }
@@ -1,11 +1,15 @@
 using System.Net.Http.Json;
 using System.Text.Json;
 using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.DependencyInjection.Extensions;
 using Microsoft.Extensions.Logging.Abstractions;
 using Project.Api;
+using Project.Api.Data;
 using Project.Api.DTOs;
 using Project.Api.Models.Games;
 using Project.Api.Services;
+using Project.Api.Services.Interface;
 using Project.Test.Helpers;
 
 namespace Project.Test.Integration;
@@ -13,6 +17,46 @@ namespace Project.Test.Integration;
 public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
     : IntegrationTestBase(factory)
 {
+    private const string ChatUserName = "Chatter";
+
+    /// <summary>
+    /// Creates a client signed in as <see cref="ChatUserName"/>, with the rooms it chats in.
+    /// Sending a message needs both, messages are stored per room and rate limited per user.
+    /// </summary>
+    private async Task<HttpClient> CreateChatClientAsync(
+        IRoomSSEService sseService,
+        params Guid[] roomIds
+    )
+    {
+        var appFactory = CreateConfiguredWebAppFactory(services =>
+        {
+            services.RemoveAll<IRoomSSEService>();
+            services.AddSingleton(sseService);
+        });
+
+        var userId = Guid.CreateVersion7();
+        await using (var scope = appFactory.Services.CreateAsyncScope())
+        {
+            var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+            context.Users.Add(
+                RepositoryTestHelper.CreateTestUser(
+                    userId,
+                    ChatUserName,
+                    TestAuthHandler.EmailFor(userId.ToString())
+                )
+            );
+            foreach (var roomId in roomIds)
+            {
+                context.Rooms.Add(RepositoryTestHelper.CreateTestRoom(roomId, userId));
+            }
+            await context.SaveChangesAsync();
+        }
+
+        var client = appFactory.CreateClient();
+        client.DefaultRequestHeaders.Add(TestAuthHandler.TestUserHeader, userId.ToString());
+        return client;
+    }
+
     [Fact]
     public async Task GetRoomEvents_StreamReceivesBroadcastEvents_SingleClient()
     {
@@ -28,17 +72,20 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
         // Update expectedData to serialize a MessageEventData object
         var expectedMessageEventData = new ChatEventData
         {
-            Sender = "Anonymous", // Assuming the controller sets this
+            Sender = ChatUserName,
             Content = messageContent,
             // Timestamp will be set by the service, so we can't assert an exact value.
             // We'll deserialize and check properties instead of direct string comparison.
         };
 
         // Act: Send a chat message
-        var postResponse = await client.PostAsJsonAsync($"/api/room/{roomId}/chat", message);
+        var chatClient = await CreateChatClientAsync(sseService, roomId);
+        var postResponse = await chatClient.PostAsJsonAsync($"/api/room/{roomId}/chat", message);
         postResponse.EnsureSuccessStatusCode();
 
         // Assert: Read the chat message from the SSE stream
+        string idLine = await reader.ReadLineAsync() ?? "No line received!";
+        Assert.StartsWith("id: ", idLine);
         string eventLine = await reader.ReadLineAsync() ?? "No line received!";
         Assert.Equal("event: chat", eventLine);
 
@@ -61,6 +108,7 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
         Assert.True(string.IsNullOrEmpty(blankLine));
 
         // Clean up
+        chatClient.Dispose();
         client.Dispose();
         cts.Cancel();
     }
@@ -84,15 +132,18 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
         // Update expectedData to serialize a MessageEventData object
         var expectedMessageEventData = new ChatEventData
         {
-            Sender = "Anonymous",
+            Sender = ChatUserName,
             Content = messageContent,
         };
 
         // Act: Send a chat message
-        var postResponse = await client1.PostAsJsonAsync($"/api/room/{roomId}/chat", message);
+        var chatClient = await CreateChatClientAsync(sseService, roomId);
+        var postResponse = await chatClient.PostAsJsonAsync($"/api/room/{roomId}/chat", message);
         postResponse.EnsureSuccessStatusCode();
 
         // Assert: Both clients in the same room receive the event
+        string idLine1 = await reader1.ReadLineAsync() ?? "No line received!";
+        Assert.StartsWith("id: ", idLine1);
         string eventLine1 = await reader1.ReadLineAsync() ?? "No line received!";
         Assert.Equal("event: chat", eventLine1);
         string dataLine1 = await reader1.ReadLineAsync() ?? "No line received!";
@@ -106,6 +157,8 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
         Assert.Equal(expectedMessageEventData.Content, receivedMessageEventData1.Content);
         await reader1.ReadLineAsync(); // Blank line
 
+        string idLine2 = await reader2.ReadLineAsync() ?? "No line received!";
+        Assert.StartsWith("id: ", idLine2);
         string eventLine2 = await reader2.ReadLineAsync() ?? "No line received!";
         Assert.Equal("event: chat", eventLine2);
         string dataLine2 = await reader2.ReadLineAsync() ?? "No line received!";
@@ -120,6 +173,7 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
         await reader2.ReadLineAsync(); // Blank line
 
         // Clean up
+        chatClient.Dispose();
         client1.Dispose();
         client2.Dispose();
         cts1.Cancel();
@@ -146,15 +200,18 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
         // Update expectedData to serialize a MessageEventData object
         var expectedMessageEventData = new ChatEventData
         {
-            Sender = "Anonymous",
+            Sender = ChatUserName,
             Content = messageContent,
         };
 
         // Act: Send a chat message to room 1
-        var postResponse = await client1.PostAsJsonAsync($"/api/room/{roomId1}/chat", message);
+        var chatClient = await CreateChatClientAsync(sseService, roomId1, roomId2);
+        var postResponse = await chatClient.PostAsJsonAsync($"/api/room/{roomId1}/chat", message);
         postResponse.EnsureSuccessStatusCode();
 
         // Assert: Client in room 1 receives the event
+        string idLine1 = await reader1.ReadLineAsync() ?? "No line received!";
+        Assert.StartsWith("id: ", idLine1);
         string eventLine1 = await reader1.ReadLineAsync() ?? "No line received!";
         Assert.Equal("event: chat", eventLine1);
         string dataLine1 = await reader1.ReadLineAsync() ?? "No line received!";
@@ -185,6 +242,7 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
         // If the delay task finished, the test passes implicitly.
 
         // Clean up
+        chatClient.Dispose();
         client1.Dispose();
         client2.Dispose();
         cts1.Cancel();
@@ -229,8 +287,8 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
     {
         // Arrange
         var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
-        var client = CreateSSEClientWithMocks(sseService);
         var roomId = Guid.NewGuid();
+        var client = await CreateChatClientAsync(sseService, roomId);
         var message = new MessageDTO(content!);
 
         // Act
@@ -265,8 +323,8 @@ public class RoomSseIntegrationTests(WebApplicationFactory<Program> factory)
         // Act: Try to broadcast an event to the room
         var messageContent = "Should not be received by disconnected client.";
         var message = new MessageDTO(messageContent);
-        var postResponse = await CreateSSEClientWithMocks(sseService)
-            .PostAsJsonAsync($"/api/room/{roomId}/chat", message);
+        var chatClient = await CreateChatClientAsync(sseService, roomId);
+        var postResponse = await chatClient.PostAsJsonAsync($"/api/room/{roomId}/chat", message);
         postResponse.EnsureSuccessStatusCode();
 
         // Assert: No exception should be thrown during broadcast, indicating cleanup was successful.
@@ -539,6 +539,32 @@ public class RoomPlayerRepositoryTests
         result.Should().BeFalse();
     }
 
+    [Fact]
+    public async Task IsPlayerInRoomAsync_ReturnsFalse_WhenPlayerLeft()
+    {
+        // Arrange
+        await using var context = RepositoryTestHelper.CreateInMemoryContext();
+        var repository = new RoomPlayerRepository(context);
+        var user = RepositoryTestHelper.CreateTestUser();
+        var room = RepositoryTestHelper.CreateTestRoom(hostId: user.Id);
+        var roomPlayer = RepositoryTestHelper.CreateTestRoomPlayer(
+            roomId: room.Id,
+            userId: user.Id,
+            status: Status.Left
+        );
+
+        await context.Users.AddAsync(user);
+        await context.Rooms.AddAsync(room);
+        await context.RoomPlayers.AddAsync(roomPlayer);
+        await context.SaveChangesAsync();
+
+        // Act
+        var result = await repository.IsPlayerInRoomAsync(room.Id, user.Id);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
     [Fact]
     public async Task GetPlayerCountInRoomAsync_ReturnsCorrectCount()
     {
@@ -1,5 +1,7 @@
 using FluentAssertions;
+using Project.Api.Models;
 using Project.Api.Repositories;
+using Project.Api.Utilities.Enums;
 using Project.Test.Helpers;
 
 namespace Project.Test.Repositories;
@@ -213,6 +215,94 @@ public class RoomRepositoryTests
         result.Should().BeEmpty();
     }
 
+    [Fact]
+    public async Task SearchPublicRoomsAsync_FiltersByGameModeAndFreeSeats()
+    {
+        // Arrange
+        await using var context = RepositoryTestHelper.CreateInMemoryContext();
+        var repository = new RoomRepository(context);
+        var host = RepositoryTestHelper.CreateTestUser();
+        Room CreateRoom(
+            bool isPublic = true,
+            bool isActive = true,
+            string gameMode = "Blackjack"
+        ) =>
+            RepositoryTestHelper.CreateTestRoom(
+                hostId: host.Id,
+                isPublic: isPublic,
+                isActive: isActive,
+                gameMode: gameMode,
+                maxPlayers: 2
+            );
+        var open = CreateRoom();
+        var full = CreateRoom();
+        var otherGame = CreateRoom(gameMode: "Texas Hold'em");
+        var hidden = CreateRoom(isPublic: false);
+        var closed = CreateRoom(isActive: false);
+
+        await context.Users.AddAsync(host);
+        await context.Rooms.AddRangeAsync(open, full, otherGame, hidden, closed);
+        await context.RoomPlayers.AddRangeAsync(
+            RepositoryTestHelper.CreateTestRoomPlayer(roomId: open.Id),
+            RepositoryTestHelper.CreateTestRoomPlayer(roomId: open.Id, status: Status.Left),
+            RepositoryTestHelper.CreateTestRoomPlayer(roomId: full.Id),
+            RepositoryTestHelper.CreateTestRoomPlayer(roomId: full.Id)
+        );
+        await context.SaveChangesAsync();
+
+        // Act
+        var result = await repository.SearchPublicRoomsAsync(
+            "blackjack",
+            hasFreeSeats: true,
+            RoomSortBy.CreatedAt,
+            descending: true
+        );
+        var count = await repository.CountPublicRoomsAsync("blackjack", hasFreeSeats: true);
+
+        // Assert
+        result.Select(r => r.Id).Should().Equal(open.Id);
+        result[0].RoomPlayers.Should().HaveCount(2);
+        count.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task SearchPublicRoomsAsync_SortsAndPages()
+    {
+        // Arrange
+        await using var context = RepositoryTestHelper.CreateInMemoryContext();
+        var repository = new RoomRepository(context);
+        var host = RepositoryTestHelper.CreateTestUser();
+        var rooms = Enumerable
+            .Range(0, 3)
+            .Select(_ => RepositoryTestHelper.CreateTestRoom(hostId: host.Id))
+            .ToList();
+
+        await context.Users.AddAsync(host);
+        await context.Rooms.AddRangeAsync(rooms);
+        for (int i = 0; i < rooms.Count; i++)
+        {
+            await context.RoomPlayers.AddRangeAsync(
+                Enumerable
+                    .Range(0, i)
+                    .Select(_ => RepositoryTestHelper.CreateTestRoomPlayer(roomId: rooms[i].Id))
+            );
+        }
+        await context.SaveChangesAsync();
+
+        // Act
+        var result = await repository.SearchPublicRoomsAsync(
+            null,
+            hasFreeSeats: false,
+            RoomSortBy.Players,
+            descending: true,
+            skip: 1,
+            take: 1
+        );
+
+        // Assert: the room with one player, after the one with two
+        result.Select(r => r.Id).Should().Equal(rooms[1].Id);
+    }
+
     [Fact]
     public async Task GetByHostIdAsync_ReturnsRoom_WhenRoomExistsForHost()
     {
@@ -0,0 +1,101 @@
+using Project.Api.DTOs;
+using Project.Api.Models.Games;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+
+namespace Project.Test.Services;
+
+public class BlackjackBotStrategyTests
+{
+    private static readonly BotMoveOptions AnyMove = new(true, true, true);
+    private static readonly BotMoveOptions NoExtraMoves = new(false, false, false);
+
+    // cards by value, the suit doesn't matter
+    private static List<CardDTO> Cards(params string[] values) =>
+        [.. values.Select(value => new CardDTO { Value = value, Suit = "SPADES" })];
+
+    private static string Choose(
+        BotPolicy policy,
+        string[] hand,
+        string upcard,
+        BlackjackConfig? config = null,
+        BotMoveOptions? options = null
+    ) =>
+        BlackjackBotStrategy.ChooseAction(
+            policy,
+            Cards(hand),
+            Cards(upcard)[0],
+            config ?? new BlackjackConfig(),
+            options ?? AnyMove
+        );
+
+    [Theory]
+    [InlineData(new[] { "10", "6" }, "7", "hit")]
+    [InlineData(new[] { "10", "3" }, "4", "stand")]
+    [InlineData(new[] { "6", "5" }, "10", "double")]
+    [InlineData(new[] { "8", "8" }, "10", "split")]
+    [InlineData(new[] { "10", "6" }, "ACE", "surrender")]
+    [InlineData(new[] { "ACE", "7" }, "9", "hit")]
+    [InlineData(new[] { "KING", "QUEEN" }, "6", "stand")]
+    public void ChooseAction_BasicStrategy_FollowsTheChart(
+        string[] hand,
+        string upcard,
+        string expected
+    )
+    {
+        Assert.Equal(expected, Choose(BotPolicy.BasicStrategy, hand, upcard));
+    }
+
+    [Fact]
+    public void ChooseAction_BasicStrategy_FallsBackWhenMoveIsNotAllowed()
+    {
+        // double 11 becomes a hit, double soft 18 a stand, surrender 16 a hit
+        Assert.Equal("hit", Choose(BotPolicy.BasicStrategy, ["6", "5"], "6", null, NoExtraMoves));
+        Assert.Equal(
+            "stand",
+            Choose(BotPolicy.BasicStrategy, ["ACE", "7"], "4", null, NoExtraMoves)
+        );
+        Assert.Equal("hit", Choose(BotPolicy.BasicStrategy, ["10", "6"], "10", null, NoExtraMoves));
+
+        // a pair of 8s that can't be split is a hard 16
+        Assert.Equal("stand", Choose(BotPolicy.BasicStrategy, ["8", "8"], "6", null, NoExtraMoves));
+    }
+
+    [Fact]
+    public void ChooseAction_BasicStrategy_FitsTheTableRules()
+    {
+        var hitsSoft17 = new BlackjackConfig { DealerHitsSoft17 = true };
+        Assert.Equal("double", Choose(BotPolicy.BasicStrategy, ["6", "5"], "ACE", hitsSoft17));
+        Assert.Equal("hit", Choose(BotPolicy.BasicStrategy, ["6", "5"], "ACE"));
+
+        var noDoubleAfterSplit = new BlackjackConfig { DoubleAfterSplit = false };
+        Assert.Equal("split", Choose(BotPolicy.BasicStrategy, ["2", "2"], "2"));
+        Assert.Equal("hit", Choose(BotPolicy.BasicStrategy, ["2", "2"], "2", noDoubleAfterSplit));
+    }
+
+    [Fact]
+    public void ChooseAction_AlwaysStand_NeverHits()
+    {
+        Assert.Equal("stand", Choose(BotPolicy.AlwaysStand, ["2", "3"], "10"));
+        Assert.Equal("stand", Choose(BotPolicy.AlwaysStand, ["8", "8"], "6"));
+    }
+
+    [Fact]
+    public void ChooseAction_MimicDealer_HitsBelow17()
+    {
+        Assert.Equal("hit", Choose(BotPolicy.MimicDealer, ["10", "6"], "6"));
+        Assert.Equal("stand", Choose(BotPolicy.MimicDealer, ["10", "7"], "ACE"));
+
+        // soft 17 is hit only where the dealer hits it
+        Assert.Equal("stand", Choose(BotPolicy.MimicDealer, ["ACE", "6"], "10"));
+        Assert.Equal(
+            "hit",
+            Choose(
+                BotPolicy.MimicDealer,
+                ["ACE", "6"],
+                "10",
+                new BlackjackConfig { DealerHitsSoft17 = true }
+            )
+        );
+    }
+}
@@ -21,6 +21,7 @@ public class BlackjackServiceTest
     private readonly Mock<IDeckApiService> _deckApiServiceMock;
     private readonly Mock<IRoomSSEService> _roomSSEServiceMock;
     private readonly Mock<IUserRepository> _userRepositoryMock;
+    private readonly Mock<IRoundRecordRepository> _roundRecordRepositoryMock;
     private readonly BlackjackService _blackjackService;
 
     public BlackjackServiceTest()
@@ -31,12 +32,14 @@ public class BlackjackServiceTest
         _deckApiServiceMock = new Mock<IDeckApiService>();
         _roomSSEServiceMock = new Mock<IRoomSSEService>();
         _userRepositoryMock = new Mock<IUserRepository>();
+        _roundRecordRepositoryMock = new Mock<IRoundRecordRepository>();
 
         var defaultConfig = new BlackjackConfig();
         var defaultConfigString = JsonSerializer.Serialize(defaultConfig);
         _roomRepositoryMock
             .Setup(r => r.GetGameConfigAsync(It.IsAny<Guid>()))
             .ReturnsAsync(defaultConfigString);
+        _deckApiServiceMock.Setup(d => d.DeckExists(It.IsAny<string>())).ReturnsAsync(true);
 
         _blackjackService = new BlackjackService(
             _roomRepositoryMock.Object,
@@ -45,6 +48,7 @@ public class BlackjackServiceTest
             _deckApiServiceMock.Object,
             _roomSSEServiceMock.Object,
             _userRepositoryMock.Object,
+            _roundRecordRepositoryMock.Object,
             new Mock<ILogger<BlackjackService>>().Object
         );
     }
@@ -443,6 +447,46 @@ public class BlackjackServiceTest
         );
     }
 
+    [Theory]
+    [InlineData(false)]
+    [InlineData(true)]
+    public async Task PerformActionAsync_BetAction_PlayerLeftOrBanned_ThrowsBadRequestException(
+        bool banned
+    )
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        var player = new RoomPlayer
+        {
+            Id = Guid.NewGuid(),
+            Status = Status.Left,
+            Balance = 1000,
+            BannedAt = banned ? DateTimeOffset.UtcNow : null,
+        };
+        var bettingStage = new BlackjackBettingStage(DateTimeOffset.UtcNow.AddMinutes(1), []);
+        var gameState = new BlackjackState { CurrentStage = bettingStage };
+        var gameStateString = JsonSerializer.Serialize(gameState);
+
+        _roomRepositoryMock.Setup(r => r.GetGameStateAsync(roomId)).ReturnsAsync(gameStateString);
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByRoomIdAndUserIdAsync(roomId, playerId))
+            .ReturnsAsync(player);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.PerformActionAsync(roomId, playerId, "bet", CreateBetActionData(100))
+        );
+
+        // the player does not get their seat back
+        Assert.Equal(Status.Left, player.Status);
+        _roomPlayerRepositoryMock.Verify(r => r.UpdateAsync(It.IsAny<RoomPlayer>()), Times.Never);
+        _roomRepositoryMock.Verify(
+            r => r.UpdateGameStateAsync(It.IsAny<Guid>(), It.IsAny<string>()),
+            Times.Never
+        );
+    }
+
     [Fact]
     public async Task PerformActionAsync_BetAction_AfterDeadline_BettingPlayerNotFound_ThrowsInternalServerException()
     {
@@ -485,4 +529,824 @@ public class BlackjackServiceTest
             )
         );
     }
+
+    [Fact]
+    public async Task PerformActionAsync_WhenPaused_ThrowsBadRequestException()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var gameState = new BlackjackState
+        {
+            CurrentStage = new BlackjackBettingStage(DateTimeOffset.UtcNow.AddMinutes(1), []),
+            PausedAt = DateTimeOffset.UtcNow,
+        };
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.PerformActionAsync(
+                roomId,
+                Guid.NewGuid(),
+                "bet",
+                CreateBetActionData(100)
+            )
+        );
+        Assert.Equal("The game is paused.", exception.Message);
+    }
+
+    [Fact]
+    public async Task PauseAsync_StoresPauseTime_AndBroadcasts()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var gameState = new BlackjackState
+        {
+            CurrentStage = new BlackjackPlayerActionStage(
+                DateTimeOffset.UtcNow.AddSeconds(20),
+                0,
+                0
+            ),
+        };
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+
+        // Act
+        await _blackjackService.PauseAsync(roomId);
+
+        // Assert
+        _roomRepositoryMock.Verify(
+            r =>
+                r.UpdateGameStateAsync(
+                    roomId,
+                    It.Is<string>(s =>
+                        JsonSerializer
+                            .Deserialize<BlackjackState>(s, (JsonSerializerOptions?)null)!
+                            .PausedAt != null
+                    )
+                ),
+            Times.Once
+        );
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.GamePaused,
+                    It.IsAny<GamePausedEventData>()
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task PauseAsync_WithoutTimer_ThrowsBadRequestException()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var gameState = new BlackjackState { CurrentStage = new BlackjackDealingStage() };
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() => _blackjackService.PauseAsync(roomId));
+    }
+
+    [Fact]
+    public async Task ResumeAsync_PushesDeadlineBackByThePause()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var deadline = DateTimeOffset.UtcNow.AddSeconds(20);
+        var gameState = new BlackjackState
+        {
+            CurrentStage = new BlackjackBettingStage(deadline, []),
+            PausedAt = DateTimeOffset.UtcNow.AddMinutes(-5),
+        };
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+
+        string? savedState = null;
+        _roomRepositoryMock
+            .Setup(r => r.UpdateGameStateAsync(roomId, It.IsAny<string>()))
+            .Callback<Guid, string>((_, s) => savedState = s)
+            .ReturnsAsync(true);
+
+        // Act
+        await _blackjackService.ResumeAsync(roomId);
+
+        // Assert
+        Assert.NotNull(savedState);
+        var resumed = JsonSerializer.Deserialize<BlackjackState>(savedState)!;
+        Assert.Null(resumed.PausedAt);
+        var stage = Assert.IsType<BlackjackBettingStage>(resumed.CurrentStage);
+        Assert.InRange(
+            stage.Deadline,
+            deadline.AddMinutes(5),
+            deadline.AddMinutes(5).AddSeconds(10)
+        );
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.GameResumed,
+                    It.Is<GameResumedEventData>(e => e.Deadline == stage.Deadline)
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task KickPlayerAsync_WithBan_RemovesAndBansPlayer()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var userId = Guid.NewGuid();
+        var player = new RoomPlayer
+        {
+            Id = Guid.NewGuid(),
+            RoomId = roomId,
+            UserId = userId,
+            Status = Status.Active,
+        };
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByRoomIdAndUserIdAsync(roomId, userId))
+            .ReturnsAsync(player);
+        _userRepositoryMock
+            .Setup(r => r.GetByIdAsync(userId))
+            .ReturnsAsync(new User { Id = userId, Name = "Troublemaker" });
+
+        // Act
+        await _blackjackService.KickPlayerAsync(roomId, userId, ban: true);
+
+        // Assert
+        _roomPlayerRepositoryMock.Verify(
+            r =>
+                r.UpdateAsync(
+                    It.Is<RoomPlayer>(p => p.Status == Status.Left && p.BannedAt != null)
+                ),
+            Times.Once
+        );
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.PlayerKicked,
+                    It.Is<PlayerKickedEventData>(e =>
+                        e.PlayerId == userId && e.PlayerName == "Troublemaker" && e.Banned
+                    )
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task PlayerJoinAsync_BannedPlayer_ThrowsForbiddenException()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var userId = Guid.NewGuid();
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByRoomIdAndUserIdAsync(roomId, userId))
+            .ReturnsAsync(
+                new RoomPlayer
+                {
+                    RoomId = roomId,
+                    UserId = userId,
+                    Status = Status.Left,
+                    BannedAt = DateTimeOffset.UtcNow,
+                }
+            );
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ForbiddenException>(() =>
+            _blackjackService.PlayerJoinAsync(roomId, userId)
+        );
+        _roomPlayerRepositoryMock.Verify(r => r.UpdateAsync(It.IsAny<RoomPlayer>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task UpdateConfigAsync_StartedGame_WaitsForNextRound()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var room = new Room
+        {
+            Id = roomId,
+            GameMode = GameModes.Blackjack,
+            StartedAt = DateTimeOffset.UtcNow,
+        };
+        var gameState = new BlackjackState
+        {
+            CurrentStage = new BlackjackBettingStage(DateTimeOffset.UtcNow.AddMinutes(1), []),
+        };
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+
+        var config = new BlackjackConfig { MinBet = 50 };
+
+        // Act
+        await _blackjackService.UpdateConfigAsync(roomId, config);
+
+        // Assert
+        _roomRepositoryMock.Verify(
+            r => r.UpdateGameConfigAsync(It.IsAny<Guid>(), It.IsAny<string>()),
+            Times.Never
+        );
+        _roomRepositoryMock.Verify(
+            r =>
+                r.UpdateGameStateAsync(
+                    roomId,
+                    It.Is<string>(s =>
+                        JsonSerializer
+                            .Deserialize<BlackjackState>(s, (JsonSerializerOptions?)null)!
+                            .PendingConfig!.MinBet == 50
+                    )
+                ),
+            Times.Once
+        );
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.ConfigChange,
+                    It.Is<ConfigChangeEventData>(e => e.Pending && e.Config.MinBet == 50)
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task UpdateConfigAsync_GameNotStarted_AppliesRightAway()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var room = new Room { Id = roomId, GameMode = GameModes.Blackjack };
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+
+        // Act
+        await _blackjackService.UpdateConfigAsync(roomId, new BlackjackConfig { MinBet = 50 });
+
+        // Assert
+        _roomRepositoryMock.Verify(
+            r =>
+                r.UpdateGameConfigAsync(
+                    roomId,
+                    It.Is<string>(s =>
+                        JsonSerializer
+                            .Deserialize<BlackjackConfig>(s, (JsonSerializerOptions?)null)!
+                            .MinBet == 50
+                    )
+                ),
+            Times.Once
+        );
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.ConfigChange,
+                    It.Is<ConfigChangeEventData>(e => !e.Pending)
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task UpdateConfigAsync_InvalidConfig_ThrowsBadRequestException()
+    {
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.UpdateConfigAsync(
+                Guid.NewGuid(),
+                new BlackjackConfig { MinBet = -1 }
+            )
+        );
+    }
+
+    private static JsonElement CreateActionData(object action) =>
+        JsonDocument.Parse(JsonSerializer.Serialize(action)).RootElement;
+
+    private static CardDTO Card(string value, string suit = "SPADES") =>
+        new() { Value = value, Suit = suit, Code = $"{value[0]}{suit[0]}" };
+
+    /// <summary>
+    /// Sets up a player's turn on the last of their hands, holding the given cards.
+    /// </summary>
+    private (Guid RoomId, Guid UserId) SetUpPlayerTurn(
+        BlackjackConfig config,
+        List<CardDTO> cards,
+        int handCount = 1
+    )
+    {
+        var roomId = Guid.NewGuid();
+        var player = new RoomPlayer
+        {
+            Id = Guid.NewGuid(),
+            UserId = Guid.NewGuid(),
+            RoomId = roomId,
+            Balance = 1000,
+            Status = Status.Active,
+        };
+        List<Hand> hands =
+        [
+            .. Enumerable
+                .Range(0, handCount)
+                .Select(i => new Hand
+                {
+                    Id = Guid.NewGuid(),
+                    RoomPlayerId = player.Id,
+                    Order = 0,
+                    HandNumber = i,
+                    Bet = 100,
+                }),
+        ];
+        Hand current = hands[^1];
+        var gameState = new BlackjackState
+        {
+            CurrentStage = new BlackjackPlayerActionStage(
+                DateTimeOffset.UtcNow.AddMinutes(1),
+                0,
+                current.HandNumber
+            ),
+        };
+
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+        _roomRepositoryMock
+            .Setup(r => r.GetGameConfigAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(config));
+        _roomRepositoryMock
+            .Setup(r => r.GetByIdAsync(roomId))
+            .ReturnsAsync(
+                new Room
+                {
+                    Id = roomId,
+                    GameMode = GameModes.Blackjack,
+                    DeckId = "test_deck",
+                }
+            );
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByRoomIdAndUserIdAsync(roomId, player.UserId))
+            .ReturnsAsync(player);
+        _handRepositoryMock
+            .Setup(r => r.GetHandByRoomOrderAsync(roomId, 0, current.HandNumber))
+            .ReturnsAsync(current);
+        _handRepositoryMock.Setup(r => r.GetHandsByRoomIdAsync(roomId)).ReturnsAsync(hands);
+        _deckApiServiceMock
+            .Setup(d => d.ListHand("test_deck", $"hand-{current.Id}"))
+            .ReturnsAsync(cards);
+
+        return (roomId, player.UserId);
+    }
+
+    [Fact]
+    public async Task PerformActionAsync_BetAction_AboveMaxBet_ThrowsBadRequestException()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        var player = new RoomPlayer { Status = Status.Away, Balance = 1000 };
+        var gameState = new BlackjackState
+        {
+            CurrentStage = new BlackjackBettingStage(DateTimeOffset.UtcNow.AddMinutes(1), []),
+        };
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+        _roomRepositoryMock
+            .Setup(r => r.GetGameConfigAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(new BlackjackConfig { MaxBet = 200 }));
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByRoomIdAndUserIdAsync(roomId, playerId))
+            .ReturnsAsync(player);
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.PerformActionAsync(roomId, playerId, "bet", CreateBetActionData(500))
+        );
+        Assert.Equal("The maximum bet at this table is 200.", exception.Message);
+        _roomPlayerRepositoryMock.Verify(r => r.UpdateAsync(It.IsAny<RoomPlayer>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task PerformActionAsync_Surrender_WithoutLateSurrender_ThrowsBadRequestException()
+    {
+        // Arrange
+        var (roomId, userId) = SetUpPlayerTurn(
+            new BlackjackConfig { LateSurrender = false },
+            [Card("10"), Card("6")]
+        );
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.PerformActionAsync(
+                roomId,
+                userId,
+                "surrender",
+                CreateActionData(new SurrenderAction())
+            )
+        );
+        Assert.Equal("Surrender is not allowed at this table.", exception.Message);
+    }
+
+    [Fact]
+    public async Task PerformActionAsync_Surrender_HandIsNotPaidOutAtTheEndOfTheRound()
+    {
+        // Arrange: a 19 that would have beaten the dealer's 17
+        var (roomId, userId) = SetUpPlayerTurn(new BlackjackConfig(), [Card("10"), Card("9")]);
+        _deckApiServiceMock
+            .Setup(d => d.ListHand("test_deck", "dealer"))
+            .ReturnsAsync([Card("10", "HEARTS"), Card("7", "HEARTS")]);
+        _handRepositoryMock
+            .Setup(r => r.GetHandByRoomOrderAsync(roomId, 0, 1))
+            .ThrowsAsync(new NotFoundException("No more hands."));
+        _handRepositoryMock
+            .Setup(r => r.GetHandByRoomOrderAsync(roomId, 1, 0))
+            .ThrowsAsync(new NotFoundException("No more players."));
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByIdAsync(It.IsAny<Guid>()))
+            .ReturnsAsync(new RoomPlayer { UserId = userId });
+
+        // Act
+        await _blackjackService.PerformActionAsync(
+            roomId,
+            userId,
+            "surrender",
+            CreateActionData(new SurrenderAction())
+        );
+
+        // Assert: half the bet back, and nothing more
+        _roomPlayerRepositoryMock.Verify(
+            r => r.UpdatePlayerBalanceAsync(It.IsAny<Guid>(), It.IsAny<long>()),
+            Times.Once
+        );
+        _roomPlayerRepositoryMock.Verify(
+            r => r.UpdatePlayerBalanceAsync(It.IsAny<Guid>(), 50),
+            Times.Once
+        );
+        _roundRecordRepositoryMock.Verify(
+            r =>
+                r.CreateAsync(
+                    It.Is<RoundRecord>(record =>
+                        JsonSerializer
+                            .Deserialize<List<RoundHandDTO>>(
+                                record.Hands,
+                                (JsonSerializerOptions?)null
+                            )!
+                            .Single()
+                            .Payout == 0
+                    )
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task PerformActionAsync_HurryUp_BeforeDeadline_LeavesTheTurnAlone()
+    {
+        // Arrange: the turn runs for another minute
+        var (roomId, userId) = SetUpPlayerTurn(new BlackjackConfig(), [Card("10"), Card("6")]);
+
+        // Act
+        await _blackjackService.PerformActionAsync(
+            roomId,
+            userId,
+            "hurry_up",
+            CreateActionData(new HurryUpAction())
+        );
+
+        // Assert: turned down, and still the same player's hand
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.PlayerAction,
+                    It.Is<PlayerActionEventData>(data =>
+                        data.Action == "hurry_up" && data.Success == false
+                    )
+                ),
+            Times.Once
+        );
+        _roomRepositoryMock.Verify(
+            r => r.UpdateGameStateAsync(It.IsAny<Guid>(), It.IsAny<string>()),
+            Times.Never
+        );
+        _roomPlayerRepositoryMock.Verify(r => r.UpdateAsync(It.IsAny<RoomPlayer>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task PerformActionAsync_Hit_DeckLost_DealsFromANewShoe()
+    {
+        // Arrange: the deck service forgot the room's deck, e.g. after a restart
+        var (roomId, userId) = SetUpPlayerTurn(
+            new BlackjackConfig { DeckCount = 2 },
+            [Card("10"), Card("6")]
+        );
+        _deckApiServiceMock.Setup(d => d.DeckExists("test_deck")).ReturnsAsync(false);
+        _deckApiServiceMock.Setup(d => d.CreateDeck(2, false)).ReturnsAsync("new_deck");
+        _deckApiServiceMock
+            .Setup(d => d.DrawCards("new_deck", It.IsAny<string>(), 1))
+            .ReturnsAsync([Card("2")]);
+        _deckApiServiceMock
+            .Setup(d => d.ListHand("new_deck", It.IsAny<string>()))
+            .ReturnsAsync([Card("2")]);
+
+        // Act
+        await _blackjackService.PerformActionAsync(
+            roomId,
+            userId,
+            "hit",
+            CreateActionData(new HitAction())
+        );
+
+        // Assert: a shoe with the table's number of decks replaces the lost one
+        _deckApiServiceMock.Verify(d => d.CreateDeck(2, false), Times.Once);
+        _roomRepositoryMock.Verify(
+            r => r.UpdateAsync(It.Is<Room>(room => room.DeckId == "new_deck")),
+            Times.Once
+        );
+        _deckApiServiceMock.Verify(
+            d => d.DrawCards("test_deck", It.IsAny<string>(), It.IsAny<int>()),
+            Times.Never
+        );
+    }
+
+    [Fact]
+    public async Task PerformActionAsync_Double_AfterSplit_WhenNotAllowed_ThrowsBadRequestException()
+    {
+        // Arrange
+        var (roomId, userId) = SetUpPlayerTurn(
+            new BlackjackConfig { DoubleAfterSplit = false },
+            [Card("8"), Card("3")],
+            handCount: 2
+        );
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.PerformActionAsync(
+                roomId,
+                userId,
+                "double",
+                CreateActionData(new DoubleAction())
+            )
+        );
+        Assert.Equal("Doubling after a split is not allowed at this table.", exception.Message);
+        _roomPlayerRepositoryMock.Verify(
+            r => r.UpdatePlayerBalanceAsync(It.IsAny<Guid>(), It.IsAny<long>()),
+            Times.Never
+        );
+    }
+
+    [Fact]
+    public async Task PerformActionAsync_Split_PastMaxSplits_ThrowsBadRequestException()
+    {
+        // Arrange
+        var (roomId, userId) = SetUpPlayerTurn(
+            new BlackjackConfig { MaxSplits = 1 },
+            [Card("8"), Card("8", "HEARTS")],
+            handCount: 2
+        );
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.PerformActionAsync(
+                roomId,
+                userId,
+                "split",
+                CreateActionData(new SplitAction(100))
+            )
+        );
+        _handRepositoryMock.Verify(r => r.CreateHandAsync(It.IsAny<Hand>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task PerformActionAsync_Split_AcesAgain_WithoutResplitAces_ThrowsBadRequestException()
+    {
+        // Arrange
+        var (roomId, userId) = SetUpPlayerTurn(
+            new BlackjackConfig { ResplitAces = false },
+            [Card("ACE"), Card("ACE", "HEARTS")],
+            handCount: 2
+        );
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.PerformActionAsync(
+                roomId,
+                userId,
+                "split",
+                CreateActionData(new SplitAction(100))
+            )
+        );
+        Assert.Equal("Aces cannot be split again at this table.", exception.Message);
+    }
+
+    [Fact]
+    public async Task AddBotAsync_SeatsBotWithItsPolicy()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        _roomPlayerRepositoryMock.Setup(r => r.GetByRoomIdAsync(roomId)).ReturnsAsync([]);
+
+        // Act
+        await _blackjackService.AddBotAsync(roomId, BotPolicy.MimicDealer);
+
+        // Assert
+        _userRepositoryMock.Verify(
+            r =>
+                r.AddAsync(
+                    It.Is<User>(u => u.Name == "Dealer Bot 1" && u.Email.EndsWith("@bots.invalid"))
+                ),
+            Times.Once
+        );
+        _roomPlayerRepositoryMock.Verify(
+            r =>
+                r.CreateAsync(
+                    It.Is<RoomPlayer>(p =>
+                        p.BotPolicy == BotPolicy.MimicDealer
+                        && p.Status == Status.Away
+                        && p.Balance == new BlackjackConfig().StartingBalance
+                    )
+                ),
+            Times.Once
+        );
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    roomId,
+                    RoomEventType.PlayerJoin,
+                    It.Is<PlayerJoinEventData>(e => e.PlayerName == "Dealer Bot 1")
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task AddBotAsync_FullRoom_ThrowsBadRequestException()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        List<RoomPlayer> players =
+        [
+            .. Enumerable
+                .Range(0, new BlackjackConfig().MaxPlayers)
+                .Select(_ => new RoomPlayer { RoomId = roomId, Status = Status.Active }),
+        ];
+        _roomPlayerRepositoryMock.Setup(r => r.GetByRoomIdAsync(roomId)).ReturnsAsync(players);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.AddBotAsync(roomId, BotPolicy.BasicStrategy)
+        );
+        _userRepositoryMock.Verify(r => r.AddAsync(It.IsAny<User>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task TransferHostAsync_ToBot_ThrowsBadRequestException()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var botId = Guid.NewGuid();
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByRoomIdAndUserIdAsync(roomId, botId))
+            .ReturnsAsync(
+                new RoomPlayer
+                {
+                    RoomId = roomId,
+                    UserId = botId,
+                    Status = Status.Away,
+                    BotPolicy = BotPolicy.AlwaysStand,
+                }
+            );
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _blackjackService.TransferHostAsync(roomId, botId)
+        );
+        _roomRepositoryMock.Verify(r => r.UpdateAsync(It.IsAny<Room>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task PlayBotsAsync_BettingStage_BotBetsOnceItHasThought()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var config = new BlackjackConfig();
+        var bot = new RoomPlayer
+        {
+            Id = Guid.NewGuid(),
+            RoomId = roomId,
+            UserId = Guid.NewGuid(),
+            Balance = 1000,
+            Status = Status.Away,
+            BotPolicy = BotPolicy.BasicStrategy,
+        };
+
+        // a player who has not bet yet, so the round does not start
+        var player = new RoomPlayer
+        {
+            Id = Guid.NewGuid(),
+            RoomId = roomId,
+            UserId = Guid.NewGuid(),
+            Balance = 1000,
+            Status = Status.Away,
+        };
+
+        // the betting stage started a few seconds ago
+        var deadline = DateTimeOffset.UtcNow + config.BettingTimeLimit - TimeSpan.FromSeconds(5);
+        var gameState = new BlackjackState
+        {
+            CurrentStage = new BlackjackBettingStage(deadline, []),
+        };
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByRoomIdAsync(roomId))
+            .ReturnsAsync([bot, player]);
+        _roomPlayerRepositoryMock
+            .Setup(r => r.GetByRoomIdAndUserIdAsync(roomId, bot.UserId))
+            .ReturnsAsync(bot);
+
+        // Act
+        await _blackjackService.PlayBotsAsync(roomId);
+
+        // Assert, tables without a minimum bet get the bots' default bet
+        _roomRepositoryMock.Verify(
+            r =>
+                r.UpdateGameStateAsync(
+                    roomId,
+                    It.Is<string>(s =>
+                        (
+                            (BlackjackBettingStage)
+                                JsonSerializer
+                                    .Deserialize<BlackjackState>(s, (JsonSerializerOptions?)null)!
+                                    .CurrentStage
+                        ).Bets[bot.Id] == 10
+                    )
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task PlayBotsAsync_StageJustStarted_WaitsBeforeMoving()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var bot = new RoomPlayer
+        {
+            Id = Guid.NewGuid(),
+            RoomId = roomId,
+            UserId = Guid.NewGuid(),
+            Balance = 1000,
+            Status = Status.Away,
+            BotPolicy = BotPolicy.BasicStrategy,
+        };
+        var deadline = DateTimeOffset.UtcNow + new BlackjackConfig().BettingTimeLimit;
+        var gameState = new BlackjackState
+        {
+            CurrentStage = new BlackjackBettingStage(deadline, []),
+        };
+        _roomRepositoryMock
+            .Setup(r => r.GetGameStateAsync(roomId))
+            .ReturnsAsync(JsonSerializer.Serialize(gameState));
+        _roomPlayerRepositoryMock.Setup(r => r.GetByRoomIdAsync(roomId)).ReturnsAsync([bot]);
+
+        // Act
+        await _blackjackService.PlayBotsAsync(roomId);
+
+        // Assert
+        _roomRepositoryMock.Verify(
+            r => r.UpdateGameStateAsync(roomId, It.IsAny<string>()),
+            Times.Never
+        );
+    }
+
+    [Fact]
+    public void GameConfigValidator_InvalidRuleVariants_ThrowBadRequestException()
+    {
+        Assert.Throws<BadRequestException>(() =>
+            GameConfigValidator.ValidateBlackjackConfig(new BlackjackConfig { DeckCount = 0 })
+        );
+        Assert.Throws<BadRequestException>(() =>
+            GameConfigValidator.ValidateBlackjackConfig(
+                new BlackjackConfig { ReshufflePenetration = 1 }
+            )
+        );
+        Assert.Throws<BadRequestException>(() =>
+            GameConfigValidator.ValidateBlackjackConfig(
+                new BlackjackConfig { MinBet = 50, MaxBet = 10 }
+            )
+        );
+        Assert.Throws<BadRequestException>(() =>
+            GameConfigValidator.ValidateBlackjackConfig(new BlackjackConfig { MaxSplits = 4 })
+        );
+    }
 }
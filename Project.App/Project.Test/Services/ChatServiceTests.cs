@@ -0,0 +1,179 @@
+using FluentAssertions;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Project.Api.Data;
+using Project.Api.Models;
+using Project.Api.Models.Games;
+using Project.Api.Repositories;
+using Project.Api.Services;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+using Project.Test.Helpers;
+
+namespace Project.Test.Services;
+
+public class ChatServiceTests : IDisposable
+{
+    private readonly AppDbContext _context = RepositoryTestHelper.CreateInMemoryContext();
+    private readonly Mock<IRoomSSEService> _sseServiceMock = new();
+    private readonly ChatService _service;
+
+    private readonly Guid _hostId = Guid.NewGuid();
+    private readonly Guid _playerId = Guid.NewGuid();
+    private readonly Guid _roomId = Guid.NewGuid();
+
+    public ChatServiceTests()
+    {
+        _service = new ChatService(
+            new ChatRepository(_context),
+            new RoomRepository(_context),
+            new UserRepository(_context),
+            _sseServiceMock.Object,
+            new ChatRateLimitService(),
+            NullLogger<ChatService>.Instance
+        );
+
+        _context.Users.Add(RepositoryTestHelper.CreateTestUser(_hostId, "Host"));
+        _context.Users.Add(RepositoryTestHelper.CreateTestUser(_playerId, "Player"));
+        _context.Rooms.Add(RepositoryTestHelper.CreateTestRoom(_roomId, _hostId));
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    [Fact]
+    public async Task SendMessageAsync_SavesAndBroadcastsMessage()
+    {
+        var sent = await _service.SendMessageAsync(_roomId, _playerId, "  hi @Host  ");
+
+        sent.Content.Should().Be("hi @Host");
+        sent.Sender.Should().Be("Player");
+        sent.SenderId.Should().Be(_playerId);
+        _sseServiceMock.Verify(
+            s => s.BroadcastEventAsync(_roomId, RoomEventType.Chat, sent),
+            Times.Once
+        );
+
+        var history = await _service.GetHistoryAsync(_roomId);
+        history.Messages.Should().ContainSingle(m => m.Id == sent.Id && m.Content == "hi @Host");
+    }
+
+    [Fact]
+    public async Task SendMessageAsync_Throws_WhenTooLong()
+    {
+        var act = () =>
+            _service.SendMessageAsync(
+                _roomId,
+                _playerId,
+                new string('a', ChatService.MaxMessageLength + 1)
+            );
+
+        await act.Should().ThrowAsync<BadRequestException>().WithMessage("*at most*");
+    }
+
+    [Fact]
+    public async Task SendMessageAsync_Throws_WhenSendingTooFast()
+    {
+        for (int i = 0; i < ChatRateLimitService.MaxMessages; i++)
+            await _service.SendMessageAsync(_roomId, _playerId, $"message {i}");
+
+        var act = () => _service.SendMessageAsync(_roomId, _playerId, "one too many");
+
+        var thrown = await act.Should().ThrowAsync<TooManyRequestsException>();
+        thrown.Which.RetryAfter.Should().BePositive();
+        thrown.Which.RetryAfter.Should().BeLessThanOrEqualTo(ChatRateLimitService.Window);
+
+        // the limit is per user
+        await _service.SendMessageAsync(_roomId, _hostId, "still allowed");
+    }
+
+    [Fact]
+    public async Task SendMessageAsync_Throws_WhenMuted()
+    {
+        await _service.SetMutedAsync(_roomId, _hostId, _playerId, true);
+
+        var act = () => _service.SendMessageAsync(_roomId, _playerId, "hello?");
+
+        await act.Should().ThrowAsync<ForbiddenException>();
+        _sseServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    _roomId,
+                    RoomEventType.ChatUserMuted,
+                    It.Is<ChatUserMutedEventData>(e => e.UserId == _playerId && e.Muted)
+                ),
+            Times.Once
+        );
+        (await _service.GetHistoryAsync(_roomId)).MutedUserIds.Should().Equal(_playerId);
+
+        await _service.SetMutedAsync(_roomId, _hostId, _playerId, false);
+        await _service.SendMessageAsync(_roomId, _playerId, "thanks");
+    }
+
+    [Fact]
+    public async Task SetMutedAsync_Throws_WhenNotHost()
+    {
+        var act = () => _service.SetMutedAsync(_roomId, _playerId, _hostId, true);
+
+        await act.Should().ThrowAsync<ForbiddenException>();
+    }
+
+    [Fact]
+    public async Task DeleteMessageAsync_RemovesMessageAndBroadcasts()
+    {
+        var sent = await _service.SendMessageAsync(_roomId, _playerId, "oops");
+
+        await _service.DeleteMessageAsync(_roomId, _hostId, sent.Id);
+
+        (await _service.GetHistoryAsync(_roomId)).Messages.Should().BeEmpty();
+        _sseServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    _roomId,
+                    RoomEventType.ChatMessageDeleted,
+                    It.Is<ChatMessageDeletedEventData>(e => e.MessageId == sent.Id)
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task DeleteMessageAsync_Throws_WhenNotHost()
+    {
+        var sent = await _service.SendMessageAsync(_roomId, _playerId, "mine");
+
+        var act = () => _service.DeleteMessageAsync(_roomId, _playerId, sent.Id);
+
+        await act.Should().ThrowAsync<ForbiddenException>();
+    }
+
+    [Fact]
+    public async Task GetHistoryAsync_ReturnsLatestMessagesOldestFirst()
+    {
+        var start = DateTimeOffset.UtcNow.AddHours(-1);
+        for (int i = 0; i < ChatService.HistoryLength + 5; i++)
+        {
+            _context.ChatMessages.Add(
+                new ChatMessage
+                {
+                    RoomId = _roomId,
+                    UserId = _playerId,
+                    SenderName = "Player",
+                    Content = $"message {i}",
+                    SentAt = start.AddSeconds(i),
+                }
+            );
+        }
+        await _context.SaveChangesAsync();
+
+        var history = await _service.GetHistoryAsync(_roomId);
+
+        history.Messages.Should().HaveCount(ChatService.HistoryLength);
+        history.Messages[0].Content.Should().Be("message 5");
+        history.Messages[^1].Content.Should().Be($"message {ChatService.HistoryLength + 4}");
+    }
+}
@@ -0,0 +1,127 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using Project.Api.Services;
+using Project.Api.Utilities;
+
+namespace Project.Test.Services;
+
+public class IdempotencyServiceTests
+{
+    private readonly IdempotencyService _service = new(NullLogger<IdempotencyService>.Instance);
+
+    [Fact]
+    public async Task RunOnceAsync_RunsActionOnce_ForRepeatedKey()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        int runs = 0;
+        Task Action()
+        {
+            runs++;
+            return Task.CompletedTask;
+        }
+
+        // Act
+        await _service.RunOnceAsync(roomId, playerId, "key", Action);
+        await _service.RunOnceAsync(roomId, playerId, "key", Action);
+
+        // Assert
+        Assert.Equal(1, runs);
+    }
+
+    [Fact]
+    public async Task RunOnceAsync_WaitsForRunningAction_WhenRepeatedConcurrently()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        var release = new TaskCompletionSource();
+        int runs = 0;
+        async Task Action()
+        {
+            runs++;
+            await release.Task;
+        }
+
+        // Act
+        Task first = _service.RunOnceAsync(roomId, playerId, "key", Action);
+        Task second = _service.RunOnceAsync(roomId, playerId, "key", Action);
+        Assert.False(second.IsCompleted);
+        release.SetResult();
+        await Task.WhenAll(first, second);
+
+        // Assert
+        Assert.Equal(1, runs);
+    }
+
+    [Fact]
+    public async Task RunOnceAsync_KeepsKeysApart_PerRoomAndPlayer()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        int runs = 0;
+        Task Action()
+        {
+            runs++;
+            return Task.CompletedTask;
+        }
+
+        // Act
+        await _service.RunOnceAsync(roomId, playerId, "key", Action);
+        await _service.RunOnceAsync(roomId, Guid.NewGuid(), "key", Action);
+        await _service.RunOnceAsync(Guid.NewGuid(), playerId, "key", Action);
+
+        // Assert
+        Assert.Equal(3, runs);
+    }
+
+    [Fact]
+    public async Task RunOnceAsync_RepeatsRejection_WithoutRunningAgain()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        int runs = 0;
+        Task Action()
+        {
+            runs++;
+            throw new BadRequestException("Not enough chips.");
+        }
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _service.RunOnceAsync(roomId, playerId, "key", Action)
+        );
+        var repeated = await Assert.ThrowsAsync<BadRequestException>(() =>
+            _service.RunOnceAsync(roomId, playerId, "key", Action)
+        );
+        Assert.Equal("Not enough chips.", repeated.Message);
+        Assert.Equal(1, runs);
+    }
+
+    [Fact]
+    public async Task RunOnceAsync_AllowsRetry_AfterUnexpectedFailure()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        int runs = 0;
+        Task Action()
+        {
+            runs++;
+            return runs == 1
+                ? throw new InternalServerException("Deck API unavailable.")
+                : Task.CompletedTask;
+        }
+
+        // Act
+        await Assert.ThrowsAsync<InternalServerException>(() =>
+            _service.RunOnceAsync(roomId, playerId, "key", Action)
+        );
+        await _service.RunOnceAsync(roomId, playerId, "key", Action);
+
+        // Assert
+        Assert.Equal(2, runs);
+    }
+}
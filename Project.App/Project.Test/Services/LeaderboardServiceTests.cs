@@ -0,0 +1,262 @@
+using System.Text.Json;
+using FluentAssertions;
+using Project.Api.Data;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Repositories;
+using Project.Api.Services;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+using Project.Test.Helpers;
+
+namespace Project.Test.Services;
+
+public class LeaderboardServiceTests : IDisposable
+{
+    private static readonly JsonSerializerOptions EventJsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+    };
+
+    private readonly AppDbContext _context = RepositoryTestHelper.CreateInMemoryContext();
+    private readonly RoundRecordRepository _repository;
+    private readonly LeaderboardService _service;
+
+    private readonly Guid _alice = Guid.NewGuid();
+    private readonly Guid _bob = Guid.NewGuid();
+    private readonly Guid _carol = Guid.NewGuid();
+    private readonly Guid _bot = Guid.NewGuid();
+    private readonly Guid _roomId = Guid.NewGuid();
+    private int _roundNumber;
+
+    public LeaderboardServiceTests()
+    {
+        _repository = new RoundRecordRepository(_context);
+        _service = new LeaderboardService(_repository);
+
+        foreach (var (id, name) in new[] { (_alice, "Alice"), (_bob, "Bob"), (_carol, "Carol") })
+        {
+            _context.Users.Add(new User { Id = id, Name = name, Email = $"{name}@test.com" });
+        }
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private RoundHandDTO Hand(Guid playerId, long bet, long payout, int handIndex = 0) =>
+        new()
+        {
+            PlayerId = playerId,
+            PlayerName =
+                playerId == _alice ? "Alice"
+                : playerId == _bob ? "Bob"
+                : playerId == _carol ? "Carol"
+                : "Stand Bot 1",
+            HandIndex = handIndex,
+            Bet = bet,
+            Payout = payout,
+        };
+
+    private static RoundEventDTO Surrender(Guid playerId, long amount) =>
+        new()
+        {
+            Event = "player_action",
+            Data = JsonSerializer.SerializeToElement(
+                new
+                {
+                    playerId,
+                    handIndex = 0,
+                    action = "surrender",
+                    amount,
+                    success = true,
+                },
+                EventJsonOptions
+            ),
+        };
+
+    private async Task AddRoundAsync(
+        List<RoundHandDTO> hands,
+        DateTimeOffset? finishedAt = null,
+        params RoundEventDTO[] events
+    )
+    {
+        _roundNumber++;
+        await _repository.CreateAsync(
+            new RoundRecord
+            {
+                Id = Guid.NewGuid(),
+                RoomId = _roomId,
+                RoundNumber = _roundNumber,
+                FinishedAt = finishedAt ?? DateTimeOffset.UtcNow.AddMinutes(-60 + _roundNumber),
+                Hands = JsonSerializer.Serialize(hands),
+                Events = JsonSerializer.Serialize(events.ToList()),
+            }
+        );
+    }
+
+    [Fact]
+    public async Task GetLeaderboardAsync_RanksByNetWinnings()
+    {
+        await AddRoundAsync([Hand(_alice, 10, 20), Hand(_bob, 10, 0), Hand(_carol, 10, 10)]);
+        await AddRoundAsync([Hand(_alice, 10, 0), Hand(_bob, 50, 100)]);
+        await AddRoundAsync([Hand(_carol, 20, 0)], events: Surrender(_carol, 10));
+
+        var leaderboard = await _service.GetLeaderboardAsync(new LeaderboardQuery());
+
+        leaderboard.TotalCount.Should().Be(3);
+        leaderboard.Items.Select(e => e.UserName).Should().Equal("Bob", "Alice", "Carol");
+        leaderboard.Items.Select(e => e.Value).Should().Equal(40, 0, -10);
+        leaderboard.Items.Select(e => e.HandsPlayed).Should().Equal(2, 2, 2);
+    }
+
+    [Fact]
+    public async Task GetLeaderboardAsync_RanksBySingleHandWins()
+    {
+        await AddRoundAsync(
+            [Hand(_alice, 10, 20), Hand(_alice, 10, 40, handIndex: 1), Hand(_bob, 10, 0)]
+        );
+
+        var leaderboard = await _service.GetLeaderboardAsync(
+            new LeaderboardQuery { Metric = LeaderboardMetric.BiggestWin }
+        );
+
+        // Bob never won, so he is left off
+        leaderboard.Items.Should().ContainSingle();
+        leaderboard.Items[0].UserId.Should().Be(_alice);
+        leaderboard.Items[0].Value.Should().Be(30);
+    }
+
+    [Fact]
+    public async Task GetLeaderboardAsync_RanksByLongestWinStreak()
+    {
+        await AddRoundAsync([Hand(_alice, 10, 20), Hand(_bob, 10, 20)]);
+        await AddRoundAsync([Hand(_alice, 10, 10), Hand(_bob, 10, 0)]); // a push keeps Alice's streak going
+        await AddRoundAsync([Hand(_alice, 10, 20), Hand(_bob, 10, 20)]);
+        await AddRoundAsync([Hand(_alice, 10, 0), Hand(_bob, 10, 20)]);
+
+        var leaderboard = await _service.GetLeaderboardAsync(
+            new LeaderboardQuery { Metric = LeaderboardMetric.WinStreak }
+        );
+
+        // tied players share a rank
+        leaderboard.Items.Select(e => e.UserName).Should().Equal("Alice", "Bob");
+        leaderboard.Items.Select(e => e.Value).Should().Equal(2, 2);
+        leaderboard.Items.Select(e => e.Rank).Should().Equal(1, 1);
+    }
+
+    [Fact]
+    public async Task GetLeaderboardAsync_OnlyCountsRoundsInTheWindow()
+    {
+        await AddRoundAsync([Hand(_alice, 10, 100)], DateTimeOffset.UtcNow.AddDays(-3));
+        await AddRoundAsync([Hand(_bob, 10, 20)], DateTimeOffset.UtcNow.AddDays(-10));
+        await AddRoundAsync([Hand(_carol, 10, 20)]);
+
+        var daily = await _service.GetLeaderboardAsync(
+            new LeaderboardQuery { Window = LeaderboardWindow.Daily }
+        );
+        var weekly = await _service.GetLeaderboardAsync(
+            new LeaderboardQuery { Window = LeaderboardWindow.Weekly }
+        );
+        var allTime = await _service.GetLeaderboardAsync(
+            new LeaderboardQuery { Window = LeaderboardWindow.AllTime }
+        );
+
+        daily.Items.Select(e => e.UserId).Should().Equal(_carol);
+        weekly.Items.Select(e => e.UserId).Should().Equal(_alice, _carol);
+        allTime.Items.Select(e => e.UserId).Should().Equal(_alice, _bob, _carol);
+    }
+
+    [Fact]
+    public async Task GetLeaderboardAsync_ReturnsTheRequestedPage()
+    {
+        await AddRoundAsync([Hand(_alice, 10, 40), Hand(_bob, 10, 30), Hand(_carol, 10, 20)]);
+
+        var leaderboard = await _service.GetLeaderboardAsync(
+            new LeaderboardQuery { Page = 2, PageSize = 2 }
+        );
+
+        leaderboard.TotalCount.Should().Be(3);
+        leaderboard.Items.Should().ContainSingle();
+        leaderboard.Items[0].UserId.Should().Be(_carol);
+        leaderboard.Items[0].Rank.Should().Be(3);
+    }
+
+    [Fact]
+    public async Task GetLeaderboardAsync_CountsStreaksReachedInTheWindowInFull()
+    {
+        await AddRoundAsync([Hand(_alice, 10, 20)], DateTimeOffset.UtcNow.AddDays(-3));
+        await AddRoundAsync([Hand(_alice, 10, 20)]);
+        await AddRoundAsync([Hand(_bob, 10, 0)], DateTimeOffset.UtcNow.AddDays(-3));
+        await AddRoundAsync([Hand(_bob, 10, 20)]);
+
+        var leaderboard = await _service.GetLeaderboardAsync(
+            new LeaderboardQuery
+            {
+                Metric = LeaderboardMetric.WinStreak,
+                Window = LeaderboardWindow.Daily,
+            }
+        );
+
+        leaderboard.Items.Select(e => e.UserName).Should().Equal("Alice", "Bob");
+        leaderboard.Items.Select(e => e.Value).Should().Equal(2, 1);
+        leaderboard.Items.Select(e => e.HandsPlayed).Should().Equal(1, 1);
+    }
+
+    [Fact]
+    public async Task GetLeaderboardAsync_LeavesOutBots()
+    {
+        _context.Users.Add(
+            new User
+            {
+                Id = _bot,
+                Name = "Stand Bot 1",
+                Email = "bot@bots.invalid",
+            }
+        );
+        _context.RoomPlayers.Add(
+            new RoomPlayer
+            {
+                RoomId = _roomId,
+                UserId = _bot,
+                BotPolicy = BotPolicy.AlwaysStand,
+            }
+        );
+        await _context.SaveChangesAsync();
+
+        await AddRoundAsync([Hand(_alice, 10, 20), Hand(_bot, 10, 100)]);
+
+        var leaderboard = await _service.GetLeaderboardAsync(new LeaderboardQuery());
+
+        leaderboard.TotalCount.Should().Be(1);
+        leaderboard.Items.Select(e => e.UserId).Should().Equal(_alice);
+    }
+
+    [Fact]
+    public async Task GetLeaderboardAsync_SharesRanksWithThePageBefore()
+    {
+        await AddRoundAsync([Hand(_alice, 10, 40), Hand(_bob, 10, 30), Hand(_carol, 10, 30)]);
+
+        var leaderboard = await _service.GetLeaderboardAsync(
+            new LeaderboardQuery { Page = 2, PageSize = 2 }
+        );
+
+        leaderboard.Items.Should().ContainSingle();
+        leaderboard.Items[0].UserId.Should().Be(_carol);
+        leaderboard.Items[0].Rank.Should().Be(2);
+    }
+
+    [Theory]
+    [InlineData(0, 20)]
+    [InlineData(1, 0)]
+    [InlineData(1, LeaderboardService.MaxPageSize + 1)]
+    public async Task GetLeaderboardAsync_WithInvalidPage_ThrowsBadRequest(int page, int pageSize)
+    {
+        var act = () =>
+            _service.GetLeaderboardAsync(new LeaderboardQuery { Page = page, PageSize = pageSize });
+
+        await act.Should().ThrowAsync<BadRequestException>();
+    }
+}
@@ -0,0 +1,193 @@
+using FluentAssertions;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Models.Games;
+using Project.Api.Repositories.Interface;
+using Project.Api.Services;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+using Project.Test.Helpers;
+
+namespace Project.Test.Services;
+
+public class LobbyServiceTests
+{
+    private readonly Mock<IRoomRepository> _roomRepositoryMock = new();
+    private readonly Mock<IRoomSSEService> _roomSSEServiceMock = new();
+    private readonly LobbyService _service;
+
+    public LobbyServiceTests()
+    {
+        _service = new LobbyService(
+            _roomRepositoryMock.Object,
+            _roomSSEServiceMock.Object,
+            NullLogger<LobbyService>.Instance
+        );
+    }
+
+    private static Room CreateRoom(long minBet, int seated, int maxPlayers = 4, int ageMinutes = 0)
+    {
+        var room = RepositoryTestHelper.CreateTestRoom(maxPlayers: maxPlayers, gameMode: "Blackjack");
+        room.GameConfig = $"{{\"startingBalance\":1000,\"minBet\":{minBet}}}";
+        room.CreatedAt = DateTimeOffset.UtcNow.AddMinutes(-ageMinutes);
+        room.RoomPlayers =
+        [
+            .. Enumerable
+                .Range(0, seated)
+                .Select(_ => RepositoryTestHelper.CreateTestRoomPlayer(roomId: room.Id)),
+            RepositoryTestHelper.CreateTestRoomPlayer(roomId: room.Id, status: Status.Left),
+        ];
+        return room;
+    }
+
+    [Fact]
+    public async Task SearchRoomsAsync_FiltersSortsAndPages()
+    {
+        var cheap = CreateRoom(minBet: 5, seated: 1, ageMinutes: 3);
+        var busy = CreateRoom(minBet: 25, seated: 3, ageMinutes: 1);
+        var highRoller = CreateRoom(minBet: 500, seated: 0);
+        // the database already left out the full room and sorted the rest
+        _roomRepositoryMock
+            .Setup(r => r.SearchPublicRoomsAsync(null, true, RoomSortBy.Players, true, 0, null))
+            .ReturnsAsync([busy, cheap, highRoller]);
+
+        var result = await _service.SearchRoomsAsync(
+            new RoomSearchQuery
+            {
+                MinBetTo = 100,
+                HasFreeSeats = true,
+                SortBy = RoomSortBy.Players,
+                PageSize = 1,
+            }
+        );
+
+        result.TotalCount.Should().Be(2);
+        result.Items.Should().ContainSingle().Which.Id.Should().Be(busy.Id);
+        result.Items[0].PlayerCount.Should().Be(3); // players who left are not counted
+        result.Items[0].MinBet.Should().Be(25);
+
+        var secondPage = await _service.SearchRoomsAsync(
+            new RoomSearchQuery
+            {
+                MinBetTo = 100,
+                HasFreeSeats = true,
+                SortBy = RoomSortBy.Players,
+                PageSize = 1,
+                Page = 2,
+            }
+        );
+        secondPage.Items.Should().ContainSingle().Which.Id.Should().Be(cheap.Id);
+    }
+
+    [Fact]
+    public async Task SearchRoomsAsync_SortsByMinBet_NewestFirstAmongEquals()
+    {
+        var newer = CreateRoom(minBet: 10, seated: 1);
+        var cheap = CreateRoom(minBet: 5, seated: 1, ageMinutes: 1);
+        var older = CreateRoom(minBet: 10, seated: 1, ageMinutes: 2);
+        _roomRepositoryMock
+            .Setup(r => r.SearchPublicRoomsAsync(null, false, RoomSortBy.MinBet, false, 0, null))
+            .ReturnsAsync([newer, cheap, older]);
+
+        var result = await _service.SearchRoomsAsync(
+            new RoomSearchQuery { SortBy = RoomSortBy.MinBet, Descending = false }
+        );
+
+        result.Items.Select(r => r.Id).Should().Equal(cheap.Id, newer.Id, older.Id);
+    }
+
+    [Fact]
+    public async Task SearchRoomsAsync_LeavesPagingToTheDatabase_WithoutAMinBet()
+    {
+        var room = CreateRoom(minBet: 5, seated: 1);
+        _roomRepositoryMock
+            .Setup(r =>
+                r.SearchPublicRoomsAsync("Blackjack", false, RoomSortBy.CreatedAt, true, 20, 10)
+            )
+            .ReturnsAsync([room]);
+        _roomRepositoryMock
+            .Setup(r => r.CountPublicRoomsAsync("Blackjack", false))
+            .ReturnsAsync(21);
+
+        var result = await _service.SearchRoomsAsync(
+            new RoomSearchQuery
+            {
+                GameMode = "Blackjack",
+                Page = 3,
+                PageSize = 10,
+            }
+        );
+
+        result.TotalCount.Should().Be(21);
+        result.Items.Should().ContainSingle().Which.Id.Should().Be(room.Id);
+        _roomRepositoryMock.Verify(r => r.GetPublicRoomsAsync(), Times.Never);
+    }
+
+    [Theory]
+    [InlineData(0, 20)]
+    [InlineData(1, LobbyService.MaxPageSize + 1)]
+    public async Task SearchRoomsAsync_Throws_WhenPagingIsOutOfRange(int page, int pageSize)
+    {
+        var act = () =>
+            _service.SearchRoomsAsync(new RoomSearchQuery { Page = page, PageSize = pageSize });
+
+        await act.Should().ThrowAsync<BadRequestException>();
+    }
+
+    [Fact]
+    public async Task BroadcastRoomChangedAsync_SendsSummaryOfPublicRoom()
+    {
+        var room = CreateRoom(minBet: 10, seated: 2);
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(room.Id)).ReturnsAsync(room);
+
+        await _service.BroadcastRoomChangedAsync(room.Id, created: true);
+
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    LobbyService.LobbyChannelId,
+                    RoomEventType.RoomCreated,
+                    It.Is<LobbyRoomEventData>(e =>
+                        e.Room.Id == room.Id && e.Room.PlayerCount == 2 && e.Room.FreeSeats == 2
+                    )
+                ),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task BroadcastRoomChangedAsync_ClosesRoomsThatAreNoLongerListed()
+    {
+        var room = CreateRoom(minBet: 10, seated: 2);
+        room.IsPublic = false;
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(room.Id)).ReturnsAsync(room);
+
+        await _service.BroadcastRoomChangedAsync(room.Id);
+
+        _roomSSEServiceMock.Verify(
+            s =>
+                s.BroadcastEventAsync(
+                    LobbyService.LobbyChannelId,
+                    RoomEventType.RoomClosed,
+                    It.Is<RoomClosedEventData>(e => e.RoomId == room.Id)
+                ),
+            Times.Once
+        );
+        _roomSSEServiceMock.Verify(s => s.CloseRoom(It.IsAny<Guid>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task BroadcastRoomChangedAsync_ForgetsTheEventsOfClosedRooms()
+    {
+        var room = CreateRoom(minBet: 10, seated: 0);
+        room.IsActive = false;
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(room.Id)).ReturnsAsync(room);
+
+        await _service.BroadcastRoomChangedAsync(room.Id);
+
+        _roomSSEServiceMock.Verify(s => s.CloseRoom(room.Id), Times.Once);
+    }
+}
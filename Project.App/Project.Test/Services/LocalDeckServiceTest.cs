@@ -0,0 +1,166 @@
+using Microsoft.Extensions.Configuration;
+using Moq;
+using Project.Api.Services;
+using Project.Api.Utilities;
+
+namespace Project.Test.Services;
+
+public class LocalDeckServiceTest
+{
+    private static LocalDeckService CreateSeededService(int seed)
+    {
+        var configMock = new Mock<IConfiguration>();
+        configMock.Setup(c => c["DeckApiSettings:Seed"]).Returns(seed.ToString());
+        return new LocalDeckService(configMock.Object);
+    }
+
+    [Fact]
+    public async Task CreateDeck_ShouldShuffleAllDecksTogether()
+    {
+        // Arrange
+        var service = new LocalDeckService();
+        string deckId = await service.CreateDeck(2);
+
+        // Act
+        var cards = await service.DrawCards(deckId, "hand", 200);
+
+        // Assert
+        Assert.Equal(104, cards.Count);
+        Assert.All(cards.GroupBy(c => c.Code), group => Assert.Equal(2, group.Count()));
+        Assert.Empty(await service.DrawCards(deckId, "hand", 1));
+    }
+
+    [Fact]
+    public async Task CreateDeck_WithJokers_ShouldAddTwoJokers()
+    {
+        // Arrange
+        var service = new LocalDeckService();
+        string deckId = await service.CreateDeck(1, enableJokers: true);
+
+        // Act
+        var cards = await service.DrawCards(deckId, "hand", 60);
+
+        // Assert
+        Assert.Equal(54, cards.Count);
+        Assert.Equal(2, cards.Count(c => c.Value == "JOKER"));
+    }
+
+    [Fact]
+    public async Task CreateDeck_WithSameSeed_ShouldShuffleTheSame()
+    {
+        // Arrange
+        var first = CreateSeededService(42);
+        var second = CreateSeededService(42);
+
+        // Act
+        var firstCards = await first.DrawCards(await first.CreateDeck(), "hand", 20);
+        var secondCards = await second.DrawCards(await second.CreateDeck(), "hand", 20);
+
+        // Assert
+        Assert.Equal(firstCards.Select(c => c.Code), secondCards.Select(c => c.Code));
+    }
+
+    [Fact]
+    public async Task DrawCards_ShouldAddCardsToHand()
+    {
+        // Arrange
+        var service = new LocalDeckService();
+        string deckId = await service.CreateDeck(1);
+        await service.CreateEmptyHand(deckId, "dealer");
+
+        // Act
+        var drawn = await service.DrawCards(deckId, "dealer", 2);
+        var hand = await service.ListHand(deckId, "dealer");
+
+        // Assert
+        Assert.Equal(drawn.Select(c => c.Code), hand.Select(c => c.Code));
+        Assert.Empty(await service.ListHand(deckId, "someone-else"));
+    }
+
+    [Fact]
+    public async Task AddToHand_ShouldCreateCardsFromCodes()
+    {
+        // Arrange
+        var service = new LocalDeckService();
+        string deckId = await service.CreateDeck(1);
+
+        // Act
+        await service.AddToHand(deckId, "hand", "0H,AS");
+        var hand = await service.ListHand(deckId, "hand");
+
+        // Assert
+        Assert.Collection(
+            hand,
+            card =>
+            {
+                Assert.Equal("10", card.Value);
+                Assert.Equal("HEARTS", card.Suit);
+            },
+            card =>
+            {
+                Assert.Equal("ACE", card.Value);
+                Assert.Equal("SPADES", card.Suit);
+            }
+        );
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            service.AddToHand(deckId, "hand", "1Z")
+        );
+    }
+
+    [Fact]
+    public async Task RemoveFromHand_ShouldRemoveCards()
+    {
+        // Arrange
+        var service = new LocalDeckService();
+        string deckId = await service.CreateDeck(1);
+        await service.AddToHand(deckId, "hand", "0H,AS,0H");
+
+        // Act
+        await service.RemoveFromHand(deckId, "hand", "0H,AS");
+
+        // Assert
+        var hand = await service.ListHand(deckId, "hand");
+        Assert.Equal(new[] { "0H" }, hand.Select(c => c.Code));
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            service.RemoveFromHand(deckId, "hand", "AS")
+        );
+    }
+
+    [Fact]
+    public async Task ReturnAllCardsToDeck_ShouldEmptyHandsAndRefillDeck()
+    {
+        // Arrange
+        var service = new LocalDeckService();
+        string deckId = await service.CreateDeck(1);
+        await service.DrawCards(deckId, "hand", 52);
+
+        // Act
+        await service.ReturnAllCardsToDeck(deckId);
+
+        // Assert
+        Assert.Empty(await service.ListHand(deckId, "hand"));
+        Assert.Equal(52, (await service.DrawCards(deckId, "hand", 52)).Count);
+    }
+
+    [Fact]
+    public async Task DeckExists_ShouldOnlyFindCreatedDecks()
+    {
+        // Arrange
+        var service = new LocalDeckService();
+        string deckId = await service.CreateDeck(1);
+
+        // Act & Assert
+        Assert.True(await service.DeckExists(deckId));
+        Assert.False(await service.DeckExists("missing"));
+    }
+
+    [Fact]
+    public async Task UnknownDeck_ShouldThrowNotFoundException()
+    {
+        // Arrange
+        var service = new LocalDeckService();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<NotFoundException>(() => service.ListHand("missing", "hand"));
+    }
+}
@@ -0,0 +1,203 @@
+using System.Text.Json;
+using FluentAssertions;
+using Project.Api.Data;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Repositories;
+using Project.Api.Services;
+using Project.Api.Utilities;
+using Project.Test.Helpers;
+
+namespace Project.Test.Services;
+
+public class PlayerStatsServiceTests : IDisposable
+{
+    private static readonly JsonSerializerOptions EventJsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+    };
+
+    private readonly AppDbContext _context = RepositoryTestHelper.CreateInMemoryContext();
+    private readonly PlayerStatsService _service;
+
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly Guid _otherUserId = Guid.NewGuid();
+    private readonly Guid _roomId = Guid.NewGuid();
+    private int _roundNumber;
+
+    public PlayerStatsServiceTests()
+    {
+        _service = new PlayerStatsService(
+            new RoundRecordRepository(_context),
+            new UserRepository(_context)
+        );
+
+        _context.Users.Add(RepositoryTestHelper.CreateTestUser(_userId));
+        _context.Users.Add(RepositoryTestHelper.CreateTestUser(_otherUserId));
+        _context.Rooms.Add(RepositoryTestHelper.CreateTestRoom(_roomId, _userId));
+        _context.RoomPlayers.Add(
+            RepositoryTestHelper.CreateTestRoomPlayer(roomId: _roomId, userId: _userId)
+        );
+        _context.RoomPlayers.Add(
+            RepositoryTestHelper.CreateTestRoomPlayer(roomId: _roomId, userId: _otherUserId)
+        );
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private static RoundHandDTO Hand(
+        Guid playerId,
+        long bet,
+        long payout,
+        int score,
+        int cardCount = 2,
+        int handIndex = 0
+    ) =>
+        new()
+        {
+            PlayerId = playerId,
+            HandIndex = handIndex,
+            Bet = bet,
+            Payout = payout,
+            Score = score,
+            Cards = [.. Enumerable.Range(0, cardCount).Select(_ => new CardDTO())],
+        };
+
+    private static RoundEventDTO Action(
+        Guid playerId,
+        string action,
+        long amount = 0,
+        bool success = true
+    ) =>
+        new()
+        {
+            Event = "player_action",
+            Data = JsonSerializer.SerializeToElement(
+                new
+                {
+                    playerId,
+                    handIndex = 0,
+                    action,
+                    amount,
+                    success,
+                },
+                EventJsonOptions
+            ),
+        };
+
+    private void AddRound(List<RoundHandDTO> hands, params RoundEventDTO[] events)
+    {
+        _roundNumber++;
+        _context.RoundRecords.Add(
+            new RoundRecord
+            {
+                Id = Guid.NewGuid(),
+                RoomId = _roomId,
+                RoundNumber = _roundNumber,
+                FinishedAt = DateTimeOffset.UtcNow.AddMinutes(_roundNumber),
+                Hands = JsonSerializer.Serialize(hands),
+                Events = JsonSerializer.Serialize(events.ToList()),
+            }
+        );
+        _context.SaveChanges();
+    }
+
+    [Fact]
+    public async Task GetStatsAsync_CountsOutcomesOfTheUsersHands()
+    {
+        AddRound([Hand(_userId, 10, 25, 21), Hand(_otherUserId, 10, 0, 18)]); // blackjack
+        AddRound([Hand(_userId, 10, 10, 19)]); // push
+        AddRound([Hand(_userId, 10, 0, 24, cardCount: 3)]); // bust
+
+        var stats = await _service.GetStatsAsync(_userId);
+
+        stats.RoundsPlayed.Should().Be(3);
+        stats.HandsPlayed.Should().Be(3);
+        stats.Wins.Should().Be(1);
+        stats.Pushes.Should().Be(1);
+        stats.Losses.Should().Be(1);
+        stats.Blackjacks.Should().Be(1);
+        stats.Busts.Should().Be(1);
+        stats.WinRate.Should().BeApproximately(1 / 3.0, 0.0001);
+        stats.TotalBet.Should().Be(30);
+        stats.NetWinnings.Should().Be(5);
+        stats.BiggestWin.Should().Be(15);
+        stats.Bankroll.Select(p => p.Total).Should().Equal(15, 15, 5);
+    }
+
+    [Fact]
+    public async Task GetStatsAsync_CountsActionsFromTheRoundsEvents()
+    {
+        AddRound(
+            [Hand(_userId, 20, 40, 20, cardCount: 3)],
+            Action(_userId, "double", 20),
+            Action(_otherUserId, "split", 10)
+        );
+        AddRound(
+            [Hand(_userId, 10, 0, 16)],
+            Action(_userId, "surrender", 5),
+            Action(_userId, "split", success: false)
+        );
+
+        var stats = await _service.GetStatsAsync(_userId);
+
+        stats.Doubles.Should().Be(1);
+        stats.Splits.Should().Be(0);
+        stats.Surrenders.Should().Be(1);
+        stats.Losses.Should().Be(1);
+        stats.NetWinnings.Should().Be(20 - 5); // the surrender refunded half the bet
+    }
+
+    [Fact]
+    public async Task GetStatsAsync_SurrenderedHandsOnlyGetTheRefund()
+    {
+        // a surrendered 19 recorded with a payout, as rounds were before it sat out the payout
+        AddRound([Hand(_userId, 10, 20, 19)], Action(_userId, "surrender", 5));
+
+        var stats = await _service.GetStatsAsync(_userId);
+
+        stats.Losses.Should().Be(1);
+        stats.NetWinnings.Should().Be(-5);
+        stats.BiggestWin.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task GetStatsAsync_SplitHandsAreNotBlackjacks()
+    {
+        AddRound([Hand(_userId, 10, 20, 21), Hand(_userId, 10, 0, 22, handIndex: 1)]);
+
+        var stats = await _service.GetStatsAsync(_userId);
+
+        stats.RoundsPlayed.Should().Be(1);
+        stats.HandsPlayed.Should().Be(2);
+        stats.Blackjacks.Should().Be(0);
+        stats.BiggestWin.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task GetStatsAsync_ReturnsEmptyStats_WhenUserHasNotPlayed()
+    {
+        var userId = Guid.NewGuid();
+        _context.Users.Add(RepositoryTestHelper.CreateTestUser(userId));
+        _context.SaveChanges();
+        AddRound([Hand(_userId, 10, 20, 20)]);
+
+        var stats = await _service.GetStatsAsync(userId);
+
+        stats.HandsPlayed.Should().Be(0);
+        stats.WinRate.Should().Be(0);
+        stats.Bankroll.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task GetStatsAsync_Throws_WhenUserDoesNotExist()
+    {
+        var act = () => _service.GetStatsAsync(Guid.NewGuid());
+
+        await act.Should().ThrowAsync<NotFoundException>();
+    }
+}
@@ -0,0 +1,201 @@
+using FluentAssertions;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Project.Api.Data;
+using Project.Api.DTOs;
+using Project.Api.Repositories;
+using Project.Api.Services;
+using Project.Api.Services.Interface;
+using Project.Api.Utilities;
+using Project.Api.Utilities.Enums;
+using Project.Test.Helpers;
+
+namespace Project.Test.Services;
+
+public class RoomInviteServiceTests : IDisposable
+{
+    private readonly AppDbContext _context = RepositoryTestHelper.CreateInMemoryContext();
+    private readonly Mock<IRoomService> _roomServiceMock = new();
+    private readonly RoomInviteService _service;
+
+    private readonly Guid _hostId = Guid.NewGuid();
+    private readonly Guid _roomId = Guid.NewGuid();
+
+    public RoomInviteServiceTests()
+    {
+        _service = new RoomInviteService(
+            new RoomInviteRepository(_context),
+            new RoomRepository(_context),
+            new RoomPlayerRepository(_context),
+            _roomServiceMock.Object,
+            NullLogger<RoomInviteService>.Instance
+        );
+
+        _context.Users.Add(RepositoryTestHelper.CreateTestUser(_hostId));
+        _context.Rooms.Add(
+            RepositoryTestHelper.CreateTestRoom(_roomId, _hostId, isPublic: false)
+        );
+        _context.SaveChanges();
+
+        _roomServiceMock
+            .Setup(s => s.JoinRoomAsync(_roomId, It.IsAny<Guid>()))
+            .ReturnsAsync(new RoomDTO { Id = _roomId });
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    [Fact]
+    public async Task CreateInviteAsync_GeneratesReadableCode()
+    {
+        var invite = await _service.CreateInviteAsync(_roomId, _hostId, new CreateRoomInviteDTO());
+
+        invite.Code.Should().HaveLength(RoomInviteService.CodeLength);
+        invite.Code.Should().MatchRegex("^[A-HJ-NP-Z2-9]+$");
+        invite.RoomId.Should().Be(_roomId);
+        invite.ExpiresAt.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task CreateInviteAsync_Throws_WhenNotHost()
+    {
+        var act = () =>
+            _service.CreateInviteAsync(_roomId, Guid.NewGuid(), new CreateRoomInviteDTO());
+
+        await act.Should().ThrowAsync<ForbiddenException>();
+    }
+
+    [Fact]
+    public async Task JoinWithInviteAsync_AcceptsCodeInAnyCase()
+    {
+        var invite = await _service.CreateInviteAsync(_roomId, _hostId, new CreateRoomInviteDTO());
+        var userId = Guid.NewGuid();
+
+        var room = await _service.JoinWithInviteAsync(
+            $" {invite.Code[..4].ToLowerInvariant()}-{invite.Code[4..]} ",
+            userId
+        );
+
+        room.Id.Should().Be(_roomId);
+        _roomServiceMock.Verify(s => s.JoinRoomAsync(_roomId, userId), Times.Once);
+        (await _service.ResolveInviteAsync(invite.Code)).Uses.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task JoinWithInviteAsync_Throws_WhenUsedUp()
+    {
+        var invite = await _service.CreateInviteAsync(
+            _roomId,
+            _hostId,
+            new CreateRoomInviteDTO { MaxUses = 1 }
+        );
+        await _service.JoinWithInviteAsync(invite.Code, Guid.NewGuid());
+
+        var act = () => _service.JoinWithInviteAsync(invite.Code, Guid.NewGuid());
+
+        await act.Should().ThrowAsync<BadRequestException>().WithMessage("*used up*");
+    }
+
+    [Fact]
+    public async Task JoinWithInviteAsync_DoesNotCountRejoiningPlayers()
+    {
+        var invite = await _service.CreateInviteAsync(
+            _roomId,
+            _hostId,
+            new CreateRoomInviteDTO { MaxUses = 1 }
+        );
+        var player = RepositoryTestHelper.CreateTestRoomPlayer(
+            roomId: _roomId,
+            status: Status.Away
+        );
+        _roomServiceMock
+            .Setup(s => s.GetRoomByIdAsync(_roomId))
+            .ReturnsAsync(new RoomDTO { Id = _roomId });
+        _context.RoomPlayers.Add(player);
+        await _context.SaveChangesAsync();
+
+        await _service.JoinWithInviteAsync(invite.Code, player.UserId);
+
+        (await _service.ResolveInviteAsync(invite.Code)).Uses.Should().Be(0);
+        _roomServiceMock.Verify(
+            s => s.JoinRoomAsync(It.IsAny<Guid>(), It.IsAny<Guid>()),
+            Times.Never
+        );
+    }
+
+    [Fact]
+    public async Task JoinWithInviteAsync_GivesUseBack_WhenJoinFails()
+    {
+        var invite = await _service.CreateInviteAsync(
+            _roomId,
+            _hostId,
+            new CreateRoomInviteDTO { MaxUses = 1 }
+        );
+        var userId = Guid.NewGuid();
+        _roomServiceMock
+            .Setup(s => s.JoinRoomAsync(_roomId, userId))
+            .ThrowsAsync(new BadRequestException("Room is full."));
+
+        var act = () => _service.JoinWithInviteAsync(invite.Code, userId);
+
+        await act.Should().ThrowAsync<BadRequestException>();
+        (await _service.ResolveInviteAsync(invite.Code)).Uses.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task RotateInviteAsync_ReplacesCodeAndKeepsRemainingUses()
+    {
+        var invite = await _service.CreateInviteAsync(
+            _roomId,
+            _hostId,
+            new CreateRoomInviteDTO { MaxUses = 3, ExpiresInMinutes = 60 }
+        );
+        await _service.JoinWithInviteAsync(invite.Code, Guid.NewGuid());
+
+        var rotated = await _service.RotateInviteAsync(invite.Code, _hostId);
+
+        rotated.Code.Should().NotBe(invite.Code);
+        rotated.MaxUses.Should().Be(2);
+        rotated.ExpiresAt.Should().Be(invite.ExpiresAt);
+        await _service
+            .Invoking(s => s.ResolveInviteAsync(invite.Code))
+            .Should()
+            .ThrowAsync<NotFoundException>();
+        (await _service.GetInvitesAsync(_roomId, _hostId))
+            .Select(i => i.Code)
+            .Should()
+            .Equal(rotated.Code);
+    }
+
+    [Fact]
+    public async Task RevokeInviteAsync_StopsCodeFromWorking()
+    {
+        var invite = await _service.CreateInviteAsync(_roomId, _hostId, new CreateRoomInviteDTO());
+
+        await _service.RevokeInviteAsync(invite.Code, _hostId);
+
+        var act = () => _service.JoinWithInviteAsync(invite.Code, Guid.NewGuid());
+        await act.Should().ThrowAsync<NotFoundException>();
+    }
+
+    [Theory]
+    [InlineData(0, null)]
+    [InlineData(null, 0)]
+    [InlineData(RoomInviteService.MaxExpiresInMinutes + 1, null)]
+    public async Task CreateInviteAsync_Throws_WhenLimitsAreOutOfRange(
+        int? expiresInMinutes,
+        int? maxUses
+    )
+    {
+        var act = () =>
+            _service.CreateInviteAsync(
+                _roomId,
+                _hostId,
+                new CreateRoomInviteDTO { ExpiresInMinutes = expiresInMinutes, MaxUses = maxUses }
+            );
+
+        await act.Should().ThrowAsync<BadRequestException>();
+    }
+}
@@ -0,0 +1,77 @@
+using Project.Api.Services;
+
+namespace Project.Test.Services;
+
+public class RoomLockServiceTests
+{
+    private readonly RoomLockService _service = new();
+
+    [Fact]
+    public async Task LockAsync_Waits_UntilTheRoomIsReleased()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        IDisposable first = await _service.LockAsync(roomId);
+
+        // Act
+        var second = _service.LockAsync(roomId);
+        await Task.Delay(50);
+
+        // Assert
+        Assert.False(second.IsCompleted);
+
+        first.Dispose();
+        (await second).Dispose();
+    }
+
+    [Fact]
+    public async Task LockAsync_DoesNotWait_ForOtherRooms()
+    {
+        // Arrange
+        using IDisposable first = await _service.LockAsync(Guid.NewGuid());
+
+        // Act
+        var other = _service.LockAsync(Guid.NewGuid());
+
+        // Assert
+        Assert.True(other.IsCompleted);
+        (await other).Dispose();
+    }
+
+    [Fact]
+    public async Task LockAsync_LetsOneWaiterIn_WhenTheHandleIsDisposedTwice()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        IDisposable first = await _service.LockAsync(roomId);
+        var second = _service.LockAsync(roomId);
+        var third = _service.LockAsync(roomId);
+
+        // Act
+        first.Dispose();
+        first.Dispose();
+        await Task.Delay(50);
+
+        // Assert
+        Assert.True(second.IsCompleted);
+        Assert.False(third.IsCompleted);
+
+        (await second).Dispose();
+        (await third).Dispose();
+    }
+
+    [Fact]
+    public async Task LockAsync_CanBeTakenAgain_AfterEveryoneReleasedIt()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        (await _service.LockAsync(roomId)).Dispose();
+
+        // Act
+        var again = _service.LockAsync(roomId);
+
+        // Assert
+        Assert.True(again.IsCompleted);
+        (await again).Dispose();
+    }
+}
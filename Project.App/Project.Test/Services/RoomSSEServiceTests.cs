@@ -2,6 +2,7 @@ using System.Text;
 using System.Text.Json;
 using Microsoft.AspNetCore.Http;
 using Microsoft.Extensions.Logging.Abstractions;
+using Project.Api.DTOs;
 using Project.Api.Models.Games; // Add this using directive for IRoomEventData and concrete types
 using Project.Api.Services;
 using Project.Api.Utilities.Enums;
@@ -90,10 +91,11 @@ public class RoomSSEServiceTests
             PlayerName = "John Doe",
         };
         var expectedPayload =
-            $"event: {eventType.ToString().ToSnakeCase()}\ndata: {JsonSerializer.Serialize(eventData, _jsonOptions)}\n\n";
+            $"id: 1\nevent: {eventType.ToString().ToSnakeCase()}\ndata: {JsonSerializer.Serialize(eventData, _jsonOptions)}\n\n";
 
         // Act
         await sseService.BroadcastEventAsync(roomId1, eventType, eventData);
+        await Task.Delay(100); // Allow the event to be written
 
         // Assert: Verify clients in room 1 received the event
         stream1.Position = 0;
@@ -143,10 +145,11 @@ public class RoomSSEServiceTests
         var eventType1 = RoomEventType.Chat;
         var eventData1 = new ChatEventData { Sender = "Test", Content = "Hello" };
         var expectedPayload1 =
-            $"event: {eventType1.ToString().ToSnakeCase()}\ndata: {JsonSerializer.Serialize(eventData1, _jsonOptions)}\n\n";
+            $"id: 1\nevent: {eventType1.ToString().ToSnakeCase()}\ndata: {JsonSerializer.Serialize(eventData1, _jsonOptions)}\n\n";
 
         // Act: first broadcast
         await sseService.BroadcastEventAsync(roomId, eventType1, eventData1);
+        await Task.Delay(100); // Allow the event to be written
 
         // Assert: The open connection (stream1) received the event
         // Reset position to 0, then read all content
@@ -166,8 +169,9 @@ public class RoomSSEServiceTests
         var eventType2 = RoomEventType.Chat;
         var eventData2 = new ChatEventData { Sender = "Test", Content = "Still here?" };
         var expectedPayload2 =
-            $"event: {eventType2.ToString().ToSnakeCase()}\ndata: {JsonSerializer.Serialize(eventData2, _jsonOptions)}\n\n";
+            $"id: 2\nevent: {eventType2.ToString().ToSnakeCase()}\ndata: {JsonSerializer.Serialize(eventData2, _jsonOptions)}\n\n";
         await sseService.BroadcastEventAsync(roomId, eventType2, eventData2);
+        await Task.Delay(100);
 
         // Assert: only the open connection receives the second event
         // Set position to the book-marked point so we only read the newly written part
@@ -184,6 +188,55 @@ public class RoomSSEServiceTests
         await Task.WhenAll(task1, task2);
     }
 
+    [Fact]
+    public async Task AddConnectionAsync_ShouldAnnounceEachViewerOnce()
+    {
+        // Arrange
+        var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
+        var roomId = Guid.NewGuid();
+        var viewer = new RoomViewerDTO { UserId = Guid.NewGuid(), UserName = "Alice" };
+
+        var (anonymousContext, anonymousCts, anonymousStream) = CreateTestContext();
+        var (context1, cts1, _) = CreateTestContext();
+        var (context2, cts2, _) = CreateTestContext();
+
+        var anonymousTask = sseService.AddConnectionAsync(roomId, anonymousContext.Response);
+        await Task.Delay(100);
+
+        // Act: the same user opens the room twice
+        var task1 = sseService.AddConnectionAsync(roomId, context1.Response, viewer: viewer);
+        var task2 = sseService.AddConnectionAsync(roomId, context2.Response, viewer: viewer);
+        await Task.Delay(100);
+
+        // Assert
+        Assert.Equal(viewer, Assert.Single(sseService.GetViewers(roomId)));
+
+        // Act: one tab closes, then the other
+        cts1.Cancel();
+        await task1;
+        Assert.Equal(viewer, Assert.Single(sseService.GetViewers(roomId)));
+
+        cts2.Cancel();
+        await task2;
+        Assert.Empty(sseService.GetViewers(roomId));
+        await Task.Delay(100); // Allow the events to be written
+
+        // Assert: the anonymous viewer heard about one join and one leave
+        anonymousStream.Position = 0;
+        using var reader = new StreamReader(anonymousStream, Encoding.UTF8, leaveOpen: true);
+        string content = await reader.ReadToEndAsync();
+        Assert.Equal(1, CountOccurrences(content, "event: viewer_join\n"));
+        Assert.Equal(1, CountOccurrences(content, "event: viewer_leave\n"));
+        Assert.Contains("\"userName\":\"Alice\"", content);
+
+        // Clean up
+        anonymousCts.Cancel();
+        await anonymousTask;
+    }
+
+    private static int CountOccurrences(string text, string value) =>
+        (text.Length - text.Replace(value, string.Empty).Length) / value.Length;
+
     [Fact]
     public async Task BroadcastEventAsync_ShouldDoNothingForRoomWithNoConnections()
     {
@@ -203,4 +256,271 @@ public class RoomSSEServiceTests
         // Assert
         Assert.Null(exception);
     }
+
+    [Fact]
+    public async Task TakeGameEvents_ShouldReturnGameEventsSinceLastCall()
+    {
+        // Arrange
+        var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+
+        await sseService.BroadcastEventAsync(
+            roomId,
+            RoomEventType.PlayerAction,
+            new PlayerActionEventData { PlayerId = playerId, Action = "bet" }
+        );
+        sseService.TakeGameEvents(roomId);
+        await sseService.BroadcastEventAsync(
+            roomId,
+            RoomEventType.Chat,
+            new ChatEventData { Sender = "Test", Content = "not part of the game" }
+        );
+        await sseService.BroadcastEventAsync(
+            roomId,
+            RoomEventType.PlayerAction,
+            new PlayerActionEventData { PlayerId = playerId, Action = "stand" }
+        );
+
+        // Act
+        var events = sseService.TakeGameEvents(roomId).ToList();
+
+        // Assert: only the stand, with the id and camelCase data it was broadcast with
+        var gameEvent = Assert.Single(events);
+        Assert.Equal(3, gameEvent.Id);
+        Assert.Equal("player_action", gameEvent.Event);
+        Assert.Equal("stand", gameEvent.Data.GetProperty("action").GetString());
+        Assert.Empty(sseService.TakeGameEvents(roomId));
+        Assert.Empty(sseService.TakeGameEvents(Guid.NewGuid()));
+    }
+
+    [Fact]
+    public async Task AddConnectionAsync_ShouldReplayEventsMissedSinceLastEventId()
+    {
+        // Arrange
+        var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
+        var roomId = Guid.NewGuid();
+        var (context, cts, stream) = CreateTestContext();
+
+        var eventData1 = new ChatEventData { Sender = "Test", Content = "seen" };
+        var eventData2 = new ChatEventData { Sender = "Test", Content = "missed" };
+        await sseService.BroadcastEventAsync(roomId, RoomEventType.Chat, eventData1);
+        await sseService.BroadcastEventAsync(roomId, RoomEventType.Chat, eventData2);
+
+        var expectedPayload =
+            $"id: 2\nevent: chat\ndata: {JsonSerializer.Serialize(eventData2, _jsonOptions)}\n\n";
+
+        // Act: reconnect after having seen the first event
+        var task = sseService.AddConnectionAsync(roomId, context.Response, lastEventId: 1);
+        await Task.Delay(100);
+
+        // Assert: only the missed event is replayed
+        stream.Position = 0;
+        using var reader = new StreamReader(stream, Encoding.UTF8, leaveOpen: true);
+        await reader.ReadLineAsync(); // Skip ": connected"
+        var payload = await reader.ReadToEndAsync();
+        Assert.Equal(expectedPayload, payload);
+
+        // Clean up
+        cts.Cancel();
+        await task;
+    }
+
+    [Fact]
+    public async Task AddConnectionAsync_ShouldRequestResyncWhenEventsAreNoLongerBuffered()
+    {
+        // Arrange
+        var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
+        var roomId = Guid.NewGuid();
+        var (context, cts, stream) = CreateTestContext();
+
+        int eventCount = RoomSSEService.ReplayBufferCapacity + 2;
+        for (int i = 0; i < eventCount; i++)
+        {
+            await sseService.BroadcastEventAsync(
+                roomId,
+                RoomEventType.Chat,
+                new ChatEventData { Sender = "Test", Content = $"message {i}" }
+            );
+        }
+
+        var expectedPayload =
+            $"id: {eventCount}\nevent: resync\ndata: {{\"lastEventId\":{eventCount}}}\n\n";
+
+        // Act: reconnect after having seen only the first event
+        var task = sseService.AddConnectionAsync(roomId, context.Response, lastEventId: 1);
+        await Task.Delay(100);
+
+        // Assert
+        stream.Position = 0;
+        using var reader = new StreamReader(stream, Encoding.UTF8, leaveOpen: true);
+        await reader.ReadLineAsync(); // Skip ": connected"
+        var payload = await reader.ReadToEndAsync();
+        Assert.Equal(expectedPayload, payload);
+
+        // Clean up
+        cts.Cancel();
+        await task;
+    }
+
+    [Fact]
+    public async Task AddConnectionAsync_ShouldRequestResyncForUnknownEventId()
+    {
+        // Arrange: a fresh service, as if the server restarted
+        var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
+        var roomId = Guid.NewGuid();
+        var (context, cts, stream) = CreateTestContext();
+
+        // Act
+        var task = sseService.AddConnectionAsync(roomId, context.Response, lastEventId: 42);
+        await Task.Delay(100);
+
+        // Assert
+        stream.Position = 0;
+        using var reader = new StreamReader(stream, Encoding.UTF8, leaveOpen: true);
+        await reader.ReadLineAsync(); // Skip ": connected"
+        var payload = await reader.ReadToEndAsync();
+        Assert.Equal("id: 0\nevent: resync\ndata: {\"lastEventId\":0}\n\n", payload);
+
+        // Clean up
+        cts.Cancel();
+        await task;
+    }
+
+    [Fact]
+    public async Task BroadcastEventAsync_ShouldDeliverConcurrentEventsInIdOrder()
+    {
+        // Arrange
+        var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
+        var roomId = Guid.NewGuid();
+        var (context, cts, stream) = CreateTestContext();
+        var task = sseService.AddConnectionAsync(roomId, context.Response);
+        await Task.Delay(100);
+
+        // Act: broadcast from many threads at once, like players and bots acting together
+        await Task.WhenAll(
+            Enumerable
+                .Range(0, 50)
+                .Select(i =>
+                    Task.Run(() =>
+                        sseService.BroadcastEventAsync(
+                            roomId,
+                            RoomEventType.Chat,
+                            new ChatEventData { Sender = "Test", Content = $"message {i}" }
+                        )
+                    )
+                )
+        );
+        await Task.Delay(100); // Allow the events to be written
+
+        // Assert
+        stream.Position = 0;
+        using var reader = new StreamReader(stream, Encoding.UTF8, leaveOpen: true);
+        var ids = (await reader.ReadToEndAsync())
+            .Split('\n')
+            .Where(line => line.StartsWith("id: "))
+            .Select(line => long.Parse(line["id: ".Length..]))
+            .ToList();
+        Assert.Equal(Enumerable.Range(1, 50).Select(i => (long)i), ids);
+
+        // Clean up
+        cts.Cancel();
+        await task;
+    }
+
+    [Fact]
+    public async Task BroadcastEventAsync_ShouldNotWaitForClientsThatStopReading()
+    {
+        // Arrange
+        var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
+        var roomId = Guid.NewGuid();
+        var (context, cts, stream) = CreateTestContext();
+        var (stalledContext, stalledCts, _) = CreateTestContext();
+        stalledContext.Response.Body = new StalledStream();
+
+        var task = sseService.AddConnectionAsync(roomId, context.Response);
+        var stalledTask = sseService.AddConnectionAsync(roomId, stalledContext.Response);
+        await Task.Delay(100);
+
+        // Act: more events than the stalled client can have waiting
+        int eventCount = RoomSSEService.ConnectionQueueCapacity + 1;
+        Task broadcasts = Task.WhenAll(
+            Enumerable
+                .Range(0, eventCount)
+                .Select(i =>
+                    sseService.BroadcastEventAsync(
+                        roomId,
+                        RoomEventType.Chat,
+                        new ChatEventData { Sender = "Test", Content = $"message {i}" }
+                    )
+                )
+        );
+
+        // Assert: broadcasting went on, and the stalled client was dropped
+        await broadcasts.WaitAsync(TimeSpan.FromSeconds(5));
+        await stalledTask.WaitAsync(TimeSpan.FromSeconds(5));
+        await Task.Delay(100); // Allow the events to be written
+
+        string content = Encoding.UTF8.GetString(stream.ToArray());
+        Assert.Equal(eventCount, CountOccurrences(content, "event: chat\n"));
+
+        // Clean up
+        cts.Cancel();
+        stalledCts.Cancel();
+        await task;
+    }
+
+    /// <summary>
+    /// A response body whose client never reads, so writes to it never finish.
+    /// </summary>
+    private sealed class StalledStream : MemoryStream
+    {
+        public override async ValueTask WriteAsync(
+            ReadOnlyMemory<byte> buffer,
+            CancellationToken cancellationToken = default
+        ) => await Task.Delay(Timeout.Infinite, cancellationToken);
+
+        public override Task WriteAsync(
+            byte[] buffer,
+            int offset,
+            int count,
+            CancellationToken cancellationToken
+        ) => Task.Delay(Timeout.Infinite, cancellationToken);
+
+        public override Task FlushAsync(CancellationToken cancellationToken) =>
+            Task.Delay(Timeout.Infinite, cancellationToken);
+    }
+
+    [Fact]
+    public async Task CloseRoom_ShouldForgetTheEventsOfTheRoom()
+    {
+        // Arrange
+        var sseService = new RoomSSEService(NullLogger<RoomSSEService>.Instance);
+        var roomId = Guid.NewGuid();
+        var (context, cts, stream) = CreateTestContext();
+        await sseService.BroadcastEventAsync(
+            roomId,
+            RoomEventType.PlayerAction,
+            new PlayerActionEventData { PlayerId = Guid.NewGuid(), Action = "bet" }
+        );
+
+        // Act
+        sseService.CloseRoom(roomId);
+
+        // Assert: nothing left to take or to replay
+        Assert.Empty(sseService.TakeGameEvents(roomId));
+
+        var task = sseService.AddConnectionAsync(roomId, context.Response, lastEventId: 1);
+        await Task.Delay(100);
+
+        stream.Position = 0;
+        using var reader = new StreamReader(stream, Encoding.UTF8, leaveOpen: true);
+        await reader.ReadLineAsync(); // Skip ": connected"
+        var payload = await reader.ReadToEndAsync();
+        Assert.Equal("id: 0\nevent: resync\ndata: {\"lastEventId\":0}\n\n", payload);
+
+        // Clean up
+        cts.Cancel();
+        await task;
+    }
 }
@@ -2,6 +2,7 @@ using System.Text.Json;
 using FluentAssertions;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Logging.Abstractions;
 using Moq;
 using Project.Api.Data;
 using Project.Api.DTOs;
@@ -26,6 +27,10 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
     private readonly Mock<IGameService<IGameState, GameConfig>> _mockBlackjackGameService;
     private readonly List<IGameService<IGameState, GameConfig>> _mockGameServices; // Collection for RoomService
     private readonly Mock<ILogger<RoomService>> _loggerMock;
+    private readonly Mock<ILobbyService> _lobbyServiceMock = new();
+    private readonly IdempotencyService _idempotencyService = new(
+        NullLogger<IdempotencyService>.Instance
+    );
     private readonly AppDbContext _dbContext; // Real in-memory DbContext for transaction tests
     private readonly RoomService _roomService;
 
@@ -65,7 +70,8 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
                     It.IsAny<Guid>(),
                     It.IsAny<Guid>(),
                     It.IsAny<string>(),
-                    It.IsAny<JsonElement>()
+                    It.IsAny<JsonElement>(),
+                    It.IsAny<string?>()
                 )
             )
             .Returns(Task.CompletedTask);
@@ -91,6 +97,9 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
             _roomPlayerRepositoryMock.Object,
             _dbContext, // Pass the real in-memory DbContext
             _mockGameServices, // Pass the collection of game services
+            _idempotencyService,
+            new RoomLockService(),
+            _lobbyServiceMock.Object,
             _loggerMock.Object
         );
     }
@@ -337,6 +346,8 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
         capturedRoom.GameMode.Should().Be(createDto.GameMode);
         capturedRoom.IsActive.Should().BeTrue();
         capturedRoom.CreatedAt.Should().BeCloseTo(DateTime.UtcNow, TimeSpan.FromSeconds(5));
+
+        _lobbyServiceMock.Verify(l => l.BroadcastRoomChangedAsync(capturedRoom.Id, true), Times.Once);
     }
 
     [Fact]
@@ -408,6 +419,27 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
         _roomRepositoryMock.Verify(r => r.CreateAsync(It.IsAny<Room>()), Times.Never);
     }
 
+    [Fact]
+    public async Task CreateRoomAsync_ThrowsBadRequestException_WhenConfigIsInvalid()
+    {
+        // Arrange
+        var createDto = new CreateRoomDTO
+        {
+            HostId = Guid.NewGuid(),
+            IsPublic = true,
+            GameMode = GameModes.Blackjack,
+            GameConfig = """{"deckCount": 0}""", // Invalid - the shoe needs a deck
+            MaxPlayers = 6,
+            MinPlayers = 1,
+        };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _roomService.CreateRoomAsync(createDto)
+        );
+        _roomRepositoryMock.Verify(r => r.CreateAsync(It.IsAny<Room>()), Times.Never);
+    }
+
     [Fact]
     public async Task CreateRoomAsync_ThrowsBadRequestException_WhenGameModeIsEmpty()
     {
@@ -933,6 +965,90 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
         _roomRepositoryMock.Verify(r => r.GetByIdAsync(roomId), Times.Exactly(2));
     }
 
+    [Fact]
+    public async Task StartGameAsync_ReadsCamelCaseConfig_FromTheCreateGameForm()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var room = new Room
+        {
+            Id = roomId,
+            GameState = "{}",
+            GameMode = GameModes.Blackjack,
+            MinPlayers = 1,
+            // what the client creates rooms with
+            GameConfig = """
+                {
+                    "startingBalance": 5000,
+                    "minBet": 25,
+                    "bettingTimeLimit": "00:01:00",
+                    "turnTimeLimit": "00:00:30",
+                    "maxBet": 500,
+                    "deckCount": 2,
+                    "dealerHitsSoft17": true,
+                    "blackjackPayout": "SixToFive",
+                    "lateSurrender": false,
+                    "maxSplits": 1,
+                    "resplitAces": true,
+                    "doubleAfterSplit": false
+                }
+                """,
+            StartedAt = null,
+        };
+        var expected = new BlackjackConfig
+        {
+            StartingBalance = 5000,
+            MinBet = 25,
+            MaxBet = 500,
+            DeckCount = 2,
+            DealerHitsSoft17 = true,
+            BlackjackPayout = BlackjackPayout.SixToFive,
+            LateSurrender = false,
+            MaxSplits = 1,
+            ResplitAces = true,
+            DoubleAfterSplit = false,
+        };
+
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+        _roomPlayerRepositoryMock.Setup(r => r.GetPlayerCountInRoomAsync(roomId)).ReturnsAsync(1);
+
+        // Act
+        await _roomService.StartGameAsync(roomId, null);
+
+        // Assert
+        _mockBlackjackGameService.Verify(
+            bs => bs.StartGameAsync(roomId, It.Is<GameConfig>(c => c.Equals(expected))),
+            Times.Once
+        );
+    }
+
+    [Theory]
+    [InlineData("""{"deckCount": 0}""")]
+    [InlineData("""{"reshufflePenetration": 2}""")]
+    [InlineData("""{"minBet": 100, "maxBet": 50}""")]
+    public async Task StartGameAsync_ThrowsBadRequestException_WhenConfigIsInvalid(string config)
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var room = RepositoryTestHelper.CreateTestRoom(
+            id: roomId,
+            gameMode: GameModes.Blackjack,
+            minPlayers: 1
+        );
+
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+        _roomPlayerRepositoryMock.Setup(r => r.GetPlayerCountInRoomAsync(roomId)).ReturnsAsync(1);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _roomService.StartGameAsync(roomId, config)
+        );
+        _mockBlackjackGameService.Verify(
+            s => s.StartGameAsync(It.IsAny<Guid>(), It.IsAny<GameConfig>()),
+            Times.Never
+        );
+    }
+
     [Fact]
     public async Task StartGameAsync_ThrowsNotFoundException_WhenRoomDoesNotExist()
     {
@@ -1088,6 +1204,9 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
             _roomPlayerRepositoryMock.Object,
             _dbContext,
             _mockGameServices, // Empty game services
+            _idempotencyService,
+            new RoomLockService(),
+            _lobbyServiceMock.Object,
             _loggerMock.Object
         );
 
@@ -1133,11 +1252,105 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
 
         // Assert
         _mockBlackjackGameService.Verify(
-            s => s.PerformActionAsync(roomId, playerId, action, data),
+            s => s.PerformActionAsync(roomId, playerId, action, data, null),
+            Times.Once
+        );
+    }
+
+    [Fact]
+    public async Task PerformPlayerActionAsync_AppliesRepeatedIdempotencyKeyOnce()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        var data = JsonDocument.Parse("{\"amount\":100}").RootElement;
+
+        var room = RepositoryTestHelper.CreateTestRoom(id: roomId, gameMode: GameModes.Blackjack);
+        room.StartedAt = DateTime.UtcNow.AddMinutes(-5);
+
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+        _roomPlayerRepositoryMock
+            .Setup(r => r.IsPlayerInRoomAsync(roomId, playerId))
+            .ReturnsAsync(true);
+
+        // Act
+        await _roomService.PerformPlayerActionAsync(roomId, playerId, "bet", data, "key-1");
+        await _roomService.PerformPlayerActionAsync(roomId, playerId, "bet", data, "key-1");
+        await _roomService.PerformPlayerActionAsync(roomId, playerId, "bet", data, "key-2");
+
+        // Assert
+        _mockBlackjackGameService.Verify(
+            s => s.PerformActionAsync(roomId, playerId, "bet", data, "key-1"),
+            Times.Once
+        );
+        _mockBlackjackGameService.Verify(
+            s => s.PerformActionAsync(roomId, playerId, "bet", data, "key-2"),
             Times.Once
         );
     }
 
+    [Fact]
+    public async Task PerformPlayerActionAsync_BotsWaitUntilThePlayersActionIsDone()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        var data = JsonDocument.Parse("{\"amount\":100}").RootElement;
+
+        var room = RepositoryTestHelper.CreateTestRoom(id: roomId, gameMode: GameModes.Blackjack);
+        room.StartedAt = DateTime.UtcNow.AddMinutes(-5);
+
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+        _roomPlayerRepositoryMock
+            .Setup(r => r.IsPlayerInRoomAsync(roomId, playerId))
+            .ReturnsAsync(true);
+
+        var betPlaced = new TaskCompletionSource();
+        _mockBlackjackGameService
+            .Setup(s => s.PerformActionAsync(roomId, playerId, "bet", data, null))
+            .Returns(betPlaced.Task);
+
+        // Act: the bots' turn comes while the player's bet is still being placed
+        var bet = _roomService.PerformPlayerActionAsync(roomId, playerId, "bet", data);
+        var bots = _roomService.PlayBotsAsync(roomId);
+        await Task.Delay(100);
+
+        // Assert
+        _mockBlackjackGameService.Verify(s => s.PlayBotsAsync(roomId), Times.Never);
+
+        betPlaced.SetResult();
+        await Task.WhenAll(bet, bots);
+        _mockBlackjackGameService.Verify(s => s.PlayBotsAsync(roomId), Times.Once);
+    }
+
+    [Fact]
+    public async Task PerformPlayerActionAsync_ThrowsBadRequestException_WhenIdempotencyKeyTooLong()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var playerId = Guid.NewGuid();
+        var data = JsonDocument.Parse("{}").RootElement;
+
+        var room = RepositoryTestHelper.CreateTestRoom(id: roomId, gameMode: GameModes.Blackjack);
+        room.StartedAt = DateTime.UtcNow.AddMinutes(-5);
+
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+        _roomPlayerRepositoryMock
+            .Setup(r => r.IsPlayerInRoomAsync(roomId, playerId))
+            .ReturnsAsync(true);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _roomService.PerformPlayerActionAsync(
+                roomId,
+                playerId,
+                "hit",
+                data,
+                new string('k', RoomService.MaxIdempotencyKeyLength + 1)
+            )
+        );
+    }
+
     [Fact]
     public async Task PerformPlayerActionAsync_ThrowsNotFoundException_WhenRoomDoesNotExist()
     {
@@ -1158,7 +1371,8 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
                     It.IsAny<Guid>(),
                     It.IsAny<Guid>(),
                     It.IsAny<string>(),
-                    It.IsAny<JsonElement>()
+                    It.IsAny<JsonElement>(),
+                    It.IsAny<string?>()
                 ),
             Times.Never
         );
@@ -1186,7 +1400,8 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
                     It.IsAny<Guid>(),
                     It.IsAny<Guid>(),
                     It.IsAny<string>(),
-                    It.IsAny<JsonElement>()
+                    It.IsAny<JsonElement>(),
+                    It.IsAny<string?>()
                 ),
             Times.Never
         );
@@ -1217,7 +1432,8 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
                     It.IsAny<Guid>(),
                     It.IsAny<Guid>(),
                     It.IsAny<string>(),
-                    It.IsAny<JsonElement>()
+                    It.IsAny<JsonElement>(),
+                    It.IsAny<string?>()
                 ),
             Times.Never
         );
@@ -1248,7 +1464,8 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
                     It.IsAny<Guid>(),
                     It.IsAny<Guid>(),
                     It.IsAny<string>(),
-                    It.IsAny<JsonElement>()
+                    It.IsAny<JsonElement>(),
+                    It.IsAny<string?>()
                 ),
             Times.Never
         );
@@ -1290,6 +1507,7 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
             r => r.GetPlayerCountInRoomAsync(It.IsAny<Guid>()),
             Times.Never
         ); // RoomService no longer checks player count
+        _lobbyServiceMock.Verify(l => l.BroadcastRoomChangedAsync(roomId, false), Times.Once); // occupancy changed
     }
 
     [Fact]
@@ -1423,4 +1641,181 @@ public class RoomServiceTest : IDisposable // Implement IDisposable for DbContex
     }
 
     #endregion
+
+    #region Host Controls Tests
+
+    [Fact]
+    public async Task KickPlayerAsync_ThrowsForbiddenException_WhenNotHost()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var room = RepositoryTestHelper.CreateTestRoom(id: roomId, gameMode: GameModes.Blackjack);
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ForbiddenException>(() =>
+            _roomService.KickPlayerAsync(roomId, Guid.NewGuid(), Guid.NewGuid())
+        );
+        _mockBlackjackGameService.Verify(
+            s => s.KickPlayerAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<bool>()),
+            Times.Never
+        );
+    }
+
+    [Fact]
+    public async Task KickPlayerAsync_DelegatesToGameService_WhenHost()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var hostId = Guid.NewGuid();
+        var userId = Guid.NewGuid();
+        var room = RepositoryTestHelper.CreateTestRoom(
+            id: roomId,
+            hostId: hostId,
+            gameMode: GameModes.Blackjack
+        );
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+
+        // Act
+        await _roomService.KickPlayerAsync(roomId, hostId, userId, ban: true);
+
+        // Assert
+        _mockBlackjackGameService.Verify(s => s.KickPlayerAsync(roomId, userId, true), Times.Once);
+        _lobbyServiceMock.Verify(l => l.BroadcastRoomChangedAsync(roomId, false), Times.Once);
+    }
+
+    [Fact]
+    public async Task KickPlayerAsync_ThrowsBadRequestException_WhenHostKicksThemselves()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var hostId = Guid.NewGuid();
+        var room = RepositoryTestHelper.CreateTestRoom(
+            id: roomId,
+            hostId: hostId,
+            gameMode: GameModes.Blackjack
+        );
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _roomService.KickPlayerAsync(roomId, hostId, hostId)
+        );
+    }
+
+    [Fact]
+    public async Task TransferHostAsync_DelegatesToGameService_WhenHost()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var hostId = Guid.NewGuid();
+        var newHostId = Guid.NewGuid();
+        var room = RepositoryTestHelper.CreateTestRoom(
+            id: roomId,
+            hostId: hostId,
+            gameMode: GameModes.Blackjack
+        );
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+
+        // Act
+        await _roomService.TransferHostAsync(roomId, hostId, newHostId);
+
+        // Assert
+        _mockBlackjackGameService.Verify(s => s.TransferHostAsync(roomId, newHostId), Times.Once);
+    }
+
+    [Fact]
+    public async Task PauseGameAsync_ThrowsBadRequestException_WhenGameNotStarted()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var hostId = Guid.NewGuid();
+        var room = RepositoryTestHelper.CreateTestRoom(
+            id: roomId,
+            hostId: hostId,
+            gameMode: GameModes.Blackjack
+        );
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<BadRequestException>(() =>
+            _roomService.PauseGameAsync(roomId, hostId)
+        );
+        _mockBlackjackGameService.Verify(s => s.PauseAsync(It.IsAny<Guid>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task UpdateBlackjackConfigAsync_KeepsSettingsTheHostCannotChange()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var hostId = Guid.NewGuid();
+        var room = RepositoryTestHelper.CreateTestRoom(
+            id: roomId,
+            hostId: hostId,
+            gameMode: GameModes.Blackjack
+        );
+        room.StartedAt = DateTimeOffset.UtcNow;
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+        _mockBlackjackGameService
+            .Setup(s => s.GetConfigAsync(roomId))
+            .ReturnsAsync(new BlackjackConfig { StartingBalance = 5000, MinBet = 10 });
+
+        var dto = new UpdateBlackjackConfigDTO
+        {
+            MinBet = 100,
+            BettingTimeLimit = TimeSpan.FromSeconds(45),
+            TurnTimeLimit = TimeSpan.FromSeconds(15),
+            AllowBalanceReset = false,
+        };
+
+        // Act
+        await _roomService.UpdateBlackjackConfigAsync(roomId, hostId, dto);
+
+        // Assert
+        _mockBlackjackGameService.Verify(
+            s =>
+                s.UpdateConfigAsync(
+                    roomId,
+                    It.Is<BlackjackConfig>(c =>
+                        c.StartingBalance == 5000
+                        && c.MinBet == 100
+                        && c.BettingTimeLimit == TimeSpan.FromSeconds(45)
+                        && c.TurnTimeLimit == TimeSpan.FromSeconds(15)
+                        && !c.AllowBalanceReset
+                    )
+                ),
+            Times.Once
+        );
+        _lobbyServiceMock.Verify(
+            l => l.BroadcastRoomChangedAsync(It.IsAny<Guid>(), It.IsAny<bool>()),
+            Times.Never
+        ); // the new min bet only shows once the next round starts
+    }
+
+    [Fact]
+    public async Task UpdateGameConfigAsync_StartedGame_WaitsForNextRound()
+    {
+        // Arrange
+        var roomId = Guid.NewGuid();
+        var room = RepositoryTestHelper.CreateTestRoom(id: roomId, gameMode: GameModes.Blackjack);
+        room.StartedAt = DateTimeOffset.UtcNow;
+        _roomRepositoryMock.Setup(r => r.GetByIdAsync(roomId)).ReturnsAsync(room);
+
+        // Act
+        var result = await _roomService.UpdateGameConfigAsync(roomId, "{\"minBet\":25}");
+
+        // Assert
+        result.Should().BeTrue();
+        _mockBlackjackGameService.Verify(
+            s => s.UpdateConfigAsync(roomId, It.Is<BlackjackConfig>(c => c.MinBet == 25)),
+            Times.Once
+        );
+        _roomRepositoryMock.Verify(
+            r => r.UpdateGameConfigAsync(It.IsAny<Guid>(), It.IsAny<string>()),
+            Times.Never
+        );
+    }
+
+    #endregion
 }
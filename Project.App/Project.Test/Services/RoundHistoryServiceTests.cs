@@ -0,0 +1,166 @@
+using System.Text.Json;
+using FluentAssertions;
+using Project.Api.Data;
+using Project.Api.DTOs;
+using Project.Api.Models;
+using Project.Api.Repositories;
+using Project.Api.Services;
+using Project.Api.Utilities;
+using Project.Test.Helpers;
+
+namespace Project.Test.Services;
+
+public class RoundHistoryServiceTests : IDisposable
+{
+    private readonly AppDbContext _context = RepositoryTestHelper.CreateInMemoryContext();
+    private readonly RoundHistoryService _service;
+
+    private readonly Guid _hostId = Guid.NewGuid();
+    private readonly Guid _roomId = Guid.NewGuid();
+
+    public RoundHistoryServiceTests()
+    {
+        _service = new RoundHistoryService(
+            new RoundRecordRepository(_context),
+            new RoomRepository(_context)
+        );
+
+        _context.Users.Add(RepositoryTestHelper.CreateTestUser(_hostId));
+        _context.Rooms.Add(RepositoryTestHelper.CreateTestRoom(_roomId, _hostId));
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private RoundRecord AddRound(int roundNumber, Guid? roomId = null)
+    {
+        var round = new RoundRecord
+        {
+            Id = Guid.NewGuid(),
+            RoomId = roomId ?? _roomId,
+            RoundNumber = roundNumber,
+            FinishedAt = DateTimeOffset.UtcNow.AddMinutes(roundNumber),
+            DealerHand = JsonSerializer.Serialize(
+                new List<CardDTO>
+                {
+                    new()
+                    {
+                        Code = "KS",
+                        Value = "KING",
+                        Suit = "SPADES",
+                    },
+                    new()
+                    {
+                        Code = "7H",
+                        Value = "7",
+                        Suit = "HEARTS",
+                    },
+                }
+            ),
+            DealerScore = 17,
+            Hands = JsonSerializer.Serialize(
+                new List<RoundHandDTO>
+                {
+                    new()
+                    {
+                        PlayerId = _hostId,
+                        PlayerName = "Test User",
+                        Bet = 10,
+                        Score = 18,
+                        Payout = 20,
+                    },
+                }
+            ),
+            Events = JsonSerializer.Serialize(
+                new List<RoundEventDTO>
+                {
+                    new()
+                    {
+                        Id = 1,
+                        Event = "player_action",
+                        Data = JsonSerializer.SerializeToElement(new { action = "stand" }),
+                    },
+                }
+            ),
+        };
+        _context.RoundRecords.Add(round);
+        _context.SaveChanges();
+        return round;
+    }
+
+    [Fact]
+    public async Task GetRoundsAsync_ReturnsLatestRoundsFirst()
+    {
+        AddRound(1);
+        AddRound(3);
+        AddRound(2);
+
+        var result = await _service.GetRoundsAsync(_roomId, page: 1, pageSize: 2);
+
+        result.TotalCount.Should().Be(3);
+        result.Items.Select(r => r.RoundNumber).Should().Equal(3, 2);
+        result.Items[0].DealerScore.Should().Be(17);
+        result.Items[0].DealerHand.Select(c => c.Code).Should().Equal("KS", "7H");
+        result.Items[0].Hands.Should().ContainSingle().Which.Payout.Should().Be(20);
+    }
+
+    [Fact]
+    public async Task GetRoundsAsync_OnlyListsTheRoomsRounds()
+    {
+        var otherRoomId = Guid.NewGuid();
+        _context.Rooms.Add(RepositoryTestHelper.CreateTestRoom(otherRoomId, _hostId));
+        AddRound(1);
+        AddRound(1, otherRoomId);
+
+        var result = await _service.GetRoundsAsync(_roomId, page: 1, pageSize: 10);
+
+        result.Items.Should().ContainSingle().Which.RoomId.Should().Be(_roomId);
+    }
+
+    [Theory]
+    [InlineData(0, 10)]
+    [InlineData(1, 0)]
+    [InlineData(1, RoundHistoryService.MaxPageSize + 1)]
+    public async Task GetRoundsAsync_Throws_ForInvalidPage(int page, int pageSize)
+    {
+        var act = () => _service.GetRoundsAsync(_roomId, page, pageSize);
+
+        await act.Should().ThrowAsync<BadRequestException>();
+    }
+
+    [Fact]
+    public async Task GetRoundsAsync_Throws_WhenRoomDoesNotExist()
+    {
+        var act = () => _service.GetRoundsAsync(Guid.NewGuid(), 1, 10);
+
+        await act.Should().ThrowAsync<NotFoundException>();
+    }
+
+    [Fact]
+    public async Task GetRoundAsync_ReturnsEvents()
+    {
+        var round = AddRound(1);
+
+        var result = await _service.GetRoundAsync(_roomId, round.Id);
+
+        result.RoundNumber.Should().Be(1);
+        var roundEvent = result.Events.Should().ContainSingle().Subject;
+        roundEvent.Event.Should().Be("player_action");
+        roundEvent.Data.GetProperty("action").GetString().Should().Be("stand");
+    }
+
+    [Fact]
+    public async Task GetRoundAsync_Throws_WhenRoundIsFromAnotherRoom()
+    {
+        var otherRoomId = Guid.NewGuid();
+        _context.Rooms.Add(RepositoryTestHelper.CreateTestRoom(otherRoomId, _hostId));
+        var round = AddRound(1, otherRoomId);
+
+        var act = () => _service.GetRoundAsync(_roomId, round.Id);
+
+        await act.Should().ThrowAsync<NotFoundException>();
+    }
+}